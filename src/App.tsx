@@ -3,36 +3,59 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { useEffect } from "react";
+import { RequireAuth } from "@/components/auth/RequireAuth";
+import { useAuthStore } from "@/store/useAuthStore";
 import Dashboard from "./pages/Dashboard";
 import GradesPage from "./pages/GradesPage";
 import StudentsPage from "./pages/StudentsPage";
+import StudentProfilePage from "./pages/StudentProfilePage";
 import AssessmentsPage from "./pages/AssessmentsPage";
 import ReportsPage from "./pages/ReportsPage";
+import ReportEditorPage from "./pages/ReportEditorPage";
+import ReportViewPage from "./pages/ReportViewPage";
+import ClassEntryPage from "./pages/ClassEntryPage";
+import MyReportsPage from "./pages/MyReportsPage";
+import AnalyticsPage from "./pages/AnalyticsPage";
 import SettingsPage from "./pages/SettingsPage";
 import SharedReportPage from "./pages/SharedReportPage";
+import LoginPage from "./pages/LoginPage";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
-const App = () => (
-  <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Dashboard />} />
-          <Route path="/grades" element={<GradesPage />} />
-          <Route path="/students" element={<StudentsPage />} />
-          <Route path="/assessments" element={<AssessmentsPage />} />
-          <Route path="/reports" element={<ReportsPage />} />
-          <Route path="/settings" element={<SettingsPage />} />
-          <Route path="/report/:shareToken" element={<SharedReportPage />} />
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
-  </QueryClientProvider>
-);
+const App = () => {
+  useEffect(() => useAuthStore.getState().initialize(), []);
+
+  return (
+    <QueryClientProvider client={queryClient}>
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <BrowserRouter>
+          <Routes>
+            <Route path="/login" element={<LoginPage />} />
+            <Route path="/" element={<RequireAuth><Dashboard /></RequireAuth>} />
+            <Route path="/grades" element={<RequireAuth roles={["admin"]}><GradesPage /></RequireAuth>} />
+            <Route path="/students" element={<RequireAuth><StudentsPage /></RequireAuth>} />
+            <Route path="/students/:studentId" element={<RequireAuth><StudentProfilePage /></RequireAuth>} />
+            <Route path="/assessments" element={<RequireAuth roles={["admin"]}><AssessmentsPage /></RequireAuth>} />
+            <Route path="/reports" element={<RequireAuth><ReportsPage /></RequireAuth>} />
+            <Route path="/reports/new" element={<RequireAuth><ReportEditorPage /></RequireAuth>} />
+            <Route path="/reports/class-entry" element={<RequireAuth><ClassEntryPage /></RequireAuth>} />
+            <Route path="/reports/:reportId" element={<RequireAuth><ReportViewPage /></RequireAuth>} />
+            <Route path="/reports/:reportId/edit" element={<RequireAuth><ReportEditorPage /></RequireAuth>} />
+            <Route path="/my-reports" element={<RequireAuth><MyReportsPage /></RequireAuth>} />
+            <Route path="/analytics" element={<RequireAuth><AnalyticsPage /></RequireAuth>} />
+            <Route path="/settings" element={<RequireAuth roles={["admin"]}><SettingsPage /></RequireAuth>} />
+            {/* Parents open shared reports without signing in */}
+            <Route path="/report/:shareToken" element={<SharedReportPage />} />
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </TooltipProvider>
+    </QueryClientProvider>
+  );
+};
 
 export default App;
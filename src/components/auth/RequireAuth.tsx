@@ -0,0 +1,55 @@
+import { ReactNode } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { Loader2, ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { useAuthStore } from '@/store/useAuthStore';
+import type { StaffRole } from '@/types';
+
+interface RequireAuthProps {
+  children: ReactNode;
+  // Roles allowed on this route; any signed-in staff member when omitted
+  roles?: StaffRole[];
+}
+
+export function RequireAuth({ children, roles }: RequireAuthProps) {
+  const location = useLocation();
+  const { session, profile, isInitialized, signOut } = useAuthStore();
+
+  if (!isInitialized) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center text-muted-foreground">
+        <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+        Loading...
+      </div>
+    );
+  }
+
+  if (!session) {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+
+  // Signed in, but no staff profile (e.g. the account was removed from staff)
+  if (!profile) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Card className="max-w-md">
+          <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+            <ShieldAlert className="mb-4 h-12 w-12 text-muted-foreground/50" />
+            <h3 className="mb-2 font-semibold text-xl">No Staff Access</h3>
+            <p className="mb-4 text-sm text-muted-foreground">
+              This account is not linked to a staff profile. Please contact the school administrator.
+            </p>
+            <Button variant="outline" size="sm" onClick={() => signOut()}>Sign out</Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (roles && !roles.includes(profile.role)) {
+    return <Navigate to="/" replace />;
+  }
+
+  return <>{children}</>;
+}
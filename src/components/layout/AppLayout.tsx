@@ -7,11 +7,25 @@ import {
   Users, 
   ClipboardList, 
   FileText,
+  ClipboardCheck,
+  BarChart3,
   Calendar,
-  Settings
+  Settings,
+  Loader2,
+  AlertTriangle,
+  LogOut
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useAppStore } from '@/store/useAppStore';
+import { useAuthStore } from '@/store/useAuthStore';
+import { canManageSchool } from '@/lib/permissions';
+import { clearDrafts, readDrafts } from '@/lib/reportDrafts';
+import { STAFF_ROLE_LABELS, type StaffRole } from '@/types';
+import { useAppData } from '@/hooks/use-app-data';
+import { useDraftSync } from '@/hooks/use-draft-sync';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { toast } from 'sonner';
 import {
   Select,
   SelectContent,
@@ -24,17 +38,43 @@ interface AppLayoutProps {
   children: ReactNode;
 }
 
-const navItems = [
+// roles: who sees the link (matches the route guards in App.tsx); everyone when omitted
+const navItems: { path: string; label: string; icon: typeof LayoutDashboard; roles?: StaffRole[] }[] = [
   { path: '/', label: 'Dashboard', icon: LayoutDashboard },
-  { path: '/grades', label: 'Grades', icon: GraduationCap },
-  { path: '/assessments', label: 'Assessments', icon: ClipboardList },
+  { path: '/grades', label: 'Grades', icon: GraduationCap, roles: ['admin'] },
+  { path: '/assessments', label: 'Assessments', icon: ClipboardList, roles: ['admin'] },
   { path: '/students', label: 'Students', icon: Users },
   { path: '/reports', label: 'Reports', icon: FileText },
+  { path: '/my-reports', label: 'My Reports', icon: ClipboardCheck },
+  { path: '/analytics', label: 'Analytics', icon: BarChart3 },
 ];
 
 export function AppLayout({ children }: AppLayoutProps) {
   const location = useLocation();
-  const { schoolYears, activeSchoolYearId, setActiveSchoolYear } = useAppStore();
+  const { schoolYears, activeSchoolYearId, setActiveSchoolYear, clearData } = useAppStore();
+  const { profile, signOut } = useAuthStore();
+  const { hasLoaded, loadError, retry } = useAppData();
+  useDraftSync();
+
+  const visibleNavItems = navItems.filter((item) => !item.roles || (profile && item.roles.includes(profile.role)));
+
+  const handleSignOut = async () => {
+    // Offline changes wait for the connection rather than being left for the next person to sync
+    if (profile && readDrafts(profile.id).some((draft) => draft.queued)) {
+      toast.error('Some offline changes are not saved yet', {
+        description: 'Connect to the internet so they can be saved, then sign out.',
+      });
+      return;
+    }
+    try {
+      await signOut();
+      if (profile) clearDrafts(profile.id);
+      clearData();
+    } catch (err) {
+      console.error('Sign-out error:', err);
+      toast.error('Failed to sign out. Please try again.');
+    }
+  };
 
   return (
     <div className="min-h-screen bg-background">
@@ -71,6 +111,19 @@ export function AppLayout({ children }: AppLayoutProps) {
                 ))}
               </SelectContent>
             </Select>
+
+            {/* Signed-in staff member */}
+            {profile && (
+              <div className="ml-3 flex items-center gap-3 border-l border-border pl-4">
+                <div className="text-right">
+                  <p className="text-sm font-medium leading-tight">{profile.fullName}</p>
+                  <p className="text-xs text-muted-foreground">{STAFF_ROLE_LABELS[profile.role]}</p>
+                </div>
+                <Button variant="ghost" size="icon" onClick={handleSignOut} title="Sign out">
+                  <LogOut className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
           </div>
         </div>
       </header>
@@ -79,8 +132,10 @@ export function AppLayout({ children }: AppLayoutProps) {
         {/* Sidebar Navigation */}
         <aside className="fixed left-0 top-16 z-40 h-[calc(100vh-4rem)] w-64 border-r border-border bg-sidebar p-4">
           <nav className="flex flex-col gap-1">
-            {navItems.map((item) => {
-              const isActive = location.pathname === item.path;
+            {visibleNavItems.map((item) => {
+              // Report pages live under /reports/:id, so Reports stays highlighted there
+              const isActive =
+                location.pathname === item.path || (item.path !== '/' && location.pathname.startsWith(`${item.path}/`));
               const Icon = item.icon;
 
               return (
@@ -103,18 +158,20 @@ export function AppLayout({ children }: AppLayoutProps) {
             })}
           </nav>
 
-          {/* Bottom settings */}
-          <div className="absolute bottom-4 left-4 right-4">
-            <Link to="/settings">
-              <motion.div
-                whileHover={{ x: 4 }}
-                className="flex items-center gap-3 rounded-lg px-3 py-2.5 text-sm font-medium text-muted-foreground transition-colors hover:bg-sidebar-accent hover:text-sidebar-accent-foreground"
-              >
-                <Settings className="h-4 w-4" />
-                Settings
-              </motion.div>
-            </Link>
-          </div>
+          {/* Bottom settings (admins only) */}
+          {canManageSchool(profile) && (
+            <div className="absolute bottom-4 left-4 right-4">
+              <Link to="/settings">
+                <motion.div
+                  whileHover={{ x: 4 }}
+                  className="flex items-center gap-3 rounded-lg px-3 py-2.5 text-sm font-medium text-muted-foreground transition-colors hover:bg-sidebar-accent hover:text-sidebar-accent-foreground"
+                >
+                  <Settings className="h-4 w-4" />
+                  Settings
+                </motion.div>
+              </Link>
+            </div>
+          )}
         </aside>
 
         {/* Main Content */}
@@ -125,7 +182,25 @@ export function AppLayout({ children }: AppLayoutProps) {
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.2 }}
           >
-            {children}
+            {loadError ? (
+              <Card className="mx-auto max-w-md border-destructive/50">
+                <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+                  <AlertTriangle className="mb-4 h-12 w-12 text-destructive/70" />
+                  <h3 className="mb-2 font-semibold">{loadError}</h3>
+                  <p className="mb-4 text-sm text-muted-foreground">
+                    Check your connection and try again.
+                  </p>
+                  <Button onClick={retry} size="sm">Try again</Button>
+                </CardContent>
+              </Card>
+            ) : hasLoaded ? (
+              children
+            ) : (
+              <div className="flex items-center justify-center py-24 text-muted-foreground">
+                <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                Loading school data...
+              </div>
+            )}
           </motion.div>
         </main>
       </div>
@@ -3,7 +3,7 @@ import { Sparkles, Star, Check, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 
-interface AIRewriteButtonsProps {
+export interface AIRewriteButtonsProps {
   sourceText: string;
   aiRewrittenText: string;
   loadingKey: string;
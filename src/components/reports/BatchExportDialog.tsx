@@ -0,0 +1,252 @@
+import { useMemo, useState } from 'react';
+import { Archive, CheckCircle, Loader2, UserX } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAppStore } from '@/store/useAppStore';
+import { REPORT_STATUS_LABELS } from '@/lib/reportWorkflow';
+import { buildReportPdfZip, downloadBlob, type ReportPdfExportItem } from '@/lib/data/reportPdf';
+import { toast } from 'sonner';
+import type { ReportStatus, Student } from '@/types';
+
+interface BatchExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ALL = 'all';
+
+interface ExportSummary {
+  exported: number;
+  failed: ReportPdfExportItem[];
+  skipped: Student[];
+}
+
+export function BatchExportDialog({ open, onOpenChange }: BatchExportDialogProps) {
+  const { grades, students, reports, activeSchoolYearId } = useAppStore();
+  const [gradeId, setGradeId] = useState('');
+  const [term, setTerm] = useState(ALL);
+  const [status, setStatus] = useState<ReportStatus | typeof ALL>(ALL);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [summary, setSummary] = useState<ExportSummary | null>(null);
+
+  const isExporting = !!progress;
+  const grade = grades.find((g) => g.id === gradeId);
+
+  const gradeStudents = useMemo(
+    () =>
+      students
+        .filter((s) => s.schoolYearId === activeSchoolYearId && s.gradeId === gradeId)
+        .sort((a, b) => `${a.lastName} ${a.firstName}`.localeCompare(`${b.lastName} ${b.firstName}`)),
+    [students, activeSchoolYearId, gradeId]
+  );
+
+  const gradeReports = useMemo(() => {
+    const studentIds = new Set(gradeStudents.map((s) => s.id));
+    return reports.filter((r) => r.schoolYearId === activeSchoolYearId && studentIds.has(r.studentId));
+  }, [reports, gradeStudents, activeSchoolYearId]);
+
+  const terms = [...new Set(gradeReports.map((r) => r.term))].sort();
+
+  // One PDF per matching report, in student order; students without one are skipped
+  const { items, skipped } = useMemo(() => {
+    const matching = gradeReports.filter(
+      (r) => (term === ALL || r.term === term) && (status === ALL || r.status === status)
+    );
+    const items: ReportPdfExportItem[] = [];
+    const skipped: Student[] = [];
+    for (const student of gradeStudents) {
+      const studentReports = matching.filter((r) => r.studentId === student.id);
+      if (studentReports.length === 0) skipped.push(student);
+      studentReports.forEach((report) => items.push({ report, student }));
+    }
+    return { items, skipped };
+  }, [gradeReports, gradeStudents, term, status]);
+
+  const handleOpenChange = (value: boolean) => {
+    if (isExporting) return;
+    if (!value) setSummary(null);
+    onOpenChange(value);
+  };
+
+  const handleExport = async () => {
+    if (!grade || items.length === 0) return;
+    setSummary(null);
+    setProgress({ done: 0, total: items.length });
+    try {
+      const result = await buildReportPdfZip(items, (done, total) => setProgress({ done, total }));
+      if (result.exported > 0) {
+        const parts = [grade.name, term === ALL ? '' : term, status === ALL ? '' : REPORT_STATUS_LABELS[status]];
+        const zipName = parts.filter(Boolean).join('_').replace(/[^\p{L}\p{N}._-]+/gu, '_');
+        downloadBlob(result.zip, `${zipName}.zip`);
+      }
+      setSummary({ exported: result.exported, failed: result.failed, skipped });
+      if (result.failed.length > 0) {
+        toast.error(`${result.failed.length} report${result.failed.length > 1 ? 's' : ''} could not be exported`);
+      } else {
+        toast.success(`Exported ${result.exported} report${result.exported !== 1 ? 's' : ''}`);
+      }
+    } catch (error) {
+      console.error('Batch export error:', error);
+      toast.error('Failed to create the ZIP file');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const studentName = (student: Student) => `${student.lastName}, ${student.firstName}`;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Archive className="h-5 w-5" />
+            Export All Reports
+          </DialogTitle>
+          <DialogDescription>
+            Download one PDF per student for a grade, bundled in a ZIP file.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Grade</label>
+            <Select
+              value={gradeId}
+              onValueChange={(value) => {
+                setGradeId(value);
+                setTerm(ALL);
+                setSummary(null);
+              }}
+              disabled={isExporting}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select a grade" />
+              </SelectTrigger>
+              <SelectContent>
+                {[...grades].sort((a, b) => a.order - b.order).map((g) => (
+                  <SelectItem key={g.id} value={g.id}>
+                    {g.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Term</label>
+              <Select value={term} onValueChange={setTerm} disabled={isExporting || !grade}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All terms</SelectItem>
+                  {terms.map((t) => (
+                    <SelectItem key={t} value={t}>
+                      {t}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Status</label>
+              <Select
+                value={status}
+                onValueChange={(value) => setStatus(value as ReportStatus | typeof ALL)}
+                disabled={isExporting || !grade}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Any status</SelectItem>
+                  {(Object.keys(REPORT_STATUS_LABELS) as ReportStatus[]).map((s) => (
+                    <SelectItem key={s} value={s}>
+                      {REPORT_STATUS_LABELS[s]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {grade && !summary && (
+            <p className="text-sm text-muted-foreground">
+              {items.length} report{items.length !== 1 ? 's' : ''} for {gradeStudents.length} student
+              {gradeStudents.length !== 1 ? 's' : ''}
+              {skipped.length > 0 && ` · ${skipped.length} without a matching report`}
+            </p>
+          )}
+
+          {progress && (
+            <div className="space-y-2">
+              <Progress value={(progress.done / progress.total) * 100} className="h-2" />
+              <p className="text-xs text-muted-foreground">
+                Creating PDF {Math.min(progress.done + 1, progress.total)} of {progress.total}...
+              </p>
+            </div>
+          )}
+
+          {summary && (
+            <div className="rounded-lg border border-border p-3 space-y-3 text-sm">
+              <p className="flex items-center gap-2 font-medium">
+                <CheckCircle className="h-4 w-4 text-primary" />
+                {summary.exported} PDF{summary.exported !== 1 ? 's' : ''} exported
+              </p>
+              {summary.failed.length > 0 && (
+                <div>
+                  <p className="font-medium text-destructive">Could not be exported</p>
+                  <ul className="mt-1 text-muted-foreground">
+                    {summary.failed.map(({ report, student }) => (
+                      <li key={report.id}>{studentName(student)} ({report.term})</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {summary.skipped.length > 0 && (
+                <div>
+                  <p className="flex items-center gap-2 font-medium">
+                    <UserX className="h-4 w-4" />
+                    Skipped — no matching report
+                  </p>
+                  <ul className="mt-1 max-h-40 overflow-y-auto text-muted-foreground">
+                    {summary.skipped.map((student) => (
+                      <li key={student.id}>{studentName(student)}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isExporting}>
+            Close
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting || items.length === 0} className="gap-2">
+            {isExporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Archive className="h-4 w-4" />}
+            Export {items.length > 0 ? items.length : ''} PDF{items.length !== 1 ? 's' : ''}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,70 @@
+import { MessageSquare } from 'lucide-react';
+import { toast } from 'sonner';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+import { AIRewriteButtons, type AIRewriteButtonsProps } from '@/components/reports/AIRewriteButtons';
+
+interface GeneralCommentSectionProps {
+  comment: string;
+  aiComment: string;
+  onCommentChange: (comment: string) => void;
+  onAICommentChange: (comment: string) => void;
+  disabled: boolean;
+  studentName: string;
+  onRewrite: AIRewriteButtonsProps['onRewrite'];
+  aiLoading: AIRewriteButtonsProps['isLoading'];
+}
+
+export function GeneralCommentSection({
+  comment,
+  aiComment,
+  onCommentChange,
+  onAICommentChange,
+  disabled,
+  studentName,
+  onRewrite,
+  aiLoading,
+}: GeneralCommentSectionProps) {
+  const acceptAIComment = () => {
+    onCommentChange(aiComment);
+    onAICommentChange('');
+    toast.success('AI comment accepted!');
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <MessageSquare className="h-5 w-5" />
+          General Comment
+        </CardTitle>
+        <CardDescription>
+          Overall feedback for the student's report
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <fieldset disabled={disabled} className="space-y-3">
+          <Textarea
+            placeholder="Write your overall feedback for the student..."
+            className="min-h-[100px]"
+            value={comment}
+            onChange={(e) => onCommentChange(e.target.value)}
+          />
+
+          <AIRewriteButtons
+            sourceText={comment}
+            aiRewrittenText={aiComment}
+            loadingKey="general"
+            studentName={studentName}
+            onRewrite={onRewrite}
+            onRewriteComplete={onAICommentChange}
+            onAccept={acceptAIComment}
+            isLoading={aiLoading}
+            aiTextareaClassName="min-h-[100px]"
+            onAITextChange={onAICommentChange}
+          />
+        </fieldset>
+      </CardContent>
+    </Card>
+  );
+}
@@ -9,12 +9,14 @@ interface ReflectionsSectionProps {
   reflections?: ReportReflection;
   onUpdate: (reflection: Partial<ReportReflection>) => void;
   isSharedView?: boolean;
+  readOnly?: boolean;
 }
 
 export function ReflectionsSection({
   reflections,
   onUpdate,
   isSharedView = false,
+  readOnly = false,
 }: ReflectionsSectionProps) {
   const [parentReflection, setParentReflection] = useState(reflections?.parentReflection || '');
   const [studentReflection, setStudentReflection] = useState(reflections?.studentReflection || '');
@@ -53,7 +55,9 @@ export function ReflectionsSection({
         </CardTitle>
         {isSharedView && (
           <CardDescription>
-            You can add your reflections below. Click "Save" to store your feedback.
+            {readOnly
+              ? 'Reflections cannot be added through this link.'
+              : 'You can add your reflections below. Click "Save" to store your feedback.'}
           </CardDescription>
         )}
       </CardHeader>
@@ -73,8 +77,9 @@ export function ReflectionsSection({
             className="min-h-[100px]"
             value={parentReflection}
             onChange={(e) => setParentReflection(e.target.value)}
+            disabled={readOnly}
           />
-          {isSharedView && (
+          {isSharedView && !readOnly && (
             <Button
               type="button"
               size="sm"
@@ -112,8 +117,9 @@ export function ReflectionsSection({
             className="min-h-[100px]"
             value={studentReflection}
             onChange={(e) => setStudentReflection(e.target.value)}
+            disabled={readOnly}
           />
-          {isSharedView && (
+          {isSharedView && !readOnly && (
             <Button
               type="button"
               size="sm"
@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { ArrowRight, Loader2, ScrollText } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { repository } from '@/lib/data/repository';
+import { describeAuditEntry, type AuditChange } from '@/lib/reportAudit';
+import type { AssessmentTemplate, ReportAuditEntry, StudentReport } from '@/types';
+
+interface ReportAuditLogProps {
+  report: StudentReport;
+  template?: AssessmentTemplate;
+}
+
+// Rows written by one save share the same actor and timestamp
+interface AuditGroup {
+  key: string;
+  changedByName: string;
+  changedAt: string;
+  entries: ReportAuditEntry[];
+}
+
+const MAX_TEXT_LENGTH = 160;
+
+const shorten = (text?: string) =>
+  text && text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH)}…` : text;
+
+function ChangeLine({ change }: { change: AuditChange }) {
+  return (
+    <div className="flex flex-wrap items-baseline gap-x-2 text-xs">
+      <span className="text-muted-foreground">{change.label}:</span>
+      {change.before !== undefined && <span className="line-through text-muted-foreground">{shorten(change.before)}</span>}
+      {change.before !== undefined && change.after !== undefined && (
+        <ArrowRight className="h-3 w-3 self-center text-muted-foreground" />
+      )}
+      {change.after !== undefined ? (
+        <span className="font-medium">{shorten(change.after)}</span>
+      ) : (
+        <span className="italic text-muted-foreground">removed</span>
+      )}
+    </div>
+  );
+}
+
+export function ReportAuditLog({ report, template }: ReportAuditLogProps) {
+  const [entries, setEntries] = useState<ReportAuditEntry[] | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  // Reloaded whenever the report is saved again
+  useEffect(() => {
+    let cancelled = false;
+    setLoadError(false);
+    repository
+      .fetchReportAuditLog(report.id)
+      .then((rows) => {
+        if (!cancelled) setEntries(rows);
+      })
+      .catch((error) => {
+        console.error('Failed to load audit log:', error);
+        if (!cancelled) setLoadError(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [report.id, report.updatedAt, reloadCount]);
+
+  const groups = (entries ?? []).reduce<AuditGroup[]>((result, entry) => {
+    const key = `${entry.changedAt}:${entry.changedBy ?? entry.changedByName}`;
+    const group = result.find((g) => g.key === key);
+    if (group) {
+      group.entries.push(entry);
+    } else {
+      result.push({ key, changedByName: entry.changedByName, changedAt: entry.changedAt, entries: [entry] });
+    }
+    return result;
+  }, []);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <ScrollText className="h-5 w-5" />
+          Audit Log
+        </CardTitle>
+        <CardDescription>Every saved change to this report, who made it and when. Entries cannot be edited.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loadError ? (
+          <div className="flex items-center justify-between gap-4 text-sm text-destructive">
+            Failed to load the audit log.
+            <Button variant="outline" size="sm" onClick={() => setReloadCount((n) => n + 1)}>
+              Retry
+            </Button>
+          </div>
+        ) : !entries ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading changes...
+          </div>
+        ) : groups.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No changes have been recorded yet.</p>
+        ) : (
+          <ol className="space-y-4">
+            {groups.map((group) => (
+              <li key={group.key} className="border-l-2 border-tisa-purple/30 pl-4">
+                <p className="text-sm">
+                  <span className="font-medium">{group.changedByName}</span>
+                  <span className="text-muted-foreground"> · {format(new Date(group.changedAt), 'd MMM yyyy, HH:mm')}</span>
+                </p>
+                <ul className="mt-2 space-y-2">
+                  {group.entries.map((entry) => {
+                    const description = describeAuditEntry(entry, template);
+                    return (
+                      <li key={entry.id}>
+                        <p className="text-xs font-semibold">{description.title}</p>
+                        {description.changes.map((change) => (
+                          <ChangeLine key={change.label} change={change} />
+                        ))}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
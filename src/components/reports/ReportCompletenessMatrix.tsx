@@ -0,0 +1,235 @@
+import { useMemo, useState } from 'react';
+import { GraduationCap, Heart, MessageSquare } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useAppStore } from '@/store/useAppStore';
+import { getSubjectCompleteness, type SubjectCompleteness } from '@/lib/reportCompleteness';
+import { REPORT_STATUS_BADGE_VARIANTS, REPORT_STATUS_LABELS } from '@/lib/reportWorkflow';
+import { cn } from '@/lib/utils';
+import type { StudentReport } from '@/types';
+
+interface ReportCompletenessMatrixProps {
+  onOpenReport: (report: StudentReport, subjectId: string) => void;
+}
+
+const ALL = 'all';
+
+const cellClassName = (completeness: SubjectCompleteness) => {
+  if (completeness.isComplete) return 'bg-green-100 text-green-700 hover:bg-green-200';
+  if (completeness.ratedPoints === 0 && !completeness.hasComment) return 'bg-muted text-muted-foreground hover:bg-muted/70';
+  return 'bg-amber-50 text-amber-800 hover:bg-amber-100';
+};
+
+const describe = (completeness: SubjectCompleteness) =>
+  [
+    `${completeness.ratedPoints} of ${completeness.totalPoints} points rated`,
+    completeness.hasComment ? 'comment written' : 'no comment',
+    completeness.hasAttitude ? 'attitude set' : 'no attitude towards learning',
+    completeness.hasExamGrade ? 'exam grade entered' : 'no exam grade',
+  ].join(', ');
+
+// Students × subjects overview of what is still missing in a grade's reports
+export function ReportCompletenessMatrix({ onOpenReport }: ReportCompletenessMatrixProps) {
+  const { grades, students, reports, assessmentTemplates, activeSchoolYearId } = useAppStore();
+  const sortedGrades = [...grades].sort((a, b) => a.order - b.order);
+  const [selectedGradeId, setGradeId] = useState('');
+  const gradeId = selectedGradeId || sortedGrades[0]?.id || '';
+  const [templateId, setTemplateId] = useState('');
+  const [term, setTerm] = useState(ALL);
+
+  const gradeTemplates = assessmentTemplates.filter(
+    (a) => a.gradeId === gradeId && a.schoolYearId === activeSchoolYearId && !a.isArchived
+  );
+  const template = gradeTemplates.find((a) => a.id === templateId) ?? gradeTemplates[0];
+  const subjects = template?.subjects ?? [];
+
+  const gradeStudents = useMemo(
+    () =>
+      students
+        .filter((s) => s.schoolYearId === activeSchoolYearId && s.gradeId === gradeId)
+        .sort((a, b) => `${a.lastName} ${a.firstName}`.localeCompare(`${b.lastName} ${b.firstName}`)),
+    [students, activeSchoolYearId, gradeId]
+  );
+
+  const templateReports = reports.filter(
+    (r) => r.assessmentTemplateId === template?.id && r.schoolYearId === activeSchoolYearId
+  );
+  const terms = [...new Set(templateReports.map((r) => r.term))].sort();
+
+  // The most recently updated matching report per student
+  const reportFor = (studentId: string) =>
+    templateReports
+      .filter((r) => r.studentId === studentId && (term === ALL || r.term === term))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0];
+
+  const rows = gradeStudents.map((student) => {
+    const report = reportFor(student.id);
+    return {
+      student,
+      report,
+      cells: report ? subjects.map((subject) => getSubjectCompleteness(report, subject)) : [],
+    };
+  });
+  const completeCells = rows.reduce((sum, row) => sum + row.cells.filter((c) => c.isComplete).length, 0);
+  const totalCells = gradeStudents.length * subjects.length;
+  const missingReports = rows.filter((row) => !row.report).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col gap-4 lg:flex-row lg:items-end lg:justify-between">
+          <div>
+            <CardTitle>Report Completeness</CardTitle>
+            <CardDescription>
+              Rated points per subject, plus whether the comment, attitude towards learning and exam grade are filled in.
+              Click a cell to open that subject in the report.
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Select
+              value={gradeId}
+              onValueChange={(value) => {
+                setGradeId(value);
+                setTemplateId('');
+                setTerm(ALL);
+              }}
+            >
+              <SelectTrigger className="w-40">
+                <SelectValue placeholder="Grade" />
+              </SelectTrigger>
+              <SelectContent>
+                {sortedGrades.map((g) => (
+                  <SelectItem key={g.id} value={g.id}>
+                    {g.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {gradeTemplates.length > 1 && (
+              <Select value={template?.id} onValueChange={setTemplateId}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {gradeTemplates.map((a) => (
+                    <SelectItem key={a.id} value={a.id}>
+                      {a.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Select value={term} onValueChange={setTerm}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Latest report</SelectItem>
+                {terms.map((t) => (
+                  <SelectItem key={t} value={t}>
+                    {t}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!template ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            This grade has no assessment template for the active school year.
+          </p>
+        ) : gradeStudents.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">No students in this grade.</p>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+              <span>
+                <span className="font-semibold text-foreground">{completeCells}</span> of {totalCells} subjects complete
+              </span>
+              {missingReports > 0 && (
+                <span>
+                  <span className="font-semibold text-foreground">{missingReports}</span> student
+                  {missingReports !== 1 ? 's' : ''} without a report
+                </span>
+              )}
+              <span className="flex items-center gap-1"><MessageSquare className="h-3 w-3" /> Comment</span>
+              <span className="flex items-center gap-1"><Heart className="h-3 w-3" /> Attitude</span>
+              <span className="flex items-center gap-1"><GraduationCap className="h-3 w-3" /> Exam grade</span>
+            </div>
+            <div className="overflow-x-auto rounded-lg border border-border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="sticky left-0 min-w-[180px] bg-background">Student</TableHead>
+                    {subjects.map((subject) => (
+                      <TableHead key={subject.id} className="min-w-[110px] text-center text-xs">
+                        {subject.name}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(({ student, report, cells }) => (
+                    <TableRow key={student.id}>
+                      <TableCell className="sticky left-0 bg-background">
+                        <div className="font-medium">{student.lastName}, {student.firstName}</div>
+                        {report && (
+                          <Badge variant={REPORT_STATUS_BADGE_VARIANTS[report.status]} className="mt-1 text-[10px]">
+                            {REPORT_STATUS_LABELS[report.status]}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      {report ? (
+                        cells.map((completeness, i) => (
+                          <TableCell key={subjects[i].id} className="p-1 text-center">
+                            <button
+                              type="button"
+                              title={describe(completeness)}
+                              onClick={() => onOpenReport(report, subjects[i].id)}
+                              className={cn(
+                                'w-full rounded-md px-2 py-1.5 text-xs font-semibold transition-colors',
+                                cellClassName(completeness)
+                              )}
+                            >
+                              {completeness.ratedPoints}/{completeness.totalPoints}
+                              <span className="mt-1 flex justify-center gap-1.5">
+                                <MessageSquare className={cn('h-3 w-3', !completeness.hasComment && 'opacity-25')} />
+                                <Heart className={cn('h-3 w-3', !completeness.hasAttitude && 'opacity-25')} />
+                                <GraduationCap className={cn('h-3 w-3', !completeness.hasExamGrade && 'opacity-25')} />
+                              </span>
+                            </button>
+                          </TableCell>
+                        ))
+                      ) : (
+                        <TableCell colSpan={subjects.length} className="text-sm italic text-muted-foreground">
+                          No report yet
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
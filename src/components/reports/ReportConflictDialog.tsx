@@ -0,0 +1,159 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { SUMMARY_SECTION, type ConflictChoice } from '@/lib/reportMerge';
+import { cn } from '@/lib/utils';
+import type { StudentReport, Subject } from '@/types';
+
+interface ReportConflictDialogProps {
+  open: boolean;
+  conflicts: string[];
+  subjects: Subject[];
+  mine: StudentReport | null;
+  latest: StudentReport | null;
+  isSaving: boolean;
+  onResolve: (resolutions: Record<string, ConflictChoice>) => void;
+  onCancel: () => void;
+}
+
+function SubjectVersion({ report, subject }: { report: StudentReport; subject: Subject }) {
+  const comment = report.subjectComments?.find((c) => c.subjectId === subject.id);
+  const commentText = comment?.aiRewrittenComment?.trim() || comment?.teacherComment?.trim();
+  return (
+    <div className="space-y-2 text-xs">
+      <ul className="space-y-0.5">
+        {subject.assessmentPoints.map((point) => {
+          const entry = report.entries.find((e) => e.subjectId === subject.id && e.assessmentPointId === point.id);
+          return (
+            <li key={point.id} className="flex justify-between gap-2">
+              <span className="truncate text-muted-foreground">{point.name}</span>
+              <span className="shrink-0 font-medium">
+                {entry?.isNA ? 'N/A' : `${entry?.stars ?? 0}/${point.maxStars}`}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+      <p className={cn('whitespace-pre-wrap', !commentText && 'italic text-muted-foreground')}>
+        {commentText || 'No comment'}
+      </p>
+      {comment?.attitudeTowardsLearning && (
+        <p className="text-muted-foreground">Attitude: {comment.attitudeTowardsLearning}</p>
+      )}
+    </div>
+  );
+}
+
+function SummaryVersion({ report }: { report: StudentReport }) {
+  return (
+    <div className="space-y-1 text-xs">
+      <p>
+        <span className="text-muted-foreground">Term:</span> {report.term}
+      </p>
+      {report.reportTitle && (
+        <p>
+          <span className="text-muted-foreground">Title:</span> {report.reportTitle}
+        </p>
+      )}
+      <p className={cn('whitespace-pre-wrap', !report.generalComment && 'italic text-muted-foreground')}>
+        {report.generalComment || 'No general comment'}
+      </p>
+    </div>
+  );
+}
+
+// Shown when someone else saved a section of the report that the user also changed
+export function ReportConflictDialog({
+  open,
+  conflicts,
+  subjects,
+  mine,
+  latest,
+  isSaving,
+  onResolve,
+  onCancel,
+}: ReportConflictDialogProps) {
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+
+  useEffect(() => {
+    if (open) setChoices(Object.fromEntries(conflicts.map((id) => [id, 'mine' as ConflictChoice])));
+  }, [open, conflicts]);
+
+  if (!mine || !latest) return null;
+
+  const renderVersion = (report: StudentReport, sectionId: string) => {
+    if (sectionId === SUMMARY_SECTION) return <SummaryVersion report={report} />;
+    const subject = subjects.find((s) => s.id === sectionId);
+    return subject ? <SubjectVersion report={report} subject={subject} /> : null;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !value && !isSaving && onCancel()}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-500" />
+            Someone else changed this report
+          </DialogTitle>
+          <DialogDescription>
+            The sections below were saved by someone else at {format(new Date(latest.updatedAt), 'HH:mm')} while you
+            were editing them. Choose which version to keep for each one. Your other changes are saved as they are.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {conflicts.map((sectionId) => {
+            const title =
+              sectionId === SUMMARY_SECTION
+                ? 'Report details and general comment'
+                : subjects.find((s) => s.id === sectionId)?.name ?? 'Subject';
+            return (
+              <div key={sectionId} className="space-y-2">
+                <h4 className="text-sm font-semibold">{title}</h4>
+                <div className="grid gap-3 sm:grid-cols-2">
+                  {(['mine', 'theirs'] as ConflictChoice[]).map((choice) => (
+                    <button
+                      key={choice}
+                      type="button"
+                      onClick={() => setChoices((prev) => ({ ...prev, [sectionId]: choice }))}
+                      className={cn(
+                        'rounded-lg border p-3 text-left transition-colors',
+                        choices[sectionId] === choice
+                          ? 'border-tisa-purple bg-tisa-purple/5 ring-1 ring-tisa-purple'
+                          : 'border-border hover:bg-muted/50'
+                      )}
+                    >
+                      <p className="mb-2 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                        {choice === 'mine' ? 'Keep my version' : 'Keep their version'}
+                      </p>
+                      {renderVersion(choice === 'mine' ? mine : latest, sectionId)}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={() => onResolve(choices)} disabled={isSaving} className="gap-2">
+            {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+            Save with these choices
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,143 @@
+import { format } from 'date-fns';
+import { Check, Copy, History, Loader2, Users, WifiOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { ReportDraft } from '@/lib/reportDrafts';
+
+// Banners shown above the report editor, and its autosave status
+
+interface DraftRecoveryNoticeProps {
+  draft: ReportDraft;
+  // Named for a draft of a report that was never saved
+  studentFirstName?: string;
+  onDiscard: () => void;
+  onRestore: () => void;
+}
+
+export function DraftRecoveryNotice({ draft, studentFirstName, onDiscard, onRestore }: DraftRecoveryNoticeProps) {
+  return (
+    <div className="flex flex-col gap-3 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm sm:flex-row sm:items-center sm:justify-between">
+      <div className="flex items-start gap-2">
+        <History className="mt-0.5 h-4 w-4 shrink-0 text-amber-600" />
+        <p>
+          {draft.queued ? 'Changes made offline' : 'Unsaved changes'}
+          {!draft.base && ` to a new report for ${studentFirstName ?? 'a student'}`} from{' '}
+          {format(new Date(draft.savedAt), 'd MMM yyyy, HH:mm')} were found on this device.
+        </p>
+      </div>
+      <div className="flex shrink-0 gap-2">
+        <Button type="button" size="sm" variant="outline" onClick={onDiscard}>
+          Discard
+        </Button>
+        <Button type="button" size="sm" onClick={onRestore}>
+          Restore
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface CoEditorsNoticeProps {
+  coEditors: string[];
+  hasRemoteChanges: boolean;
+}
+
+export function CoEditorsNotice({ coEditors, hasRemoteChanges }: CoEditorsNoticeProps) {
+  return (
+    <div className="flex items-start gap-2 rounded-lg border border-tisa-blue/30 bg-tisa-blue/10 p-3 text-sm">
+      <Users className="mt-0.5 h-4 w-4 shrink-0 text-tisa-blue" />
+      <div>
+        {coEditors.length > 0 && (
+          <p className="font-medium">
+            {coEditors.join(', ')} {coEditors.length > 1 ? 'are' : 'is'} also editing this report.
+          </p>
+        )}
+        <p className="text-muted-foreground">
+          {hasRemoteChanges
+            ? 'Someone saved changes since you opened it. They are merged with yours when you save.'
+            : 'Save subjects as you finish them; changes to different subjects are merged.'}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+interface PrefillOfferProps {
+  studentFirstName?: string;
+  assessmentName?: string;
+  term: string;
+  onPrefill: () => void;
+}
+
+export function PrefillOffer({ studentFirstName, assessmentName, term, onPrefill }: PrefillOfferProps) {
+  return (
+    <div className="flex flex-col gap-3 rounded-lg border border-tisa-blue/30 bg-tisa-blue/10 p-3 text-sm sm:flex-row sm:items-center sm:justify-between">
+      <div className="flex items-start gap-2">
+        <Copy className="mt-0.5 h-4 w-4 shrink-0 text-tisa-blue" />
+        <p>
+          Start from {studentFirstName}'s previous report ({assessmentName ?? 'earlier assessment'}, {term}). Ratings
+          and comments of matching subjects and points are copied for you to confirm.
+        </p>
+      </div>
+      <Button type="button" size="sm" variant="outline" className="shrink-0" onClick={onPrefill}>
+        Prefill
+      </Button>
+    </div>
+  );
+}
+
+interface UnconfirmedPrefillsNoticeProps {
+  count: number;
+  onConfirmAll: () => void;
+}
+
+export function UnconfirmedPrefillsNotice({ count, onConfirmAll }: UnconfirmedPrefillsNoticeProps) {
+  return (
+    <div className="flex flex-col gap-3 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm sm:flex-row sm:items-center sm:justify-between">
+      <div className="flex items-start gap-2">
+        <Copy className="mt-0.5 h-4 w-4 shrink-0 text-amber-600" />
+        <p>
+          {count} value{count > 1 ? 's' : ''} copied from the previous report still need{count > 1 ? '' : 's'}{' '}
+          confirming. Changing a value also confirms it.
+        </p>
+      </div>
+      <Button type="button" size="sm" variant="outline" className="shrink-0" onClick={onConfirmAll}>
+        Confirm all
+      </Button>
+    </div>
+  );
+}
+
+export type AutosaveStatus = 'idle' | 'saving' | 'saved' | 'offline' | 'error';
+
+interface AutosaveIndicatorProps {
+  status: AutosaveStatus;
+  savedAt?: string;
+}
+
+export function AutosaveIndicator({ status, savedAt }: AutosaveIndicatorProps) {
+  return (
+    <p className="mr-auto flex items-center gap-1.5 self-center text-xs text-muted-foreground">
+      {status === 'saving' && (
+        <>
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Saving...
+        </>
+      )}
+      {status === 'saved' && savedAt && (
+        <>
+          <Check className="h-3 w-3" />
+          Saved at {format(new Date(savedAt), 'HH:mm')}
+        </>
+      )}
+      {status === 'offline' && (
+        <>
+          <WifiOff className="h-3 w-3" />
+          Offline. Changes are kept on this device until the connection returns.
+        </>
+      )}
+      {status === 'error' && (
+        <span className="text-destructive">Autosave failed. Save the report to try again.</span>
+      )}
+    </p>
+  );
+}
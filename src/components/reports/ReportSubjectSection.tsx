@@ -0,0 +1,367 @@
+import { motion } from 'framer-motion';
+import { BookOpen, Check, CheckCircle, ChevronDown, ChevronRight, Loader2, MessageSquare, Save } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from '@/components/ui/collapsible';
+import { toast } from 'sonner';
+import { StarRating } from '@/components/ui/StarRating';
+import { AIRewriteButtons, type AIRewriteButtonsProps } from '@/components/reports/AIRewriteButtons';
+import type { EntryState, SubjectCommentState } from '@/lib/reportEditorState';
+import type { Subject } from '@/types';
+
+interface ReportSubjectSectionProps {
+  subject: Subject;
+  entries: EntryState;
+  comment: SubjectCommentState[string] | undefined;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  canEdit: boolean;
+  studentName: string;
+  onEntryChange: (pointId: string, field: keyof EntryState[string], value: string | number | boolean) => void;
+  onCommentChange: (field: keyof SubjectCommentState[string], value: string | boolean) => void;
+  onRewrite: AIRewriteButtonsProps['onRewrite'];
+  aiLoading: AIRewriteButtonsProps['isLoading'];
+  // Saves just this subject; left out while the report is not created yet
+  onSave?: () => void;
+  isSaving?: boolean;
+  saveDisabled?: boolean;
+}
+
+const GRADE_OPTIONS = ['A+', 'A', 'B+', 'B', 'C+', 'C', 'D', 'F'];
+
+// One subject of the report editor: its points with ratings and notes, then
+// the subject comment, attitude and exam grade
+export function ReportSubjectSection({
+  subject,
+  entries,
+  comment,
+  open,
+  onOpenChange,
+  canEdit,
+  studentName,
+  onEntryChange,
+  onCommentChange,
+  onRewrite,
+  aiLoading,
+  onSave,
+  isSaving = false,
+  saveDisabled = false,
+}: ReportSubjectSectionProps) {
+  const subjectPoints = subject.assessmentPoints || [];
+  const completedNotes = subjectPoints.filter((p) => entries[`${subject.id}:${p.id}`]?.teacherNotes?.trim()).length;
+  const isComplete = comment?.examGrade && comment.examGrade !== '';
+  const headerBg = isComplete ? 'bg-green-100' : 'bg-tisa-purple/15';
+  const headerText = isComplete ? 'text-green-700' : 'text-tisa-purple';
+  const iconColor = isComplete ? 'text-green-600' : 'text-tisa-purple/80';
+  const badgeBg = isComplete ? 'bg-green-200/60 text-green-700' : 'bg-tisa-purple/20 text-tisa-purple';
+  const copiedCount =
+    subjectPoints.filter((p) => entries[`${subject.id}:${p.id}`]?.isPrefilled).length +
+    (comment?.isPrefilled ? 1 : 0);
+
+  // The rewritten text replaces the teacher's and the suggestion is cleared
+  const acceptEntryAI = (pointId: string, aiText: string) => {
+    onEntryChange(pointId, 'teacherNotes', aiText);
+    onEntryChange(pointId, 'aiRewrittenText', '');
+    toast.success('AI text accepted!');
+  };
+
+  const acceptCommentAI = (aiText: string) => {
+    onCommentChange('teacherComment', aiText);
+    onCommentChange('aiRewrittenComment', '');
+    toast.success('AI comment accepted!');
+  };
+
+  return (
+    <Collapsible
+      id={`report-subject-${subject.id}`}
+      className="scroll-mt-4"
+      open={open}
+      onOpenChange={onOpenChange}
+    >
+      {/* Subject Header Banner - Purple (needs work) or Green (complete) */}
+      <CollapsibleTrigger asChild>
+        <div className="cursor-pointer rounded-lg overflow-hidden shadow-sm hover:shadow-md transition-all">
+          <div className={`${headerBg} px-4 py-3 flex items-center justify-between transition-colors`}>
+            <div className="flex items-center gap-3">
+              {isComplete ? (
+                <CheckCircle className={`h-5 w-5 ${iconColor}`} />
+              ) : (
+                <BookOpen className={`h-5 w-5 ${iconColor}`} />
+              )}
+              <div>
+                <h4 className={`font-display font-semibold ${headerText} uppercase tracking-wide text-sm`}>
+                  {subject.name}
+                </h4>
+                {subject.description && (
+                  <p className={`${isComplete ? 'text-green-600/70' : 'text-tisa-purple/60'} text-xs mt-0.5`}>{subject.description}</p>
+                )}
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <div className="flex items-center gap-2">
+                {!canEdit && (
+                  <Badge variant="outline" className="text-xs">
+                    View only
+                  </Badge>
+                )}
+                <Badge className={`${badgeBg} border-0 text-xs`}>
+                  {subjectPoints.length} points
+                </Badge>
+                {copiedCount > 0 && (
+                  <Badge className="border-0 bg-amber-100 text-xs text-amber-700">
+                    {copiedCount} to confirm
+                  </Badge>
+                )}
+                {completedNotes > 0 && (
+                  <Badge className={`${isComplete ? 'bg-green-200/80 text-green-700' : 'bg-tisa-purple/25 text-tisa-purple'} border-0 text-xs`}>
+                    {completedNotes} notes
+                  </Badge>
+                )}
+                {isComplete && (
+                  <Badge className="bg-green-500 text-white border-0 text-xs">
+                    {comment.examGrade}
+                  </Badge>
+                )}
+              </div>
+              {open ? (
+                <ChevronDown className={`h-5 w-5 ${isComplete ? 'text-green-600' : 'text-tisa-purple/70'}`} />
+              ) : (
+                <ChevronRight className={`h-5 w-5 ${isComplete ? 'text-green-600' : 'text-tisa-purple/70'}`} />
+              )}
+            </div>
+          </div>
+        </div>
+      </CollapsibleTrigger>
+
+      <CollapsibleContent>
+        {/* Subjects assigned to other teachers are shown but cannot be changed */}
+        <fieldset disabled={!canEdit} className="border border-t-0 border-border rounded-b-lg bg-card overflow-hidden">
+          {/* Compact Assessment Points Table */}
+          <div className="divide-y divide-border">
+            {subjectPoints.map((point, idx) => {
+              const key = `${subject.id}:${point.id}`;
+              const entry = entries[key];
+              const hasNotes = entry?.teacherNotes?.trim();
+
+              return (
+                <motion.div
+                  key={point.id}
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  transition={{ delay: idx * 0.02 }}
+                  className="group"
+                >
+                  {/* Main Row - Point Name + Stars */}
+                  <div className={`px-4 py-3 flex items-center justify-between gap-4 ${hasNotes ? 'bg-primary/5' : 'hover:bg-muted/50'} transition-colors`}>
+                    <div className="flex items-center gap-3 min-w-0 flex-1">
+                      <div className={`w-1.5 h-1.5 rounded-full shrink-0 ${hasNotes ? 'bg-primary' : 'bg-muted-foreground/30'}`} />
+                      <span className="text-sm font-medium truncate">{point.name}</span>
+                    </div>
+                    <div className="shrink-0 flex items-center gap-2">
+                      {entry?.isPrefilled && (
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="ghost"
+                          className="h-6 gap-1 px-2 text-xs text-amber-700 hover:bg-amber-100"
+                          onClick={() => onEntryChange(point.id, 'isPrefilled', false)}
+                        >
+                          <Check className="h-3 w-3" />
+                          Confirm copied
+                        </Button>
+                      )}
+                      <StarRating
+                        value={entry?.stars || 0}
+                        max={point.maxStars}
+                        onChange={(val) => onEntryChange(point.id, 'stars', val)}
+                        readonly={!canEdit}
+                        size="sm"
+                        isNA={entry?.isNA || false}
+                        onNAChange={(val) => onEntryChange(point.id, 'isNA', val)}
+                      />
+                    </div>
+                  </div>
+
+                  {/* Notes Row - Compact inline */}
+                  <div className="px-4 pb-3 pt-1 bg-muted/20">
+                    <div className="flex items-start gap-2">
+                      <Textarea
+                        placeholder="Add notes..."
+                        className="min-h-[36px] text-sm py-2 resize-none bg-background/80 border-muted"
+                        value={entry?.teacherNotes || ''}
+                        onChange={(e) => onEntryChange(point.id, 'teacherNotes', e.target.value)}
+                        rows={1}
+                      />
+                      <div className="shrink-0 flex items-center gap-1">
+                        <AIRewriteButtons
+                          sourceText={entry?.teacherNotes || ''}
+                          aiRewrittenText={entry?.aiRewrittenText || ''}
+                          loadingKey={key}
+                          studentName={studentName}
+                          onRewrite={onRewrite}
+                          onRewriteComplete={(result) => onEntryChange(point.id, 'aiRewrittenText', result)}
+                          onAccept={() => acceptEntryAI(point.id, entry?.aiRewrittenText || '')}
+                          isLoading={aiLoading}
+                          onAITextChange={(text) => onEntryChange(point.id, 'aiRewrittenText', text)}
+                          compact
+                        />
+                      </div>
+                    </div>
+
+                    {/* AI Rewrite Preview - Only show when there's AI text */}
+                    {entry?.aiRewrittenText && (
+                      <motion.div
+                        initial={{ opacity: 0, height: 0 }}
+                        animate={{ opacity: 1, height: 'auto' }}
+                        className="mt-2 p-2 bg-tisa-purple/5 border border-tisa-purple/20 rounded text-sm"
+                      >
+                        <div className="flex items-start justify-between gap-2">
+                          <p className="text-muted-foreground flex-1">{entry.aiRewrittenText}</p>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="shrink-0 h-7 text-xs text-tisa-purple hover:bg-tisa-purple/10"
+                            onClick={() => acceptEntryAI(point.id, entry.aiRewrittenText)}
+                          >
+                            <Check className="h-3 w-3 mr-1" />
+                            Accept
+                          </Button>
+                        </div>
+                      </motion.div>
+                    )}
+                  </div>
+                </motion.div>
+              );
+            })}
+          </div>
+
+          {/* Subject Comment Section - Cleaner styling */}
+          <div className="border-t-2 border-tisa-purple/20 bg-tisa-purple/5 p-4">
+            <div className="flex items-center gap-2 mb-3">
+              <MessageSquare className="h-4 w-4 text-tisa-purple" />
+              <h5 className="font-medium text-sm text-tisa-purple">Subject Comment</h5>
+              {comment?.isPrefilled && (
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  className="ml-auto h-6 gap-1 px-2 text-xs text-amber-700 hover:bg-amber-100"
+                  onClick={() => onCommentChange('isPrefilled', false)}
+                >
+                  <Check className="h-3 w-3" />
+                  Confirm copied
+                </Button>
+              )}
+            </div>
+
+            {/* Inline Dropdowns Row */}
+            <div className="flex flex-wrap items-center gap-3 mb-3">
+              <div className="flex items-center gap-1.5 bg-background rounded-md px-2 py-1 border">
+                <span className="text-xs text-muted-foreground">Attitude:</span>
+                <Select
+                  value={comment?.attitudeTowardsLearning || ''}
+                  onValueChange={(val) => onCommentChange('attitudeTowardsLearning', val)}
+                >
+                  <SelectTrigger className="h-7 w-[110px] border-0 bg-transparent px-1 text-xs focus:ring-0">
+                    <SelectValue placeholder="Select" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="Emerging">Emerging</SelectItem>
+                    <SelectItem value="Developing">Developing</SelectItem>
+                    <SelectItem value="Applying">Applying</SelectItem>
+                    <SelectItem value="Independent">Independent</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center gap-1.5 bg-background rounded-md px-2 py-1 border">
+                <span className="text-xs text-muted-foreground">Grade:</span>
+                <Select
+                  value={comment?.examGrade || ''}
+                  onValueChange={(val) => onCommentChange('examGrade', val)}
+                >
+                  <SelectTrigger className="h-7 w-[70px] border-0 bg-transparent px-1 text-xs focus:ring-0">
+                    <SelectValue placeholder="—" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {GRADE_OPTIONS.map((grade) => (
+                      <SelectItem key={grade} value={grade}>
+                        {grade}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center gap-1.5 bg-background rounded-md px-2 py-1 border">
+                <span className="text-xs text-muted-foreground">Date:</span>
+                <input
+                  type="text"
+                  className="h-7 w-[70px] text-xs bg-transparent border-0 focus:outline-none"
+                  placeholder="MM/YYYY"
+                  value={comment?.examDate || ''}
+                  onChange={(e) => onCommentChange('examDate', e.target.value)}
+                />
+              </div>
+            </div>
+
+            <Textarea
+              placeholder="Overall comment for this subject..."
+              className="min-h-[70px] bg-background/80 text-sm"
+              value={comment?.teacherComment || ''}
+              onChange={(e) => onCommentChange('teacherComment', e.target.value)}
+            />
+
+            <div className="mt-2">
+              <AIRewriteButtons
+                sourceText={comment?.teacherComment || ''}
+                aiRewrittenText={comment?.aiRewrittenComment || ''}
+                loadingKey={`subject-${subject.id}`}
+                studentName={studentName}
+                onRewrite={onRewrite}
+                onRewriteComplete={(result) => onCommentChange('aiRewrittenComment', result)}
+                onAccept={() => acceptCommentAI(comment?.aiRewrittenComment || '')}
+                isLoading={aiLoading}
+                aiTextareaClassName="min-h-[70px]"
+                onAITextChange={(text) => onCommentChange('aiRewrittenComment', text)}
+              />
+            </div>
+
+            {/* Saves just this subject, so teachers of other subjects can work on the report at the same time */}
+            {onSave && canEdit && (
+              <div className="mt-3 flex justify-end">
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  className="gap-2"
+                  disabled={saveDisabled}
+                  onClick={onSave}
+                >
+                  {isSaving ? (
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                  ) : (
+                    <Save className="h-3 w-3" />
+                  )}
+                  Save Subject
+                </Button>
+              </div>
+            )}
+          </div>
+        </fieldset>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
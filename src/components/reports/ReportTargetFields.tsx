@@ -0,0 +1,158 @@
+import type { Control } from 'react-hook-form';
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { ReportFormValues } from '@/lib/reportEditorState';
+import type { AssessmentTemplate, Grade, Student } from '@/types';
+
+interface ReportTargetFieldsProps {
+  control: Control<ReportFormValues>;
+  // The students this user may write reports for
+  students: Student[];
+  hasActiveStudents: boolean;
+  grades: Grade[];
+  // All assessments of the school year, and those of the selected student's grade
+  assessments: AssessmentTemplate[];
+  studentAssessments: AssessmentTemplate[];
+  hasStudent: boolean;
+  onStudentChange: (studentId: string) => void;
+  onAssessmentChange: (assessmentTemplateId: string) => void;
+}
+
+// Which student, assessment and term the report is for
+export function ReportTargetFields({
+  control,
+  students,
+  hasActiveStudents,
+  grades,
+  assessments,
+  studentAssessments,
+  hasStudent,
+  onStudentChange,
+  onAssessmentChange,
+}: ReportTargetFieldsProps) {
+  return (
+    <div className="grid gap-4 sm:grid-cols-3">
+      <FormField
+        control={control}
+        name="studentId"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Student</FormLabel>
+            <Select
+              value={field.value}
+              onValueChange={(val) => {
+                field.onChange(val);
+                onStudentChange(val);
+              }}
+            >
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select student" />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {students.length === 0 ? (
+                  <div className="p-2 text-sm text-muted-foreground text-center">
+                    {!hasActiveStudents
+                      ? 'No students found. Add students first.'
+                      : 'No students in the grades you teach.'}
+                  </div>
+                ) : (
+                  students.map((student) => {
+                    const grade = grades.find((g) => g.id === student.gradeId);
+                    const hasTemplate = assessments.some((a) => a.gradeId === student.gradeId);
+                    return (
+                      <SelectItem key={student.id} value={student.id}>
+                        <div className="flex items-center gap-2">
+                          <div
+                            className="h-2 w-2 rounded-full"
+                            style={{ backgroundColor: grade ? `hsl(var(--grade-${grade.colorIndex}))` : undefined }}
+                          />
+                          {student.firstName} {student.lastName}
+                          {!hasTemplate && (
+                            <span className="text-xs text-muted-foreground">(no template)</span>
+                          )}
+                        </div>
+                      </SelectItem>
+                    );
+                  })
+                )}
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={control}
+        name="assessmentTemplateId"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Assessment</FormLabel>
+            <Select
+              value={field.value}
+              onValueChange={(val) => {
+                field.onChange(val);
+                onAssessmentChange(val);
+              }}
+              disabled={!hasStudent}
+            >
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select assessment" />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {studentAssessments.map((assessment) => (
+                  <SelectItem key={assessment.id} value={assessment.id}>
+                    {assessment.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={control}
+        name="term"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Term</FormLabel>
+            <Select value={field.value} onValueChange={field.onChange}>
+              <FormControl>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                <SelectItem value="Term 1">Term 1</SelectItem>
+                <SelectItem value="Term 2">Term 2</SelectItem>
+                <SelectItem value="Term 1 & 2">Term 1 & 2</SelectItem>
+                <SelectItem value="Term 3">Term 3</SelectItem>
+                <SelectItem value="Term 4">Term 4</SelectItem>
+                <SelectItem value="Term 3 & 4">Term 3 & 4</SelectItem>
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+import { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { StarRating } from '@/components/ui/StarRating';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAppStore } from '@/store/useAppStore';
+import { useAuthStore } from '@/store/useAuthStore';
+import { repository } from '@/lib/data/repository';
+import { canEditGradeReports, canEditReportSummary, canEditSubject } from '@/lib/permissions';
+import { isReportLocked } from '@/lib/reportWorkflow';
+import { diffReports, getAllSections, restoreFromVersion, type TextDiff } from '@/lib/reportVersions';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+import type { AssessmentTemplate, Grade, ReportEntry, ReportVersion, StudentReport } from '@/types';
+
+interface ReportVersionHistoryProps {
+  report: StudentReport;
+  template?: AssessmentTemplate;
+  grade?: Grade;
+}
+
+const CURRENT = 'current';
+const PREVIOUS = 'previous';
+
+function EntryCell({ entry, maxStars }: { entry?: ReportEntry; maxStars: number }) {
+  return (
+    <div className="space-y-1">
+      <StarRating value={entry?.stars ?? 0} max={maxStars} isNA={entry?.isNA} readonly size="sm" />
+      {(entry?.aiRewrittenText || entry?.teacherNotes) && (
+        <p className="text-xs text-muted-foreground whitespace-pre-wrap">{entry.aiRewrittenText || entry.teacherNotes}</p>
+      )}
+    </div>
+  );
+}
+
+function TextDiffRow({ diff }: { diff: TextDiff }) {
+  return (
+    <div className="grid gap-2 sm:grid-cols-[140px_1fr_1fr] text-xs">
+      <span className="font-medium text-muted-foreground">{diff.label}</span>
+      <p className={cn('rounded bg-red-50 p-2 whitespace-pre-wrap', !diff.before && 'italic text-muted-foreground')}>
+        {diff.before ?? 'Empty'}
+      </p>
+      <p className={cn('rounded bg-green-50 p-2 whitespace-pre-wrap', !diff.after && 'italic text-muted-foreground')}>
+        {diff.after ?? 'Empty'}
+      </p>
+    </div>
+  );
+}
+
+// Saved versions of a report side by side, with restore of a whole version or one subject
+export function ReportVersionHistory({ report, template, grade }: ReportVersionHistoryProps) {
+  const saveReportChanges = useAppStore((state) => state.saveReportChanges);
+  const profile = useAuthStore((state) => state.profile);
+  const [versions, setVersions] = useState<ReportVersion[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareWith, setCompareWith] = useState(CURRENT);
+  const [restoringKey, setRestoringKey] = useState<string | null>(null);
+
+  // Reloaded whenever the report is saved again
+  useEffect(() => {
+    let cancelled = false;
+    repository
+      .fetchReportVersions(report.id)
+      .then((rows) => {
+        if (!cancelled) setVersions(rows);
+      })
+      .catch((error) => {
+        console.error('Failed to load report versions:', error);
+        if (!cancelled) setVersions([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [report.id, report.updatedAt]);
+
+  // The newest version is the current content, so the one before it is selected first
+  const selected = versions?.find((v) => v.id === selectedId) ?? versions?.[Math.min(1, versions.length - 1)];
+  const selectedIndex = versions && selected ? versions.indexOf(selected) : -1;
+  const olderVersion = versions?.[selectedIndex + 1];
+
+  const diff = useMemo(() => {
+    if (!selected) return null;
+    return compareWith === PREVIOUS
+      ? olderVersion && diffReports(olderVersion.report, selected.report, template)
+      : diffReports(selected.report, report, template);
+  }, [selected, olderVersion, compareWith, report, template]);
+
+  const canRestore = canEditGradeReports(profile, grade) && !isReportLocked(report);
+
+  const restore = async (key: string, sectionIds: string[], includeExamResults: boolean) => {
+    if (!selected) return;
+    setRestoringKey(key);
+    try {
+      const restored = restoreFromVersion(report, selected.report, sectionIds, includeExamResults);
+      const { saved } = await saveReportChanges(report, restored, sectionIds);
+      if (!saved) {
+        toast.error('Someone else just changed this report', {
+          description: 'Check the latest version and try again.',
+        });
+      } else {
+        toast.success(`Restored from version ${selected.versionNumber}`);
+        setSelectedId(null);
+        setCompareWith(CURRENT);
+      }
+    } catch (error) {
+      console.error('Restore error:', error);
+      toast.error('Failed to restore the version');
+    } finally {
+      setRestoringKey(null);
+    }
+  };
+
+  const leftLabel = compareWith === PREVIOUS ? `Version ${olderVersion?.versionNumber}` : `Version ${selected?.versionNumber}`;
+  const rightLabel = compareWith === PREVIOUS ? `Version ${selected?.versionNumber}` : 'Current';
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Version History
+        </CardTitle>
+        <CardDescription>
+          A version is saved every time the report content changes. Compare versions and restore a whole version or a
+          single subject.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!versions ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading versions...
+          </div>
+        ) : versions.length === 0 || !selected ? (
+          <p className="text-sm text-muted-foreground">No versions have been saved yet.</p>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-[200px_1fr]">
+            <ol className="space-y-1 md:max-h-[480px] md:overflow-y-auto">
+              {versions.map((version, index) => (
+                <li key={version.id}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedId(version.id)}
+                    className={cn(
+                      'w-full rounded-md px-3 py-2 text-left text-xs transition-colors',
+                      version.id === selected.id ? 'bg-tisa-purple/10 text-tisa-purple' : 'hover:bg-muted'
+                    )}
+                  >
+                    <span className="flex items-center justify-between font-semibold">
+                      Version {version.versionNumber}
+                      {index === 0 && <Badge variant="secondary" className="text-[10px]">Current</Badge>}
+                    </span>
+                    <span className="block text-muted-foreground">{version.savedByName}</span>
+                    <span className="block text-muted-foreground">{format(new Date(version.savedAt), 'd MMM yyyy, HH:mm')}</span>
+                  </button>
+                </li>
+              ))}
+            </ol>
+
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <Select value={compareWith} onValueChange={setCompareWith}>
+                  <SelectTrigger className="w-64">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={CURRENT}>Compare with the current report</SelectItem>
+                    <SelectItem value={PREVIOUS} disabled={!olderVersion}>
+                      Compare with the version before
+                    </SelectItem>
+                  </SelectContent>
+                </Select>
+                {canRestore && canEditReportSummary(profile, grade) && selectedIndex !== 0 && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="gap-2"
+                    disabled={!!restoringKey || diffReports(selected.report, report, template).isEmpty}
+                    onClick={() => restore('all', getAllSections(template), true)}
+                  >
+                    {restoringKey === 'all' ? <Loader2 className="h-3 w-3 animate-spin" /> : <RotateCcw className="h-3 w-3" />}
+                    Restore version {selected.versionNumber}
+                  </Button>
+                )}
+              </div>
+
+              {!diff || diff.isEmpty ? (
+                <p className="text-sm text-muted-foreground">
+                  {compareWith === PREVIOUS && !olderVersion ? 'This is the first version.' : 'No differences.'}
+                </p>
+              ) : (
+                <>
+                  {diff.subjects.map(({ subject, points, comments }) => (
+                    <div key={subject.id} className="rounded-lg border border-border">
+                      <div className="flex items-center justify-between gap-2 border-b border-border bg-muted/40 px-3 py-2">
+                        <h4 className="text-sm font-semibold">{subject.name}</h4>
+                        {compareWith === CURRENT && canRestore && canEditSubject(profile, grade, subject.name) && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-7 gap-1 text-xs"
+                            disabled={!!restoringKey}
+                            onClick={() => restore(subject.id, [subject.id], false)}
+                          >
+                            {restoringKey === subject.id ? (
+                              <Loader2 className="h-3 w-3 animate-spin" />
+                            ) : (
+                              <RotateCcw className="h-3 w-3" />
+                            )}
+                            Restore subject
+                          </Button>
+                        )}
+                      </div>
+                      <div className="space-y-3 p-3">
+                        <div className="grid gap-2 sm:grid-cols-[140px_1fr_1fr] text-xs font-semibold text-muted-foreground">
+                          <span />
+                          <span>{leftLabel}</span>
+                          <span>{rightLabel}</span>
+                        </div>
+                        {points
+                          .filter((p) => p.changed)
+                          .map(({ point, before, after }) => (
+                            <div key={point.id} className="grid gap-2 sm:grid-cols-[140px_1fr_1fr] text-xs">
+                              <span className="font-medium">{point.name}</span>
+                              <EntryCell entry={before} maxStars={point.maxStars} />
+                              <EntryCell entry={after} maxStars={point.maxStars} />
+                            </div>
+                          ))}
+                        {comments.map((comment) => (
+                          <TextDiffRow key={comment.label} diff={comment} />
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+
+                  {(diff.summary.length > 0 || diff.examResults) && (
+                    <div className="rounded-lg border border-border p-3 space-y-3">
+                      <h4 className="text-sm font-semibold">Report details</h4>
+                      {[...diff.summary, ...(diff.examResults ? [diff.examResults] : [])].map((change) => (
+                        <TextDiffRow key={change.label} diff={change} />
+                      ))}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
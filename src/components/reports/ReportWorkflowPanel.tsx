@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { History, Lock } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+import { useAppStore } from '@/store/useAppStore';
+import { useAuthStore } from '@/store/useAuthStore';
+import {
+  REPORT_STATUS_BADGE_VARIANTS,
+  REPORT_STATUS_LABELS,
+  getAvailableTransitions,
+  getUnratedPoints,
+  isReportLocked,
+} from '@/lib/reportWorkflow';
+import { countUnconfirmedPrefills } from '@/lib/reportPrefill';
+import { toast } from 'sonner';
+import type { AssessmentTemplate, Grade, ReportStatus, StudentReport } from '@/types';
+
+interface ReportWorkflowPanelProps {
+  report: StudentReport;
+  template?: AssessmentTemplate;
+  grade?: Grade;
+}
+
+export function ReportWorkflowPanel({ report, template, grade }: ReportWorkflowPanelProps) {
+  const { statusEvents, changeReportStatus } = useAppStore();
+  const profile = useAuthStore((state) => state.profile);
+  const [note, setNote] = useState('');
+
+  const history = statusEvents
+    .filter((e) => e.reportId === report.id)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const transitions = getAvailableTransitions(profile, grade, report);
+
+  const handleTransition = async (to: ReportStatus) => {
+    if (to === 'completed' && report.status === 'draft') {
+      const unrated = getUnratedPoints(template, report.entries);
+      if (unrated.length > 0) {
+        toast.error(`${unrated.length} assessment point${unrated.length > 1 ? 's are' : ' is'} not rated yet`, {
+          description: 'Edit the report and give every point stars or N/A before completing it.',
+        });
+        return;
+      }
+      const unconfirmed = countUnconfirmedPrefills(report);
+      if (unconfirmed > 0) {
+        toast.error(`${unconfirmed} copied value${unconfirmed > 1 ? 's need' : ' needs'} confirming`, {
+          description: 'Edit the report and confirm the values copied from the previous report.',
+        });
+        return;
+      }
+    }
+    try {
+      if (!(await changeReportStatus(report.id, to, note.trim()))) {
+        toast.error('Someone else changed the status of this report', {
+          description: 'Check the updated report and try again.',
+        });
+        return;
+      }
+    } catch (error) {
+      console.error('Failed to change report status:', error);
+      toast.error('Failed to change the report status');
+      return;
+    }
+    setNote('');
+    toast.success(`Report marked as ${REPORT_STATUS_LABELS[to].toLowerCase()}`);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Report Status
+          </CardTitle>
+          <Badge variant={REPORT_STATUS_BADGE_VARIANTS[report.status]} className="gap-1">
+            {isReportLocked(report) && <Lock className="h-3 w-3" />}
+            {REPORT_STATUS_LABELS[report.status]}
+          </Badge>
+        </div>
+        {isReportLocked(report) && (
+          <CardDescription>
+            This report has been reviewed and is locked. The head of school can reopen it for changes.
+          </CardDescription>
+        )}
+        {report.status === 'completed' && (
+          <CardDescription>
+            The classroom teacher signs the completed report; the head of school's signature then marks it as reviewed.
+          </CardDescription>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {transitions.length > 0 && (
+          <div className="space-y-2">
+            <Textarea
+              placeholder="Note (optional), e.g. what needs to change..."
+              className="min-h-[60px] text-sm"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+            <div className="flex flex-wrap gap-2">
+              {transitions.map((transition) => (
+                <Button
+                  key={transition.to}
+                  type="button"
+                  size="sm"
+                  variant={transition.to === 'draft' ? 'outline' : 'default'}
+                  onClick={() => handleTransition(transition.to)}
+                >
+                  {transition.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {history.length > 0 ? (
+          <ol className="space-y-2 border-l border-border pl-4">
+            {history.map((event) => (
+              <li key={event.id} className="text-sm">
+                <p>
+                  <span className="font-medium">{event.changedByName}</span>{' '}
+                  {event.fromStatus
+                    ? <>moved the report from {REPORT_STATUS_LABELS[event.fromStatus]} to {REPORT_STATUS_LABELS[event.toStatus]}</>
+                    : <>created the report as {REPORT_STATUS_LABELS[event.toStatus]}</>}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {new Date(event.createdAt).toLocaleString('en-GB', { day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                </p>
+                {event.note && (
+                  <p className="mt-1 text-xs italic text-muted-foreground">"{event.note}"</p>
+                )}
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <p className="text-sm text-muted-foreground">No status changes recorded yet.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
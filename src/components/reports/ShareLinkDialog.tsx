@@ -0,0 +1,177 @@
+import { useState } from 'react';
+import { Link, Copy, RefreshCw, Ban } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { DatePicker } from '@/components/ui/date-picker';
+import { useAppStore } from '@/store/useAppStore';
+import { getShareLinkState, getShareUrl } from '@/lib/shareLinks';
+import { toast } from 'sonner';
+import type { ShareLinkScope, StudentReport } from '@/types';
+
+interface ShareLinkDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  report: StudentReport;
+}
+
+const SCOPE_LABELS: Record<ShareLinkScope, string> = {
+  view: 'View only',
+  reflect: 'View and add reflections',
+};
+
+const STATE_BADGES = {
+  active: { label: 'Active', variant: 'default' },
+  expired: { label: 'Expired', variant: 'secondary' },
+  revoked: { label: 'Revoked', variant: 'destructive' },
+} as const;
+
+export function ShareLinkDialog({
+  open,
+  onOpenChange,
+  report,
+}: ShareLinkDialogProps) {
+  const { shareLinks, createShareLink, revokeShareLink } = useAppStore();
+  const [scope, setScope] = useState<ShareLinkScope>('reflect');
+  const [expiresOn, setExpiresOn] = useState<Date | null>(null);
+
+  // Most recent link for this report, whatever its state
+  const currentLink = shareLinks
+    .filter((l) => l.reportId === report.id)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+  const currentState = currentLink ? getShareLinkState(currentLink) : null;
+
+  const copyLink = (token: string) => {
+    const shareUrl = getShareUrl(token);
+    navigator.clipboard.writeText(shareUrl);
+    toast.success('Link copied! Share this with parents', {
+      description: shareUrl,
+    });
+  };
+
+  const handleCreate = () => {
+    // The link stays valid until the end of the chosen day
+    let expiresAt: string | undefined;
+    if (expiresOn) {
+      const endOfDay = new Date(expiresOn);
+      endOfDay.setHours(23, 59, 59, 999);
+      expiresAt = endOfDay.toISOString();
+    }
+
+    const link = createShareLink(report.id, { scope, expiresAt });
+    copyLink(link.token);
+  };
+
+  const handleRevoke = () => {
+    if (!currentLink) return;
+    revokeShareLink(currentLink.id);
+    toast.success('Share link revoked');
+  };
+
+  const tomorrow = new Date();
+  tomorrow.setDate(tomorrow.getDate() + 1);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Link className="h-5 w-5" />
+            Share with Parents
+          </DialogTitle>
+          <DialogDescription>
+            Parents can open the report with this link without signing in.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          {currentLink && currentState && (
+            <div className="rounded-lg border border-border p-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">Current link</span>
+                <Badge variant={STATE_BADGES[currentState].variant}>
+                  {STATE_BADGES[currentState].label}
+                </Badge>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {SCOPE_LABELS[currentLink.scope]}
+                {' · '}
+                {currentLink.expiresAt
+                  ? `${currentState === 'expired' ? 'Expired' : 'Expires'} ${new Date(currentLink.expiresAt).toLocaleDateString('en-GB')}`
+                  : 'No expiry date'}
+              </p>
+              {currentState === 'active' && (
+                <div className="flex gap-2 pt-1">
+                  <Button size="sm" variant="outline" className="gap-2" onClick={() => copyLink(currentLink.token)}>
+                    <Copy className="h-3.5 w-3.5" />
+                    Copy Link
+                  </Button>
+                  <Button size="sm" variant="outline" className="gap-2 text-destructive" onClick={handleRevoke}>
+                    <Ban className="h-3.5 w-3.5" />
+                    Revoke
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Access</label>
+            <Select value={scope} onValueChange={(value) => setScope(value as ShareLinkScope)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SCOPE_LABELS) as ShareLinkScope[]).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {SCOPE_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Expires on (optional)</label>
+            <DatePicker
+              value={expiresOn}
+              onChange={setExpiresOn}
+              minDate={tomorrow}
+              placeholder="No expiry"
+            />
+          </div>
+
+          {currentState === 'active' && (
+            <p className="text-sm text-muted-foreground">
+              Creating a new link revokes the current one.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button onClick={handleCreate} className="gap-2">
+            {currentLink ? <RefreshCw className="h-4 w-4" /> : <Link className="h-4 w-4" />}
+            {currentLink ? 'Create New Link' : 'Create Link'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,18 +1,22 @@
-import type { ReportSignature } from '@/types';
+import { SignatureStateNote } from './SignatureStateNote';
+import type { ReportSignature, Signature } from '@/types';
 
 interface SignatureDisplayProps {
   signatures?: ReportSignature;
   classroomTeacherName?: string;
   headOfSchoolName?: string;
+  // Hash of the report as shown, to flag signatures made on different content
+  currentHash?: string | null;
 }
 
 export function SignatureDisplay({
   signatures,
   classroomTeacherName = '',
   headOfSchoolName = 'Karina Medvedeva',
+  currentHash = null,
 }: SignatureDisplayProps) {
   const renderSignature = (
-    signature: { name: string; signedAt: string } | undefined,
+    signature: Signature | undefined,
     title: string,
     defaultName: string
   ) => {
@@ -26,6 +30,7 @@ export function SignatureDisplay({
             <div className="border-t border-foreground/30 pt-2 mx-8">
               <p className="font-semibold text-sm">{signature.name}</p>
               <p className="text-xs text-muted-foreground">{title}</p>
+              <SignatureStateNote signature={signature} currentHash={currentHash} />
             </div>
           </>
         ) : (
@@ -52,14 +57,14 @@ export function SignatureDisplay({
         <div className="flex gap-8 py-4">
           {renderSignature(
             signatures?.classroomTeacher?.name && signatures?.classroomTeacher?.signedAt
-              ? { name: signatures.classroomTeacher.name, signedAt: signatures.classroomTeacher.signedAt }
+              ? signatures.classroomTeacher
               : undefined,
             'Classroom Teacher',
             classroomTeacherName
           )}
           {renderSignature(
             signatures?.headOfSchool?.name && signatures?.headOfSchool?.signedAt
-              ? { name: signatures.headOfSchool.name, signedAt: signatures.headOfSchool.signedAt }
+              ? signatures.headOfSchool
               : undefined,
             'Head of School',
             headOfSchoolName
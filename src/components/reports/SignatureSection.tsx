@@ -1,8 +1,7 @@
 import { useState } from 'react';
-import { PenLine } from 'lucide-react';
+import { Loader2, PenLine } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Input } from '@/components/ui/input';
 import {
   Dialog,
   DialogContent,
@@ -11,13 +10,20 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
-import type { ReportSignature } from '@/types';
+import { SIGNATURE_ROLE_TITLES } from '@/lib/reportSignatures';
+import { SignatureStateNote } from './SignatureStateNote';
+import type { ReportSignature, SignatureRole } from '@/types';
 
 interface SignatureSectionProps {
   signatures?: ReportSignature;
   classroomTeacherName?: string;
   headOfSchoolName?: string;
-  onSign: (role: 'classroomTeacher' | 'headOfSchool', name: string) => void;
+  // Signed-in staff member; signatures always carry their own name
+  signerName?: string;
+  // Roles the signed-in staff member may sign right now
+  signableRoles?: SignatureRole[];
+  currentHash?: string | null;
+  onSign?: (role: SignatureRole) => Promise<void>;
   readOnly?: boolean;
 }
 
@@ -25,37 +31,34 @@ export function SignatureSection({
   signatures,
   classroomTeacherName = '',
   headOfSchoolName = 'Karina Medvedeva',
+  signerName = '',
+  signableRoles = [],
+  currentHash = null,
   onSign,
   readOnly = false,
 }: SignatureSectionProps) {
-  const [signingRole, setSigningRole] = useState<'classroomTeacher' | 'headOfSchool' | null>(null);
-  const [signatureName, setSignatureName] = useState('');
+  const [signingRole, setSigningRole] = useState<SignatureRole | null>(null);
+  const [isSigning, setIsSigning] = useState(false);
 
-  const handleSign = () => {
-    if (signingRole && signatureName.trim()) {
-      onSign(signingRole, signatureName.trim());
+  const handleSign = async () => {
+    if (!signingRole || !onSign) return;
+    setIsSigning(true);
+    try {
+      await onSign(signingRole);
       setSigningRole(null);
-      setSignatureName('');
+    } finally {
+      setIsSigning(false);
     }
   };
 
-  const openSignDialog = (role: 'classroomTeacher' | 'headOfSchool') => {
-    const defaultName = role === 'classroomTeacher' ? classroomTeacherName : headOfSchoolName;
-    setSignatureName(defaultName);
-    setSigningRole(role);
-  };
-
-  const renderSignature = (
-    role: 'classroomTeacher' | 'headOfSchool',
-    title: string,
-    defaultName: string
-  ) => {
+  const renderSignature = (role: SignatureRole, defaultName: string) => {
     const signature = signatures?.[role];
-    const isSigned = !!signature;
+    const title = SIGNATURE_ROLE_TITLES[role];
+    const canSign = !readOnly && !!onSign && signableRoles.includes(role);
 
     return (
       <div className="flex-1 text-center space-y-2">
-        {isSigned ? (
+        {signature ? (
           <>
             <div className="font-cursive text-2xl text-tisa-purple min-h-[3rem] flex items-center justify-center">
               {signature.name}
@@ -66,18 +69,19 @@ export function SignatureSection({
               <p className="text-xs text-muted-foreground mt-1">
                 Signed: {new Date(signature.signedAt).toLocaleDateString('en-GB')}
               </p>
+              <SignatureStateNote signature={signature} currentHash={currentHash} />
             </div>
           </>
         ) : (
           <>
             <div className="min-h-[3rem] flex items-center justify-center">
-              {!readOnly ? (
+              {canSign ? (
                 <Button
                   type="button"
                   variant="outline"
                   size="sm"
                   className="gap-2"
-                  onClick={() => openSignDialog(role)}
+                  onClick={() => setSigningRole(role)}
                 >
                   <PenLine className="h-4 w-4" />
                   Click to Sign
@@ -107,40 +111,32 @@ export function SignatureSection({
         </CardHeader>
         <CardContent>
           <div className="flex gap-8 py-4">
-            {renderSignature('classroomTeacher', 'Classroom Teacher', classroomTeacherName)}
-            {renderSignature('headOfSchool', 'Head of School', headOfSchoolName)}
+            {renderSignature('classroomTeacher', classroomTeacherName)}
+            {renderSignature('headOfSchool', headOfSchoolName)}
           </div>
         </CardContent>
       </Card>
 
-      <Dialog open={!!signingRole} onOpenChange={(open) => !open && setSigningRole(null)}>
+      <Dialog open={!!signingRole} onOpenChange={(open) => !open && !isSigning && setSigningRole(null)}>
         <DialogContent className="max-w-md">
           <DialogHeader>
-            <DialogTitle>Digital Signature</DialogTitle>
+            <DialogTitle>Sign as {signingRole && SIGNATURE_ROLE_TITLES[signingRole]}</DialogTitle>
             <DialogDescription>
-              Enter your name to sign the report. This will be displayed in a cursive style.
+              The signature records the report exactly as it is now. If anything changes afterwards,
+              the signature is shown as modified after signing.
+              {signingRole === 'headOfSchool' && ' Signing also marks the report as reviewed and locks it.'}
             </DialogDescription>
           </DialogHeader>
-          <div className="space-y-4 py-4">
-            <Input
-              placeholder="Enter your name"
-              value={signatureName}
-              onChange={(e) => setSignatureName(e.target.value)}
-              className="text-lg"
-              autoFocus
-            />
-            {signatureName && (
-              <div className="p-4 bg-muted/30 rounded-lg text-center">
-                <p className="text-xs text-muted-foreground mb-2">Preview:</p>
-                <p className="font-cursive text-3xl text-tisa-purple">{signatureName}</p>
-              </div>
-            )}
+          <div className="p-4 bg-muted/30 rounded-lg text-center">
+            <p className="text-xs text-muted-foreground mb-2">Preview:</p>
+            <p className="font-cursive text-3xl text-tisa-purple">{signerName}</p>
           </div>
           <DialogFooter>
-            <Button variant="outline" onClick={() => setSigningRole(null)}>
+            <Button variant="outline" onClick={() => setSigningRole(null)} disabled={isSigning}>
               Cancel
             </Button>
-            <Button onClick={handleSign} disabled={!signatureName.trim()}>
+            <Button onClick={handleSign} disabled={isSigning} className="gap-2">
+              {isSigning && <Loader2 className="h-4 w-4 animate-spin" />}
               Sign Report
             </Button>
           </DialogFooter>
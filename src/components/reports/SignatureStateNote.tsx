@@ -0,0 +1,27 @@
+import { AlertTriangle, ShieldCheck } from 'lucide-react';
+import { getSignatureState } from '@/lib/reportSignatures';
+import type { Signature } from '@/types';
+
+interface SignatureStateNoteProps {
+  signature: Signature;
+  currentHash: string | null;
+}
+
+// Whether the report still matches what was signed
+export function SignatureStateNote({ signature, currentHash }: SignatureStateNoteProps) {
+  if (!currentHash) return null;
+  const state = getSignatureState(signature, currentHash);
+  if (state === 'unverified') return null;
+
+  return state === 'valid' ? (
+    <p className="mt-1 flex items-center justify-center gap-1 text-xs text-muted-foreground">
+      <ShieldCheck className="h-3 w-3" />
+      Unchanged since signing
+    </p>
+  ) : (
+    <p className="mt-1 flex items-center justify-center gap-1 text-xs font-medium text-destructive">
+      <AlertTriangle className="h-3 w-3" />
+      Modified after signing
+    </p>
+  );
+}
@@ -0,0 +1,179 @@
+import { useRef, useState, type KeyboardEvent } from 'react';
+import { Star } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { AssessmentPoint, Subject } from '@/types';
+
+export interface StarEntryValue {
+  stars: number;
+  isNA: boolean;
+  isPrefilled?: boolean;
+}
+
+interface StarEntryGridProps {
+  subjects: Subject[];
+  // Keyed by `${subjectId}:${pointId}`, like the editor's entries
+  values: Record<string, StarEntryValue | undefined>;
+  canEditSubject: (subject: Subject) => boolean;
+  onChange: (subjectId: string, pointId: string, value: StarEntryValue) => void;
+}
+
+interface GridCell {
+  subject: Subject;
+  point: AssessmentPoint;
+  key: string;
+}
+
+// Keyboard entry for star ratings: type the number of stars or N for N/A and
+// the cursor moves on to the next point. Up and down move between points,
+// left and right between subjects. Subjects of other teachers are skipped.
+export function StarEntryGrid({ subjects, values, canEditSubject, onChange }: StarEntryGridProps) {
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [rejected, setRejected] = useState<{ key: string; message: string } | null>(null);
+  const cellRefs = useRef<Record<string, HTMLButtonElement | null>>({});
+
+  const cells: GridCell[] = subjects
+    .filter(canEditSubject)
+    .flatMap((subject) =>
+      subject.assessmentPoints.map((point) => ({ subject, point, key: `${subject.id}:${point.id}` }))
+    );
+  const current = Math.min(activeIndex, cells.length - 1);
+
+  const moveTo = (index: number) => {
+    const next = Math.max(0, Math.min(cells.length - 1, index));
+    setActiveIndex(next);
+    setRejected(null);
+    cellRefs.current[cells[next].key]?.focus();
+  };
+
+  const subjectStart = (index: number) => cells.findIndex((c) => c.subject.id === cells[index].subject.id);
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLButtonElement>, index: number) => {
+    const { subject, point, key } = cells[index];
+    if (event.ctrlKey || event.metaKey || event.altKey) return;
+
+    if (/^\d$/.test(event.key)) {
+      event.preventDefault();
+      const stars = Number(event.key);
+      if (stars < 1 || stars > point.maxStars) {
+        setRejected({ key, message: `${point.name} takes 1 to ${point.maxStars} stars` });
+        return;
+      }
+      onChange(subject.id, point.id, { stars, isNA: false });
+      moveTo(index + 1);
+      return;
+    }
+
+    switch (event.key) {
+      case 'n':
+      case 'N':
+        onChange(subject.id, point.id, { stars: values[key]?.stars ?? 0, isNA: true });
+        moveTo(index + 1);
+        break;
+      case 'Backspace':
+      case 'Delete':
+        // Back to unrated
+        onChange(subject.id, point.id, { stars: 0, isNA: false });
+        setRejected(null);
+        break;
+      case 'ArrowDown':
+      case 'Enter':
+        moveTo(index + 1);
+        break;
+      case 'ArrowUp':
+        moveTo(index - 1);
+        break;
+      case 'ArrowRight': {
+        const next = cells.findIndex((c, i) => i > index && c.subject.id !== subject.id);
+        if (next !== -1) moveTo(next);
+        break;
+      }
+      case 'ArrowLeft': {
+        const start = subjectStart(index);
+        moveTo(start < index ? start : start > 0 ? subjectStart(start - 1) : 0);
+        break;
+      }
+      case 'Home':
+        moveTo(0);
+        break;
+      case 'End':
+        moveTo(cells.length - 1);
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  };
+
+  return (
+    <div className="overflow-hidden rounded-lg border border-border">
+      <p className="border-b border-border bg-muted/40 px-3 py-2 text-xs text-muted-foreground">
+        Type the number of stars or N for N/A; Backspace clears a point's rating. ↑ ↓ move between points, ← →
+        between subjects.
+      </p>
+      {subjects.map((subject) => {
+        const editable = canEditSubject(subject);
+        return (
+          <div key={subject.id}>
+            <div className="border-b border-border bg-tisa-purple/10 px-3 py-1.5 text-xs font-semibold uppercase tracking-wide text-tisa-purple">
+              {subject.name}
+              {!editable && <span className="ml-2 font-normal normal-case text-muted-foreground">assigned to another teacher</span>}
+            </div>
+            {subject.assessmentPoints.map((point) => {
+              const key = `${subject.id}:${point.id}`;
+              const index = cells.findIndex((c) => c.key === key);
+              const value = values[key];
+              const stars = value?.stars ?? 0;
+              const isOverLimit = !value?.isNA && stars > point.maxStars;
+
+              return (
+                <div key={point.id} className="border-b border-border last:border-b-0">
+                  <div className="flex items-center justify-between gap-3 px-3 py-1">
+                    <span className={cn('text-sm', !editable && 'text-muted-foreground')}>{point.name}</span>
+                    <button
+                      ref={(element) => {
+                        cellRefs.current[key] = element;
+                      }}
+                      type="button"
+                      disabled={!editable}
+                      tabIndex={index === current ? 0 : -1}
+                      onFocus={() => setActiveIndex(index)}
+                      onKeyDown={(event) => handleKeyDown(event, index)}
+                      className={cn(
+                        'flex min-w-[132px] items-center justify-end gap-1.5 rounded-md px-2 py-1 text-sm',
+                        'focus:outline-none focus-visible:ring-2 focus-visible:ring-tisa-purple',
+                        index === current && editable && 'bg-tisa-purple/10',
+                        (rejected?.key === key || isOverLimit) && 'ring-2 ring-destructive',
+                        !editable && 'opacity-50'
+                      )}
+                    >
+                      {value?.isPrefilled && (
+                        <span className="text-[10px] font-medium uppercase text-amber-700" title="Copied from the previous report">
+                          Copied
+                        </span>
+                      )}
+                      {value?.isNA ? (
+                        <span className="font-medium text-muted-foreground">N/A</span>
+                      ) : (
+                        <>
+                          <span className="flex items-center gap-0.5 text-star-filled">
+                            {Array.from({ length: point.maxStars }).map((_, i) => (
+                              <Star key={i} className={cn('h-3.5 w-3.5', i < stars ? 'fill-current' : 'opacity-30')} />
+                            ))}
+                          </span>
+                          <span className={cn('w-8 text-right font-semibold tabular-nums', isOverLimit && 'text-destructive')}>
+                            {stars}/{point.maxStars}
+                          </span>
+                        </>
+                      )}
+                    </button>
+                  </div>
+                  {rejected?.key === key && <p className="px-3 pb-1.5 text-right text-xs text-destructive">{rejected.message}</p>}
+                </div>
+              );
+            })}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAppStore } from '@/store/useAppStore';
+import { getNewReportPath, getReportEditPath, getReportViewPath } from '@/lib/reportRoutes';
+import { isReportLocked } from '@/lib/reportWorkflow';
+
+interface StudentNavigatorProps {
+  studentId: string;
+  assessmentTemplateId: string;
+  mode: 'edit' | 'view';
+  // Kept when moving on, so a subject teacher stays on their subject
+  subjectId?: string;
+  disabled?: boolean;
+  onNavigate: (path: string) => void;
+}
+
+// Previous/next student of the same class for the same assessment. Editing
+// skips locked reports and starts a report for students who have none;
+// viewing only visits students with a report.
+export function StudentNavigator({
+  studentId,
+  assessmentTemplateId,
+  mode,
+  subjectId,
+  disabled,
+  onNavigate,
+}: StudentNavigatorProps) {
+  const { students, reports } = useAppStore();
+  const current = students.find((s) => s.id === studentId);
+  if (!current) return null;
+
+  const stops = students
+    .filter((s) => s.gradeId === current.gradeId && s.schoolYearId === current.schoolYearId)
+    .sort((a, b) => `${a.lastName} ${a.firstName}`.localeCompare(`${b.lastName} ${b.firstName}`))
+    .flatMap((student) => {
+      const report = reports
+        .filter((r) => r.studentId === student.id && r.assessmentTemplateId === assessmentTemplateId)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0];
+      if (mode === 'view') {
+        return report ? [{ student, path: getReportViewPath(report.id, subjectId) }] : [];
+      }
+      if (report && isReportLocked(report) && student.id !== studentId) return [];
+      return [
+        {
+          student,
+          path: report
+            ? getReportEditPath(report.id, subjectId)
+            : getNewReportPath({ studentId: student.id, assessmentTemplateId, subjectId }),
+        },
+      ];
+    });
+
+  const index = stops.findIndex((stop) => stop.student.id === studentId);
+  if (index === -1 || stops.length < 2) return null;
+  const previous = stops[index - 1];
+  const next = stops[index + 1];
+
+  return (
+    <div className="flex items-center gap-2">
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        className="gap-1"
+        disabled={!previous || disabled}
+        onClick={() => previous && onNavigate(previous.path)}
+      >
+        <ChevronLeft className="h-4 w-4" />
+        {previous ? previous.student.firstName : 'Previous'}
+      </Button>
+      <span className="whitespace-nowrap text-xs text-muted-foreground">
+        {index + 1} of {stops.length}
+      </span>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        className="gap-1"
+        disabled={!next || disabled}
+        onClick={() => next && onNavigate(next.path)}
+      >
+        {next ? next.student.firstName : 'Next'}
+        <ChevronRight className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+import { useMemo, useState } from 'react';
+import { ArrowRight, ChevronLeft, Users } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAppStore } from '@/store/useAppStore';
+import {
+  buildRolloverEntries,
+  createRolledOverStudents,
+  getDefaultAction,
+  getFollowingYear,
+  sortGrades,
+  type RolloverAction,
+  type RolloverEntry,
+} from '@/lib/studentRollover';
+import { toast } from 'sonner';
+
+interface RolloverWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Step = 'review' | 'confirm';
+
+function ActionSelect({
+  entry,
+  value,
+  onChange,
+}: {
+  entry: RolloverEntry;
+  value: RolloverAction;
+  onChange: (action: RolloverAction) => void;
+}) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="h-8 w-48">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {entry.nextGrade && <SelectItem value="promote">Move up to {entry.nextGrade.name}</SelectItem>}
+        <SelectItem value="repeat">Repeat {entry.grade?.name ?? 'grade'}</SelectItem>
+        <SelectItem value="leave">Leave school</SelectItem>
+      </SelectContent>
+    </Select>
+  );
+}
+
+// Copies one year's students into the next: review the move for each student,
+// then confirm the new class sizes. Mounted only while open, so it starts from
+// the active year each time.
+export function RolloverWizard({ open, onOpenChange }: RolloverWizardProps) {
+  const { students, grades, schoolYears, activeSchoolYearId, addStudents } = useAppStore();
+  const [fromYearId, setFromYearId] = useState(activeSchoolYearId ?? '');
+  const [toYearId, setToYearId] = useState(() => getFollowingYear(schoolYears, activeSchoolYearId ?? '')?.id ?? '');
+  const [actions, setActions] = useState<Record<string, RolloverAction>>({});
+  const [step, setStep] = useState<Step>('review');
+
+  const fromYear = schoolYears.find((y) => y.id === fromYearId);
+  const toYear = schoolYears.find((y) => y.id === toYearId);
+  const laterYears = schoolYears
+    .filter((y) => fromYear && y.startYear > fromYear.startYear)
+    .sort((a, b) => a.startYear - b.startYear);
+
+  const entries = useMemo(
+    () => (fromYearId && toYearId ? buildRolloverEntries(students, grades, fromYearId, toYearId) : []),
+    [students, grades, fromYearId, toYearId]
+  );
+  const pending = entries.filter((e) => !e.rolledOverTo);
+  const actionFor = (entry: RolloverEntry) => actions[entry.student.id] ?? getDefaultAction(entry);
+  const newStudents = useMemo(
+    () => (toYearId ? createRolledOverStudents(entries, actions, toYearId) : []),
+    [entries, actions, toYearId]
+  );
+  const leaving = pending.filter((e) => actionFor(e) === 'leave').length;
+
+  const groups = sortGrades(grades)
+    .map((grade) => ({ grade, entries: entries.filter((e) => e.student.gradeId === grade.id) }))
+    .filter((group) => group.entries.length > 0);
+
+  const selectFromYear = (yearId: string) => {
+    setFromYearId(yearId);
+    setToYearId(getFollowingYear(schoolYears, yearId)?.id ?? '');
+    setActions({});
+  };
+
+  const setGroupAction = (groupEntries: RolloverEntry[], action: RolloverAction) =>
+    setActions((prev) => ({
+      ...prev,
+      ...Object.fromEntries(
+        groupEntries
+          // Students in the last grade cannot move up
+          .filter((e) => !e.rolledOverTo && (action !== 'promote' || e.nextGrade))
+          .map((e) => [e.student.id, action])
+      ),
+    }));
+
+  const handleRollover = () => {
+    addStudents(newStudents);
+    toast.success(`${newStudents.length} student${newStudents.length === 1 ? '' : 's'} added to ${toYear?.name}`);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Roll Over Students</DialogTitle>
+          <DialogDescription>
+            {step === 'review'
+              ? "Copy a year's students into the next school year. Each student moves up to the next grade unless you choose otherwise; students in the last grade leave."
+              : 'Check the new class sizes before the students are added.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'review' ? (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="space-y-1">
+                <label className="text-xs font-medium">From</label>
+                <Select value={fromYearId} onValueChange={selectFromYear}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue placeholder="School year" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {schoolYears.map((year) => (
+                      <SelectItem key={year.id} value={year.id}>
+                        {year.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <ArrowRight className="mb-2.5 h-4 w-4 text-muted-foreground" />
+              <div className="space-y-1">
+                <label className="text-xs font-medium">To</label>
+                <Select
+                  value={toYearId}
+                  onValueChange={(yearId) => {
+                    setToYearId(yearId);
+                    setActions({});
+                  }}
+                  disabled={laterYears.length === 0}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue placeholder="School year" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {laterYears.map((year) => (
+                      <SelectItem key={year.id} value={year.id}>
+                        {year.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {fromYear && laterYears.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Add the school year after {fromYear.name} first.</p>
+            ) : entries.length === 0 ? (
+              <p className="text-sm text-muted-foreground">There are no students in {fromYear?.name ?? 'this year'}.</p>
+            ) : (
+              <div className="max-h-[50vh] space-y-4 overflow-auto pr-1">
+                {groups.map(({ grade, entries: groupEntries }) => (
+                  <div key={grade.id} className="space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-sm font-semibold">
+                        {grade.name}
+                        <span className="ml-2 font-normal text-muted-foreground">{groupEntries.length} students</span>
+                      </p>
+                      <Select value="" onValueChange={(action: RolloverAction) => setGroupAction(groupEntries, action)}>
+                        <SelectTrigger className="h-8 w-40">
+                          <SelectValue placeholder="Set for all..." />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {groupEntries.some((e) => e.nextGrade) && <SelectItem value="promote">All move up</SelectItem>}
+                          <SelectItem value="repeat">All repeat</SelectItem>
+                          <SelectItem value="leave">All leave</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {groupEntries.map((entry) => (
+                      <div
+                        key={entry.student.id}
+                        className="flex flex-wrap items-center justify-between gap-2 rounded-lg border border-border px-3 py-2"
+                      >
+                        <span className="text-sm">
+                          {entry.student.firstName} {entry.student.lastName}
+                        </span>
+                        {entry.rolledOverTo ? (
+                          <Badge variant="secondary">
+                            Already in {toYear?.name},{' '}
+                            {grades.find((g) => g.id === entry.rolledOverTo!.gradeId)?.name ?? 'no grade'}
+                          </Badge>
+                        ) : (
+                          <ActionSelect
+                            entry={entry}
+                            value={actionFor(entry)}
+                            onChange={(action) => setActions((prev) => ({ ...prev, [entry.student.id]: action }))}
+                          />
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-sm">
+              <span className="font-medium">{newStudents.length}</span> students will be added to{' '}
+              <span className="font-medium">{toYear?.name}</span>
+              {leaving > 0 && <>; {leaving} leave the school</>}
+              {entries.length > pending.length && <>; {entries.length - pending.length} are already there</>}.
+            </p>
+            <div className="grid gap-2 sm:grid-cols-2">
+              {sortGrades(grades).map((grade) => {
+                const count = newStudents.filter((s) => s.gradeId === grade.id).length;
+                if (!count) return null;
+                const repeating = newStudents.filter(
+                  (s) => s.gradeId === grade.id && entries.find((e) => e.student.id === s.previousStudentId)?.student.gradeId === grade.id
+                ).length;
+                return (
+                  <div key={grade.id} className="flex items-center gap-3 rounded-lg border border-border p-3">
+                    <Users className="h-4 w-4 text-muted-foreground" />
+                    <span className="flex-1 text-sm font-medium">{grade.name}</span>
+                    <span className="text-sm">
+                      {count}
+                      {repeating > 0 && <span className="text-muted-foreground"> ({repeating} repeating)</span>}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'review' ? (
+            <>
+              <Button variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button onClick={() => setStep('confirm')} disabled={newStudents.length === 0}>
+                Review {newStudents.length} Student{newStudents.length === 1 ? '' : 's'}
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" className="gap-1" onClick={() => setStep('review')}>
+                <ChevronLeft className="h-4 w-4" />
+                Back
+              </Button>
+              <Button onClick={handleRollover}>Add to {toYear?.name}</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,78 @@
+import { Users } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAppStore } from '@/store/useAppStore';
+import { useAuthStore } from '@/store/useAuthStore';
+import { STAFF_ROLE_LABELS, type StaffRole } from '@/types';
+import { toast } from 'sonner';
+
+export function StaffCard() {
+  const { staffProfiles, updateStaffProfile } = useAppStore();
+  const currentProfile = useAuthStore((state) => state.profile);
+
+  const handleNameBlur = (id: string, value: string, previous: string) => {
+    const fullName = value.trim();
+    if (!fullName || fullName === previous) return;
+    updateStaffProfile(id, { fullName });
+    toast.success('Staff name updated');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Staff
+        </CardTitle>
+        <CardDescription>
+          Names must match the teacher names used on the Grades page, which decide who can edit which reports.
+          New accounts are added in Supabase Authentication and start as teachers.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {staffProfiles.map((profile) => (
+          <div
+            key={profile.id}
+            className="flex flex-wrap items-center gap-3 rounded-lg border border-border p-3"
+          >
+            <div className="flex-1 min-w-[200px] space-y-1">
+              <Input
+                key={profile.fullName}
+                defaultValue={profile.fullName}
+                onBlur={(e) => handleNameBlur(profile.id, e.target.value, profile.fullName)}
+              />
+              <p className="text-xs text-muted-foreground">{profile.email}</p>
+            </div>
+            <Select
+              value={profile.role}
+              onValueChange={(role: StaffRole) => {
+                updateStaffProfile(profile.id, { role });
+                toast.success(`${profile.fullName} is now ${STAFF_ROLE_LABELS[role]}`);
+              }}
+              // Admins cannot demote themselves and lock everyone out of Settings
+              disabled={profile.id === currentProfile?.id}
+            >
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(STAFF_ROLE_LABELS) as StaffRole[]).map((role) => (
+                  <SelectItem key={role} value={role}>
+                    {STAFF_ROLE_LABELS[role]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -22,6 +22,8 @@ const MAX_FILE_SIZE = 200 * 1024; // 200KB
 
 interface GeneralDocumentsSectionProps {
   studentId: string;
+  // Every enrolment of the student's learner; documents from all of them are listed
+  enrolmentIds: string[];
   studentName: string;
   documents: StudentDocument[];
   reports: StudentReport[];
@@ -33,6 +35,7 @@ interface GeneralDocumentsSectionProps {
 
 export function GeneralDocumentsSection({
   studentId,
+  enrolmentIds,
   studentName,
   documents,
   reports,
@@ -46,11 +49,11 @@ export function GeneralDocumentsSection({
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const generalDocs = documents.filter(
-    (doc) => doc.studentId === studentId && doc.type === 'general'
+    (doc) => enrolmentIds.includes(doc.studentId) && doc.type === 'general'
   );
 
   const reportDocs = documents.filter(
-    (doc) => doc.studentId === studentId && doc.type === 'report'
+    (doc) => enrolmentIds.includes(doc.studentId) && doc.type === 'report'
   );
 
   // Group report docs by reportId
@@ -0,0 +1,267 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { AlertCircle, Check, FileSpreadsheet, Upload } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useAppStore } from '@/store/useAppStore';
+import {
+  IMPORT_FIELDS,
+  guessColumnMapping,
+  readImportFile,
+  validateImportRows,
+  type ColumnMapping,
+  type ImportSheet,
+} from '@/lib/studentImport';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+interface StudentImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Select items cannot have an empty value
+const UNMAPPED = 'none';
+
+// Imports students from a spreadsheet into the active school year. Rows with
+// errors and duplicates are shown in the preview and left out of the import.
+export function StudentImportDialog({ open, onOpenChange }: StudentImportDialogProps) {
+  const { grades, learners, students, schoolYears, activeSchoolYearId, addStudents } = useAppStore();
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<ImportSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [isReading, setIsReading] = useState(false);
+
+  const activeYear = schoolYears.find((y) => y.id === activeSchoolYearId);
+  const missingFields = IMPORT_FIELDS.filter((f) => f.required && mapping[f.field] === undefined);
+
+  const rows = useMemo(
+    () =>
+      sheet && activeSchoolYearId
+        ? validateImportRows(sheet, mapping, grades, learners, students, activeSchoolYearId)
+        : [],
+    [sheet, mapping, grades, learners, students, activeSchoolYearId]
+  );
+  const ready = rows.filter((r) => r.student && !r.duplicateOf);
+  const errorCount = rows.filter((r) => r.errors.length > 0).length;
+  const duplicateCount = rows.filter((r) => r.duplicateOf).length;
+
+  const reset = () => {
+    setFileName('');
+    setSheet(null);
+    setMapping({});
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsReading(true);
+    try {
+      const result = await readImportFile(file);
+      if (result.rows.length === 0) {
+        toast.error('The file has no student rows');
+        return;
+      }
+      setFileName(file.name);
+      setSheet(result);
+      setMapping(guessColumnMapping(result.headers));
+    } catch (error) {
+      console.error('Failed to read import file:', error);
+      toast.error('Could not read the file', { description: 'Use a .csv or .xlsx file with a header row.' });
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleImport = () => {
+    addStudents(
+      ready.map((r) => r.student!),
+      ready.flatMap((r) => (r.newLearner ? [r.newLearner] : []))
+    );
+    toast.success(`${ready.length} student${ready.length === 1 ? '' : 's'} imported`);
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Import Students</DialogTitle>
+          <DialogDescription>
+            Add students to {activeYear?.name ?? 'the active school year'} from a .csv or .xlsx file with one student per
+            row and a header row. Dates are read day first (31/12/2015) or as 2015-12-31.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <label
+            className={cn(
+              'flex cursor-pointer items-center gap-3 rounded-lg border-2 border-dashed border-border p-4 transition-colors hover:border-primary/50',
+              isReading && 'pointer-events-none opacity-60'
+            )}
+          >
+            {sheet ? <FileSpreadsheet className="h-5 w-5 text-primary" /> : <Upload className="h-5 w-5 text-muted-foreground" />}
+            <span className="text-sm">
+              {sheet ? (
+                <>
+                  <span className="font-medium">{fileName}</span>
+                  <span className="text-muted-foreground"> · {sheet.rows.length} rows · choose another file</span>
+                </>
+              ) : (
+                'Choose a file...'
+              )}
+            </span>
+            <input type="file" accept=".csv,.xlsx,text/csv" className="hidden" onChange={handleFile} />
+          </label>
+
+          {sheet && (
+            <>
+              <div className="grid gap-3 sm:grid-cols-3">
+                {IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <div key={field} className="space-y-1">
+                    <label className="text-xs font-medium">
+                      {label}
+                      {required && <span className="text-destructive"> *</span>}
+                    </label>
+                    <Select
+                      value={mapping[field] === undefined ? UNMAPPED : String(mapping[field])}
+                      onValueChange={(value) =>
+                        setMapping((prev) => ({ ...prev, [field]: value === UNMAPPED ? undefined : Number(value) }))
+                      }
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNMAPPED}>Not in file</SelectItem>
+                        {sheet.headers.map((header, index) => (
+                          <SelectItem key={index} value={String(index)}>
+                            {header || `Column ${index + 1}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              {missingFields.length > 0 ? (
+                <p className="flex items-center gap-2 text-sm text-destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  Choose the column for {missingFields.map((f) => f.label.toLowerCase()).join(', ')}.
+                </p>
+              ) : (
+                <>
+                  <div className="flex flex-wrap gap-2">
+                    <Badge variant="secondary">{ready.length} ready</Badge>
+                    {errorCount > 0 && <Badge variant="destructive">{errorCount} with errors</Badge>}
+                    {duplicateCount > 0 && <Badge variant="outline">{duplicateCount} duplicates</Badge>}
+                  </div>
+                  <div className="max-h-[45vh] overflow-auto rounded-lg border border-border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-14">Row</TableHead>
+                          <TableHead>Number</TableHead>
+                          <TableHead>Name</TableHead>
+                          <TableHead>Grade</TableHead>
+                          <TableHead>Date of Birth</TableHead>
+                          <TableHead>Gender</TableHead>
+                          <TableHead>Status</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {rows.map((row) => {
+                          const raw = sheet.rows[row.rowNumber - 2];
+                          const cell = (field: keyof ColumnMapping) =>
+                            mapping[field] === undefined ? '' : raw[mapping[field]!];
+                          const student = row.student;
+                          return (
+                            <TableRow
+                              key={row.rowNumber}
+                              className={cn(row.errors.length > 0 && 'bg-destructive/5', row.duplicateOf && 'opacity-60')}
+                            >
+                              <TableCell className="text-xs text-muted-foreground">{row.rowNumber}</TableCell>
+                              <TableCell className="text-xs">{cell('studentNumber')}</TableCell>
+                              <TableCell>
+                                {student
+                                  ? `${student.firstName} ${student.lastName}${student.nameUsed ? ` ("${student.nameUsed}")` : ''}`
+                                  : `${cell('firstName')} ${cell('lastName')}`}
+                              </TableCell>
+                              <TableCell>
+                                {student ? grades.find((g) => g.id === student.gradeId)?.name : cell('grade')}
+                              </TableCell>
+                              <TableCell className="text-xs">
+                                {student
+                                  ? student.dateOfBirth && format(new Date(student.dateOfBirth), 'd MMM yyyy')
+                                  : cell('dateOfBirth')}
+                              </TableCell>
+                              <TableCell className="text-xs capitalize">
+                                {student ? student.gender : cell('gender')}
+                              </TableCell>
+                              <TableCell className="text-xs">
+                                {row.errors.length > 0 ? (
+                                  <span className="text-destructive">{row.errors.join('; ')}</span>
+                                ) : row.duplicateOf === 'existing' ? (
+                                  'Already enrolled, skipped'
+                                ) : row.duplicateOf === 'file' ? (
+                                  'Repeats an earlier row, skipped'
+                                ) : !row.newLearner ? (
+                                  'Linked to earlier years'
+                                ) : (
+                                  <Check className="h-4 w-4 text-primary" />
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={missingFields.length > 0 || ready.length === 0}>
+            Import {ready.length} Student{ready.length === 1 ? '' : 's'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { cn } from '@/lib/utils';
+import type { ProgressPeriod, ProgressSeries } from '@/lib/studentProgress';
+
+interface StudentProgressChartProps {
+  periods: ProgressPeriod[];
+  series: ProgressSeries[];
+  maxStars: number;
+}
+
+const SERIES_COLORS = [
+  'hsl(var(--grade-0))',
+  'hsl(var(--grade-1))',
+  'hsl(var(--grade-2))',
+  'hsl(var(--grade-3))',
+  'hsl(var(--grade-4))',
+  'hsl(var(--grade-5))',
+  'hsl(var(--tisa-purple))',
+  'hsl(var(--tisa-blue))',
+  'hsl(var(--tisa-red))',
+  'hsl(var(--muted-foreground))',
+];
+
+// Average stars per term, one line per series. Clicking a name below the
+// chart hides or shows its line.
+export function StudentProgressChart({ periods, series, maxStars }: StudentProgressChartProps) {
+  const [hidden, setHidden] = useState<Set<string>>(new Set());
+
+  // Series names are free text, so the chart keys are positional
+  const keyed = series.map((s, index) => ({ ...s, key: `series${index}`, color: SERIES_COLORS[index % SERIES_COLORS.length] }));
+  const config: ChartConfig = Object.fromEntries(keyed.map((s) => [s.key, { label: s.name, color: s.color }]));
+  const data = periods.map((period) => ({
+    period: period.label,
+    ...Object.fromEntries(keyed.map((s) => [s.key, s.values[period.key]])),
+  }));
+
+  const toggle = (key: string) =>
+    setHidden((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+
+  return (
+    <div className="space-y-3">
+      <ChartContainer config={config} className="aspect-auto h-[280px] w-full">
+        <LineChart data={data} margin={{ top: 8, right: 16, left: 0, bottom: 0 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="period" tickLine={false} axisLine={false} tickMargin={8} />
+          <YAxis domain={[0, maxStars]} allowDecimals={false} tickLine={false} axisLine={false} width={24} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          {keyed
+            .filter((s) => !hidden.has(s.key))
+            .map((s) => (
+              <Line
+                key={s.key}
+                dataKey={s.key}
+                type="monotone"
+                stroke={`var(--color-${s.key})`}
+                strokeWidth={2}
+                dot={{ r: 3 }}
+                connectNulls
+              />
+            ))}
+        </LineChart>
+      </ChartContainer>
+      <div className="flex flex-wrap gap-2">
+        {keyed.map((s) => (
+          <button
+            key={s.key}
+            type="button"
+            onClick={() => toggle(s.key)}
+            className={cn(
+              'flex items-center gap-1.5 rounded-full border border-border px-2.5 py-1 text-xs transition-opacity',
+              hidden.has(s.key) && 'opacity-40'
+            )}
+          >
+            <span className="h-2 w-2 rounded-full" style={{ backgroundColor: s.color }} />
+            {s.name}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useAppStore } from '@/store/useAppStore';
+import { EARLY_WARNING_RULE_LABELS, type EarlyWarningFlag } from '@/lib/earlyWarnings';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+interface WarningFlagItemProps {
+  flag: EarlyWarningFlag;
+  // Which report raised the flag, e.g. "Progress Report · Term 1"
+  reportLabel: string;
+  onOpenReport: () => void;
+}
+
+// One early-warning flag with its follow-up notes. Acknowledging takes the
+// flag off the dashboard; notes can still be added afterwards.
+export function WarningFlagItem({ flag, reportLabel, onOpenReport }: WarningFlagItemProps) {
+  const addWarningFlagNote = useAppStore((state) => state.addWarningFlagNote);
+  const [note, setNote] = useState('');
+
+  const handleAdd = (acknowledged: boolean) => {
+    addWarningFlagNote(flag.studentId, flag.key, note, acknowledged);
+    setNote('');
+    toast.success(acknowledged ? 'Flag acknowledged' : 'Note added');
+  };
+
+  return (
+    <div
+      className={cn(
+        'space-y-3 rounded-lg border p-3',
+        flag.acknowledged ? 'border-border' : 'border-destructive/20 bg-destructive/5'
+      )}
+    >
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div className="flex items-start gap-2">
+          {flag.acknowledged ? (
+            <CheckCircle2 className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+          ) : (
+            <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-destructive" />
+          )}
+          <div>
+            <p className="text-sm font-medium">{flag.title}</p>
+            {flag.detail && <p className="text-xs text-muted-foreground">{flag.detail}</p>}
+            <button type="button" onClick={onOpenReport} className="text-xs text-primary hover:underline">
+              {reportLabel}
+            </button>
+          </div>
+        </div>
+        <div className="flex gap-1.5">
+          <Badge variant="outline">{EARLY_WARNING_RULE_LABELS[flag.rule]}</Badge>
+          {flag.acknowledged && <Badge variant="secondary">Acknowledged</Badge>}
+        </div>
+      </div>
+
+      {flag.notes.length > 0 && (
+        <ol className="space-y-2 border-l border-border pl-4">
+          {flag.notes.map((n) => (
+            <li key={n.id} className="text-sm">
+              <p className="text-xs text-muted-foreground">
+                <span className="font-medium text-foreground">{n.createdByName}</span>
+                {n.acknowledged && ' acknowledged the flag'} · {format(new Date(n.createdAt), 'd MMM yyyy, HH:mm')}
+              </p>
+              {n.note && <p className="mt-0.5 whitespace-pre-wrap">{n.note}</p>}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="space-y-2">
+        <Textarea
+          placeholder="Follow-up note, e.g. spoke with parents, extra support planned..."
+          className="min-h-[60px] text-sm"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+        />
+        <div className="flex flex-wrap gap-2">
+          <Button type="button" size="sm" variant="outline" disabled={!note.trim()} onClick={() => handleAdd(false)}>
+            Add Note
+          </Button>
+          {!flag.acknowledged && (
+            <Button type="button" size="sm" onClick={() => handleAdd(true)}>
+              Acknowledge
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -51,8 +51,8 @@ export function StarRating({
     onNAChange(!isNA);
   };
 
-  // Display value - if 0 (unset), show as max (starts full)
-  const displayValue = value === 0 ? max : value;
+  // 0 is unrated and shows no filled stars; the first click gives full stars
+  const displayValue = value;
 
   // In readonly mode with N/A, show just the text
   if (readonly && isNA) {
@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { fetchAIRewrite, type AIRewriteMode } from '@/lib/data/aiRewrite';
+
+// A text of the report to rewrite, and where the rewritten text goes
+export interface AIRewriteItem {
+  text: string;
+  apply: (rewritten: string) => void;
+}
+
+// Pause between the rewrites of a batch to stay under the AI provider's rate limits
+const BATCH_DELAY_MS = 500;
+
+// AI rewrites in the report editor: one text at a time from the rewrite
+// buttons, or every comment of the report at once in the TISA style
+export function useAIRewrite() {
+  // Keyed by the rewrite buttons' loading keys
+  const [isLoading, setIsLoading] = useState<{ [key: string]: boolean }>({});
+  // Null while no batch is running
+  const [batchProgress, setBatchProgress] = useState<{ current: number; total: number } | null>(null);
+
+  // Matches the rewrite buttons' onRewrite
+  const rewrite = async (
+    text: string,
+    loadingKey: string,
+    onRewritten: (rewritten: string) => void,
+    mode: AIRewriteMode = 'quick',
+    studentName?: string
+  ) => {
+    if (!text.trim()) {
+      toast.error('Please enter some text first');
+      return;
+    }
+
+    setIsLoading((prev) => ({ ...prev, [loadingKey]: true }));
+    try {
+      onRewritten(await fetchAIRewrite(text, mode, studentName));
+      toast.success(mode === 'tisa' ? 'TISA-style rewrite complete!' : 'Quick rewrite complete!');
+    } catch (error) {
+      console.error('AI rewrite error:', error);
+      toast.error('Failed to rewrite text. Please try again.', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsLoading((prev) => ({ ...prev, [loadingKey]: false }));
+    }
+  };
+
+  const rewriteAll = async (items: AIRewriteItem[], studentName?: string) => {
+    if (items.length === 0) {
+      toast.error('No comments to rewrite. Add some teacher notes first.');
+      return;
+    }
+
+    const confirmed = window.confirm(
+      `Rewrite ${items.length} comment${items.length > 1 ? 's' : ''} with TISA style?\n\nThis will process all teacher notes using the TISA style guide.`
+    );
+    if (!confirmed) return;
+
+    let successCount = 0;
+    let errorCount = 0;
+    for (let i = 0; i < items.length; i++) {
+      setBatchProgress({ current: i + 1, total: items.length });
+      try {
+        items[i].apply(await fetchAIRewrite(items[i].text, 'tisa', studentName));
+        successCount++;
+      } catch (error) {
+        console.error('Rewrite error:', error);
+        errorCount++;
+      }
+      if (i < items.length - 1) {
+        await new Promise((resolve) => setTimeout(resolve, BATCH_DELAY_MS));
+      }
+    }
+    setBatchProgress(null);
+
+    if (successCount > 0) {
+      toast.success(`Rewrote ${successCount} comment${successCount > 1 ? 's' : ''} with TISA style!`);
+    }
+    if (errorCount > 0) {
+      toast.error(`Failed to rewrite ${errorCount} comment${errorCount > 1 ? 's' : ''}`);
+    }
+  };
+
+  return { isLoading, rewrite, rewriteAll, batchProgress };
+}
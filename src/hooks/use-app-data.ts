@@ -0,0 +1,18 @@
+import { useEffect } from 'react';
+import { useAppStore } from '@/store/useAppStore';
+
+// Loads the shared dataset once per session and exposes its loading state
+export function useAppData() {
+  const hasLoaded = useAppStore((state) => state.hasLoaded);
+  const isLoading = useAppStore((state) => state.isLoading);
+  const loadError = useAppStore((state) => state.loadError);
+  const loadData = useAppStore((state) => state.loadData);
+
+  useEffect(() => {
+    if (!hasLoaded && !isLoading && !loadError) {
+      loadData();
+    }
+  }, [hasLoaded, isLoading, loadError, loadData]);
+
+  return { hasLoaded, isLoading, loadError, retry: loadData };
+}
@@ -0,0 +1,69 @@
+import { useEffect } from 'react';
+import { toast } from 'sonner';
+import { useAppStore } from '@/store/useAppStore';
+import { useAuthStore } from '@/store/useAuthStore';
+import { isDraftReportOpen, isOfflineError, readDrafts, removeDraft, writeDraft } from '@/lib/reportDrafts';
+
+// Every page mounts its own layout, so the flag lives outside the hook
+let isSyncing = false;
+
+// Saves report drafts queued while offline as soon as the connection is back.
+// A draft that conflicts with changes saved in the meantime stays on this
+// device and is offered for recovery when its report is opened. Only the
+// signed-in staff member's own drafts are synced.
+export function useDraftSync() {
+  const ownerId = useAuthStore((state) => state.profile?.id);
+  const hasLoaded = useAppStore((state) => state.hasLoaded);
+  const createReport = useAppStore((state) => state.createReport);
+  const saveReportChanges = useAppStore((state) => state.saveReportChanges);
+
+  useEffect(() => {
+    if (!hasLoaded || !ownerId) return;
+
+    const syncDrafts = async () => {
+      if (isSyncing || !navigator.onLine) return;
+      isSyncing = true;
+      let synced = 0;
+      let kept = 0;
+      try {
+        for (const draft of readDrafts(ownerId)) {
+          if (!draft.queued || isDraftReportOpen(draft.reportId)) continue;
+          try {
+            if (draft.base) {
+              const { saved } = await saveReportChanges(draft.base, draft.report, draft.sectionIds);
+              if (!saved) {
+                writeDraft({ ...draft, queued: false });
+                kept++;
+                continue;
+              }
+            } else {
+              await createReport(draft.report);
+            }
+            removeDraft(ownerId, draft.reportId);
+            synced++;
+          } catch (error) {
+            if (isOfflineError(error)) break;
+            console.error('Draft sync error:', error);
+            writeDraft({ ...draft, queued: false });
+            kept++;
+          }
+        }
+      } finally {
+        isSyncing = false;
+      }
+
+      if (synced > 0) {
+        toast.success(`Saved offline changes to ${synced} report${synced > 1 ? 's' : ''}`);
+      }
+      if (kept > 0) {
+        toast.warning(`Offline changes to ${kept} report${kept > 1 ? 's' : ''} could not be saved`, {
+          description: 'The reports changed in the meantime. Open them to review and save your changes.',
+        });
+      }
+    };
+
+    syncDrafts();
+    window.addEventListener('online', syncDrafts);
+    return () => window.removeEventListener('online', syncDrafts);
+  }, [hasLoaded, ownerId, createReport, saveReportChanges]);
+}
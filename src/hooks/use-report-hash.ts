@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react';
+import { computeReportHash } from '@/lib/reportSignatures';
+import type { StudentReport } from '@/types';
+
+// Content hash of a report, recomputed whenever the report changes.
+// Null until the first hash has been computed.
+export function useReportHash(report: StudentReport | null | undefined) {
+  const [hash, setHash] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!report) {
+      setHash(null);
+      return;
+    }
+    let cancelled = false;
+    computeReportHash(report).then((value) => {
+      if (!cancelled) setHash(value);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [report]);
+
+  return hash;
+}
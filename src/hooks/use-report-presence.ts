@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useAppStore } from '@/store/useAppStore';
+import { useAuthStore } from '@/store/useAuthStore';
+import { realtime, type RealtimeTransport, type ReportPresence, type ReportsChannel } from '@/lib/data/realtime';
+
+interface ReportActivity {
+  reportId: string | null;
+  studentName?: string;
+}
+
+// Connects the Reports page to the realtime channel: announces which report
+// the user is editing, lists other staff online and applies their saves to
+// the store. Pass a local transport to simulate other users.
+export function useReportPresence(activity: ReportActivity, transport: RealtimeTransport = realtime) {
+  const profile = useAuthStore((state) => state.profile);
+  const receiveReportChange = useAppStore((state) => state.receiveReportChange);
+  const [presences, setPresences] = useState<ReportPresence[]>([]);
+  const channelRef = useRef<ReportsChannel | null>(null);
+
+  const staffId = profile?.id;
+  const staffName = profile?.fullName;
+
+  useEffect(() => {
+    if (!staffId || !staffName) return;
+    const channel = transport.connect(
+      { staffId, staffName, reportId: null },
+      { onPresence: setPresences, onReportChange: receiveReportChange }
+    );
+    channelRef.current = channel;
+    return () => {
+      channel.close();
+      channelRef.current = null;
+      setPresences([]);
+    };
+  }, [staffId, staffName, transport, receiveReportChange]);
+
+  useEffect(() => {
+    if (!staffId || !staffName) return;
+    channelRef.current?.track({ staffId, staffName, reportId: activity.reportId, studentName: activity.studentName });
+  }, [staffId, staffName, activity.reportId, activity.studentName]);
+
+  // Other staff only, once each, even with the page open in several tabs
+  const others = useMemo(() => {
+    const byStaff = new Map<string, ReportPresence>();
+    presences
+      .filter((p) => p.staffId !== staffId)
+      .forEach((p) => {
+        if (!byStaff.has(p.staffId) || p.reportId) byStaff.set(p.staffId, p);
+      });
+    return [...byStaff.values()];
+  }, [presences, staffId]);
+
+  const getEditors = useCallback(
+    (reportId: string) => [
+      ...new Set(presences.filter((p) => p.staffId !== staffId && p.reportId === reportId).map((p) => p.staffName)),
+    ],
+    [presences, staffId]
+  );
+
+  return { others, getEditors };
+}
@@ -14,13 +14,681 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      ai_provider_keys: {
+        Row: {
+          anthropic_api_key: string
+          google_api_key: string
+          id: number
+          openai_api_key: string
+          updated_at: string
+        }
+        Insert: {
+          anthropic_api_key?: string
+          google_api_key?: string
+          id?: number
+          openai_api_key?: string
+          updated_at?: string
+        }
+        Update: {
+          anthropic_api_key?: string
+          google_api_key?: string
+          id?: number
+          openai_api_key?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      app_settings: {
+        Row: {
+          ai_provider: string
+          company_writing_style: string
+          early_warning_rules: Json
+          grading_key: string
+          id: number
+          mission_statement: string
+          school_name: string
+          statement: string
+          updated_at: string
+          values: string[]
+          vision: string
+        }
+        Insert: {
+          ai_provider?: string
+          company_writing_style?: string
+          early_warning_rules?: Json
+          grading_key?: string
+          id?: number
+          mission_statement?: string
+          school_name?: string
+          statement?: string
+          updated_at?: string
+          values?: string[]
+          vision?: string
+        }
+        Update: {
+          ai_provider?: string
+          company_writing_style?: string
+          early_warning_rules?: Json
+          grading_key?: string
+          id?: number
+          mission_statement?: string
+          school_name?: string
+          statement?: string
+          updated_at?: string
+          values?: string[]
+          vision?: string
+        }
+        Relationships: []
+      }
+      assessment_templates: {
+        Row: {
+          created_at: string
+          description: string | null
+          grade_id: string
+          id: string
+          intro_text: string | null
+          is_archived: boolean
+          name: string
+          school_year_id: string
+          static_texts: Json
+          subjects: Json
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          grade_id: string
+          id?: string
+          intro_text?: string | null
+          is_archived?: boolean
+          name: string
+          school_year_id: string
+          static_texts?: Json
+          subjects?: Json
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          grade_id?: string
+          id?: string
+          intro_text?: string | null
+          is_archived?: boolean
+          name?: string
+          school_year_id?: string
+          static_texts?: Json
+          subjects?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "assessment_templates_grade_id_fkey"
+            columns: ["grade_id"]
+            isOneToOne: false
+            referencedRelation: "grades"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "assessment_templates_school_year_id_fkey"
+            columns: ["school_year_id"]
+            isOneToOne: false
+            referencedRelation: "school_years"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      grades: {
+        Row: {
+          classroom_teacher: string | null
+          color_index: number
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          sort_order: number
+          teacher_assignments: Json
+        }
+        Insert: {
+          classroom_teacher?: string | null
+          color_index?: number
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          sort_order?: number
+          teacher_assignments?: Json
+        }
+        Update: {
+          classroom_teacher?: string | null
+          color_index?: number
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          sort_order?: number
+          teacher_assignments?: Json
+        }
+        Relationships: []
+      }
+      learners: {
+        Row: {
+          created_at: string
+          id: string
+          student_number: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          student_number?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          student_number?: string | null
+        }
+        Relationships: []
+      }
+      report_audit_log: {
+        Row: {
+          action: string
+          changed_at: string
+          changed_by: string | null
+          changed_by_name: string
+          field: string
+          id: string
+          item_key: string | null
+          new_value: Json | null
+          old_value: Json | null
+          report_id: string
+        }
+        Insert: {
+          action: string
+          changed_at?: string
+          changed_by?: string | null
+          changed_by_name: string
+          field: string
+          id?: string
+          item_key?: string | null
+          new_value?: Json | null
+          old_value?: Json | null
+          report_id: string
+        }
+        Update: {
+          action?: string
+          changed_at?: string
+          changed_by?: string | null
+          changed_by_name?: string
+          field?: string
+          id?: string
+          item_key?: string | null
+          new_value?: Json | null
+          old_value?: Json | null
+          report_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_audit_log_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "staff_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_share_links: {
+        Row: {
+          created_at: string
+          expires_at: string | null
+          id: string
+          report_id: string
+          revoked_at: string | null
+          scope: string
+          token: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          report_id: string
+          revoked_at?: string | null
+          scope?: string
+          token: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          report_id?: string
+          revoked_at?: string | null
+          scope?: string
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_share_links_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "student_reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_status_events: {
+        Row: {
+          changed_by: string | null
+          changed_by_name: string
+          created_at: string
+          from_status: string | null
+          id: string
+          note: string | null
+          report_id: string
+          to_status: string
+        }
+        Insert: {
+          changed_by?: string | null
+          changed_by_name: string
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          report_id: string
+          to_status: string
+        }
+        Update: {
+          changed_by?: string | null
+          changed_by_name?: string
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          report_id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_status_events_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "staff_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "report_status_events_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "student_reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_versions: {
+        Row: {
+          id: string
+          report_id: string
+          saved_at: string
+          saved_by: string | null
+          saved_by_name: string
+          snapshot: Json
+          version_number: number
+        }
+        Insert: {
+          id?: string
+          report_id: string
+          saved_at?: string
+          saved_by?: string | null
+          saved_by_name: string
+          snapshot: Json
+          version_number: number
+        }
+        Update: {
+          id?: string
+          report_id?: string
+          saved_at?: string
+          saved_by?: string | null
+          saved_by_name?: string
+          snapshot?: Json
+          version_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_versions_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "student_reports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "report_versions_saved_by_fkey"
+            columns: ["saved_by"]
+            isOneToOne: false
+            referencedRelation: "staff_profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      school_years: {
+        Row: {
+          created_at: string
+          end_year: number
+          id: string
+          is_active: boolean
+          name: string
+          start_year: number
+        }
+        Insert: {
+          created_at?: string
+          end_year: number
+          id?: string
+          is_active?: boolean
+          name: string
+          start_year: number
+        }
+        Update: {
+          created_at?: string
+          end_year?: number
+          id?: string
+          is_active?: boolean
+          name?: string
+          start_year?: number
+        }
+        Relationships: []
+      }
+      staff_profiles: {
+        Row: {
+          created_at: string
+          email: string
+          full_name: string
+          id: string
+          role: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          full_name: string
+          id: string
+          role?: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          full_name?: string
+          id?: string
+          role?: string
+        }
+        Relationships: []
+      }
+      student_documents: {
+        Row: {
+          comment: string | null
+          file_data: string
+          file_name: string
+          file_type: string
+          id: string
+          label: string
+          report_id: string | null
+          student_id: string
+          type: string
+          uploaded_at: string
+        }
+        Insert: {
+          comment?: string | null
+          file_data: string
+          file_name: string
+          file_type: string
+          id?: string
+          label: string
+          report_id?: string | null
+          student_id: string
+          type: string
+          uploaded_at?: string
+        }
+        Update: {
+          comment?: string | null
+          file_data?: string
+          file_name?: string
+          file_type?: string
+          id?: string
+          label?: string
+          report_id?: string | null
+          student_id?: string
+          type?: string
+          uploaded_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "student_documents_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      student_reports: {
+        Row: {
+          assessment_template_id: string
+          created_at: string
+          entries: Json
+          exam_results: Json
+          general_comment: string | null
+          id: string
+          period_end: string | null
+          period_start: string | null
+          reflections: Json | null
+          report_title: string | null
+          school_year_id: string
+          signatures: Json | null
+          status: string
+          student_id: string
+          subject_comments: Json
+          term: string
+          updated_at: string
+        }
+        Insert: {
+          assessment_template_id: string
+          created_at?: string
+          entries?: Json
+          exam_results?: Json
+          general_comment?: string | null
+          id?: string
+          period_end?: string | null
+          period_start?: string | null
+          reflections?: Json | null
+          report_title?: string | null
+          school_year_id: string
+          signatures?: Json | null
+          status?: string
+          student_id: string
+          subject_comments?: Json
+          term?: string
+          updated_at?: string
+        }
+        Update: {
+          assessment_template_id?: string
+          created_at?: string
+          entries?: Json
+          exam_results?: Json
+          general_comment?: string | null
+          id?: string
+          period_end?: string | null
+          period_start?: string | null
+          reflections?: Json | null
+          report_title?: string | null
+          school_year_id?: string
+          signatures?: Json | null
+          status?: string
+          student_id?: string
+          subject_comments?: Json
+          term?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "student_reports_assessment_template_id_fkey"
+            columns: ["assessment_template_id"]
+            isOneToOne: false
+            referencedRelation: "assessment_templates"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "student_reports_school_year_id_fkey"
+            columns: ["school_year_id"]
+            isOneToOne: false
+            referencedRelation: "school_years"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "student_reports_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      students: {
+        Row: {
+          avatar_url: string | null
+          created_at: string
+          date_of_birth: string | null
+          first_name: string
+          gender: string | null
+          grade_id: string
+          id: string
+          last_name: string
+          learner_id: string
+          name_used: string | null
+          previous_student_id: string | null
+          school_year_id: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string
+          date_of_birth?: string | null
+          first_name: string
+          gender?: string | null
+          grade_id: string
+          id?: string
+          last_name: string
+          learner_id: string
+          name_used?: string | null
+          previous_student_id?: string | null
+          school_year_id: string
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string
+          date_of_birth?: string | null
+          first_name?: string
+          gender?: string | null
+          grade_id?: string
+          id?: string
+          last_name?: string
+          learner_id?: string
+          name_used?: string | null
+          previous_student_id?: string | null
+          school_year_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "students_grade_id_fkey"
+            columns: ["grade_id"]
+            isOneToOne: false
+            referencedRelation: "grades"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "students_learner_id_fkey"
+            columns: ["learner_id"]
+            isOneToOne: false
+            referencedRelation: "learners"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "students_previous_student_id_fkey"
+            columns: ["previous_student_id"]
+            isOneToOne: true
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "students_school_year_id_fkey"
+            columns: ["school_year_id"]
+            isOneToOne: false
+            referencedRelation: "school_years"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      warning_flag_notes: {
+        Row: {
+          acknowledged: boolean
+          created_at: string
+          created_by: string | null
+          created_by_name: string
+          flag_key: string
+          id: string
+          note: string | null
+          student_id: string
+        }
+        Insert: {
+          acknowledged?: boolean
+          created_at?: string
+          created_by?: string | null
+          created_by_name: string
+          flag_key: string
+          id?: string
+          note?: string | null
+          student_id: string
+        }
+        Update: {
+          acknowledged?: boolean
+          created_at?: string
+          created_by?: string | null
+          created_by_name?: string
+          flag_key?: string
+          id?: string
+          note?: string | null
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "warning_flag_notes_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "staff_profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "warning_flag_notes_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
+
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      audit_compact: { Args: { _value: Json }; Returns: Json }
+      audit_items: {
+        Args: { _field: string; _items: Json }
+        Returns: {
+          item_key: string
+          value: Json
+        }[]
+      }
+      can_edit_student_reports: {
+        Args: { _student_id: string }
+        Returns: boolean
+      }
+      current_staff_role: { Args: never; Returns: string }
+      is_classroom_teacher_of: {
+        Args: { _student_id: string }
+        Returns: boolean
+      }
+      teaches_grade: { Args: { _grade_id: string }; Returns: boolean }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,75 @@
+import type { ReportEntry, StudentReport, SubjectComment } from '@/types';
+
+// Ratings entered for a whole class at once, one subject (or one point of it)
+// across every student of a grade
+
+export interface ClassEntryValue {
+  stars: number;
+  isNA: boolean;
+  teacherNotes: string;
+}
+
+export interface ClassEntryChanges {
+  // Keyed by assessment point id
+  entries: Record<string, ClassEntryValue>;
+  comment?: string;
+}
+
+// The report with one subject's changed points and comment written in. A
+// polished text no longer matches notes that were changed, so it is dropped.
+// Writing a value also confirms one that was copied from an earlier report.
+export function applyClassEntry(report: StudentReport, subjectId: string, changes: ClassEntryChanges): StudentReport {
+  const entries: ReportEntry[] = report.entries.filter(
+    (e) => !(e.subjectId === subjectId && changes.entries[e.assessmentPointId])
+  );
+  Object.entries(changes.entries).forEach(([pointId, value]) => {
+    const previous = report.entries.find((e) => e.subjectId === subjectId && e.assessmentPointId === pointId);
+    const notesChanged = (previous?.teacherNotes || '') !== value.teacherNotes;
+    entries.push({
+      assessmentPointId: pointId,
+      subjectId,
+      stars: value.stars,
+      isNA: value.isNA || undefined,
+      teacherNotes: value.teacherNotes,
+      aiRewrittenText: notesChanged ? undefined : previous?.aiRewrittenText,
+    });
+  });
+
+  let subjectComments = report.subjectComments || [];
+  if (changes.comment !== undefined) {
+    const previous = subjectComments.find((c) => c.subjectId === subjectId);
+    const comment: SubjectComment = {
+      ...previous,
+      subjectId,
+      teacherComment: changes.comment,
+      aiRewrittenComment: previous?.teacherComment === changes.comment ? previous.aiRewrittenComment : undefined,
+      isPrefilled: undefined,
+    };
+    subjectComments = [...subjectComments.filter((c) => c.subjectId !== subjectId), comment];
+  }
+
+  return { ...report, entries, subjectComments };
+}
+
+// A new draft report holding only what was entered; the other points stay
+// unrated until someone fills them in
+export function createClassEntryReport(
+  options: { studentId: string; assessmentTemplateId: string; schoolYearId: string },
+  subjectId: string,
+  changes: ClassEntryChanges
+): StudentReport {
+  const now = new Date().toISOString();
+  const draft: StudentReport = {
+    id: crypto.randomUUID(),
+    ...options,
+    term: 'Term 1 & 2',
+    entries: [],
+    subjectComments: [],
+    generalComment: '',
+    examResults: [],
+    status: 'draft',
+    createdAt: now,
+    updatedAt: now,
+  };
+  return applyClassEntry(draft, subjectId, changes);
+}
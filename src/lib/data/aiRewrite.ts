@@ -0,0 +1,20 @@
+import { supabase } from '@/integrations/supabase/client';
+import { QUICK_STYLE_GUIDE, TISA_STYLE_GUIDE } from '@/lib/aiStyleGuides';
+
+// 'quick' tidies the text up; 'tisa' rewrites it in the school's report style
+export type AIRewriteMode = 'quick' | 'tisa';
+
+// Rewrites a teacher's text with the ai-rewrite edge function
+export async function fetchAIRewrite(text: string, mode: AIRewriteMode, studentName?: string): Promise<string> {
+  const { data, error } = await supabase.functions.invoke<{ rewrittenText?: string; error?: string }>('ai-rewrite', {
+    body: {
+      text,
+      styleGuide: mode === 'tisa' ? TISA_STYLE_GUIDE : QUICK_STYLE_GUIDE,
+      studentName,
+    },
+  });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  if (!data?.rewrittenText) throw new Error('The AI returned no text');
+  return data.rewrittenText;
+}
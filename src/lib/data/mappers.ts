@@ -0,0 +1,338 @@
+import type { Json, Tables, TablesInsert } from '@/integrations/supabase/types';
+import type {
+  SchoolYear,
+  Grade,
+  AssessmentTemplate,
+  Learner,
+  Student,
+  StudentReport,
+  StudentDocument,
+  ReportShareLink,
+  ReportStatusEvent,
+  WarningFlagNote,
+  ReportAuditEntry,
+  ReportVersion,
+  StaffProfile,
+  AppSettings,
+  EarlyWarningRules,
+  TeacherAssignment,
+  Subject,
+  ReportEntry,
+  SubjectComment,
+  ExamResult,
+  ReportReflection,
+  ReportSignature,
+} from '@/types';
+
+// Row <-> domain conversion. Optional domain fields are stored as NULL and
+// nested structures (subjects, entries, comments...) as jsonb.
+
+export const toSchoolYear = (row: Tables<'school_years'>): SchoolYear => ({
+  id: row.id,
+  name: row.name,
+  startYear: row.start_year,
+  endYear: row.end_year,
+  isActive: row.is_active,
+});
+
+export const fromSchoolYear = (year: SchoolYear): TablesInsert<'school_years'> => ({
+  id: year.id,
+  name: year.name,
+  start_year: year.startYear,
+  end_year: year.endYear,
+  is_active: year.isActive,
+});
+
+export const toGrade = (row: Tables<'grades'>): Grade => ({
+  id: row.id,
+  name: row.name,
+  description: row.description ?? undefined,
+  colorIndex: row.color_index,
+  order: row.sort_order,
+  classroomTeacher: row.classroom_teacher ?? undefined,
+  teacherAssignments: row.teacher_assignments as TeacherAssignment[],
+});
+
+export const fromGrade = (grade: Grade): TablesInsert<'grades'> => ({
+  id: grade.id,
+  name: grade.name,
+  description: grade.description ?? null,
+  color_index: grade.colorIndex,
+  sort_order: grade.order,
+  classroom_teacher: grade.classroomTeacher ?? null,
+  teacher_assignments: (grade.teacherAssignments ?? []) as Json,
+});
+
+export const toAssessmentTemplate = (row: Tables<'assessment_templates'>): AssessmentTemplate => ({
+  id: row.id,
+  gradeId: row.grade_id,
+  schoolYearId: row.school_year_id,
+  name: row.name,
+  description: row.description ?? undefined,
+  subjects: row.subjects as Subject[],
+  introText: row.intro_text ?? undefined,
+  staticTexts: row.static_texts as AssessmentTemplate['staticTexts'],
+  isArchived: row.is_archived,
+  createdAt: row.created_at,
+});
+
+export const fromAssessmentTemplate = (template: AssessmentTemplate): TablesInsert<'assessment_templates'> => ({
+  id: template.id,
+  grade_id: template.gradeId,
+  school_year_id: template.schoolYearId,
+  name: template.name,
+  description: template.description ?? null,
+  subjects: template.subjects as Json,
+  intro_text: template.introText ?? null,
+  static_texts: (template.staticTexts ?? []) as Json,
+  is_archived: template.isArchived ?? false,
+  created_at: template.createdAt,
+});
+
+export const toLearner = (row: Tables<'learners'>): Learner => ({
+  id: row.id,
+  studentNumber: row.student_number ?? undefined,
+  createdAt: row.created_at,
+});
+
+export const fromLearner = (learner: Learner): TablesInsert<'learners'> => ({
+  id: learner.id,
+  student_number: learner.studentNumber ?? null,
+  created_at: learner.createdAt,
+});
+
+export const toStudent = (row: Tables<'students'>): Student => ({
+  id: row.id,
+  learnerId: row.learner_id,
+  firstName: row.first_name,
+  lastName: row.last_name,
+  nameUsed: row.name_used ?? undefined,
+  dateOfBirth: row.date_of_birth ?? undefined,
+  gradeId: row.grade_id,
+  schoolYearId: row.school_year_id,
+  avatarUrl: row.avatar_url ?? undefined,
+  gender: (row.gender as Student['gender']) ?? undefined,
+  previousStudentId: row.previous_student_id ?? undefined,
+});
+
+export const fromStudent = (student: Student): TablesInsert<'students'> => ({
+  id: student.id,
+  learner_id: student.learnerId,
+  first_name: student.firstName,
+  last_name: student.lastName,
+  name_used: student.nameUsed ?? null,
+  date_of_birth: student.dateOfBirth ?? null,
+  grade_id: student.gradeId,
+  school_year_id: student.schoolYearId,
+  avatar_url: student.avatarUrl ?? null,
+  gender: student.gender ?? null,
+  previous_student_id: student.previousStudentId ?? null,
+});
+
+export const toReport = (row: Tables<'student_reports'>): StudentReport => ({
+  id: row.id,
+  studentId: row.student_id,
+  assessmentTemplateId: row.assessment_template_id,
+  schoolYearId: row.school_year_id,
+  term: row.term,
+  reportTitle: row.report_title ?? undefined,
+  periodStart: row.period_start ?? undefined,
+  periodEnd: row.period_end ?? undefined,
+  entries: row.entries as ReportEntry[],
+  subjectComments: row.subject_comments as SubjectComment[],
+  generalComment: row.general_comment ?? undefined,
+  status: row.status as StudentReport['status'],
+  examResults: row.exam_results as ExamResult[],
+  reflections: (row.reflections as ReportReflection | null) ?? undefined,
+  signatures: (row.signatures as ReportSignature | null) ?? undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+export const fromReport = (report: StudentReport): TablesInsert<'student_reports'> => ({
+  id: report.id,
+  student_id: report.studentId,
+  assessment_template_id: report.assessmentTemplateId,
+  school_year_id: report.schoolYearId,
+  term: report.term,
+  report_title: report.reportTitle ?? null,
+  period_start: report.periodStart ?? null,
+  period_end: report.periodEnd ?? null,
+  entries: report.entries as Json,
+  subject_comments: (report.subjectComments ?? []) as Json,
+  general_comment: report.generalComment ?? null,
+  status: report.status,
+  exam_results: (report.examResults ?? []) as Json,
+  reflections: (report.reflections ?? null) as Json,
+  signatures: (report.signatures ?? null) as Json,
+  created_at: report.createdAt,
+  updated_at: report.updatedAt,
+});
+
+export const toShareLink = (row: Tables<'report_share_links'>): ReportShareLink => ({
+  id: row.id,
+  reportId: row.report_id,
+  token: row.token,
+  scope: row.scope as ReportShareLink['scope'],
+  expiresAt: row.expires_at ?? undefined,
+  revokedAt: row.revoked_at ?? undefined,
+  createdAt: row.created_at,
+});
+
+export const fromShareLink = (link: ReportShareLink): TablesInsert<'report_share_links'> => ({
+  id: link.id,
+  report_id: link.reportId,
+  token: link.token,
+  scope: link.scope,
+  expires_at: link.expiresAt ?? null,
+  revoked_at: link.revokedAt ?? null,
+  created_at: link.createdAt,
+});
+
+export const toStatusEvent = (row: Tables<'report_status_events'>): ReportStatusEvent => ({
+  id: row.id,
+  reportId: row.report_id,
+  fromStatus: (row.from_status as ReportStatusEvent['fromStatus']) ?? undefined,
+  toStatus: row.to_status as ReportStatusEvent['toStatus'],
+  changedBy: row.changed_by ?? undefined,
+  changedByName: row.changed_by_name,
+  note: row.note ?? undefined,
+  createdAt: row.created_at,
+});
+
+export const fromStatusEvent = (event: ReportStatusEvent): TablesInsert<'report_status_events'> => ({
+  id: event.id,
+  report_id: event.reportId,
+  from_status: event.fromStatus ?? null,
+  to_status: event.toStatus,
+  changed_by: event.changedBy ?? null,
+  changed_by_name: event.changedByName,
+  note: event.note ?? null,
+  created_at: event.createdAt,
+});
+
+export const toWarningFlagNote = (row: Tables<'warning_flag_notes'>): WarningFlagNote => ({
+  id: row.id,
+  studentId: row.student_id,
+  flagKey: row.flag_key,
+  note: row.note ?? undefined,
+  acknowledged: row.acknowledged,
+  createdBy: row.created_by ?? undefined,
+  createdByName: row.created_by_name,
+  createdAt: row.created_at,
+});
+
+export const fromWarningFlagNote = (note: WarningFlagNote): TablesInsert<'warning_flag_notes'> => ({
+  id: note.id,
+  student_id: note.studentId,
+  flag_key: note.flagKey,
+  note: note.note ?? null,
+  acknowledged: note.acknowledged,
+  created_by: note.createdBy ?? null,
+  created_by_name: note.createdByName,
+  created_at: note.createdAt,
+});
+
+export const toAuditEntry = (row: Tables<'report_audit_log'>): ReportAuditEntry => ({
+  id: row.id,
+  reportId: row.report_id,
+  action: row.action as ReportAuditEntry['action'],
+  field: row.field as ReportAuditEntry['field'],
+  itemKey: row.item_key ?? undefined,
+  oldValue: row.old_value ?? undefined,
+  newValue: row.new_value ?? undefined,
+  changedBy: row.changed_by ?? undefined,
+  changedByName: row.changed_by_name,
+  changedAt: row.changed_at,
+});
+
+export const toReportVersion = (row: Tables<'report_versions'>): ReportVersion => ({
+  id: row.id,
+  reportId: row.report_id,
+  versionNumber: row.version_number,
+  report: toReport(row.snapshot as unknown as Tables<'student_reports'>),
+  savedBy: row.saved_by ?? undefined,
+  savedByName: row.saved_by_name,
+  savedAt: row.saved_at,
+});
+
+export const toDocument = (row: Tables<'student_documents'>): StudentDocument => ({
+  id: row.id,
+  studentId: row.student_id,
+  type: row.type as StudentDocument['type'],
+  reportId: row.report_id ?? undefined,
+  label: row.label,
+  comment: row.comment ?? undefined,
+  fileName: row.file_name,
+  fileType: row.file_type,
+  fileData: row.file_data,
+  uploadedAt: row.uploaded_at,
+});
+
+export const fromDocument = (doc: StudentDocument): TablesInsert<'student_documents'> => ({
+  id: doc.id,
+  student_id: doc.studentId,
+  type: doc.type,
+  report_id: doc.reportId ?? null,
+  label: doc.label,
+  comment: doc.comment ?? null,
+  file_name: doc.fileName,
+  file_type: doc.fileType,
+  file_data: doc.fileData,
+  uploaded_at: doc.uploadedAt,
+});
+
+export const toStaffProfile = (row: Tables<'staff_profiles'>): StaffProfile => ({
+  id: row.id,
+  email: row.email,
+  fullName: row.full_name,
+  role: row.role as StaffProfile['role'],
+});
+
+export const fromStaffProfile = (profile: StaffProfile): TablesInsert<'staff_profiles'> => ({
+  id: profile.id,
+  email: profile.email,
+  full_name: profile.fullName,
+  role: profile.role,
+});
+
+// API keys live in their own admin-only table; other staff get empty keys
+export const toAppSettings = (
+  row: Tables<'app_settings'>,
+  keys: Tables<'ai_provider_keys'> | null
+): AppSettings => ({
+  schoolName: row.school_name,
+  missionStatement: row.mission_statement,
+  statement: row.statement,
+  vision: row.vision,
+  values: row.values,
+  gradingKey: row.grading_key,
+  companyWritingStyle: row.company_writing_style,
+  aiProvider: row.ai_provider as AppSettings['aiProvider'],
+  openaiApiKey: keys?.openai_api_key ?? '',
+  googleApiKey: keys?.google_api_key ?? '',
+  anthropicApiKey: keys?.anthropic_api_key ?? '',
+  earlyWarningRules: row.early_warning_rules as unknown as EarlyWarningRules,
+});
+
+export const fromAppSettings = (settings: AppSettings): TablesInsert<'app_settings'> => ({
+  id: 1,
+  school_name: settings.schoolName,
+  mission_statement: settings.missionStatement,
+  statement: settings.statement,
+  vision: settings.vision,
+  values: settings.values,
+  grading_key: settings.gradingKey,
+  company_writing_style: settings.companyWritingStyle,
+  ai_provider: settings.aiProvider,
+  early_warning_rules: settings.earlyWarningRules as unknown as Json,
+  updated_at: new Date().toISOString(),
+});
+
+export const fromAiProviderKeys = (settings: AppSettings): TablesInsert<'ai_provider_keys'> => ({
+  id: 1,
+  openai_api_key: settings.openaiApiKey,
+  google_api_key: settings.googleApiKey,
+  anthropic_api_key: settings.anthropicApiKey,
+  updated_at: new Date().toISOString(),
+});
@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { useAppStore } from '@/store/useAppStore';
+import { createLocalRealtime, type LocalRealtime, type ReportPresence } from './realtime';
+import type { StudentReport } from '@/types';
+
+// The app's own client needs the browser and the project's environment
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const carin: ReportPresence = { staffId: 'carin', staffName: 'Ms Carin', reportId: null };
+const roman: ReportPresence = { staffId: 'roman', staffName: 'Mr Roman', reportId: null };
+
+const savedReport = (updatedAt: string, generalComment?: string): StudentReport => ({
+  id: 'report-1',
+  studentId: 'student-1',
+  assessmentTemplateId: 'template-1',
+  schoolYearId: 'year-1',
+  term: 'Term 1 & 2',
+  entries: [],
+  generalComment,
+  status: 'draft',
+  createdAt: '2026-10-01T08:00:00.000Z',
+  updatedAt,
+});
+
+// Connects a simulated staff member the way the Reports page does, applying
+// report changes to the store and keeping the latest presence list
+const connect = (transport: LocalRealtime, presence: ReportPresence) => {
+  const seen = { presences: [] as ReportPresence[] };
+  const channel = transport.connect(presence, {
+    onPresence: (presences) => {
+      seen.presences = presences;
+    },
+    onReportChange: useAppStore.getState().receiveReportChange,
+  });
+  return { channel, seen };
+};
+
+describe('local realtime transport', () => {
+  let transport: LocalRealtime;
+
+  beforeEach(() => {
+    transport = createLocalRealtime();
+    useAppStore.setState({ reports: [], shareLinks: [], statusEvents: [] });
+  });
+
+  it('shows everyone connected and the report they are editing', () => {
+    const first = connect(transport, carin);
+    const second = connect(transport, roman);
+    expect(first.seen.presences.map((p) => p.staffName)).toEqual(['Ms Carin', 'Mr Roman']);
+
+    second.channel.track({ ...roman, reportId: 'report-1', studentName: 'Anna Smith' });
+    expect(first.seen.presences).toContainEqual({ ...roman, reportId: 'report-1', studentName: 'Anna Smith' });
+
+    second.channel.close();
+    expect(first.seen.presences).toEqual([carin]);
+  });
+
+  it('ignores presence updates after a connection is closed', () => {
+    const first = connect(transport, carin);
+    const second = connect(transport, roman);
+    second.channel.close();
+
+    second.channel.track({ ...roman, reportId: 'report-1' });
+    expect(first.seen.presences).toEqual([carin]);
+  });
+
+  it('refreshes reports saved by others in the store', () => {
+    connect(transport, carin);
+
+    transport.publish({ type: 'saved', report: savedReport('2026-10-19T09:00:00.000Z', 'First') });
+    transport.publish({ type: 'saved', report: savedReport('2026-10-19T10:00:00.000Z', 'Second') });
+    expect(useAppStore.getState().reports).toEqual([savedReport('2026-10-19T10:00:00.000Z', 'Second')]);
+  });
+
+  it('never replaces a report with an older copy', () => {
+    connect(transport, carin);
+
+    transport.publish({ type: 'saved', report: savedReport('2026-10-19T10:00:00.000Z', 'Newer') });
+    transport.publish({ type: 'saved', report: savedReport('2026-10-19T09:00:00.000Z', 'Older') });
+    expect(useAppStore.getState().reports[0].generalComment).toBe('Newer');
+  });
+
+  it('removes reports deleted by others from the store', () => {
+    connect(transport, carin);
+    transport.publish({ type: 'saved', report: savedReport('2026-10-19T09:00:00.000Z') });
+
+    transport.publish({ type: 'deleted', reportId: 'report-1' });
+    expect(useAppStore.getState().reports).toEqual([]);
+  });
+});
@@ -0,0 +1,115 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Tables } from '@/integrations/supabase/types';
+import type { StudentReport } from '@/types';
+import { toReport } from './mappers';
+
+// What a signed-in staff member is doing on the Reports page
+export interface ReportPresence {
+  staffId: string;
+  staffName: string;
+  // The report open in their editor, if any
+  reportId: string | null;
+  studentName?: string;
+}
+
+export type ReportChange =
+  | { type: 'saved'; report: StudentReport }
+  | { type: 'deleted'; reportId: string };
+
+export interface ReportsChannelHandlers {
+  // Everyone connected, including this connection
+  onPresence: (presences: ReportPresence[]) => void;
+  onReportChange: (change: ReportChange) => void;
+}
+
+export interface ReportsChannel {
+  track: (presence: ReportPresence) => void;
+  close: () => void;
+}
+
+/**
+ * Live presence and report changes for the Reports page. The Supabase
+ * transport is used in the app; the local one runs in memory so several
+ * simulated users can be connected to it in tests or a local sandbox.
+ */
+export interface RealtimeTransport {
+  connect: (presence: ReportPresence, handlers: ReportsChannelHandlers) => ReportsChannel;
+}
+
+export function createSupabaseRealtime(client: SupabaseClient<Database>): RealtimeTransport {
+  return {
+    connect(presence, handlers) {
+      // One presence key per browser tab, so two tabs of the same person both show up
+      const channel = client.channel('reports', { config: { presence: { key: crypto.randomUUID() } } });
+      let current = presence;
+      let isSubscribed = false;
+
+      channel
+        .on('presence', { event: 'sync' }, () => {
+          handlers.onPresence(Object.values(channel.presenceState<ReportPresence>()).flat());
+        })
+        .on('postgres_changes', { event: '*', schema: 'public', table: 'student_reports' }, (payload) => {
+          if (payload.eventType === 'DELETE') {
+            const reportId = (payload.old as Partial<Tables<'student_reports'>>).id;
+            if (reportId) handlers.onReportChange({ type: 'deleted', reportId });
+          } else {
+            handlers.onReportChange({ type: 'saved', report: toReport(payload.new as Tables<'student_reports'>) });
+          }
+        })
+        .subscribe((status) => {
+          isSubscribed = status === 'SUBSCRIBED';
+          if (isSubscribed) channel.track(current);
+        });
+
+      return {
+        track(next) {
+          current = next;
+          if (isSubscribed) channel.track(next);
+        },
+        close() {
+          client.removeChannel(channel);
+        },
+      };
+    },
+  };
+}
+
+export interface LocalRealtime extends RealtimeTransport {
+  // Delivers a change to every connection, as if another user had saved
+  publish: (change: ReportChange) => void;
+}
+
+export function createLocalRealtime(): LocalRealtime {
+  const connections = new Map<symbol, { presence: ReportPresence; handlers: ReportsChannelHandlers }>();
+
+  const broadcastPresence = () => {
+    const presences = [...connections.values()].map((c) => c.presence);
+    connections.forEach((c) => c.handlers.onPresence(presences));
+  };
+
+  return {
+    connect(presence, handlers) {
+      const key = Symbol('connection');
+      connections.set(key, { presence, handlers });
+      broadcastPresence();
+      return {
+        track(next) {
+          const connection = connections.get(key);
+          if (!connection) return;
+          connection.presence = next;
+          broadcastPresence();
+        },
+        close() {
+          connections.delete(key);
+          broadcastPresence();
+        },
+      };
+    },
+    publish(change) {
+      connections.forEach((c) => c.handlers.onReportChange(change));
+    },
+  };
+}
+
+export const realtime = createSupabaseRealtime(supabase);
@@ -0,0 +1,81 @@
+import JSZip from 'jszip';
+import { supabase } from '@/integrations/supabase/client';
+import type { Student, StudentReport } from '@/types';
+
+export interface ReportPdfExportItem {
+  report: StudentReport;
+  student: Student;
+}
+
+export interface ReportPdfZipResult {
+  zip: Blob;
+  exported: number;
+  failed: ReportPdfExportItem[];
+}
+
+const toFileNamePart = (value: string) => value.replace(/[^\p{L}\p{N}._-]+/gu, '_');
+
+// Renders the printable report card with the report-pdf edge function
+export async function fetchReportPdf(reportId: string): Promise<Blob> {
+  const { data, error } = await supabase.functions.invoke<Blob>('report-pdf', { body: { reportId } });
+  if (error) throw error;
+  if (!(data instanceof Blob)) throw new Error('The report could not be rendered as a PDF');
+  return data;
+}
+
+// e.g. "Smith_Anna.pdf"; characters that are unsafe in file names become underscores
+export function getReportPdfFileName(student: Pick<Student, 'firstName' | 'lastName'> | undefined) {
+  return student ? `${toFileNamePart(`${student.lastName}_${student.firstName}`)}.pdf` : 'report.pdf';
+}
+
+/**
+ * Renders each report and bundles the PDFs into one ZIP. Reports are rendered
+ * one at a time so a whole grade does not flood the edge function; a report
+ * that fails is reported back instead of aborting the export.
+ */
+export async function buildReportPdfZip(
+  items: ReportPdfExportItem[],
+  onProgress?: (done: number, total: number) => void
+): Promise<ReportPdfZipResult> {
+  const zip = new JSZip();
+  const usedNames = new Set<string>();
+  const failed: ReportPdfExportItem[] = [];
+
+  for (const [index, item] of items.entries()) {
+    try {
+      const pdf = await fetchReportPdf(item.report.id);
+      // A student with several matching reports (e.g. one per term) gets the term added
+      let fileName = getReportPdfFileName(item.student);
+      if (usedNames.has(fileName)) {
+        fileName = fileName.replace(/\.pdf$/, `_${toFileNamePart(item.report.term)}.pdf`);
+      }
+      const base = fileName.replace(/\.pdf$/, '');
+      for (let n = 2; usedNames.has(fileName); n++) {
+        fileName = `${base}_${n}.pdf`;
+      }
+      usedNames.add(fileName);
+      zip.file(fileName, pdf);
+    } catch (error) {
+      console.error(`PDF export failed for report ${item.report.id}:`, error);
+      failed.push(item);
+    }
+    onProgress?.(index + 1, items.length);
+  }
+
+  return {
+    zip: await zip.generateAsync({ type: 'blob' }),
+    exported: items.length - failed.length,
+    failed,
+  };
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,199 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import { createLocalClient, createLocalDatabase, createLocalUser } from '@/test/localSupabase';
+import { createRepository, type Repository } from './repository';
+import type { AssessmentTemplate, Grade, SchoolYear, Student, StudentReport } from '@/types';
+
+// The app's own client needs the browser and the project's environment
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const schoolYear: SchoolYear = { id: crypto.randomUUID(), name: '2026-2027', startYear: 2026, endYear: 2027, isActive: true };
+const grade: Grade = { id: crypto.randomUUID(), name: 'Grade 2-3', colorIndex: 1, order: 1, classroomTeacher: 'Ms Carin' };
+const otherGrade: Grade = { id: crypto.randomUUID(), name: 'Grade 4-5', colorIndex: 2, order: 2, classroomTeacher: 'Mr Roman' };
+const template: AssessmentTemplate = {
+  id: crypto.randomUUID(),
+  gradeId: grade.id,
+  schoolYearId: schoolYear.id,
+  name: 'Term 1 & 2',
+  createdAt: new Date().toISOString(),
+  subjects: [
+    {
+      id: crypto.randomUUID(),
+      name: 'English',
+      assessmentPoints: [{ id: crypto.randomUUID(), name: 'Reads aloud', maxStars: 3 }],
+    },
+  ],
+};
+const student: Student = {
+  id: crypto.randomUUID(),
+  learnerId: crypto.randomUUID(),
+  firstName: 'Anna',
+  lastName: 'Smith',
+  gradeId: grade.id,
+  schoolYearId: schoolYear.id,
+};
+
+const newReport = (): StudentReport => {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    studentId: student.id,
+    assessmentTemplateId: template.id,
+    schoolYearId: schoolYear.id,
+    term: 'Term 1 & 2',
+    entries: [
+      { subjectId: template.subjects[0].id, assessmentPointId: template.subjects[0].assessmentPoints[0].id, stars: 2 },
+    ],
+    status: 'draft',
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+// Saves a change the way the app does: on top of the latest saved row
+const update = async (repo: Repository, reportId: string, change: (report: StudentReport) => Partial<StudentReport>) => {
+  const latest = await repo.fetchReport(reportId);
+  const updated = { ...latest, ...change(latest), updatedAt: new Date().toISOString() };
+  if (!(await repo.saveReportIfUnchanged(updated, latest.updatedAt))) throw new Error('The report changed');
+  return updated;
+};
+
+describe('repository on the migrated database', () => {
+  let db: PGlite;
+  let ids: { admin: string; head: string; teacher: string; otherTeacher: string };
+  let repo: Record<keyof typeof ids, Repository>;
+  let report: StudentReport;
+
+  beforeAll(async () => {
+    db = await createLocalDatabase();
+    ids = {
+      admin: await createLocalUser(db, 'Ada Admin', 'admin'),
+      head: await createLocalUser(db, 'Hana Head', 'head_of_school'),
+      teacher: await createLocalUser(db, 'Ms Carin', 'teacher'),
+      otherTeacher: await createLocalUser(db, 'Mr Roman', 'teacher'),
+    };
+    repo = Object.fromEntries(
+      Object.entries(ids).map(([key, userId]) => [
+        key,
+        createRepository(createLocalClient(db, { role: 'authenticated', userId })),
+      ])
+    ) as typeof repo;
+
+    await repo.admin.importData({
+      schoolYears: [schoolYear],
+      grades: [grade, otherGrade],
+      assessmentTemplates: [template],
+      learners: [{ id: student.learnerId, createdAt: new Date().toISOString() }],
+      students: [student],
+    });
+  }, 60_000);
+
+  beforeEach(async () => {
+    report = newReport();
+    await repo.teacher.saveReport(report);
+  });
+
+  it('lets teachers write reports for the grades they teach', async () => {
+    expect(await repo.teacher.fetchReport(report.id)).toMatchObject({ id: report.id, status: 'draft' });
+    await expect(repo.otherTeacher.saveReport({ ...newReport() })).rejects.toMatchObject({ code: '42501' });
+  });
+
+  it('loads the whole dataset for staff', async () => {
+    const data = await repo.otherTeacher.fetchAll();
+    expect(data.students.map((s) => s.id)).toContain(student.id);
+    expect(data.reports.map((r) => r.id)).toContain(report.id);
+  });
+
+  it('only saves a report nobody changed since it was read', async () => {
+    const saved = await update(repo.teacher, report.id, () => ({ generalComment: 'Reads with confidence.' }));
+
+    expect(await repo.teacher.saveReportIfUnchanged({ ...saved, generalComment: 'Stale' }, report.updatedAt)).toBe(false);
+    expect((await repo.teacher.fetchReport(report.id)).generalComment).toBe('Reads with confidence.');
+  });
+
+  it('keeps a version of every content change', async () => {
+    await update(repo.teacher, report.id, () => ({ generalComment: 'First' }));
+    await update(repo.teacher, report.id, (r) => ({ status: r.status }));
+
+    const versions = await repo.teacher.fetchReportVersions(report.id);
+    expect(versions.map((v) => v.versionNumber)).toEqual([2, 1]);
+    expect(versions[0].savedByName).toBe('Ms Carin');
+  });
+
+  it('never numbers two versions of a report alike', async () => {
+    await expect(
+      db.query(
+        `insert into public.report_versions (report_id, version_number, snapshot, saved_by_name) values ($1, 1, '{}', 'System')`,
+        [report.id]
+      )
+    ).rejects.toMatchObject({ code: '23505' });
+  });
+
+  it('records who changed what in the audit log', async () => {
+    await update(repo.teacher, report.id, () => ({ generalComment: 'Kind to others.' }));
+
+    const log = await repo.head.fetchReportAuditLog(report.id);
+    expect(log).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ field: 'general_comment', changedByName: 'Ms Carin' }),
+        expect.objectContaining({ action: 'insert', field: 'report' }),
+      ])
+    );
+  });
+
+  describe('workflow', () => {
+    const sign = (userId: string, name: string) => ({ name, signedAt: new Date().toISOString(), signedBy: userId });
+
+    it('moves a report to reviewed only when the head of school signs it', async () => {
+      await update(repo.teacher, report.id, () => ({ status: 'completed' }));
+      await expect(update(repo.teacher, report.id, () => ({ status: 'reviewed' }))).rejects.toThrow(
+        'A report is reviewed by the head of school signing it'
+      );
+
+      await update(repo.teacher, report.id, () => ({
+        signatures: { classroomTeacher: sign(ids.teacher, 'Ms Carin') },
+      }));
+      await update(repo.head, report.id, (r) => ({
+        status: 'reviewed',
+        signatures: { ...r.signatures, headOfSchool: sign(ids.head, 'Hana Head') },
+      }));
+      expect((await repo.teacher.fetchReport(report.id)).status).toBe('reviewed');
+    });
+
+    it('only accepts signatures of the signed-in staff member in the matching role', async () => {
+      await update(repo.teacher, report.id, () => ({ status: 'completed' }));
+
+      await expect(
+        update(repo.teacher, report.id, () => ({ signatures: { classroomTeacher: sign(ids.head, 'Hana Head') } }))
+      ).rejects.toThrow('Only the classroom teacher can sign as classroom teacher');
+      await expect(
+        update(repo.teacher, report.id, () => ({
+          signatures: { classroomTeacher: sign(ids.teacher, 'Ms Carin'), headOfSchool: sign(ids.teacher, 'Ms Carin') },
+        }))
+      ).rejects.toThrow('Only the head of school can sign as head of school');
+    });
+
+    it('locks reviewed reports against changes and deletion', async () => {
+      await update(repo.teacher, report.id, () => ({
+        status: 'completed',
+        signatures: { classroomTeacher: sign(ids.teacher, 'Ms Carin') },
+      }));
+      await update(repo.head, report.id, (r) => ({
+        status: 'reviewed',
+        signatures: { ...r.signatures, headOfSchool: sign(ids.head, 'Hana Head') },
+      }));
+
+      await expect(update(repo.head, report.id, () => ({ generalComment: 'Changed' }))).rejects.toThrow(
+        'This report has been reviewed and is locked'
+      );
+      await repo.teacher.deleteReport(report.id);
+      await repo.head.deleteReport(report.id);
+      expect(await repo.teacher.fetchReport(report.id)).not.toBeNull();
+    });
+
+    it('lets teachers delete reports that are not reviewed', async () => {
+      await repo.teacher.deleteReport(report.id);
+      expect(await repo.teacher.fetchReport(report.id)).toBeNull();
+    });
+  });
+});
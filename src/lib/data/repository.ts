@@ -0,0 +1,283 @@
+import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type {
+  SchoolYear,
+  Grade,
+  AssessmentTemplate,
+  Learner,
+  Student,
+  StudentReport,
+  StudentDocument,
+  ReportShareLink,
+  ReportStatusEvent,
+  WarningFlagNote,
+  ReportAuditEntry,
+  ReportVersion,
+  StaffProfile,
+  AppSettings,
+} from '@/types';
+import {
+  toSchoolYear,
+  fromSchoolYear,
+  toGrade,
+  fromGrade,
+  toAssessmentTemplate,
+  fromAssessmentTemplate,
+  toLearner,
+  fromLearner,
+  toStudent,
+  fromStudent,
+  toReport,
+  fromReport,
+  toDocument,
+  fromDocument,
+  toShareLink,
+  fromShareLink,
+  toStatusEvent,
+  fromStatusEvent,
+  toWarningFlagNote,
+  fromWarningFlagNote,
+  toAuditEntry,
+  toReportVersion,
+  toStaffProfile,
+  fromStaffProfile,
+  toAppSettings,
+  fromAppSettings,
+  fromAiProviderKeys,
+} from './mappers';
+
+export interface AppData {
+  schoolYears: SchoolYear[];
+  grades: Grade[];
+  assessmentTemplates: AssessmentTemplate[];
+  learners: Learner[];
+  students: Student[];
+  reports: StudentReport[];
+  documents: StudentDocument[];
+  shareLinks: ReportShareLink[];
+  statusEvents: ReportStatusEvent[];
+  warningFlagNotes: WarningFlagNote[];
+  staffProfiles: StaffProfile[];
+  appSettings: AppSettings | null;
+}
+
+// Throws the PostgREST error instead of returning it, so callers can use try/catch
+function unwrap<T>({ data, error }: { data: T; error: PostgrestError | null }): T {
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Data-access layer for the shared school dataset. Takes the Supabase client
+ * as a parameter so it can be pointed at a local Supabase instance.
+ */
+export function createRepository(client: SupabaseClient<Database>) {
+  return {
+    async fetchAll(): Promise<AppData> {
+      const [
+        schoolYears,
+        grades,
+        templates,
+        learners,
+        students,
+        reports,
+        documents,
+        shareLinks,
+        statusEvents,
+        warningFlagNotes,
+        staffProfiles,
+        settings,
+        aiKeys,
+      ] = await Promise.all([
+        client.from('school_years').select('*').order('start_year'),
+        client.from('grades').select('*').order('sort_order'),
+        client.from('assessment_templates').select('*').order('created_at'),
+        client.from('learners').select('*').order('created_at'),
+        client.from('students').select('*').order('created_at'),
+        client.from('student_reports').select('*').order('created_at'),
+        client.from('student_documents').select('*').order('uploaded_at'),
+        client.from('report_share_links').select('*').order('created_at'),
+        client.from('report_status_events').select('*').order('created_at'),
+        client.from('warning_flag_notes').select('*').order('created_at'),
+        client.from('staff_profiles').select('*').order('full_name'),
+        client.from('app_settings').select('*').maybeSingle(),
+        // Row-level security returns no row for anyone but admins
+        client.from('ai_provider_keys').select('*').maybeSingle(),
+      ]);
+
+      const settingsRow = unwrap(settings);
+      return {
+        schoolYears: unwrap(schoolYears).map(toSchoolYear),
+        grades: unwrap(grades).map(toGrade),
+        assessmentTemplates: unwrap(templates).map(toAssessmentTemplate),
+        learners: unwrap(learners).map(toLearner),
+        students: unwrap(students).map(toStudent),
+        reports: unwrap(reports).map(toReport),
+        documents: unwrap(documents).map(toDocument),
+        shareLinks: unwrap(shareLinks).map(toShareLink),
+        statusEvents: unwrap(statusEvents).map(toStatusEvent),
+        warningFlagNotes: unwrap(warningFlagNotes).map(toWarningFlagNote),
+        staffProfiles: unwrap(staffProfiles).map(toStaffProfile),
+        appSettings: settingsRow ? toAppSettings(settingsRow, unwrap(aiKeys)) : null,
+      };
+    },
+
+    // Inserts a whole dataset in foreign-key order (used for seeding and legacy import)
+    async importData(data: Partial<AppData>) {
+      if (data.schoolYears?.length) unwrap(await client.from('school_years').upsert(data.schoolYears.map(fromSchoolYear)));
+      if (data.grades?.length) unwrap(await client.from('grades').upsert(data.grades.map(fromGrade)));
+      if (data.assessmentTemplates?.length) {
+        unwrap(await client.from('assessment_templates').upsert(data.assessmentTemplates.map(fromAssessmentTemplate)));
+      }
+      if (data.learners?.length) unwrap(await client.from('learners').upsert(data.learners.map(fromLearner)));
+      if (data.students?.length) unwrap(await client.from('students').upsert(data.students.map(fromStudent)));
+      if (data.reports?.length) unwrap(await client.from('student_reports').upsert(data.reports.map(fromReport)));
+      if (data.documents?.length) unwrap(await client.from('student_documents').upsert(data.documents.map(fromDocument)));
+      if (data.shareLinks?.length) unwrap(await client.from('report_share_links').upsert(data.shareLinks.map(fromShareLink)));
+      if (data.appSettings) {
+        unwrap(await client.from('app_settings').upsert(fromAppSettings(data.appSettings)));
+        unwrap(await client.from('ai_provider_keys').upsert(fromAiProviderKeys(data.appSettings)));
+      }
+    },
+
+    async fetchStaffProfile(userId: string): Promise<StaffProfile | null> {
+      const row = unwrap(await client.from('staff_profiles').select('*').eq('id', userId).maybeSingle());
+      return row ? toStaffProfile(row) : null;
+    },
+
+    async saveStaffProfile(profile: StaffProfile) {
+      unwrap(await client.from('staff_profiles').update(fromStaffProfile(profile)).eq('id', profile.id));
+    },
+
+    async saveSchoolYears(years: SchoolYear[]) {
+      unwrap(await client.from('school_years').upsert(years.map(fromSchoolYear)));
+    },
+
+    async saveGrade(grade: Grade) {
+      unwrap(await client.from('grades').upsert(fromGrade(grade)));
+    },
+
+    async deleteGrade(id: string) {
+      unwrap(await client.from('grades').delete().eq('id', id));
+    },
+
+    async saveAssessmentTemplate(template: AssessmentTemplate) {
+      unwrap(await client.from('assessment_templates').upsert(fromAssessmentTemplate(template)));
+    },
+
+    async deleteAssessmentTemplate(id: string) {
+      unwrap(await client.from('assessment_templates').delete().eq('id', id));
+    },
+
+    async saveLearners(learners: Learner[]) {
+      unwrap(await client.from('learners').upsert(learners.map(fromLearner)));
+    },
+
+    async saveStudent(student: Student) {
+      unwrap(await client.from('students').upsert(fromStudent(student)));
+    },
+
+    async saveStudents(students: Student[]) {
+      unwrap(await client.from('students').upsert(students.map(fromStudent)));
+    },
+
+    async deleteStudent(id: string) {
+      unwrap(await client.from('students').delete().eq('id', id));
+    },
+
+    async saveReport(report: StudentReport) {
+      unwrap(await client.from('student_reports').upsert(fromReport(report)));
+    },
+
+    async fetchReport(id: string): Promise<StudentReport | null> {
+      const row = unwrap(await client.from('student_reports').select('*').eq('id', id).maybeSingle());
+      return row ? toReport(row) : null;
+    },
+
+    // Writes the report only if nobody saved it since it was read; false when someone did
+    async saveReportIfUnchanged(report: StudentReport, expectedUpdatedAt: string) {
+      const rows = unwrap(
+        await client
+          .from('student_reports')
+          .update(fromReport(report))
+          .eq('id', report.id)
+          .eq('updated_at', expectedUpdatedAt)
+          .select('id')
+      );
+      return rows.length > 0;
+    },
+
+    // Writes only the workflow columns, with the same check as saveReportIfUnchanged
+    async saveReportStatusIfUnchanged(report: StudentReport, expectedUpdatedAt: string) {
+      const { status, signatures, updated_at } = fromReport(report);
+      const rows = unwrap(
+        await client
+          .from('student_reports')
+          .update({ status, signatures, updated_at })
+          .eq('id', report.id)
+          .eq('updated_at', expectedUpdatedAt)
+          .select('id')
+      );
+      return rows.length > 0;
+    },
+
+    async deleteReport(id: string) {
+      unwrap(await client.from('student_reports').delete().eq('id', id));
+    },
+
+    async saveDocument(doc: StudentDocument) {
+      unwrap(await client.from('student_documents').upsert(fromDocument(doc)));
+    },
+
+    async deleteDocument(id: string) {
+      unwrap(await client.from('student_documents').delete().eq('id', id));
+    },
+
+    async saveShareLinks(links: ReportShareLink[]) {
+      unwrap(await client.from('report_share_links').upsert(links.map(fromShareLink)));
+    },
+
+    // Status history is append-only, so events are inserted and never updated
+    async addStatusEvent(event: ReportStatusEvent) {
+      unwrap(await client.from('report_status_events').insert(fromStatusEvent(event)));
+    },
+
+    // Follow-up notes on early-warning flags are append-only as well
+    async addWarningFlagNote(note: WarningFlagNote) {
+      unwrap(await client.from('warning_flag_notes').insert(fromWarningFlagNote(note)));
+    },
+
+    // Loaded per report when its audit tab is opened, newest first
+    async fetchReportAuditLog(reportId: string): Promise<ReportAuditEntry[]> {
+      const rows = unwrap(
+        await client
+          .from('report_audit_log')
+          .select('*')
+          .eq('report_id', reportId)
+          .order('changed_at', { ascending: false })
+      );
+      return rows.map(toAuditEntry);
+    },
+
+    async fetchReportVersions(reportId: string): Promise<ReportVersion[]> {
+      const rows = unwrap(
+        await client
+          .from('report_versions')
+          .select('*')
+          .eq('report_id', reportId)
+          .order('version_number', { ascending: false })
+      );
+      return rows.map(toReportVersion);
+    },
+
+    async saveAppSettings(settings: AppSettings) {
+      unwrap(await client.from('app_settings').upsert(fromAppSettings(settings)));
+      unwrap(await client.from('ai_provider_keys').upsert(fromAiProviderKeys(settings)));
+    },
+  };
+}
+
+export type Repository = ReturnType<typeof createRepository>;
+
+export const repository = createRepository(supabase);
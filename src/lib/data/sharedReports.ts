@@ -0,0 +1,103 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type {
+  AppSettings,
+  AssessmentTemplate,
+  Grade,
+  ReportReflection,
+  ReportShareLink,
+  Student,
+  StudentDocument,
+  StudentReport,
+} from '@/types';
+import { toAssessmentTemplate, toDocument, toGrade, toReport, toStudent } from './mappers';
+
+// School details shown on a shared report (never includes API keys)
+export type SharedSchoolInfo = Pick<
+  AppSettings,
+  'schoolName' | 'missionStatement' | 'statement' | 'vision' | 'values' | 'gradingKey'
+>;
+
+// Read-only copy of everything a parent needs to view one report
+export interface SharedReportSnapshot {
+  report: StudentReport;
+  student: Student | null;
+  template: AssessmentTemplate | null;
+  grade: Grade | null;
+  settings: SharedSchoolInfo;
+  documents: StudentDocument[];
+  link: Pick<ReportShareLink, 'scope' | 'expiresAt'>;
+}
+
+export type SharedReportResult =
+  | { status: 'ok'; snapshot: SharedReportSnapshot }
+  | { status: 'not_found' | 'expired' | 'revoked' };
+
+interface SharedReportResponse {
+  status: 'ok' | 'not_found' | 'expired' | 'revoked';
+  snapshot?: {
+    report: Tables<'student_reports'>;
+    student: Tables<'students'> | null;
+    template: Tables<'assessment_templates'> | null;
+    grade: Tables<'grades'> | null;
+    settings: Pick<
+      Tables<'app_settings'>,
+      'school_name' | 'mission_statement' | 'statement' | 'vision' | 'values' | 'grading_key'
+    > | null;
+    documents: Tables<'student_documents'>[];
+    link: Pick<Tables<'report_share_links'>, 'scope' | 'expires_at'>;
+  };
+  reflections?: ReportReflection;
+  error?: string;
+}
+
+async function invokeSharedReport(body: Record<string, unknown>): Promise<SharedReportResponse> {
+  const { data, error } = await supabase.functions.invoke<SharedReportResponse>('shared-report', { body });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  return data;
+}
+
+// Looks up a report by its share token through the shared-report edge function
+export async function fetchSharedReport(token: string): Promise<SharedReportResult> {
+  const data = await invokeSharedReport({ action: 'get', token });
+  if (data.status === 'expired' || data.status === 'revoked') {
+    return { status: data.status };
+  }
+  if (data.status !== 'ok' || !data.snapshot) {
+    return { status: 'not_found' };
+  }
+
+  const { report, student, template, grade, settings, documents, link } = data.snapshot;
+  return {
+    status: 'ok',
+    snapshot: {
+      report: toReport(report),
+      student: student ? toStudent(student) : null,
+      template: template ? toAssessmentTemplate(template) : null,
+      grade: grade ? toGrade(grade) : null,
+      settings: {
+        schoolName: settings?.school_name ?? '',
+        missionStatement: settings?.mission_statement ?? '',
+        statement: settings?.statement ?? '',
+        vision: settings?.vision ?? '',
+        values: settings?.values ?? [],
+        gradingKey: settings?.grading_key ?? '',
+      },
+      documents: documents.map(toDocument),
+      link: {
+        scope: link.scope as ReportShareLink['scope'],
+        expiresAt: link.expires_at ?? undefined,
+      },
+    },
+  };
+}
+
+// Saves a parent or student reflection; the server stamps the signed-at dates
+export async function saveSharedReflection(
+  token: string,
+  reflection: Partial<ReportReflection>
+): Promise<ReportReflection> {
+  const data = await invokeSharedReport({ action: 'reflect', token, reflection });
+  return data.reflections ?? {};
+}
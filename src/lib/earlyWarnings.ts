@@ -0,0 +1,113 @@
+import type {
+  AssessmentTemplate,
+  EarlyWarningRuleId,
+  EarlyWarningRules,
+  StudentReport,
+  WarningFlagNote,
+} from '@/types';
+
+// Early warnings: the school's rules are checked against each report, and a
+// flag stays on the student until a member of staff acknowledges it. Flag keys
+// are derived from the rule and report so notes stay attached to the same flag
+// as long as the report still meets the rule.
+
+export interface EarlyWarningFlag {
+  key: string;
+  rule: EarlyWarningRuleId;
+  studentId: string;
+  reportId: string;
+  title: string;
+  detail: string;
+  // Oldest first
+  notes: WarningFlagNote[];
+  acknowledged: boolean;
+}
+
+export const EARLY_WARNING_RULE_LABELS: Record<EarlyWarningRuleId, string> = {
+  oneStarShare: 'Mostly one star',
+  examGrade: 'Low exam grade',
+  attitude: 'Attitude towards learning',
+};
+
+type FlagResult = Pick<EarlyWarningFlag, 'key' | 'rule' | 'title' | 'detail'>;
+
+const formatPercent = (share: number) => `${Math.round(share * 100)}%`;
+
+function evaluateReport(report: StudentReport, template: AssessmentTemplate, rules: EarlyWarningRules): FlagResult[] {
+  const flags: FlagResult[] = [];
+
+  if (rules.oneStarShare.enabled) {
+    template.subjects.forEach((subject) => {
+      // One star is the top of a one-star scale, so those points never count
+      const rated = subject.assessmentPoints.flatMap((point) => {
+        const entry = report.entries.find((e) => e.subjectId === subject.id && e.assessmentPointId === point.id);
+        return point.maxStars > 1 && entry && !entry.isNA && entry.stars > 0 ? [entry.stars] : [];
+      });
+      const oneStar = rated.filter((stars) => stars === 1).length;
+      if (!rated.length || oneStar / rated.length <= rules.oneStarShare.percent / 100) return;
+      flags.push({
+        key: `oneStarShare:${report.id}:${subject.id}`,
+        rule: 'oneStarShare',
+        title: `Mostly one star in ${subject.name}`,
+        detail: `${oneStar} of ${rated.length} rated points (${formatPercent(oneStar / rated.length)}) at one star`,
+      });
+    });
+  }
+
+  if (rules.examGrade.enabled) {
+    const grades = new Set(rules.examGrade.grades.map((g) => g.trim().toUpperCase()));
+    (report.examResults ?? []).forEach((result) => {
+      if (!result.grade || !grades.has(result.grade.trim().toUpperCase())) return;
+      flags.push({
+        key: `examGrade:${report.id}:${result.id}`,
+        rule: 'examGrade',
+        title: `${result.grade} in ${result.subject}`,
+        detail: [result.title, result.term, result.date].filter(Boolean).join(' · '),
+      });
+    });
+  }
+
+  if (rules.attitude.enabled) {
+    const subjectNames = template.subjects
+      .filter(
+        (subject) =>
+          report.subjectComments?.find((c) => c.subjectId === subject.id)?.attitudeTowardsLearning === rules.attitude.attitude
+      )
+      .map((subject) => subject.name);
+    if (subjectNames.length >= rules.attitude.minSubjects) {
+      flags.push({
+        key: `attitude:${report.id}`,
+        rule: 'attitude',
+        title: `"${rules.attitude.attitude}" in ${subjectNames.length} subjects`,
+        detail: subjectNames.join(', '),
+      });
+    }
+  }
+
+  return flags;
+}
+
+// Flags for every given report, with the notes staff have added to each
+export function findEarlyWarnings(
+  reports: StudentReport[],
+  templates: AssessmentTemplate[],
+  rules: EarlyWarningRules,
+  notes: WarningFlagNote[]
+): EarlyWarningFlag[] {
+  return reports.flatMap((report) => {
+    const template = templates.find((t) => t.id === report.assessmentTemplateId);
+    if (!template) return [];
+    return evaluateReport(report, template, rules).map((flag) => {
+      const flagNotes = notes
+        .filter((n) => n.flagKey === flag.key)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+      return {
+        ...flag,
+        studentId: report.studentId,
+        reportId: report.id,
+        notes: flagNotes,
+        acknowledged: flagNotes.some((n) => n.acknowledged),
+      };
+    });
+  });
+}
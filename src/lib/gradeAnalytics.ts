@@ -0,0 +1,111 @@
+import type { AssessmentPoint, AssessmentTemplate, StudentReport, Subject, SubjectComment } from '@/types';
+
+// Class-wide figures for one assessment: how the stars are spread per subject
+// and point, how often N/A is used, attitudes towards learning, exam grades and
+// the points most of the class only got one star for
+
+export type Attitude = NonNullable<SubjectComment['attitudeTowardsLearning']>;
+
+export const ATTITUDES: Attitude[] = ['Emerging', 'Developing', 'Applying', 'Independent'];
+
+export const EXAM_GRADES = ['A+', 'A', 'B+', 'B', 'C+', 'C', 'D', 'F'];
+
+// A point counts as a problem when more than this share of rated students got one star
+const LOW_POINT_SHARE = 0.5;
+
+export interface RatingDistribution {
+  // Index 0 counts one-star ratings, index 4 five-star ratings
+  byStars: number[];
+  na: number;
+  unrated: number;
+}
+
+export interface PointAnalytics {
+  subject: Subject;
+  point: AssessmentPoint;
+  ratings: RatingDistribution;
+  oneStarShare: number;
+}
+
+export interface SubjectAnalytics {
+  subject: Subject;
+  ratings: RatingDistribution;
+  attitudes: Record<Attitude, number>;
+  points: PointAnalytics[];
+}
+
+export interface GradeAnalytics {
+  reportCount: number;
+  subjects: SubjectAnalytics[];
+  examGrades: { grade: string; count: number }[];
+  lowPoints: PointAnalytics[];
+  naShare: number;
+}
+
+const emptyDistribution = (): RatingDistribution => ({ byStars: [0, 0, 0, 0, 0], na: 0, unrated: 0 });
+
+const addDistribution = (total: RatingDistribution, ratings: RatingDistribution) => {
+  ratings.byStars.forEach((count, i) => (total.byStars[i] += count));
+  total.na += ratings.na;
+  total.unrated += ratings.unrated;
+};
+
+export const countRated = (ratings: RatingDistribution) => ratings.byStars.reduce((sum, n) => sum + n, 0);
+
+// Share of N/A among the points that were given stars or N/A
+export const getNAShare = (ratings: RatingDistribution) => {
+  const answered = countRated(ratings) + ratings.na;
+  return answered ? ratings.na / answered : 0;
+};
+
+// `reports` holds at most one report per student
+export function buildGradeAnalytics(template: AssessmentTemplate, reports: StudentReport[]): GradeAnalytics {
+  const total = emptyDistribution();
+
+  const subjects = template.subjects.map((subject) => {
+    const subjectRatings = emptyDistribution();
+    const points = subject.assessmentPoints.map((point) => {
+      const ratings = emptyDistribution();
+      reports.forEach((report) => {
+        const entry = report.entries.find((e) => e.subjectId === subject.id && e.assessmentPointId === point.id);
+        if (entry?.isNA) ratings.na++;
+        else if (entry && entry.stars > 0) ratings.byStars[Math.min(entry.stars, 5) - 1]++;
+        else ratings.unrated++;
+      });
+      addDistribution(subjectRatings, ratings);
+      const rated = countRated(ratings);
+      return { subject, point, ratings, oneStarShare: rated ? ratings.byStars[0] / rated : 0 };
+    });
+
+    const attitudes = Object.fromEntries(ATTITUDES.map((a) => [a, 0])) as Record<Attitude, number>;
+    reports.forEach((report) => {
+      const attitude = report.subjectComments?.find((c) => c.subjectId === subject.id)?.attitudeTowardsLearning;
+      if (attitude) attitudes[attitude]++;
+    });
+
+    addDistribution(total, subjectRatings);
+    return { subject, ratings: subjectRatings, attitudes, points };
+  });
+
+  const gradeCounts = new Map<string, number>();
+  reports.forEach((report) =>
+    (report.examResults ?? []).forEach((result) => {
+      const grade = result.grade?.trim();
+      if (grade) gradeCounts.set(grade, (gradeCounts.get(grade) ?? 0) + 1);
+    })
+  );
+  const examGrades = [
+    ...EXAM_GRADES.map((grade) => ({ grade, count: gradeCounts.get(grade) ?? 0 })),
+    ...[...gradeCounts.entries()]
+      .filter(([grade]) => !EXAM_GRADES.includes(grade))
+      .map(([grade, count]) => ({ grade, count })),
+  ];
+
+  // One star is the top of a one-star scale, so those points never count
+  const lowPoints = subjects
+    .flatMap((s) => s.points)
+    .filter((p) => p.point.maxStars > 1 && p.oneStarShare > LOW_POINT_SHARE)
+    .sort((a, b) => b.oneStarShare - a.oneStarShare);
+
+  return { reportCount: reports.length, subjects, examGrades, lowPoints, naShare: getNAShare(total) };
+}
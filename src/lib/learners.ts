@@ -0,0 +1,32 @@
+import type { Learner, SchoolYear, Student } from '@/types';
+
+// A learner is one child across school years; each Student row is that
+// child's enrolment in one year. Reports and documents belong to an
+// enrolment, so anything shown per child gathers them from every enrolment.
+
+// Compared the way the database's unique index compares them
+const normalizeNumber = (studentNumber: string) => studentNumber.trim().toLowerCase();
+
+export const createLearner = (studentNumber?: string): Learner => ({
+  id: crypto.randomUUID(),
+  studentNumber: studentNumber?.trim() || undefined,
+  createdAt: new Date().toISOString(),
+});
+
+export const findLearnerByNumber = (learners: Learner[], studentNumber: string) =>
+  studentNumber.trim()
+    ? learners.find((l) => l.studentNumber && normalizeNumber(l.studentNumber) === normalizeNumber(studentNumber))
+    : undefined;
+
+// Every enrolment of the student's learner, oldest school year first
+export function getEnrolments(students: Student[], schoolYears: SchoolYear[], studentId: string): Student[] {
+  const student = students.find((s) => s.id === studentId);
+  if (!student) return [];
+  const startYear = (s: Student) => schoolYears.find((y) => y.id === s.schoolYearId)?.startYear ?? 0;
+  return students.filter((s) => s.learnerId === student.learnerId).sort((a, b) => startYear(a) - startYear(b));
+}
+
+export function getEnrolmentIds(students: Student[], studentId: string): string[] {
+  const learnerId = students.find((s) => s.id === studentId)?.learnerId;
+  return learnerId ? students.filter((s) => s.learnerId === learnerId).map((s) => s.id) : [studentId];
+}
@@ -0,0 +1,84 @@
+import type { Grade, StaffProfile, StaffRole, TeacherAssignment } from '@/types';
+
+// What each signed-in role may do. Row-level security enforces the same rules
+// per grade on the server; subject-level checks only exist in the app.
+
+const normalizeName = (name?: string) => (name || '').trim().toLowerCase();
+
+export function hasRole(profile: StaffProfile | null, ...roles: StaffRole[]) {
+  return !!profile && roles.includes(profile.role);
+}
+
+// Settings, school years, grades and assessment templates
+export function canManageSchool(profile: StaffProfile | null) {
+  return hasRole(profile, 'admin');
+}
+
+export function canManageStudents(profile: StaffProfile | null) {
+  return hasRole(profile, 'admin', 'head_of_school');
+}
+
+export function canReviewReports(profile: StaffProfile | null) {
+  return hasRole(profile, 'admin', 'head_of_school');
+}
+
+export function isClassroomTeacher(profile: StaffProfile | null, grade?: Grade) {
+  return !!profile && !!grade && normalizeName(grade.classroomTeacher) === normalizeName(profile.fullName);
+}
+
+// An assignment can name several teachers, e.g. "Ms Carin/Ms Natalia"
+export function getAssignmentTeachers(assignment: Pick<TeacherAssignment, 'teacher'>) {
+  return assignment.teacher.split(/[/,&]/).map((name) => name.trim()).filter(Boolean);
+}
+
+export function isAssignedTeacher(assignment: Pick<TeacherAssignment, 'teacher'>, teacherName: string) {
+  return getAssignmentTeachers(assignment).some((name) => normalizeName(name) === normalizeName(teacherName));
+}
+
+// Template subjects carry the term and track ("Robotics - Term 1 (STEAM Track)")
+const normalizeSubject = (name: string) =>
+  normalizeName(name)
+    .replace(/\s*-\s*term\s*\d+/g, '')
+    .replace(/\s*\([^)]*track\)/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Whether a template subject is covered by an assignment subject. Assignments
+ * may list several subjects ("STEAM, Robotics") and use shorter names than the
+ * template ("Art" for "Visual Arts - Term 1"), so a whole-word match is enough.
+ */
+export function subjectMatchesAssignment(subjectName: string, assignmentSubject: string) {
+  const subject = normalizeSubject(subjectName);
+  return assignmentSubject
+    .split(',')
+    .map(normalizeSubject)
+    .filter(Boolean)
+    .some((part) => part === subject || new RegExp(`\\b${escapeRegExp(part)}s?\\b`).test(subject));
+}
+
+// Subjects a teacher is assigned to in a grade (matched by teacher name)
+export function getAssignedSubjects(profile: StaffProfile | null, grade?: Grade): string[] {
+  if (!profile || !grade) return [];
+  return (grade.teacherAssignments || [])
+    .filter((a) => isAssignedTeacher(a, profile.fullName))
+    .map((a) => a.subject);
+}
+
+export function canEditGradeReports(profile: StaffProfile | null, grade?: Grade) {
+  if (canReviewReports(profile)) return true;
+  return isClassroomTeacher(profile, grade) || getAssignedSubjects(profile, grade).length > 0;
+}
+
+// Classroom teachers edit every subject of their grade; subject teachers only their own
+export function canEditSubject(profile: StaffProfile | null, grade: Grade | undefined, subjectName: string) {
+  if (canReviewReports(profile) || isClassroomTeacher(profile, grade)) return true;
+  return getAssignedSubjects(profile, grade).some((s) => subjectMatchesAssignment(subjectName, s));
+}
+
+// General comment, exam summary and signatures belong to the classroom teacher
+export function canEditReportSummary(profile: StaffProfile | null, grade?: Grade) {
+  return canReviewReports(profile) || isClassroomTeacher(profile, grade);
+}
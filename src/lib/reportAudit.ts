@@ -0,0 +1,160 @@
+import type { AssessmentTemplate, ReportAuditEntry, ReportStatus } from '@/types';
+import { REPORT_STATUS_LABELS } from './reportWorkflow';
+import { SIGNATURE_ROLE_TITLES } from './reportSignatures';
+
+// Turns raw audit rows (jsonb before/after values) into readable lines for
+// the audit tab of the report view
+
+export interface AuditChange {
+  label: string;
+  before?: string;
+  after?: string;
+}
+
+export interface AuditDescription {
+  title: string;
+  changes: AuditChange[];
+}
+
+type JsonRecord = Record<string, unknown>;
+
+const asRecord = (value: unknown): JsonRecord =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as JsonRecord) : {};
+
+const asText = (value: unknown) => (value === undefined || value === null || value === '' ? undefined : String(value));
+
+function describeStars(entry: JsonRecord) {
+  if (entry.isNA) return 'N/A';
+  const stars = Number(entry.stars) || 0;
+  return `${stars} star${stars !== 1 ? 's' : ''}`;
+}
+
+// Values copied from an earlier report stay flagged until a teacher confirms them
+function prefillChanges(before: unknown, after: unknown): AuditChange[] {
+  const wasPrefilled = !!asRecord(before).isPrefilled;
+  const isPrefilled = !!asRecord(after).isPrefilled;
+  if (wasPrefilled === isPrefilled) return [];
+  return [
+    {
+      label: 'Copied from the previous report',
+      before: wasPrefilled ? 'Unconfirmed' : undefined,
+      after: isPrefilled ? 'Unconfirmed' : 'Confirmed',
+    },
+  ];
+}
+
+// One line per field whose value differs between the two records
+function fieldChanges(before: unknown, after: unknown, labels: Record<string, string>): AuditChange[] {
+  const oldRecord = asRecord(before);
+  const newRecord = asRecord(after);
+  return Object.entries(labels)
+    .filter(([key]) => asText(oldRecord[key]) !== asText(newRecord[key]))
+    .map(([key, label]) => ({ label, before: asText(oldRecord[key]), after: asText(newRecord[key]) }));
+}
+
+export function describeAuditEntry(entry: ReportAuditEntry, template?: AssessmentTemplate): AuditDescription {
+  const subjectName = (subjectId?: string) =>
+    template?.subjects.find((s) => s.id === subjectId)?.name ?? 'Removed subject';
+
+  switch (entry.field) {
+    case 'report': {
+      if (entry.action === 'delete') return { title: 'Deleted the report', changes: [] };
+      const created = asRecord(entry.newValue);
+      return {
+        title: 'Created the report',
+        changes: [
+          { label: 'Status', after: REPORT_STATUS_LABELS[created.status as ReportStatus] ?? asText(created.status) },
+          { label: 'Term', after: asText(created.term) },
+        ],
+      };
+    }
+    case 'details':
+      return {
+        title: 'Changed the report details',
+        changes: fieldChanges(entry.oldValue, entry.newValue, {
+          term: 'Term',
+          reportTitle: 'Title',
+          periodStart: 'Period start',
+          periodEnd: 'Period end',
+        }),
+      };
+    case 'entry': {
+      const [subjectId, pointId] = (entry.itemKey ?? '').split(':');
+      const subject = template?.subjects.find((s) => s.id === subjectId);
+      const point = subject?.assessmentPoints.find((p) => p.id === pointId);
+      const before = entry.oldValue ? asRecord(entry.oldValue) : undefined;
+      const after = entry.newValue ? asRecord(entry.newValue) : undefined;
+      const changes: AuditChange[] = [];
+      const starsBefore = before && describeStars(before);
+      const starsAfter = after && describeStars(after);
+      if (starsBefore !== starsAfter) changes.push({ label: 'Rating', before: starsBefore, after: starsAfter });
+      changes.push(
+        ...fieldChanges(before, after, { teacherNotes: 'Notes', aiRewrittenText: 'Polished notes' }),
+        ...prefillChanges(before, after)
+      );
+      return {
+        title: `${subjectName(subjectId)} · ${point?.name ?? 'Removed assessment point'}`,
+        changes,
+      };
+    }
+    case 'subject_comment':
+      return {
+        title: `${subjectName(entry.itemKey)} · Comment`,
+        changes: [
+          ...fieldChanges(entry.oldValue, entry.newValue, {
+            teacherComment: 'Comment',
+            aiRewrittenComment: 'Polished comment',
+            attitudeTowardsLearning: 'Attitude towards learning',
+          }),
+          ...prefillChanges(entry.oldValue, entry.newValue),
+        ],
+      };
+    case 'general_comment':
+      return {
+        title: 'General comment',
+        changes: [{ label: 'Comment', before: asText(entry.oldValue), after: asText(entry.newValue) }],
+      };
+    case 'exam_result': {
+      const result = asRecord(entry.newValue ?? entry.oldValue);
+      return {
+        title: `Exam result · ${asText(result.subject) ?? 'Subject'} (${asText(result.term) ?? 'no term'})`,
+        changes: fieldChanges(entry.oldValue, entry.newValue, {
+          grade: 'Grade',
+          date: 'Date',
+          title: 'Title',
+        }),
+      };
+    }
+    case 'status':
+      return {
+        title: 'Changed the status',
+        changes: [
+          {
+            label: 'Status',
+            before: REPORT_STATUS_LABELS[entry.oldValue as ReportStatus],
+            after: REPORT_STATUS_LABELS[entry.newValue as ReportStatus],
+          },
+        ],
+      };
+    case 'signatures': {
+      const before = asRecord(entry.oldValue);
+      const after = asRecord(entry.newValue);
+      const changes = (Object.keys(SIGNATURE_ROLE_TITLES) as (keyof typeof SIGNATURE_ROLE_TITLES)[])
+        .map((role) => ({
+          label: SIGNATURE_ROLE_TITLES[role],
+          before: asText(asRecord(before[role]).name),
+          after: asText(asRecord(after[role]).name),
+        }))
+        .filter((change) => change.before !== change.after);
+      return { title: 'Signatures', changes };
+    }
+    case 'reflections':
+      return {
+        title: 'Reflections',
+        changes: fieldChanges(entry.oldValue, entry.newValue, {
+          parentReflection: 'Parent reflection',
+          studentReflection: 'Student reflection',
+        }),
+      };
+  }
+}
@@ -0,0 +1,57 @@
+import type { ExamResult, StudentReport, Subject } from '@/types';
+
+// How far one subject of a report has been filled in
+
+export interface SubjectCompleteness {
+  ratedPoints: number;
+  totalPoints: number;
+  hasComment: boolean;
+  hasAttitude: boolean;
+  hasExamGrade: boolean;
+  isComplete: boolean;
+}
+
+// Template subjects are named like "English - Term 1"; exam results store
+// the subject ("English") and term ("Term 1") separately
+export function getExamSubject(subjectName: string) {
+  const termMatch = subjectName.match(/Term\s*\d/i);
+  return {
+    subject: subjectName.replace(/\s*-\s*Term\s*\d/i, '').trim(),
+    term: termMatch ? termMatch[0] : undefined,
+  };
+}
+
+function findExamResult(examResults: ExamResult[], subjectName: string) {
+  const { subject, term } = getExamSubject(subjectName);
+  return examResults.find(
+    (result) =>
+      result.subject.trim().toLowerCase() === subject.toLowerCase() &&
+      (!term || result.term.toLowerCase() === term.toLowerCase()) &&
+      !!result.grade
+  );
+}
+
+export function getSubjectCompleteness(
+  report: Pick<StudentReport, 'entries' | 'subjectComments' | 'examResults'>,
+  subject: Subject
+): SubjectCompleteness {
+  const points = subject.assessmentPoints || [];
+  const ratedPoints = points.filter((point) =>
+    report.entries.some(
+      (e) => e.subjectId === subject.id && e.assessmentPointId === point.id && (e.isNA || e.stars > 0)
+    )
+  ).length;
+  const comment = report.subjectComments?.find((c) => c.subjectId === subject.id);
+  const hasComment = !!(comment?.aiRewrittenComment?.trim() || comment?.teacherComment?.trim());
+  const hasAttitude = !!comment?.attitudeTowardsLearning;
+  const hasExamGrade = !!findExamResult(report.examResults || [], subject.name);
+
+  return {
+    ratedPoints,
+    totalPoints: points.length,
+    hasComment,
+    hasAttitude,
+    hasExamGrade,
+    isComplete: ratedPoints === points.length && hasComment && hasAttitude && hasExamGrade,
+  };
+}
@@ -0,0 +1,77 @@
+import type { StudentReport } from '@/types';
+
+// Report editor content that has not reached the database yet, kept in
+// localStorage so it survives closing the dialog, a crash or going offline.
+// A queued draft failed to save while offline and is synced as soon as the
+// connection returns; other drafts are offered for recovery when the report
+// is opened again. Drafts are kept per staff member, so someone signing in
+// on the same browser never sees or syncs another person's drafts.
+
+const STORAGE_PREFIX = 'tisa-report-draft:';
+
+export interface ReportDraft {
+  // The staff member who wrote the draft
+  ownerId: string;
+  reportId: string;
+  // The saved report the editor started from; null for a report not created yet
+  base: StudentReport | null;
+  report: StudentReport;
+  sectionIds: string[];
+  queued: boolean;
+  savedAt: string;
+}
+
+// The report open in the editor syncs itself; background sync leaves it alone
+let openReportId: string | null = null;
+
+export function setOpenDraftReport(reportId: string | null) {
+  openReportId = reportId;
+}
+
+export function isDraftReportOpen(reportId: string) {
+  return openReportId === reportId;
+}
+
+const draftKey = (ownerId: string, reportId: string) => `${STORAGE_PREFIX}${ownerId}:${reportId}`;
+
+export function readDraft(ownerId: string, reportId: string): ReportDraft | null {
+  try {
+    const raw = localStorage.getItem(draftKey(ownerId, reportId));
+    return raw ? (JSON.parse(raw) as ReportDraft) : null;
+  } catch (error) {
+    console.error('Failed to read report draft:', error);
+    return null;
+  }
+}
+
+export function writeDraft(draft: ReportDraft) {
+  try {
+    localStorage.setItem(draftKey(draft.ownerId, draft.reportId), JSON.stringify(draft));
+  } catch (error) {
+    console.error('Failed to store report draft:', error);
+  }
+}
+
+export function removeDraft(ownerId: string, reportId: string) {
+  localStorage.removeItem(draftKey(ownerId, reportId));
+}
+
+export function readDrafts(ownerId: string): ReportDraft[] {
+  const prefix = draftKey(ownerId, '');
+  return Object.keys(localStorage)
+    .filter((key) => key.startsWith(prefix))
+    .map((key) => readDraft(ownerId, key.slice(prefix.length)))
+    .filter((draft): draft is ReportDraft => !!draft);
+}
+
+// On sign-out, so no student data stays behind on a shared computer
+export function clearDrafts(ownerId: string) {
+  readDrafts(ownerId).forEach((draft) => removeDraft(ownerId, draft.reportId));
+}
+
+// Supabase reports a failed request with the fetch error's message; any
+// other error means the save itself was rejected
+export function isOfflineError(error: unknown) {
+  const message = (error as { message?: string } | null)?.message ?? '';
+  return !navigator.onLine || /failed to fetch|networkerror|load failed/i.test(message);
+}
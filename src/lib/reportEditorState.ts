@@ -0,0 +1,133 @@
+import { z } from 'zod';
+import type { AssessmentTemplate, ExamResult, ReportEntry, Subject, SubjectComment } from '@/types';
+
+export const reportFormSchema = z.object({
+  studentId: z.string().min(1, 'Please select a student'),
+  assessmentTemplateId: z.string().min(1, 'Please select an assessment'),
+  term: z.string().default('Term 1 & 2'),
+});
+
+export type ReportFormValues = z.infer<typeof reportFormSchema>;
+
+// The editor's entries, keyed by `${subjectId}:${pointId}`
+export interface EntryState {
+  [key: string]: {
+    stars: number;
+    isNA: boolean;
+    teacherNotes: string;
+    aiRewrittenText: string;
+    isPrefilled?: boolean;
+  };
+}
+
+// The editor's subject comments, keyed by subject id
+export interface SubjectCommentState {
+  [subjectId: string]: {
+    teacherComment: string;
+    aiRewrittenComment: string;
+    attitudeTowardsLearning: 'Emerging' | 'Developing' | 'Applying' | 'Independent' | '';
+    examGrade: string;  // "A+", "A", "B+", etc.
+    examDate: string;   // "12/2025" format
+    isPrefilled?: boolean;
+  };
+}
+
+export const toEntryState = (entries: ReportEntry[]): EntryState =>
+  Object.fromEntries(
+    entries.map((entry) => [
+      `${entry.subjectId}:${entry.assessmentPointId}`,
+      {
+        stars: entry.stars,
+        isNA: entry.isNA || false,
+        teacherNotes: entry.teacherNotes || '',
+        aiRewrittenText: entry.aiRewrittenText || '',
+        isPrefilled: entry.isPrefilled || false,
+      },
+    ])
+  );
+
+export const toSubjectCommentState = (comment?: SubjectComment): SubjectCommentState[string] => ({
+  teacherComment: comment?.teacherComment || '',
+  aiRewrittenComment: comment?.aiRewrittenComment || '',
+  attitudeTowardsLearning: comment?.attitudeTowardsLearning || '',
+  examGrade: '',
+  examDate: '',
+  isPrefilled: comment?.isPrefilled || false,
+});
+
+// A new report: every point unrated, so completing it checks each one, and
+// exam dates set to this month
+export function createEditorState(assessment: AssessmentTemplate) {
+  const today = new Date();
+  const examDate = `${String(today.getMonth() + 1).padStart(2, '0')}/${today.getFullYear()}`;
+  const entries: EntryState = {};
+  const subjectComments: SubjectCommentState = {};
+
+  assessment.subjects?.forEach((subject) => {
+    subjectComments[subject.id] = {
+      teacherComment: '',
+      aiRewrittenComment: '',
+      attitudeTowardsLearning: '',
+      examGrade: '',
+      examDate,
+    };
+    subject.assessmentPoints?.forEach((point) => {
+      entries[`${subject.id}:${point.id}`] = {
+        stars: 0,
+        isNA: false,
+        teacherNotes: '',
+        aiRewrittenText: '',
+      };
+    });
+  });
+
+  return { entries, subjectComments };
+}
+
+export const toReportEntries = (entries: EntryState): ReportEntry[] =>
+  Object.entries(entries).map(([key, value]) => {
+    const [subjectId, pointId] = key.split(':');
+    return {
+      assessmentPointId: pointId,
+      subjectId,
+      stars: value.stars,
+      isNA: value.isNA || undefined,
+      teacherNotes: value.teacherNotes,
+      aiRewrittenText: value.aiRewrittenText,
+      isPrefilled: value.isPrefilled || undefined,
+    };
+  });
+
+// Subjects without a comment or attitude are left out
+export const toSubjectComments = (subjectComments: SubjectCommentState): SubjectComment[] =>
+  Object.entries(subjectComments)
+    .filter(([, value]) => value.teacherComment || value.attitudeTowardsLearning)
+    .map(([subjectId, value]) => ({
+      subjectId,
+      teacherComment: value.teacherComment,
+      aiRewrittenComment: value.aiRewrittenComment,
+      attitudeTowardsLearning: value.attitudeTowardsLearning || undefined,
+      isPrefilled: value.isPrefilled || undefined,
+    }));
+
+// Exam grades typed into subjects become exam results. The term is read from
+// the subject name ("English - Term 1"), which is left without it.
+export const toGeneratedExamResults = (
+  subjectComments: SubjectCommentState,
+  subjects: Subject[],
+  getId: (subjectId: string) => string
+): ExamResult[] =>
+  Object.entries(subjectComments)
+    .filter(([, value]) => value.examGrade)
+    .map(([subjectId, value]) => {
+      const subjectName = subjects.find((s) => s.id === subjectId)?.name || '';
+      const termMatch = subjectName.match(/Term\s*\d/i);
+      return {
+        id: getId(subjectId),
+        term: termMatch ? termMatch[0] : 'Term 1',
+        date: value.examDate,
+        title: 'Assessment of term skills',
+        subject: subjectName.replace(/\s*-\s*Term\s*\d/i, '').trim(),
+        grade: value.examGrade,
+      };
+    });
@@ -0,0 +1,135 @@
+import type { ExamResult, StudentReport } from '@/types';
+import { stableStringify } from './reportSignatures';
+
+// Several teachers fill in the same report, each their own subjects. A save
+// merges the editor's changes into the latest copy from the database one
+// section at a time, comparing both with the copy the editor was opened on.
+// A section changed differently on both sides is a conflict the user resolves.
+
+// Term, title, reporting period and general comment; every other section is a subject id
+export const SUMMARY_SECTION = 'summary';
+
+export type ConflictChoice = 'mine' | 'theirs';
+
+export interface ReportSaveResult {
+  // The merged report as written; missing when conflicts need a decision first
+  saved?: StudentReport;
+  conflicts: string[];
+  latest: StudentReport;
+}
+
+function readSection(report: StudentReport, sectionId: string) {
+  if (sectionId === SUMMARY_SECTION) {
+    const { term, reportTitle, periodStart, periodEnd, generalComment } = report;
+    return stableStringify({ term, reportTitle, periodStart, periodEnd, generalComment });
+  }
+  const comment = report.subjectComments?.find((c) => c.subjectId === sectionId);
+  return stableStringify({
+    entries: report.entries
+      .filter((e) => e.subjectId === sectionId)
+      .sort((a, b) => a.assessmentPointId.localeCompare(b.assessmentPointId))
+      .map(({ assessmentPointId, stars, isNA, teacherNotes, aiRewrittenText, isPrefilled }) => ({
+        assessmentPointId,
+        stars,
+        isNA,
+        teacherNotes,
+        aiRewrittenText,
+        // Confirming a copied value changes nothing else but must still be saved
+        isPrefilled,
+      })),
+    comment: {
+      teacherComment: comment?.teacherComment,
+      aiRewrittenComment: comment?.aiRewrittenComment,
+      attitudeTowardsLearning: comment?.attitudeTowardsLearning,
+      isPrefilled: comment?.isPrefilled,
+    },
+  });
+}
+
+function copySection(target: StudentReport, source: StudentReport, sectionId: string): StudentReport {
+  if (sectionId === SUMMARY_SECTION) {
+    const { term, reportTitle, periodStart, periodEnd, generalComment } = source;
+    return { ...target, term, reportTitle, periodStart, periodEnd, generalComment };
+  }
+  return {
+    ...target,
+    entries: [
+      ...target.entries.filter((e) => e.subjectId !== sectionId),
+      ...source.entries.filter((e) => e.subjectId === sectionId),
+    ],
+    subjectComments: [
+      ...(target.subjectComments || []).filter((c) => c.subjectId !== sectionId),
+      ...(source.subjectComments || []).filter((c) => c.subjectId === sectionId),
+    ],
+  };
+}
+
+export function hasSectionChanged(base: StudentReport, report: StudentReport, sectionId: string) {
+  return readSection(base, sectionId) !== readSection(report, sectionId);
+}
+
+// Exam results are merged per result: additions, edits and removals from
+// both sides are kept, with ours winning when both edited the same result
+export function mergeExamResults(base: ExamResult[], mine: ExamResult[], theirs: ExamResult[]): ExamResult[] {
+  const baseById = new Map(base.map((r) => [r.id, r]));
+  const mineById = new Map(mine.map((r) => [r.id, r]));
+  const theirIds = new Set(theirs.map((r) => r.id));
+
+  const kept = theirs
+    .filter((r) => !baseById.has(r.id) || mineById.has(r.id))
+    .map((r) => {
+      const ours = mineById.get(r.id);
+      const original = baseById.get(r.id);
+      return ours && original && stableStringify(ours) !== stableStringify(original) ? ours : r;
+    });
+  const added = mine.filter((r) => !baseById.has(r.id) && !theirIds.has(r.id));
+  return [...kept, ...added];
+}
+
+/**
+ * Merges the given sections of `mine` into `latest`. Sections we did not
+ * change keep the latest content; sections only we changed take ours.
+ * Sections both sides changed are returned as conflicts unless a choice
+ * for them is passed in `resolutions`.
+ */
+export function mergeReports(
+  base: StudentReport,
+  mine: StudentReport,
+  latest: StudentReport,
+  sectionIds: string[],
+  resolutions: Record<string, ConflictChoice> = {}
+): { merged: StudentReport; conflicts: string[] } {
+  let merged: StudentReport = {
+    ...latest,
+    status: mine.status !== base.status ? mine.status : latest.status,
+    examResults: mergeExamResults(base.examResults || [], mine.examResults || [], latest.examResults || []),
+  };
+  const conflicts: string[] = [];
+
+  for (const sectionId of sectionIds) {
+    const ours = readSection(mine, sectionId);
+    const original = readSection(base, sectionId);
+    const theirs = readSection(latest, sectionId);
+    if (ours === original || ours === theirs) continue;
+
+    const choice = resolutions[sectionId] ?? (theirs === original ? 'mine' : undefined);
+    if (!choice) {
+      conflicts.push(sectionId);
+    } else if (choice === 'mine') {
+      merged = copySection(merged, mine, sectionId);
+    }
+  }
+
+  return { merged, conflicts };
+}
+
+// The copy later saves are compared with after a section save: the saved
+// report, except for sections still holding unsaved edits, which keep the
+// previous base so changes others made to them are not silently overwritten
+export function rebaseReport(base: StudentReport, saved: StudentReport, pendingSectionIds: string[]) {
+  return copySections(saved, base, pendingSectionIds);
+}
+
+export function copySections(target: StudentReport, source: StudentReport, sectionIds: string[]) {
+  return sectionIds.reduce((report, sectionId) => copySection(report, source, sectionId), target);
+}
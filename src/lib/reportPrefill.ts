@@ -0,0 +1,108 @@
+import type { AssessmentTemplate, ReportEntry, SchoolYear, StudentReport, Subject, SubjectComment } from '@/types';
+
+// Starting a report from the student's previous one. Subjects are matched by
+// name without their term ("English - Term 1" → "English - Term 3") and
+// points by name. Copied values are flagged until the teacher confirms them.
+
+export interface ReportPrefill {
+  entries: ReportEntry[];
+  subjectComments: SubjectComment[];
+}
+
+const normalizeName = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const subjectKey = (name: string) => normalizeName(name.replace(/\s*-\s*term\s*\d+/i, ''));
+
+// The latest term a term label covers: "Term 3 & 4" → 4. Zero without one.
+const termNumber = (label: string) => Math.max(0, ...[...label.matchAll(/term\s*(\d+)/gi)].map((m) => Number(m[1])));
+
+// The report written just before the one being written, from any of the
+// student's enrolments: the latest school year first, then the latest term.
+// Reports on the same template are other copies of this report, not earlier ones.
+export function findPreviousReport(
+  reports: StudentReport[],
+  schoolYears: SchoolYear[],
+  studentIds: string[],
+  target: Pick<StudentReport, 'id' | 'assessmentTemplateId' | 'schoolYearId' | 'term'>
+) {
+  const startYear = (schoolYearId: string) =>
+    schoolYears.find((y) => y.id === schoolYearId)?.startYear ?? Number.NEGATIVE_INFINITY;
+  const targetYear = startYear(target.schoolYearId);
+  const targetTerm = termNumber(target.term);
+
+  return reports
+    .filter(
+      (r) =>
+        studentIds.includes(r.studentId) &&
+        r.id !== target.id &&
+        r.assessmentTemplateId !== target.assessmentTemplateId &&
+        (startYear(r.schoolYearId) < targetYear ||
+          (startYear(r.schoolYearId) === targetYear && termNumber(r.term) < targetTerm))
+    )
+    .sort(
+      (a, b) =>
+        startYear(b.schoolYearId) - startYear(a.schoolYearId) ||
+        termNumber(b.term) - termNumber(a.term) ||
+        b.updatedAt.localeCompare(a.updatedAt)
+    )[0];
+}
+
+// A template can have a subject once per term. The source subject for the
+// same term is used, otherwise the one of the term just before the target's,
+// otherwise the latest.
+const findSourceSubject = (sourceSubjects: Subject[], subject: Subject) => {
+  const candidates = sourceSubjects
+    .filter((s) => subjectKey(s.name) === subjectKey(subject.name))
+    .sort((a, b) => termNumber(b.name) - termNumber(a.name));
+  const term = termNumber(subject.name);
+  return (
+    candidates.find((s) => termNumber(s.name) === term) ??
+    candidates.find((s) => termNumber(s.name) < term) ??
+    candidates[0]
+  );
+};
+
+export function buildPrefill(
+  source: StudentReport,
+  sourceTemplate: AssessmentTemplate | undefined,
+  target: AssessmentTemplate
+): ReportPrefill {
+  const entries: ReportEntry[] = [];
+  const subjectComments: SubjectComment[] = [];
+
+  target.subjects.forEach((subject) => {
+    const sourceSubject = findSourceSubject(sourceTemplate?.subjects ?? [], subject);
+    if (!sourceSubject) return;
+
+    subject.assessmentPoints.forEach((point) => {
+      const sourcePoint = sourceSubject.assessmentPoints.find((p) => normalizeName(p.name) === normalizeName(point.name));
+      const entry =
+        sourcePoint &&
+        source.entries.find((e) => e.subjectId === sourceSubject.id && e.assessmentPointId === sourcePoint.id);
+      if (!entry || (!entry.isNA && !entry.stars && !entry.teacherNotes?.trim())) return;
+      entries.push({
+        ...entry,
+        subjectId: subject.id,
+        assessmentPointId: point.id,
+        // The scale may be shorter in the new template
+        stars: Math.min(entry.stars, point.maxStars),
+        isPrefilled: true,
+      });
+    });
+
+    const comment = source.subjectComments?.find((c) => c.subjectId === sourceSubject.id);
+    if (comment && (comment.teacherComment?.trim() || comment.aiRewrittenComment?.trim() || comment.attitudeTowardsLearning)) {
+      subjectComments.push({ ...comment, subjectId: subject.id, isPrefilled: true });
+    }
+  });
+
+  return { entries, subjectComments };
+}
+
+// Copied values nobody has confirmed yet; a report cannot be completed with any left
+export function countUnconfirmedPrefills(report: Pick<StudentReport, 'entries' | 'subjectComments'>) {
+  return (
+    report.entries.filter((e) => e.isPrefilled).length +
+    (report.subjectComments ?? []).filter((c) => c.isPrefilled).length
+  );
+}
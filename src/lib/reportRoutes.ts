@@ -0,0 +1,24 @@
+// Paths of the report pages. A subject id opens the page at that subject.
+
+const withSubject = (path: string, subjectId?: string) =>
+  subjectId ? `${path}?subject=${encodeURIComponent(subjectId)}` : path;
+
+export const getReportViewPath = (reportId: string, subjectId?: string) =>
+  withSubject(`/reports/${reportId}`, subjectId);
+
+export const getReportEditPath = (reportId: string, subjectId?: string) =>
+  withSubject(`/reports/${reportId}/edit`, subjectId);
+
+// The editor for a report not created yet, with the student and assessment
+// already chosen when given
+export function getNewReportPath(options: { studentId?: string; assessmentTemplateId?: string; subjectId?: string } = {}) {
+  const params = new URLSearchParams();
+  if (options.studentId) params.set('student', options.studentId);
+  if (options.assessmentTemplateId) params.set('assessment', options.assessmentTemplateId);
+  if (options.subjectId) params.set('subject', options.subjectId);
+  const query = params.toString();
+  return query ? `/reports/new?${query}` : '/reports/new';
+}
+
+// Rating one subject or point for a whole class
+export const CLASS_ENTRY_PATH = '/reports/class-entry';
@@ -0,0 +1,91 @@
+import type { Grade, Signature, SignatureRole, StaffProfile, StudentReport } from '@/types';
+import { hasRole, isClassroomTeacher } from './permissions';
+
+// Signatures belong to the signed-in staff member in the matching role and
+// carry a hash of the report content, so a report changed after signing can
+// be told apart from the version that was signed. The database trigger
+// enforce_report_workflow checks the same signer rules.
+
+export const SIGNATURE_ROLE_TITLES: Record<SignatureRole, string> = {
+  classroomTeacher: 'Classroom Teacher',
+  headOfSchool: 'Head of School',
+};
+
+// 'unverified' covers signatures made before content hashes were recorded
+export type SignatureState = 'valid' | 'modified' | 'unverified';
+
+type HashedReport = Pick<
+  StudentReport,
+  | 'term'
+  | 'reportTitle'
+  | 'periodStart'
+  | 'periodEnd'
+  | 'entries'
+  | 'subjectComments'
+  | 'generalComment'
+  | 'examResults'
+>;
+
+// JSON with sorted keys and empty values left out, so the same content always
+// produces the same string whether it came from the editor or the database
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record)
+      .filter((key) => record[key] !== undefined && record[key] !== null && record[key] !== '' && record[key] !== false)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(record[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+// What a signature vouches for. Parent reflections are added after signing,
+// so they are deliberately not part of the hash.
+function getSignedContent(report: HashedReport) {
+  return {
+    term: report.term,
+    reportTitle: report.reportTitle,
+    periodStart: report.periodStart,
+    periodEnd: report.periodEnd,
+    entries: [...report.entries].sort((a, b) =>
+      `${a.subjectId}:${a.assessmentPointId}`.localeCompare(`${b.subjectId}:${b.assessmentPointId}`)
+    ),
+    subjectComments: [...(report.subjectComments || [])].sort((a, b) => a.subjectId.localeCompare(b.subjectId)),
+    generalComment: report.generalComment,
+    examResults: (report.examResults || [])
+      .map(({ term, date, title, subject, grade }) => stableStringify({ term, date, title, subject, grade }))
+      .sort(),
+  };
+}
+
+export async function computeReportHash(report: HashedReport): Promise<string> {
+  const bytes = new TextEncoder().encode(stableStringify(getSignedContent(report)));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export function getSignatureState(signature: Signature, currentHash: string): SignatureState {
+  if (!signature.contentHash) return 'unverified';
+  return signature.contentHash === currentHash ? 'valid' : 'modified';
+}
+
+// The classroom teacher signs a completed report first; the head of school's
+// signature follows and marks the report as reviewed
+export function canSignReport(
+  profile: StaffProfile | null,
+  grade: Grade | undefined,
+  report: Pick<StudentReport, 'status' | 'signatures'>,
+  role: SignatureRole
+) {
+  if (report.status !== 'completed' || report.signatures?.[role]) return false;
+  if (role === 'classroomTeacher') {
+    return isClassroomTeacher(profile, grade);
+  }
+  return hasRole(profile, 'head_of_school') && !!report.signatures?.classroomTeacher;
+}
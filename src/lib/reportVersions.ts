@@ -0,0 +1,107 @@
+import type { AssessmentPoint, AssessmentTemplate, ExamResult, ReportEntry, StudentReport, Subject } from '@/types';
+import { SUMMARY_SECTION, copySections, hasSectionChanged } from './reportMerge';
+
+// Comparing two saved versions of a report and restoring parts of an older one
+
+export interface TextDiff {
+  label: string;
+  before?: string;
+  after?: string;
+}
+
+export interface PointDiff {
+  point: AssessmentPoint;
+  before?: ReportEntry;
+  after?: ReportEntry;
+  changed: boolean;
+}
+
+export interface SubjectDiff {
+  subject: Subject;
+  points: PointDiff[];
+  comments: TextDiff[];
+}
+
+export interface ReportDiff {
+  subjects: SubjectDiff[];
+  summary: TextDiff[];
+  examResults?: TextDiff;
+  isEmpty: boolean;
+}
+
+const text = (value?: string) => value?.trim() || undefined;
+
+const entryChanged = (before?: ReportEntry, after?: ReportEntry) =>
+  (before?.stars ?? 0) !== (after?.stars ?? 0) ||
+  !!before?.isNA !== !!after?.isNA ||
+  text(before?.teacherNotes) !== text(after?.teacherNotes) ||
+  text(before?.aiRewrittenText) !== text(after?.aiRewrittenText);
+
+function textDiffs(pairs: [string, string | undefined, string | undefined][]): TextDiff[] {
+  return pairs
+    .filter(([, before, after]) => text(before) !== text(after))
+    .map(([label, before, after]) => ({ label, before: text(before), after: text(after) }));
+}
+
+const describeExamResults = (results: ExamResult[] = []) =>
+  results
+    .map((r) => `${r.subject} (${r.term}): ${r.grade}`)
+    .sort()
+    .join(', ') || undefined;
+
+// What changed from `from` to `to`; subjects without changes are left out
+export function diffReports(from: StudentReport, to: StudentReport, template?: AssessmentTemplate): ReportDiff {
+  const subjects = (template?.subjects ?? [])
+    .filter((subject) => hasSectionChanged(from, to, subject.id))
+    .map((subject) => {
+      const entryFor = (report: StudentReport, pointId: string) =>
+        report.entries.find((e) => e.subjectId === subject.id && e.assessmentPointId === pointId);
+      const commentFor = (report: StudentReport) => report.subjectComments?.find((c) => c.subjectId === subject.id);
+      const before = commentFor(from);
+      const after = commentFor(to);
+      return {
+        subject,
+        points: subject.assessmentPoints.map((point) => {
+          const pointBefore = entryFor(from, point.id);
+          const pointAfter = entryFor(to, point.id);
+          return { point, before: pointBefore, after: pointAfter, changed: entryChanged(pointBefore, pointAfter) };
+        }),
+        comments: textDiffs([
+          ['Comment', before?.teacherComment, after?.teacherComment],
+          ['Polished comment', before?.aiRewrittenComment, after?.aiRewrittenComment],
+          ['Attitude towards learning', before?.attitudeTowardsLearning, after?.attitudeTowardsLearning],
+        ]),
+      };
+    });
+
+  const summary = textDiffs([
+    ['Term', from.term, to.term],
+    ['Title', from.reportTitle, to.reportTitle],
+    ['Period start', from.periodStart, to.periodStart],
+    ['Period end', from.periodEnd, to.periodEnd],
+    ['General comment', from.generalComment, to.generalComment],
+  ]);
+
+  const examBefore = describeExamResults(from.examResults);
+  const examAfter = describeExamResults(to.examResults);
+  const examResults = examBefore !== examAfter ? { label: 'Exam results', before: examBefore, after: examAfter } : undefined;
+
+  return { subjects, summary, examResults, isEmpty: subjects.length === 0 && summary.length === 0 && !examResults };
+}
+
+// The current report with the given sections taken from an older version.
+// Restoring the whole version passes every section and its exam results.
+export function restoreFromVersion(
+  current: StudentReport,
+  version: StudentReport,
+  sectionIds: string[],
+  includeExamResults = false
+): StudentReport {
+  const restored = copySections(current, version, sectionIds);
+  return includeExamResults ? { ...restored, examResults: version.examResults || [] } : restored;
+}
+
+export const getAllSections = (template?: AssessmentTemplate) => [
+  ...(template?.subjects ?? []).map((s) => s.id),
+  SUMMARY_SECTION,
+];
@@ -0,0 +1,71 @@
+import type { AssessmentTemplate, Grade, ReportEntry, ReportStatus, StaffProfile, StudentReport } from '@/types';
+import { canEditGradeReports, canReviewReports } from './permissions';
+
+// Report workflow: draft -> completed -> reviewed. The same transitions are
+// enforced by the enforce_report_workflow trigger in the database.
+
+export const REPORT_STATUS_LABELS: Record<ReportStatus, string> = {
+  draft: 'Draft',
+  completed: 'Completed',
+  reviewed: 'Reviewed',
+};
+
+export const REPORT_STATUS_BADGE_VARIANTS = {
+  draft: 'secondary',
+  completed: 'default',
+  reviewed: 'outline',
+} as const;
+
+export interface ReportTransition {
+  to: ReportStatus;
+  label: string;
+}
+
+export interface UnratedPoint {
+  subjectId: string;
+  subjectName: string;
+  pointName: string;
+}
+
+// Reviewed reports can no longer be edited until they are reopened
+export function isReportLocked(report: Pick<StudentReport, 'status'>) {
+  return report.status === 'reviewed';
+}
+
+export function getAvailableTransitions(
+  profile: StaffProfile | null,
+  grade: Grade | undefined,
+  report: Pick<StudentReport, 'status'>
+): ReportTransition[] {
+  const canEdit = canEditGradeReports(profile, grade);
+  const canReview = canReviewReports(profile);
+
+  switch (report.status) {
+    case 'draft':
+      return canEdit ? [{ to: 'completed', label: 'Submit as Completed' }] : [];
+    case 'completed':
+      // Completed reports become reviewed when the head of school signs them
+      return canEdit ? [{ to: 'draft', label: 'Return to Draft' }] : [];
+    case 'reviewed':
+      return canReview ? [{ to: 'completed', label: 'Reopen' }] : [];
+  }
+}
+
+// Points that still need stars or N/A before the report can be completed
+export function getUnratedPoints(
+  template: Pick<AssessmentTemplate, 'subjects'> | undefined,
+  entries: Pick<ReportEntry, 'subjectId' | 'assessmentPointId' | 'stars' | 'isNA'>[]
+): UnratedPoint[] {
+  if (!template) return [];
+  const rated = new Set(
+    entries
+      .filter((e) => e.isNA || e.stars > 0)
+      .map((e) => `${e.subjectId}:${e.assessmentPointId}`)
+  );
+
+  return template.subjects.flatMap((subject) =>
+    (subject.assessmentPoints || [])
+      .filter((point) => !rated.has(`${subject.id}:${point.id}`))
+      .map((point) => ({ subjectId: subject.id, subjectName: subject.name, pointName: point.name }))
+  );
+}
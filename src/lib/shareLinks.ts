@@ -0,0 +1,13 @@
+import type { ReportShareLink } from '@/types';
+
+export type ShareLinkState = 'active' | 'expired' | 'revoked';
+
+export function getShareLinkState(link: Pick<ReportShareLink, 'expiresAt' | 'revokedAt'>, now = new Date()): ShareLinkState {
+  if (link.revokedAt) return 'revoked';
+  if (link.expiresAt && new Date(link.expiresAt) <= now) return 'expired';
+  return 'active';
+}
+
+export function getShareUrl(token: string) {
+  return `${window.location.origin}/report/${token}`;
+}
@@ -0,0 +1,247 @@
+import { z } from 'zod';
+import { readSheet } from 'read-excel-file/browser';
+import type { Grade, Learner, Student } from '@/types';
+import { createLearner, findLearnerByNumber } from '@/lib/learners';
+
+// Bulk student import from the admin spreadsheet. The file is read into rows
+// of text, the user maps columns to student fields, and each row is validated
+// into a student for the active school year. A student number that belongs to
+// an earlier year's student links the row to that learner. Rows matching a
+// student who is already enrolled, or an earlier row of the file, are reported
+// as duplicates.
+
+export type ImportField = 'studentNumber' | 'firstName' | 'lastName' | 'nameUsed' | 'dateOfBirth' | 'gender' | 'grade';
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean; aliases: string[] }[] = [
+  { field: 'studentNumber', label: 'Student number', required: false, aliases: ['student number', 'student no', 'student no.', 'student id', 'number'] },
+  { field: 'firstName', label: 'First name', required: true, aliases: ['first name', 'firstname', 'given name', 'forename'] },
+  { field: 'lastName', label: 'Last name', required: true, aliases: ['last name', 'lastname', 'surname', 'family name'] },
+  { field: 'nameUsed', label: 'Nickname', required: false, aliases: ['nickname', 'name used', 'preferred name', 'known as'] },
+  { field: 'dateOfBirth', label: 'Date of birth', required: false, aliases: ['date of birth', 'dob', 'birthday', 'birth date'] },
+  { field: 'gender', label: 'Gender', required: false, aliases: ['gender', 'sex'] },
+  { field: 'grade', label: 'Grade', required: true, aliases: ['grade', 'class', 'year group', 'form'] },
+];
+
+// Column index per field; unmapped fields are left out
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export interface ImportSheet {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportRow {
+  // Row number in the spreadsheet, counting the header as row 1
+  rowNumber: number;
+  student?: Student;
+  // Set when the row starts a new learner rather than joining an earlier year's
+  newLearner?: Learner;
+  errors: string[];
+  duplicateOf?: 'existing' | 'file';
+}
+
+const normalize = (value: string) => value.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Quoted fields may contain the delimiter, line breaks and doubled quotes
+export function parseCsv(text: string): string[][] {
+  const firstLine = text.slice(0, text.indexOf('\n') === -1 ? undefined : text.indexOf('\n'));
+  const delimiter = [',', ';', '\t'].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) rows.push([...row, field]);
+  return rows;
+}
+
+const formatCell = (value: unknown) => {
+  if (value === null || value === undefined) return '';
+  // Spreadsheet dates come back as dates at midnight UTC
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return String(value);
+};
+
+// Reads the first sheet of an .xlsx file, or a .csv file; blank rows are dropped
+export async function readImportFile(file: File): Promise<ImportSheet> {
+  const isCsv = /\.(csv|txt)$/i.test(file.name) || file.type === 'text/csv';
+  const cells = isCsv
+    ? parseCsv((await file.text()).replace(/^\uFEFF/, ''))
+    : (await readSheet(file)).map((row) => row.map(formatCell));
+  const [headers = [], ...rows] = cells
+    .map((row) => row.map((cell) => cell.trim()))
+    .filter((row) => row.some(Boolean));
+  return { headers, rows };
+}
+
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    const index = headers.findIndex((h) => aliases.includes(normalize(h)));
+    if (index !== -1) mapping[field] = index;
+  });
+  return mapping;
+}
+
+// Day first (31/12/2015, 31.12.2015) or ISO (2015-12-31)
+function parseDate(value: string): Date | null {
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const dayFirst = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  const [year, month, day] = iso
+    ? [iso[1], iso[2], iso[3]].map(Number)
+    : dayFirst
+      ? [dayFirst[3], dayFirst[2], dayFirst[1]].map(Number)
+      : [];
+  if (!year) return null;
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+const GENDERS: Record<string, Student['gender']> = {
+  m: 'male',
+  male: 'male',
+  boy: 'male',
+  f: 'female',
+  female: 'female',
+  girl: 'female',
+};
+
+// "Grade 3" also matches a cell reading just "3"
+const findGrade = (grades: Grade[], name: string) =>
+  grades.find((g) => normalize(g.name) === normalize(name)) ??
+  grades.find((g) => normalize(g.name).replace(/^grade /, '') === normalize(name));
+
+function createImportRowSchema(grades: Grade[]) {
+  return z.object({
+    studentNumber: z.string().trim(),
+    firstName: z.string().trim().min(1, 'First name is missing'),
+    lastName: z.string().trim().min(1, 'Last name is missing'),
+    nameUsed: z
+      .string()
+      .trim()
+      .transform((value) => value || undefined),
+    // Stored like the student form stores it: local midnight as an ISO string
+    dateOfBirth: z
+      .string()
+      .trim()
+      .transform((value, ctx) => {
+        if (!value) return undefined;
+        const date = parseDate(value);
+        if (!date) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${value}" is not a date` });
+          return z.NEVER;
+        }
+        return date.toISOString();
+      }),
+    gender: z
+      .string()
+      .trim()
+      .transform((value, ctx) => {
+        if (!value) return undefined;
+        const gender = GENDERS[normalize(value)];
+        if (!gender) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${value}" is not a gender` });
+          return z.NEVER;
+        }
+        return gender;
+      }),
+    gradeId: z
+      .string()
+      .trim()
+      .min(1, 'Grade is missing')
+      .transform((value, ctx) => {
+        const grade = findGrade(grades, value);
+        if (!grade) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `No grade called "${value}"` });
+          return z.NEVER;
+        }
+        return grade.id;
+      }),
+  });
+}
+
+const nameKey = (s: Pick<Student, 'firstName' | 'lastName'>) => `${normalize(s.firstName)}|${normalize(s.lastName)}`;
+const birthDay = (s: Pick<Student, 'dateOfBirth'>) => s.dateOfBirth?.slice(0, 10);
+
+// Same name, and the same date of birth unless one of them has none
+const isSameStudent = (a: Student, b: Student) =>
+  nameKey(a) === nameKey(b) && (!birthDay(a) || !birthDay(b) || birthDay(a) === birthDay(b));
+
+export function validateImportRows(
+  sheet: ImportSheet,
+  mapping: ColumnMapping,
+  grades: Grade[],
+  learners: Learner[],
+  students: Student[],
+  schoolYearId: string
+): ImportRow[] {
+  const schema = createImportRowSchema(grades);
+  const cell = (row: string[], field: ImportField) => (mapping[field] === undefined ? '' : (row[mapping[field]!] ?? ''));
+  const enrolled = students.filter((s) => s.schoolYearId === schoolYearId);
+  const imported: Student[] = [];
+  const importedNumbers = new Set<string>();
+
+  return sheet.rows.map((row, index) => {
+    const rowNumber = index + 2;
+    const result = schema.safeParse({
+      studentNumber: cell(row, 'studentNumber'),
+      firstName: cell(row, 'firstName'),
+      lastName: cell(row, 'lastName'),
+      nameUsed: cell(row, 'nameUsed'),
+      dateOfBirth: cell(row, 'dateOfBirth'),
+      gender: cell(row, 'gender'),
+      gradeId: cell(row, 'grade'),
+    });
+    if (!result.success) return { rowNumber, errors: result.error.issues.map((issue) => issue.message) };
+
+    const { studentNumber, ...fields } = result.data;
+    const learner = findLearnerByNumber(learners, studentNumber);
+    const newLearner = learner ? undefined : createLearner(studentNumber);
+    const student: Student = {
+      id: crypto.randomUUID(),
+      learnerId: learner?.id ?? newLearner!.id,
+      ...fields,
+      schoolYearId,
+    };
+    const numberKey = studentNumber.toLowerCase();
+
+    const duplicateOf =
+      enrolled.some((s) => s.learnerId === student.learnerId) || enrolled.some((s) => isSameStudent(s, student))
+        ? 'existing'
+        : (numberKey && importedNumbers.has(numberKey)) || imported.some((s) => isSameStudent(s, student))
+          ? 'file'
+          : undefined;
+    imported.push(student);
+    if (numberKey) importedNumbers.add(numberKey);
+    return { rowNumber, student, newLearner, errors: [], duplicateOf };
+  });
+}
@@ -0,0 +1,164 @@
+import type { AssessmentTemplate, ExamResult, SchoolYear, StudentReport } from '@/types';
+
+// A student's reports over time: average stars per subject and per learner
+// profile attribute for each term, exam results and the points that went down.
+// Subjects are followed across terms by name ("English - Term 1" and
+// "English - Term 2" are both English); subjects without a term in their name
+// take the report's term.
+
+export interface ProgressPeriod {
+  key: string;
+  label: string;
+}
+
+export interface ProgressSeries {
+  name: string;
+  // Average stars per period key; periods without ratings are left out
+  values: Record<string, number>;
+}
+
+export interface PointRegression {
+  subjectName: string;
+  pointName: string;
+  maxStars: number;
+  before: { period: ProgressPeriod; stars: number };
+  after: { period: ProgressPeriod; stars: number };
+}
+
+export interface TimelineExamResult extends ExamResult {
+  schoolYearName: string;
+}
+
+export interface StudentProgress {
+  periods: ProgressPeriod[];
+  subjects: ProgressSeries[];
+  learnerProfile: ProgressSeries[];
+  regressions: PointRegression[];
+  examResults: TimelineExamResult[];
+  maxStars: number;
+}
+
+const LEARNER_PROFILE = /learner profile/i;
+
+const subjectBaseName = (name: string) => name.replace(/\s*-\s*Term\s*\d+/i, '').trim();
+
+// "Term 1 & 2" sorts between Term 1 and Term 2
+function termOrder(term: string) {
+  const numbers = (term.match(/\d+/g) ?? []).map(Number);
+  return numbers.length ? numbers.reduce((sum, n) => sum + n, 0) / numbers.length : 0;
+}
+
+const average = (values: number[]) => Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10) / 10;
+
+// Ratings per series name and period key
+type RatingMap = Map<string, Map<string, number[]>>;
+
+function addRating(ratings: RatingMap, name: string, periodKey: string, stars: number) {
+  const byPeriod = ratings.get(name) ?? new Map<string, number[]>();
+  byPeriod.set(periodKey, [...(byPeriod.get(periodKey) ?? []), stars]);
+  ratings.set(name, byPeriod);
+}
+
+const toSeries = (ratings: RatingMap): ProgressSeries[] =>
+  [...ratings.entries()].map(([name, byPeriod]) => ({
+    name,
+    values: Object.fromEntries([...byPeriod.entries()].map(([key, stars]) => [key, average(stars)])),
+  }));
+
+export function buildStudentProgress(
+  reports: StudentReport[],
+  templates: AssessmentTemplate[],
+  schoolYears: SchoolYear[]
+): StudentProgress {
+  const periods = new Map<string, ProgressPeriod & { sortKey: number }>();
+  const subjects: RatingMap = new Map();
+  const learnerProfile: RatingMap = new Map();
+  const points = new Map<string, { subjectName: string; pointName: string; maxStars: number; ratings: Map<string, number[]> }>();
+  let maxStars = 1;
+
+  const yearOf = (schoolYearId: string) => schoolYears.find((y) => y.id === schoolYearId);
+
+  const periodFor = (report: StudentReport, term: string) => {
+    const year = yearOf(report.schoolYearId);
+    const key = `${report.schoolYearId}|${term}`;
+    if (!periods.has(key)) {
+      periods.set(key, {
+        key,
+        label: year ? `${year.name} · ${term}` : term,
+        sortKey: (year?.startYear ?? 0) * 100 + termOrder(term),
+      });
+    }
+    return key;
+  };
+
+  reports.forEach((report) => {
+    const template = templates.find((t) => t.id === report.assessmentTemplateId);
+    template?.subjects.forEach((subject) => {
+      const term = subject.name.match(/Term\s*\d+/i)?.[0] ?? report.term;
+      const subjectName = subjectBaseName(subject.name);
+
+      subject.assessmentPoints.forEach((point) => {
+        const entry = report.entries.find((e) => e.subjectId === subject.id && e.assessmentPointId === point.id);
+        if (!entry || entry.isNA || !entry.stars) return;
+        const periodKey = periodFor(report, term);
+        maxStars = Math.max(maxStars, point.maxStars);
+
+        addRating(subjects, subjectName, periodKey, entry.stars);
+        if (LEARNER_PROFILE.test(subject.name)) addRating(learnerProfile, point.name, periodKey, entry.stars);
+
+        const pointKey = `${subjectName.toLowerCase()}|${point.name.trim().toLowerCase()}`;
+        const tracked = points.get(pointKey) ?? { subjectName, pointName: point.name, maxStars: point.maxStars, ratings: new Map() };
+        tracked.ratings.set(periodKey, [...(tracked.ratings.get(periodKey) ?? []), entry.stars]);
+        points.set(pointKey, tracked);
+      });
+    });
+  });
+
+  const sortedPeriods = [...periods.values()].sort((a, b) => a.sortKey - b.sortKey);
+  const periodIndex = (key: string) => sortedPeriods.findIndex((p) => p.key === key);
+  const toPeriod = (key: string): ProgressPeriod => {
+    const { label } = periods.get(key)!;
+    return { key, label };
+  };
+
+  // A point regressed when its latest rating is below the one before it
+  const regressions = [...points.values()].flatMap((point) => {
+    const history = [...point.ratings.entries()]
+      .map(([key, stars]) => ({ key, stars: average(stars) }))
+      .sort((a, b) => periodIndex(a.key) - periodIndex(b.key));
+    const after = history[history.length - 1];
+    const before = history[history.length - 2];
+    if (!before || after.stars >= before.stars) return [];
+    return [
+      {
+        subjectName: point.subjectName,
+        pointName: point.pointName,
+        maxStars: point.maxStars,
+        before: { period: toPeriod(before.key), stars: before.stars },
+        after: { period: toPeriod(after.key), stars: after.stars },
+      },
+    ];
+  });
+
+  const examResults = reports
+    .flatMap((report) =>
+      (report.examResults ?? [])
+        .filter((result) => result.grade)
+        .map((result) => ({
+          ...result,
+          schoolYearName: yearOf(report.schoolYearId)?.name ?? '',
+          sortKey: (yearOf(report.schoolYearId)?.startYear ?? 0) * 100 + termOrder(result.term),
+        }))
+    )
+    .sort((a, b) => a.sortKey - b.sortKey || a.subject.localeCompare(b.subject))
+    .map(({ sortKey, ...result }) => result);
+
+  return {
+    periods: sortedPeriods.map(({ key, label }) => ({ key, label })),
+    subjects: toSeries(subjects),
+    learnerProfile: toSeries(learnerProfile),
+    regressions,
+    examResults,
+    maxStars,
+  };
+}
@@ -0,0 +1,85 @@
+import type { Grade, SchoolYear, Student } from '@/types';
+
+// Rolling a school year over copies its students into the next year as new
+// records that point back at the old ones. By default everyone moves up to
+// the next grade by `Grade.order`; students in the last grade leave.
+
+export type RolloverAction = 'promote' | 'repeat' | 'leave';
+
+export interface RolloverEntry {
+  student: Student;
+  grade?: Grade;
+  // Unset for students in the last grade
+  nextGrade?: Grade;
+  // Set when the student's learner is already enrolled in the target year
+  rolledOverTo?: Student;
+}
+
+export const sortGrades = (grades: Grade[]) => [...grades].sort((a, b) => a.order - b.order);
+
+export function getNextGrade(grades: Grade[], gradeId: string): Grade | undefined {
+  const sorted = sortGrades(grades);
+  const index = sorted.findIndex((g) => g.id === gradeId);
+  return index === -1 ? undefined : sorted[index + 1];
+}
+
+// The school year starting next after the given one
+export const getFollowingYear = (schoolYears: SchoolYear[], yearId: string) => {
+  const year = schoolYears.find((y) => y.id === yearId);
+  return [...schoolYears]
+    .filter((y) => year && y.startYear > year.startYear)
+    .sort((a, b) => a.startYear - b.startYear)[0];
+};
+
+export const getDefaultAction = (entry: RolloverEntry): RolloverAction => (entry.nextGrade ? 'promote' : 'leave');
+
+// The students of `fromYearId` in grade order, then by name
+export function buildRolloverEntries(
+  students: Student[],
+  grades: Grade[],
+  fromYearId: string,
+  toYearId: string
+): RolloverEntry[] {
+  const sorted = sortGrades(grades);
+  const gradeIndex = (gradeId: string) => {
+    const index = sorted.findIndex((g) => g.id === gradeId);
+    return index === -1 ? sorted.length : index;
+  };
+
+  return students
+    .filter((s) => s.schoolYearId === fromYearId)
+    .sort(
+      (a, b) =>
+        gradeIndex(a.gradeId) - gradeIndex(b.gradeId) ||
+        a.lastName.localeCompare(b.lastName) ||
+        a.firstName.localeCompare(b.firstName)
+    )
+    .map((student) => ({
+      student,
+      grade: grades.find((g) => g.id === student.gradeId),
+      nextGrade: getNextGrade(grades, student.gradeId),
+      rolledOverTo: students.find((s) => s.schoolYearId === toYearId && s.learnerId === student.learnerId),
+    }));
+}
+
+// New records for the target year; students who leave or were already rolled over get none
+export function createRolledOverStudents(
+  entries: RolloverEntry[],
+  actions: Record<string, RolloverAction>,
+  toYearId: string
+): Student[] {
+  return entries.flatMap((entry) => {
+    const action = actions[entry.student.id] ?? getDefaultAction(entry);
+    if (entry.rolledOverTo || action === 'leave') return [];
+    const gradeId = action === 'promote' && entry.nextGrade ? entry.nextGrade.id : entry.student.gradeId;
+    return [
+      {
+        ...entry.student,
+        id: crypto.randomUUID(),
+        gradeId,
+        schoolYearId: toYearId,
+        previousStudentId: entry.student.id,
+      },
+    ];
+  });
+}
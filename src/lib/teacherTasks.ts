@@ -0,0 +1,97 @@
+import type { AssessmentTemplate, Grade, Student, StudentReport, Subject } from '@/types';
+import { getAssignmentTeachers, isAssignedTeacher, subjectMatchesAssignment } from './permissions';
+import { getSubjectCompleteness, type SubjectCompleteness } from './reportCompleteness';
+import { getNewReportPath, getReportEditPath } from './reportRoutes';
+
+// One student/subject pair a teacher is responsible for, from Grade.teacherAssignments
+
+export interface TeacherTask {
+  student: Student;
+  grade: Grade;
+  template: AssessmentTemplate;
+  subject: Subject;
+  report?: StudentReport;
+  completeness?: SubjectCompleteness;
+  // Points without stars or N/A, and whether the subject comment is still empty
+  outstandingPoints: number;
+  needsComment: boolean;
+}
+
+interface TeacherTaskData {
+  grades: Grade[];
+  students: Student[];
+  assessmentTemplates: AssessmentTemplate[];
+  reports: StudentReport[];
+  schoolYearId: string | null;
+}
+
+// Everyone named as a teacher on a grade, sorted by name
+export function getTeacherNames(grades: Grade[]): string[] {
+  const names = new Map<string, string>();
+  for (const grade of grades) {
+    for (const name of (grade.teacherAssignments || []).flatMap(getAssignmentTeachers)) {
+      names.set(name.toLowerCase(), name);
+    }
+  }
+  return [...names.values()].sort((a, b) => a.localeCompare(b));
+}
+
+export function getTeacherTasks(teacherName: string, data: TeacherTaskData): TeacherTask[] {
+  const { grades, students, assessmentTemplates, reports, schoolYearId } = data;
+  const tasks: TeacherTask[] = [];
+
+  for (const grade of [...grades].sort((a, b) => a.order - b.order)) {
+    const assignments = (grade.teacherAssignments || []).filter((a) => isAssignedTeacher(a, teacherName));
+    if (assignments.length === 0) continue;
+
+    const gradeStudents = students
+      .filter((s) => s.schoolYearId === schoolYearId && s.gradeId === grade.id)
+      .sort((a, b) => `${a.lastName} ${a.firstName}`.localeCompare(`${b.lastName} ${b.firstName}`));
+    const templates = assessmentTemplates.filter(
+      (a) => a.gradeId === grade.id && a.schoolYearId === schoolYearId && !a.isArchived
+    );
+
+    for (const template of templates) {
+      const subjects = template.subjects.filter((subject) =>
+        assignments.some((a) => subjectMatchesAssignment(subject.name, a.subject))
+      );
+      if (subjects.length === 0) continue;
+
+      for (const student of gradeStudents) {
+        // The most recently updated report is the one being worked on
+        const report = reports
+          .filter((r) => r.studentId === student.id && r.assessmentTemplateId === template.id)
+          .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0];
+
+        for (const subject of subjects) {
+          const completeness = report ? getSubjectCompleteness(report, subject) : undefined;
+          tasks.push({
+            student,
+            grade,
+            template,
+            subject,
+            report,
+            completeness,
+            outstandingPoints: completeness
+              ? completeness.totalPoints - completeness.ratedPoints
+              : subject.assessmentPoints.length,
+            needsComment: !completeness?.hasComment,
+          });
+        }
+      }
+    }
+  }
+
+  return tasks;
+}
+
+export function isTaskOutstanding(task: TeacherTask) {
+  return task.outstandingPoints > 0 || task.needsComment;
+}
+
+// Opens the task's subject in the report editor, starting a report when the student has none yet
+export function getTaskPath(task: TeacherTask) {
+  return task.report
+    ? getReportEditPath(task.report.id, task.subject.id)
+    : getNewReportPath({ studentId: task.student.id, assessmentTemplateId: task.template.id, subjectId: task.subject.id });
+}
@@ -0,0 +1,431 @@
+import { useMemo, useState } from 'react';
+import { AlertTriangle, BarChart3 } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { useAppStore } from '@/store/useAppStore';
+import { useAuthStore } from '@/store/useAuthStore';
+import { canEditGradeReports } from '@/lib/permissions';
+import {
+  ATTITUDES,
+  buildGradeAnalytics,
+  countRated,
+  getNAShare,
+  type RatingDistribution,
+} from '@/lib/gradeAnalytics';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+const STAR_CONFIG = {
+  stars1: { label: '1 star', color: 'hsl(var(--tisa-red))' },
+  stars2: { label: '2 stars', color: 'hsl(var(--grade-4))' },
+  stars3: { label: '3 stars', color: 'hsl(var(--grade-5))' },
+  stars4: { label: '4 stars', color: 'hsl(var(--grade-0))' },
+  stars5: { label: '5 stars', color: 'hsl(var(--grade-1))' },
+  na: { label: 'N/A', color: 'hsl(var(--muted-foreground))' },
+} satisfies ChartConfig;
+
+const ATTITUDE_CONFIG = {
+  Emerging: { label: 'Emerging', color: 'hsl(var(--grade-4))' },
+  Developing: { label: 'Developing', color: 'hsl(var(--grade-5))' },
+  Applying: { label: 'Applying', color: 'hsl(var(--grade-0))' },
+  Independent: { label: 'Independent', color: 'hsl(var(--grade-1))' },
+} satisfies ChartConfig;
+
+const EXAM_CONFIG = {
+  count: { label: 'Exams', color: 'hsl(var(--tisa-purple))' },
+} satisfies ChartConfig;
+
+const percent = (share: number) => `${Math.round(share * 100)}%`;
+
+// Star keys that occur at all, so a template with three-star points has no empty 4 and 5 star series
+const usedStarKeys = (ratings: RatingDistribution) =>
+  ratings.byStars.flatMap((count, i) => (count > 0 ? [`stars${i + 1}` as keyof typeof STAR_CONFIG] : []));
+
+const toStarRow = (ratings: RatingDistribution) => ({
+  ...Object.fromEntries(ratings.byStars.map((count, i) => [`stars${i + 1}`, count])),
+  na: ratings.na,
+});
+
+function RatingBar({ ratings }: { ratings: RatingDistribution }) {
+  const answered = countRated(ratings) + ratings.na;
+  if (!answered) return <span className="text-xs text-muted-foreground">No ratings</span>;
+  const parts = [...ratings.byStars.map((count, i) => [`stars${i + 1}`, count] as const), ['na', ratings.na] as const];
+  return (
+    <div className="flex h-3 w-full min-w-[160px] overflow-hidden rounded-full bg-muted">
+      {parts
+        .filter(([, count]) => count > 0)
+        .map(([key, count]) => (
+          <div
+            key={key}
+            title={`${STAR_CONFIG[key].label}: ${count}`}
+            style={{ width: `${(count / answered) * 100}%`, backgroundColor: STAR_CONFIG[key].color }}
+          />
+        ))}
+    </div>
+  );
+}
+
+// Rating spread, N/A use, attitudes and exam grades of one grade's reports
+// for an assessment, with the points most of the class struggled with
+export default function AnalyticsPage() {
+  const { grades, students, reports, assessmentTemplates, schoolYears, activeSchoolYearId } = useAppStore();
+  const profile = useAuthStore((state) => state.profile);
+  const sortedYears = [...schoolYears].sort((a, b) => b.startYear - a.startYear);
+  const editableGrades = grades.filter((g) => canEditGradeReports(profile, g)).sort((a, b) => a.order - b.order);
+
+  const [selectedYearId, setYearId] = useState('');
+  const [selectedGradeId, setGradeId] = useState('');
+  const [templateId, setTemplateId] = useState('');
+  const [pointsSubjectId, setPointsSubjectId] = useState('');
+  const yearId = selectedYearId || activeSchoolYearId || sortedYears[0]?.id || '';
+  const gradeId = selectedGradeId || editableGrades[0]?.id || '';
+
+  const gradeTemplates = assessmentTemplates.filter((a) => a.gradeId === gradeId && a.schoolYearId === yearId);
+  const template = gradeTemplates.find((a) => a.id === templateId) ?? gradeTemplates[0];
+  const gradeStudents = students.filter((s) => s.gradeId === gradeId && s.schoolYearId === yearId);
+
+  // The most recently updated report per student, like the completeness matrix
+  const templateReports = useMemo(() => {
+    const latest = new Map<string, (typeof reports)[number]>();
+    reports
+      .filter((r) => r.assessmentTemplateId === template?.id && r.schoolYearId === yearId)
+      .forEach((r) => {
+        const current = latest.get(r.studentId);
+        if (!current || r.updatedAt > current.updatedAt) latest.set(r.studentId, r);
+      });
+    return [...latest.values()];
+  }, [reports, template?.id, yearId]);
+
+  const analytics = useMemo(
+    () => (template ? buildGradeAnalytics(template, templateReports) : null),
+    [template, templateReports]
+  );
+
+  const pointsSubject =
+    analytics?.subjects.find((s) => s.subject.id === pointsSubjectId) ?? analytics?.subjects[0];
+  const starKeys = analytics
+    ? [...new Set(analytics.subjects.flatMap((s) => usedStarKeys(s.ratings)))].sort()
+    : [];
+  const attitudeSubjects = analytics?.subjects.filter((s) => ATTITUDES.some((a) => s.attitudes[a] > 0)) ?? [];
+  const hasExamGrades = analytics?.examGrades.some((g) => g.count > 0);
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-col gap-4 lg:flex-row lg:items-end lg:justify-between">
+          <div>
+            <h1 className="font-display text-2xl font-bold">Analytics</h1>
+            <p className="text-muted-foreground">How a grade was rated across subjects, points and exams</p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Select
+              value={yearId}
+              onValueChange={(value) => {
+                setYearId(value);
+                setTemplateId('');
+                setPointsSubjectId('');
+              }}
+            >
+              <SelectTrigger className="w-36">
+                <SelectValue placeholder="School year" />
+              </SelectTrigger>
+              <SelectContent>
+                {sortedYears.map((y) => (
+                  <SelectItem key={y.id} value={y.id}>
+                    {y.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={gradeId}
+              onValueChange={(value) => {
+                setGradeId(value);
+                setTemplateId('');
+                setPointsSubjectId('');
+              }}
+            >
+              <SelectTrigger className="w-36">
+                <SelectValue placeholder="Grade" />
+              </SelectTrigger>
+              <SelectContent>
+                {editableGrades.map((g) => (
+                  <SelectItem key={g.id} value={g.id}>
+                    {g.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={template?.id ?? ''}
+              onValueChange={(value) => {
+                setTemplateId(value);
+                setPointsSubjectId('');
+              }}
+            >
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Assessment" />
+              </SelectTrigger>
+              <SelectContent>
+                {gradeTemplates.map((a) => (
+                  <SelectItem key={a.id} value={a.id}>
+                    {a.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {!analytics ? (
+          <Card className="border-dashed">
+            <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+              <BarChart3 className="mb-4 h-12 w-12 text-muted-foreground/50" />
+              <h3 className="mb-2 font-semibold">No assessment</h3>
+              <p className="text-sm text-muted-foreground">
+                {editableGrades.length === 0
+                  ? 'You are not assigned to any grade.'
+                  : 'This grade has no assessment in the chosen school year.'}
+              </p>
+            </CardContent>
+          </Card>
+        ) : analytics.reportCount === 0 ? (
+          <Card className="border-dashed">
+            <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+              <BarChart3 className="mb-4 h-12 w-12 text-muted-foreground/50" />
+              <h3 className="mb-2 font-semibold">No reports yet</h3>
+              <p className="text-sm text-muted-foreground">Figures appear once reports for this assessment are written.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {/* Summary */}
+            <div className="grid gap-4 sm:grid-cols-3">
+              <Card>
+                <CardContent className="p-6">
+                  <p className="text-sm text-muted-foreground">Reports</p>
+                  <p className="font-display text-3xl font-bold">
+                    {analytics.reportCount}
+                    <span className="text-base font-normal text-muted-foreground"> of {gradeStudents.length} students</span>
+                  </p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-6">
+                  <p className="text-sm text-muted-foreground">Points marked N/A</p>
+                  <p className="font-display text-3xl font-bold">{percent(analytics.naShare)}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-6">
+                  <p className="text-sm text-muted-foreground">Points most of the class got one star for</p>
+                  <p className="font-display text-3xl font-bold">{analytics.lowPoints.length}</p>
+                </CardContent>
+              </Card>
+            </div>
+
+            {analytics.lowPoints.length > 0 && (
+              <Card className="border-destructive/30">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-base">
+                    <AlertTriangle className="h-5 w-5 text-destructive" />
+                    Points to Look At
+                  </CardTitle>
+                  <CardDescription>
+                    More than half of the rated students got one star. This may point to a problem with the curriculum or
+                    the point itself.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Point</TableHead>
+                        <TableHead className="w-[40%]">Ratings</TableHead>
+                        <TableHead className="text-right">One star</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {analytics.lowPoints.map(({ subject, point, ratings, oneStarShare }) => (
+                        <TableRow key={`${subject.id}:${point.id}`}>
+                          <TableCell>
+                            <p className="text-sm font-medium">{point.name}</p>
+                            <p className="text-xs text-muted-foreground">{subject.name}</p>
+                          </TableCell>
+                          <TableCell>
+                            <RatingBar ratings={ratings} />
+                          </TableCell>
+                          <TableCell className="text-right font-semibold text-destructive">
+                            {ratings.byStars[0]} of {countRated(ratings)} ({percent(oneStarShare)})
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Star Ratings per Subject</CardTitle>
+                <CardDescription>Share of each rating across all points of a subject. Unrated points are left out.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer
+                  config={STAR_CONFIG}
+                  className="aspect-auto w-full"
+                  style={{ height: analytics.subjects.length * 32 + 60 }}
+                >
+                  <BarChart
+                    data={analytics.subjects.map((s) => ({ subject: s.subject.name, ...toStarRow(s.ratings) }))}
+                    layout="vertical"
+                    stackOffset="expand"
+                    margin={{ left: 8, right: 16 }}
+                  >
+                    <CartesianGrid horizontal={false} />
+                    <XAxis type="number" tickFormatter={(value: number) => percent(value)} tickLine={false} axisLine={false} />
+                    <YAxis type="category" dataKey="subject" width={200} tickLine={false} axisLine={false} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    {[...starKeys, 'na' as const].map((key) => (
+                      <Bar key={key} dataKey={key} stackId="ratings" fill={`var(--color-${key})`} />
+                    ))}
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            {pointsSubject && (
+              <Card>
+                <CardHeader>
+                  <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+                    <div>
+                      <CardTitle className="text-base">Star Ratings per Point</CardTitle>
+                      <CardDescription>
+                        {percent(getNAShare(pointsSubject.ratings))} of this subject's answered points are N/A.
+                      </CardDescription>
+                    </div>
+                    <Select value={pointsSubject.subject.id} onValueChange={setPointsSubjectId}>
+                      <SelectTrigger className="w-64">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {analytics.subjects.map((s) => (
+                          <SelectItem key={s.subject.id} value={s.subject.id}>
+                            {s.subject.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Point</TableHead>
+                        <TableHead className="w-[40%]">Ratings</TableHead>
+                        <TableHead className="text-right">N/A</TableHead>
+                        <TableHead className="text-right">Unrated</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {pointsSubject.points.map(({ point, ratings }) => (
+                        <TableRow key={point.id}>
+                          <TableCell className="text-sm">
+                            {point.name}
+                            <span className="ml-1 text-xs text-muted-foreground">(max {point.maxStars})</span>
+                          </TableCell>
+                          <TableCell>
+                            <RatingBar ratings={ratings} />
+                          </TableCell>
+                          <TableCell className="text-right text-sm">{percent(getNAShare(ratings))}</TableCell>
+                          <TableCell className="text-right text-sm text-muted-foreground">{ratings.unrated}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            )}
+
+            <div className="grid gap-6 lg:grid-cols-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Attitude Towards Learning</CardTitle>
+                  <CardDescription>Per subject, as chosen in the subject comments.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {attitudeSubjects.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No attitudes have been chosen yet.</p>
+                  ) : (
+                    <ChartContainer
+                      config={ATTITUDE_CONFIG}
+                      className="aspect-auto w-full"
+                      style={{ height: attitudeSubjects.length * 32 + 60 }}
+                    >
+                      <BarChart
+                        data={attitudeSubjects.map((s) => ({ subject: s.subject.name, ...s.attitudes }))}
+                        layout="vertical"
+                        stackOffset="expand"
+                        margin={{ left: 8, right: 16 }}
+                      >
+                        <CartesianGrid horizontal={false} />
+                        <XAxis type="number" tickFormatter={(value: number) => percent(value)} tickLine={false} axisLine={false} />
+                        <YAxis type="category" dataKey="subject" width={160} tickLine={false} axisLine={false} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <ChartLegend content={<ChartLegendContent />} />
+                        {ATTITUDES.map((attitude) => (
+                          <Bar key={attitude} dataKey={attitude} stackId="attitudes" fill={`var(--color-${attitude})`} />
+                        ))}
+                      </BarChart>
+                    </ChartContainer>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Exam Grades</CardTitle>
+                  <CardDescription>All graded exam results in these reports.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {!hasExamGrades ? (
+                    <p className="text-sm text-muted-foreground">No exam grades have been entered yet.</p>
+                  ) : (
+                    <ChartContainer config={EXAM_CONFIG} className="aspect-auto h-[260px] w-full">
+                      <BarChart data={analytics.examGrades} margin={{ top: 8, right: 8, left: 0 }}>
+                        <CartesianGrid vertical={false} />
+                        <XAxis dataKey="grade" tickLine={false} axisLine={false} />
+                        <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={28} />
+                        <ChartTooltip content={<ChartTooltipContent />} />
+                        <Bar dataKey="count" fill="var(--color-count)" radius={4} />
+                      </BarChart>
+                    </ChartContainer>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </>
+        )}
+      </div>
+    </AppLayout>
+  );
+}
@@ -0,0 +1,408 @@
+import { useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Loader2, Lock, Save, Star } from 'lucide-react';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { useAppStore } from '@/store/useAppStore';
+import { useAuthStore } from '@/store/useAuthStore';
+import { canEditGradeReports, canEditSubject } from '@/lib/permissions';
+import { REPORT_STATUS_BADGE_VARIANTS, REPORT_STATUS_LABELS, isReportLocked } from '@/lib/reportWorkflow';
+import { applyClassEntry, createClassEntryReport, type ClassEntryChanges, type ClassEntryValue } from '@/lib/classEntry';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+const ALL = 'all';
+
+// Choosing a grade, assessment or subject resets the choices after it
+const SELECTION_PARAMS = ['grade', 'assessment', 'subject', 'point'];
+
+const EMPTY_VALUE: ClassEntryValue = { stars: 0, isNA: false, teacherNotes: '' };
+
+interface StarPickerProps {
+  value?: ClassEntryValue;
+  maxStars: number;
+  disabled?: boolean;
+  onChange: (value: Pick<ClassEntryValue, 'stars' | 'isNA'>) => void;
+}
+
+// Unlike StarRating, an unrated point shows as empty so it stands out in the class list
+function StarPicker({ value, maxStars, disabled, onChange }: StarPickerProps) {
+  return (
+    <div className="flex items-center gap-0.5">
+      {Array.from({ length: maxStars }).map((_, i) => (
+        <button
+          key={i}
+          type="button"
+          disabled={disabled}
+          aria-label={`${i + 1} of ${maxStars} stars`}
+          onClick={() => onChange({ stars: i + 1, isNA: false })}
+          className="rounded p-0.5 text-star-filled hover:bg-star-filled/10 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+        >
+          <Star className={cn('h-4 w-4', !value?.isNA && i < (value?.stars ?? 0) ? 'fill-current' : 'opacity-30')} />
+        </button>
+      ))}
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={() => onChange({ stars: value?.stars ?? 0, isNA: !value?.isNA })}
+        className={cn(
+          'ml-1 rounded px-1.5 py-0.5 text-[10px] font-semibold disabled:cursor-not-allowed',
+          value?.isNA ? 'bg-muted-foreground text-background' : 'text-muted-foreground hover:bg-muted'
+        )}
+      >
+        N/A
+      </button>
+    </div>
+  );
+}
+
+// One subject, or one point of it, for every student of a grade. Students
+// without a report get a draft report when their ratings are saved.
+export default function ClassEntryPage() {
+  const { grades, students, reports, assessmentTemplates, activeSchoolYearId, createReport, saveReportChanges } =
+    useAppStore();
+  const profile = useAuthStore((state) => state.profile);
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Unsaved changes per student id
+  const [changes, setChanges] = useState<Record<string, ClassEntryChanges>>({});
+  const [conflictStudentIds, setConflictStudentIds] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const editableGrades = grades.filter((g) => canEditGradeReports(profile, g)).sort((a, b) => a.order - b.order);
+  const grade = editableGrades.find((g) => g.id === searchParams.get('grade')) ?? editableGrades[0];
+  const gradeTemplates = assessmentTemplates.filter(
+    (a) => a.gradeId === grade?.id && a.schoolYearId === activeSchoolYearId && !a.isArchived
+  );
+  const template = gradeTemplates.find((a) => a.id === searchParams.get('assessment')) ?? gradeTemplates[0];
+  const subjects = (template?.subjects ?? []).filter((s) => canEditSubject(profile, grade, s.name));
+  const subject = subjects.find((s) => s.id === searchParams.get('subject')) ?? subjects[0];
+  const point = subject?.assessmentPoints.find((p) => p.id === searchParams.get('point'));
+  const points = point ? [point] : (subject?.assessmentPoints ?? []);
+
+  const gradeStudents = students
+    .filter((s) => s.schoolYearId === activeSchoolYearId && s.gradeId === grade?.id)
+    .sort((a, b) => `${a.lastName} ${a.firstName}`.localeCompare(`${b.lastName} ${b.firstName}`));
+
+  // The most recently updated report per student, like the completeness matrix
+  const reportFor = (studentId: string) =>
+    reports
+      .filter(
+        (r) =>
+          r.studentId === studentId && r.assessmentTemplateId === template?.id && r.schoolYearId === activeSchoolYearId
+      )
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0];
+
+  const changedStudentIds = Object.keys(changes);
+  const hasChanges = changedStudentIds.length > 0;
+
+  const select = (param: string, value: string) => {
+    const next = new URLSearchParams(searchParams);
+    SELECTION_PARAMS.slice(SELECTION_PARAMS.indexOf(param)).forEach((p) => next.delete(p));
+    if (value !== ALL) next.set(param, value);
+    setSearchParams(next, { replace: true });
+    setConflictStudentIds([]);
+  };
+
+  const valueFor = (studentId: string, pointId: string): ClassEntryValue | undefined => {
+    const changed = changes[studentId]?.entries[pointId];
+    if (changed) return changed;
+    const entry = reportFor(studentId)?.entries.find(
+      (e) => e.subjectId === subject?.id && e.assessmentPointId === pointId
+    );
+    return entry && { stars: entry.stars, isNA: !!entry.isNA, teacherNotes: entry.teacherNotes || '' };
+  };
+
+  const commentFor = (studentId: string) =>
+    changes[studentId]?.comment ??
+    reportFor(studentId)?.subjectComments?.find((c) => c.subjectId === subject?.id)?.teacherComment ??
+    '';
+
+  const updateValue = (studentId: string, pointId: string, updates: Partial<ClassEntryValue>) => {
+    const current = valueFor(studentId, pointId) ?? EMPTY_VALUE;
+    setChanges((prev) => ({
+      ...prev,
+      [studentId]: {
+        ...prev[studentId],
+        entries: { ...prev[studentId]?.entries, [pointId]: { ...current, ...updates } },
+      },
+    }));
+  };
+
+  const updateComment = (studentId: string, comment: string) => {
+    setChanges((prev) => ({
+      ...prev,
+      [studentId]: { entries: {}, ...prev[studentId], comment },
+    }));
+  };
+
+  const saveChanges = async () => {
+    if (!template || !subject || !activeSchoolYearId) return;
+    setIsSaving(true);
+    let savedCount = 0;
+    let failedCount = 0;
+    const conflicts: string[] = [];
+
+    for (const studentId of changedStudentIds) {
+      const report = reportFor(studentId);
+      try {
+        if (report) {
+          const { saved } = await saveReportChanges(report, applyClassEntry(report, subject.id, changes[studentId]), [
+            subject.id,
+          ]);
+          if (!saved) {
+            conflicts.push(studentId);
+            continue;
+          }
+        } else {
+          await createReport(
+            createClassEntryReport(
+              { studentId, assessmentTemplateId: template.id, schoolYearId: activeSchoolYearId },
+              subject.id,
+              changes[studentId]
+            )
+          );
+        }
+        savedCount++;
+        setChanges((prev) => {
+          const { [studentId]: _, ...rest } = prev;
+          return rest;
+        });
+      } catch (error) {
+        console.error('Class entry save error:', error);
+        failedCount++;
+      }
+    }
+
+    setConflictStudentIds(conflicts);
+    setIsSaving(false);
+    if (savedCount > 0) {
+      toast.success(`Saved ratings for ${savedCount} student${savedCount > 1 ? 's' : ''}`);
+    }
+    if (conflicts.length > 0) {
+      toast.error(`${conflicts.length} report${conflicts.length > 1 ? 's were' : ' was'} changed by someone else`, {
+        description: 'Your changes are kept. Check the highlighted students and save again.',
+      });
+    }
+    if (failedCount > 0) {
+      toast.error(`Failed to save ${failedCount} student${failedCount > 1 ? 's' : ''}`);
+    }
+  };
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+          <div>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="-ml-3 mb-2 w-fit gap-1 text-muted-foreground"
+              onClick={() => navigate('/reports')}
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Reports
+            </Button>
+            <h1 className="font-display text-2xl font-bold">Class Entry</h1>
+            <p className="text-muted-foreground">Rate one skill or subject for the whole class in one pass</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" disabled={!hasChanges || isSaving} onClick={() => setChanges({})}>
+              Discard
+            </Button>
+            <Button className="gap-2" disabled={!hasChanges || isSaving} onClick={saveChanges}>
+              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+              {hasChanges
+                ? `Save ${changedStudentIds.length} student${changedStudentIds.length > 1 ? 's' : ''}`
+                : 'Save'}
+            </Button>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col gap-4 lg:flex-row lg:items-end lg:justify-between">
+              <div>
+                <CardTitle>{point ? point.name : subject?.name || 'Class Entry'}</CardTitle>
+                <CardDescription>
+                  {point
+                    ? point.description || `${subject?.name} · up to ${point.maxStars} stars`
+                    : 'Every point of the subject, plus the subject comment.'}{' '}
+                  Save or discard your changes before choosing another class or skill.
+                </CardDescription>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Select value={grade?.id ?? ''} onValueChange={(value) => select('grade', value)} disabled={hasChanges}>
+                  <SelectTrigger className="w-36">
+                    <SelectValue placeholder="Grade" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {editableGrades.map((g) => (
+                      <SelectItem key={g.id} value={g.id}>
+                        {g.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={template?.id ?? ''}
+                  onValueChange={(value) => select('assessment', value)}
+                  disabled={hasChanges}
+                >
+                  <SelectTrigger className="w-48">
+                    <SelectValue placeholder="Assessment" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {gradeTemplates.map((a) => (
+                      <SelectItem key={a.id} value={a.id}>
+                        {a.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={subject?.id ?? ''} onValueChange={(value) => select('subject', value)} disabled={hasChanges}>
+                  <SelectTrigger className="w-52">
+                    <SelectValue placeholder="Subject" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {subjects.map((s) => (
+                      <SelectItem key={s.id} value={s.id}>
+                        {s.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={point?.id ?? ALL} onValueChange={(value) => select('point', value)} disabled={hasChanges || !subject}>
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All points</SelectItem>
+                    {subject?.assessmentPoints.map((p) => (
+                      <SelectItem key={p.id} value={p.id}>
+                        {p.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {editableGrades.length === 0 ? (
+              <p className="text-sm text-muted-foreground">You are not assigned to any grade.</p>
+            ) : !template ? (
+              <p className="text-sm text-muted-foreground">This grade has no assessment in the active school year.</p>
+            ) : !subject ? (
+              <p className="text-sm text-muted-foreground">You are not assigned to any subject of this assessment.</p>
+            ) : gradeStudents.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No students in this grade.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="min-w-[180px]">Student</TableHead>
+                      {points.map((p) => (
+                        <TableHead key={p.id} className="min-w-[140px] text-xs" title={p.description}>
+                          {point ? 'Rating' : p.name}
+                        </TableHead>
+                      ))}
+                      <TableHead className="min-w-[260px]">{point ? 'Notes' : 'Comment'}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {gradeStudents.map((student) => {
+                      const report = reportFor(student.id);
+                      const locked = !!report && isReportLocked(report);
+                      const isChanged = !!changes[student.id];
+                      const hasConflict = conflictStudentIds.includes(student.id) && isChanged;
+
+                      return (
+                        <TableRow
+                          key={student.id}
+                          className={cn(isChanged && 'bg-tisa-purple/5', hasConflict && 'bg-destructive/5')}
+                        >
+                          <TableCell>
+                            <p className="font-medium">
+                              {student.nameUsed || student.firstName} {student.lastName}
+                            </p>
+                            <div className="mt-1 flex flex-wrap items-center gap-1">
+                              {report ? (
+                                <Badge variant={REPORT_STATUS_BADGE_VARIANTS[report.status]} className="text-[10px]">
+                                  {locked && <Lock className="mr-1 h-2.5 w-2.5" />}
+                                  {REPORT_STATUS_LABELS[report.status]}
+                                </Badge>
+                              ) : (
+                                <Badge variant="outline" className="text-[10px]">
+                                  No report yet
+                                </Badge>
+                              )}
+                              {hasConflict && (
+                                <span className="text-[10px] text-destructive">Changed by someone else</span>
+                              )}
+                            </div>
+                          </TableCell>
+                          {points.map((p) => (
+                            <TableCell key={p.id}>
+                              <StarPicker
+                                value={valueFor(student.id, p.id)}
+                                maxStars={p.maxStars}
+                                disabled={locked || isSaving}
+                                onChange={(value) => updateValue(student.id, p.id, value)}
+                              />
+                            </TableCell>
+                          ))}
+                          <TableCell>
+                            {point ? (
+                              <Input
+                                value={valueFor(student.id, point.id)?.teacherNotes ?? ''}
+                                onChange={(e) => updateValue(student.id, point.id, { teacherNotes: e.target.value })}
+                                disabled={locked || isSaving}
+                                placeholder="Observation..."
+                                className="h-8 text-sm"
+                              />
+                            ) : (
+                              <Textarea
+                                value={commentFor(student.id)}
+                                onChange={(e) => updateComment(student.id, e.target.value)}
+                                disabled={locked || isSaving}
+                                placeholder="Subject comment..."
+                                rows={1}
+                                className="min-h-[36px] text-sm"
+                              />
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AppLayout>
+  );
+}
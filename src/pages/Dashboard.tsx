@@ -7,10 +7,15 @@ import {
   FileText,
   Plus,
   ArrowRight,
-  Star
+  Star,
+  AlertTriangle
 } from 'lucide-react';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { useAppStore } from '@/store/useAppStore';
+import { useAuthStore } from '@/store/useAuthStore';
+import { canEditGradeReports } from '@/lib/permissions';
+import { findEarlyWarnings } from '@/lib/earlyWarnings';
+import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 
@@ -28,12 +33,30 @@ const itemVariants = {
 };
 
 export default function Dashboard() {
-  const { grades, students, assessmentTemplates, reports, activeSchoolYearId } = useAppStore();
+  const { grades, students, assessmentTemplates, reports, activeSchoolYearId, appSettings, warningFlagNotes } = useAppStore();
+  const profile = useAuthStore((state) => state.profile);
   
   const activeStudents = students.filter(s => s.schoolYearId === activeSchoolYearId);
   const activeAssessments = assessmentTemplates.filter(a => a.schoolYearId === activeSchoolYearId);
   const activeReports = reports.filter(r => r.schoolYearId === activeSchoolYearId);
 
+  // Open early-warning flags for the students this teacher writes reports for
+  const myStudentIds = new Set(
+    activeStudents
+      .filter(s => canEditGradeReports(profile, grades.find(g => g.id === s.gradeId)))
+      .map(s => s.id)
+  );
+  const openFlags = findEarlyWarnings(
+    activeReports.filter(r => myStudentIds.has(r.studentId)),
+    assessmentTemplates,
+    appSettings.earlyWarningRules,
+    warningFlagNotes
+  ).filter(f => !f.acknowledged);
+  const flaggedStudents = activeStudents
+    .map(student => ({ student, flags: openFlags.filter(f => f.studentId === student.id) }))
+    .filter(({ flags }) => flags.length > 0)
+    .sort((a, b) => b.flags.length - a.flags.length);
+
   const stats = [
     { 
       label: 'Total Grades', 
@@ -113,6 +136,54 @@ export default function Dashboard() {
           })}
         </motion.div>
 
+        {/* Flagged Students */}
+        {flaggedStudents.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ delay: 0.2 }}
+          >
+            <Card className="border-destructive/30">
+              <CardHeader className="pb-3">
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <AlertTriangle className="h-4 w-4 text-destructive" />
+                  Students at Risk
+                </CardTitle>
+                <CardDescription>
+                  Students with early-warning flags nobody has acknowledged yet. Open a student to add follow-up notes.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {flaggedStudents.map(({ student, flags }) => {
+                  const grade = grades.find(g => g.id === student.gradeId);
+                  return (
+                    <Link
+                      key={student.id}
+                      to={`/students/${student.id}`}
+                      className="group flex items-center gap-3 rounded-lg border border-border p-3 transition-colors hover:bg-muted/50"
+                    >
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium">
+                          {student.firstName} {student.lastName}
+                          {grade && <span className="ml-2 text-xs font-normal text-muted-foreground">{grade.name}</span>}
+                        </p>
+                        <div className="mt-1 flex flex-wrap gap-1.5">
+                          {flags.map(flag => (
+                            <Badge key={flag.key} variant="outline" className="border-destructive/30 text-xs font-normal">
+                              {flag.title}
+                            </Badge>
+                          ))}
+                        </div>
+                      </div>
+                      <ArrowRight className="h-4 w-4 text-muted-foreground opacity-0 transition-opacity group-hover:opacity-100" />
+                    </Link>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          </motion.div>
+        )}
+
         {/* Quick Actions */}
         <motion.div
           initial={{ opacity: 0 }}
@@ -0,0 +1,208 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { CheckCircle, ClipboardCheck, MessageSquare, Pencil, Plus } from 'lucide-react';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { useAppStore } from '@/store/useAppStore';
+import { useAuthStore } from '@/store/useAuthStore';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { REPORT_STATUS_BADGE_VARIANTS, REPORT_STATUS_LABELS, isReportLocked } from '@/lib/reportWorkflow';
+import { getTaskPath, getTeacherNames, getTeacherTasks, isTaskOutstanding, type TeacherTask } from '@/lib/teacherTasks';
+
+export default function MyReportsPage() {
+  const { grades, students, assessmentTemplates, reports, activeSchoolYearId } = useAppStore();
+  const profile = useAuthStore((state) => state.profile);
+  const navigate = useNavigate();
+  const [selectedTeacher, setSelectedTeacher] = useState('');
+  const [outstandingOnly, setOutstandingOnly] = useState(true);
+
+  const teacherNames = useMemo(() => {
+    const names = getTeacherNames(grades);
+    if (profile?.fullName && !names.some((n) => n.toLowerCase() === profile.fullName.toLowerCase())) {
+      names.unshift(profile.fullName);
+    }
+    return names;
+  }, [grades, profile]);
+  const teacher = selectedTeacher || profile?.fullName || teacherNames[0] || '';
+
+  const tasks = useMemo(
+    () =>
+      getTeacherTasks(teacher, {
+        grades,
+        students,
+        assessmentTemplates,
+        reports,
+        schoolYearId: activeSchoolYearId,
+      }),
+    [teacher, grades, students, assessmentTemplates, reports, activeSchoolYearId]
+  );
+  const outstandingCount = tasks.filter(isTaskOutstanding).length;
+  const visibleTasks = outstandingOnly ? tasks.filter(isTaskOutstanding) : tasks;
+
+  // Grouped per grade, keeping the grade order from getTeacherTasks
+  const tasksByGrade = visibleTasks.reduce<{ gradeId: string; gradeName: string; tasks: TeacherTask[] }[]>(
+    (groups, task) => {
+      const group = groups.find((g) => g.gradeId === task.grade.id);
+      if (group) {
+        group.tasks.push(task);
+      } else {
+        groups.push({ gradeId: task.grade.id, gradeName: task.grade.name, tasks: [task] });
+      }
+      return groups;
+    },
+    []
+  );
+
+  const openTask = (task: TeacherTask) => navigate(getTaskPath(task));
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+          <div>
+            <h1 className="font-display text-2xl font-bold">My Reports</h1>
+            <p className="text-muted-foreground">
+              Every student and subject assigned to a teacher, with what is still missing
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-4">
+            <Select value={teacher} onValueChange={setSelectedTeacher}>
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Select a teacher" />
+              </SelectTrigger>
+              <SelectContent>
+                {teacherNames.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-2">
+              <Switch id="outstanding-only" checked={outstandingOnly} onCheckedChange={setOutstandingOnly} />
+              <Label htmlFor="outstanding-only">Outstanding only</Label>
+            </div>
+          </div>
+        </div>
+
+        <p className="text-sm text-muted-foreground">
+          <span className="font-semibold text-foreground">{outstandingCount}</span> of {tasks.length} subject
+          {tasks.length !== 1 ? 's' : ''} still need points or a comment
+        </p>
+
+        {tasks.length === 0 ? (
+          <Card className="py-12">
+            <CardContent className="flex flex-col items-center justify-center text-center">
+              <ClipboardCheck className="mb-4 h-12 w-12 text-muted-foreground/50" />
+              <h3 className="font-display text-lg font-semibold">No assigned subjects</h3>
+              <p className="mt-1 max-w-md text-sm text-muted-foreground">
+                {teacher || 'This teacher'} is not named in any grade's teacher assignments for the active school year.
+              </p>
+            </CardContent>
+          </Card>
+        ) : visibleTasks.length === 0 ? (
+          <Card className="py-12">
+            <CardContent className="flex flex-col items-center justify-center text-center">
+              <CheckCircle className="mb-4 h-12 w-12 text-primary" />
+              <h3 className="font-display text-lg font-semibold">All done</h3>
+              <p className="mt-1 text-sm text-muted-foreground">Every assigned subject has its points and comment.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          tasksByGrade.map((group) => (
+            <motion.div key={group.gradeId} initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }}>
+              <Card>
+                <CardHeader>
+                  <CardTitle>{group.gradeName}</CardTitle>
+                  <CardDescription>
+                    {group.tasks.length} subject{group.tasks.length !== 1 ? 's' : ''}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="overflow-x-auto rounded-lg border border-border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Student</TableHead>
+                          <TableHead>Subject</TableHead>
+                          <TableHead>Report</TableHead>
+                          <TableHead className="text-center">Points</TableHead>
+                          <TableHead className="text-center">Comment</TableHead>
+                          <TableHead className="w-24" />
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {group.tasks.map((task) => {
+                          const totalPoints = task.subject.assessmentPoints.length;
+                          const locked = !!task.report && isReportLocked(task.report);
+                          return (
+                            <TableRow key={`${task.student.id}:${task.template.id}:${task.subject.id}`}>
+                              <TableCell className="font-medium">
+                                {task.student.lastName}, {task.student.firstName}
+                              </TableCell>
+                              <TableCell className="text-sm">{task.subject.name}</TableCell>
+                              <TableCell>
+                                {task.report ? (
+                                  <Badge variant={REPORT_STATUS_BADGE_VARIANTS[task.report.status]}>
+                                    {task.report.term} · {REPORT_STATUS_LABELS[task.report.status]}
+                                  </Badge>
+                                ) : (
+                                  <span className="text-sm italic text-muted-foreground">No report yet</span>
+                                )}
+                              </TableCell>
+                              <TableCell className="text-center text-sm">
+                                {task.outstandingPoints > 0 ? (
+                                  <span className="font-semibold text-amber-700">
+                                    {task.outstandingPoints} of {totalPoints} open
+                                  </span>
+                                ) : (
+                                  <span className="text-green-700">{totalPoints}/{totalPoints}</span>
+                                )}
+                              </TableCell>
+                              <TableCell className="text-center">
+                                <MessageSquare
+                                  className={task.needsComment ? 'mx-auto h-4 w-4 text-muted-foreground/40' : 'mx-auto h-4 w-4 text-green-700'}
+                                  aria-label={task.needsComment ? 'Comment missing' : 'Comment written'}
+                                />
+                              </TableCell>
+                              <TableCell className="text-right">
+                                <Button size="sm" variant="outline" className="gap-1" onClick={() => openTask(task)}>
+                                  {!task.report ? <Plus className="h-3 w-3" /> : <Pencil className="h-3 w-3" />}
+                                  {!task.report ? 'Start' : locked ? 'View' : 'Fill in'}
+                                </Button>
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </CardContent>
+              </Card>
+            </motion.div>
+          ))
+        )}
+      </div>
+    </AppLayout>
+  );
+}
@@ -0,0 +1,1131 @@
+import { useState, useMemo, useEffect, useRef } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, FileText, Save, Loader2, Image, Wand2, CheckCircle, Keyboard, List } from 'lucide-react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { useAppStore } from '@/store/useAppStore';
+import { useAuthStore } from '@/store/useAuthStore';
+import { canEditGradeReports, canEditReportSummary, canEditSubject } from '@/lib/permissions';
+import { getUnratedPoints, isReportLocked } from '@/lib/reportWorkflow';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Form } from '@/components/ui/form';
+import { ExamResultsSection } from '@/components/reports/ExamResultsSection';
+import { SignatureSection } from '@/components/reports/SignatureSection';
+import { WorkSamplesSection } from '@/components/reports/WorkSamplesSection';
+import { ReportConflictDialog } from '@/components/reports/ReportConflictDialog';
+import { StudentNavigator } from '@/components/reports/StudentNavigator';
+import { StarEntryGrid } from '@/components/reports/StarEntryGrid';
+import { ReportTargetFields } from '@/components/reports/ReportTargetFields';
+import { ReportSubjectSection } from '@/components/reports/ReportSubjectSection';
+import { GeneralCommentSection } from '@/components/reports/GeneralCommentSection';
+import {
+  AutosaveIndicator,
+  CoEditorsNotice,
+  DraftRecoveryNotice,
+  PrefillOffer,
+  UnconfirmedPrefillsNotice,
+  type AutosaveStatus,
+} from '@/components/reports/ReportEditorNotices';
+import { stableStringify } from '@/lib/reportSignatures';
+import {
+  SUMMARY_SECTION,
+  hasSectionChanged,
+  mergeExamResults,
+  rebaseReport,
+  type ConflictChoice,
+} from '@/lib/reportMerge';
+import {
+  createEditorState,
+  reportFormSchema,
+  toEntryState,
+  toGeneratedExamResults,
+  toReportEntries,
+  toSubjectCommentState,
+  toSubjectComments,
+  type EntryState,
+  type ReportFormValues,
+  type SubjectCommentState,
+} from '@/lib/reportEditorState';
+import { getAllSections } from '@/lib/reportVersions';
+import { isOfflineError, readDraft, readDrafts, removeDraft, setOpenDraftReport, writeDraft, type ReportDraft } from '@/lib/reportDrafts';
+import { getReportEditPath, getReportViewPath } from '@/lib/reportRoutes';
+import { buildPrefill, countUnconfirmedPrefills, findPreviousReport } from '@/lib/reportPrefill';
+import { getEnrolmentIds } from '@/lib/learners';
+import { useReportPresence } from '@/hooks/use-report-presence';
+import { useAIRewrite, type AIRewriteItem } from '@/hooks/use-ai-rewrite';
+import { toast } from 'sonner';
+import type { StudentReport, ExamResult, ReportSignature, ReportStatus } from '@/types';
+
+// Edits are kept on this device after a second and saved once typing pauses
+const DRAFT_STORE_DELAY_MS = 1000;
+const AUTOSAVE_DELAY_MS = 5000;
+
+// 'grid' shows only the star ratings for fast keyboard entry
+type EntryMode = 'list' | 'grid';
+
+// A save that stopped because someone else changed the same sections
+interface PendingConflict {
+  mine: StudentReport;
+  latest: StudentReport;
+  conflicts: string[];
+  sectionIds: string[];
+  // Where to go once saved; the editor stays open without one
+  leaveTo?: string;
+}
+
+export default function ReportEditorPage() {
+  const [selectedStudentId, setSelectedStudentId] = useState<string>('');
+  const [selectedAssessmentId, setSelectedAssessmentId] = useState<string>('');
+  const [expandedSubjects, setExpandedSubjects] = useState<Set<string>>(new Set());
+  const [entryMode, setEntryMode] = useState<EntryMode>('list');
+  // The previous report the editor was last prefilled from; the offer is not shown again for it
+  const [prefilledFromReportId, setPrefilledFromReportId] = useState<string | null>(null);
+  const [entries, setEntries] = useState<EntryState>({});
+  const [subjectComments, setSubjectComments] = useState<SubjectCommentState>({});
+  const [generalComment, setGeneralComment] = useState('');
+  const [editingReportId, setEditingReportId] = useState<string | null>(null);
+  // The saved report the editor was loaded from; section saves merge against it
+  const [editBase, setEditBase] = useState<StudentReport | null>(null);
+  const [savingSectionIds, setSavingSectionIds] = useState<string[]>([]);
+  const [pendingConflict, setPendingConflict] = useState<PendingConflict | null>(null);
+  const [autosave, setAutosave] = useState<{ status: AutosaveStatus; savedAt?: string }>({ status: 'idle' });
+  const [recoveredDraft, setRecoveredDraft] = useState<ReportDraft | null>(null);
+  // Editor content as last loaded or saved; anything else is unsaved. A reset
+  // takes whatever the next render holds, once loading has settled.
+  const cleanContentRef = useRef<string | null>(null);
+  const resetCleanContentRef = useRef(false);
+  // Content an autosave stopped on with a conflict; not retried until it changes
+  const conflictContentRef = useRef<string | null>(null);
+  const [generalCommentAI, setGeneralCommentAI] = useState('');
+  const [examResults, setExamResults] = useState<ExamResult[]>([]);
+  const [signatures, setSignatures] = useState<ReportSignature>({});
+  const { isLoading: aiLoading, rewrite, rewriteAll, batchProgress } = useAIRewrite();
+  const {
+    reports,
+    addReport,
+    createReport,
+    saveReportChanges,
+    students,
+    assessmentTemplates,
+    grades,
+    activeSchoolYearId,
+    schoolYears,
+    documents,
+    addDocument,
+    updateDocument,
+    deleteDocument,
+    staffProfiles,
+  } = useAppStore();
+  const profile = useAuthStore((state) => state.profile);
+  // Drafts on this device belong to the signed-in staff member
+  const draftOwnerId = profile?.id;
+  const hasLoaded = useAppStore((state) => state.hasLoaded);
+  const navigate = useNavigate();
+  // Missing for a report that is not created yet
+  const { reportId } = useParams<{ reportId: string }>();
+  const [searchParams] = useSearchParams();
+  const focusSubjectId = searchParams.get('subject') ?? undefined;
+  const headOfSchoolName = staffProfiles.find((p) => p.role === 'head_of_school')?.fullName;
+
+  const activeStudents = students.filter((s) => s.schoolYearId === activeSchoolYearId);
+  const activeAssessments = assessmentTemplates.filter(
+    (a) => a.schoolYearId === activeSchoolYearId && !a.isArchived
+  );
+  const activeReports = reports.filter((r) => r.schoolYearId === activeSchoolYearId);
+
+  const selectedStudent = activeStudents.find((s) => s.id === selectedStudentId);
+  const selectedAssessment = activeAssessments.find((a) => a.id === selectedAssessmentId);
+  const studentName = selectedStudent ? selectedStudent.nameUsed || selectedStudent.firstName : undefined;
+
+  const form = useForm<ReportFormValues>({
+    resolver: zodResolver(reportFormSchema),
+    defaultValues: {
+      studentId: '',
+      assessmentTemplateId: '',
+      term: 'Term 1 & 2',
+    },
+  });
+
+  const toggleSubject = (subjectId: string) => {
+    setExpandedSubjects((prev) => {
+      const next = new Set(prev);
+      if (next.has(subjectId)) {
+        next.delete(subjectId);
+      } else {
+        next.add(subjectId);
+      }
+      return next;
+    });
+  };
+
+  const handleStudentChange = (studentId: string) => {
+    setSelectedStudentId(studentId);
+    form.setValue('studentId', studentId);
+    // Reset assessment when student changes
+    setSelectedAssessmentId('');
+    form.setValue('assessmentTemplateId', '');
+    setEntries({});
+    setSubjectComments({});
+  };
+
+  const handleAssessmentChange = (assessmentId: string) => {
+    setSelectedAssessmentId(assessmentId);
+    form.setValue('assessmentTemplateId', assessmentId);
+    
+    const assessment = activeAssessments.find((a) => a.id === assessmentId);
+    if (assessment) {
+      const editorState = createEditorState(assessment);
+      setEntries(editorState.entries);
+      setSubjectComments(editorState.subjectComments);
+      // The first subject starts expanded
+      setExpandedSubjects(new Set(assessment.subjects?.slice(0, 1).map((s) => s.id)));
+      resetCleanContentRef.current = true;
+    }
+  };
+
+  // Any change to a value copied from the previous report confirms it
+  const updateEntry = (subjectId: string, pointId: string, field: keyof EntryState[string], value: string | number | boolean) => {
+    const key = `${subjectId}:${pointId}`;
+    setEntries((prev) => ({
+      ...prev,
+      [key]: {
+        ...prev[key],
+        isPrefilled: false,
+        [field]: value,
+      },
+    }));
+  };
+
+  const updateSubjectComment = (
+    subjectId: string,
+    field: keyof SubjectCommentState[string],
+    value: string | boolean
+  ) => {
+    setSubjectComments((prev) => ({
+      ...prev,
+      [subjectId]: {
+        ...prev[subjectId],
+        isPrefilled: false,
+        [field]: value,
+      },
+    }));
+  };
+
+  // Copies matching ratings and comments of the student's previous report into
+  // a new one; each copied value stays flagged until the teacher confirms it
+  const prefillFromPreviousReport = () => {
+    if (!previousReport || !selectedAssessment) return;
+    const prefill = buildPrefill(
+      previousReport,
+      assessmentTemplates.find((a) => a.id === previousReport.assessmentTemplateId),
+      selectedAssessment
+    );
+    const editableSubjectIds = selectedAssessment.subjects
+      .filter((subject) => canEditSubject(profile, selectedGrade, subject.name))
+      .map((subject) => subject.id);
+    const prefillEntries = prefill.entries.filter((e) => editableSubjectIds.includes(e.subjectId));
+    const prefillComments = prefill.subjectComments.filter((c) => editableSubjectIds.includes(c.subjectId));
+
+    setPrefilledFromReportId(previousReport.id);
+    if (prefillEntries.length === 0 && prefillComments.length === 0) {
+      toast.info('Nothing in the previous report matches this assessment');
+      return;
+    }
+    setEntries((prev) => ({ ...prev, ...toEntryState(prefillEntries) }));
+    setSubjectComments((prev) => ({
+      ...prev,
+      ...Object.fromEntries(
+        prefillComments.map((comment) => [
+          comment.subjectId,
+          {
+            ...toSubjectCommentState(comment),
+            examGrade: prev[comment.subjectId]?.examGrade || '',
+            examDate: prev[comment.subjectId]?.examDate || '',
+          },
+        ])
+      ),
+    }));
+    toast.success(
+      `Copied ${prefillEntries.length} rating${prefillEntries.length !== 1 ? 's' : ''} and ${prefillComments.length} comment${prefillComments.length !== 1 ? 's' : ''}`,
+      { description: 'Check and confirm each copied value before completing the report.' }
+    );
+  };
+
+  const confirmPrefills = (subjectId?: string) => {
+    const inScope = (id: string) => !subjectId || id === subjectId;
+    setEntries((prev) =>
+      Object.fromEntries(
+        Object.entries(prev).map(([key, value]) => [
+          key,
+          value.isPrefilled && inScope(key.split(':')[0]) ? { ...value, isPrefilled: false } : value,
+        ])
+      )
+    );
+    setSubjectComments((prev) =>
+      Object.fromEntries(
+        Object.entries(prev).map(([id, value]) => [id, value.isPrefilled && inScope(id) ? { ...value, isPrefilled: false } : value])
+      )
+    );
+  };
+
+  const startNewReport = () => {
+    const newDraftReportId = crypto.randomUUID(); // Generate ID for work samples
+    setSelectedStudentId('');
+    setSelectedAssessmentId('');
+    setEntries({});
+    setSubjectComments({});
+    setGeneralComment('');
+    setGeneralCommentAI('');
+    setExamResults([]);
+    setSignatures({});
+    setExpandedSubjects(new Set());
+    setEditingReportId(newDraftReportId); // Use draft ID for new reports too
+    setEditBase(null);
+    form.reset({
+      studentId: '',
+      assessmentTemplateId: '',
+      term: 'Term 1 & 2',
+    });
+    const [unsavedNewReport] = readDrafts(draftOwnerId)
+      .filter((d) => !d.base && !d.queued && d.report.schoolYearId === activeSchoolYearId)
+      .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+    startEditorSession(unsavedNewReport ?? null);
+  };
+
+  // Puts a report's content into the editor
+  const loadEditorContent = (report: StudentReport) => {
+    const assessment = assessmentTemplates.find(a => a.id === report.assessmentTemplateId);
+    
+    // Restore subject comments
+    const restoredSubjectComments: SubjectCommentState = {};
+    assessment?.subjects?.forEach((subject) => {
+      restoredSubjectComments[subject.id] = toSubjectCommentState(
+        report.subjectComments?.find(c => c.subjectId === subject.id)
+      );
+    });
+
+    setSelectedStudentId(report.studentId);
+    setSelectedAssessmentId(report.assessmentTemplateId);
+    setEntries(toEntryState(report.entries));
+    setSubjectComments(restoredSubjectComments);
+    setGeneralComment(report.generalComment || '');
+    setGeneralCommentAI('');
+    setExamResults(report.examResults || []);
+    form.reset({
+      studentId: report.studentId,
+      assessmentTemplateId: report.assessmentTemplateId,
+      term: report.term,
+    });
+    return assessment;
+  };
+
+  // A newly opened editor starts out saved; edits left on this device last
+  // time are offered for recovery
+  const startEditorSession = (draft: ReportDraft | null) => {
+    resetCleanContentRef.current = true;
+    conflictContentRef.current = null;
+    setAutosave({ status: 'idle' });
+    setRecoveredDraft(draft);
+  };
+
+  const openReport = (report: StudentReport, subjectId?: string) => {
+    const assessment = loadEditorContent(report);
+    setSignatures(report.signatures || {});
+    setExpandedSubjects(new Set(subjectId ? [subjectId] : assessment?.subjects?.map(s => s.id) || []));
+    setEditingReportId(report.id);
+    setEditBase(report);
+    startEditorSession(readDraft(draftOwnerId, report.id));
+    if (subjectId) focusSubject(subjectId);
+  };
+
+  const focusSubject = (subjectId: string) => {
+    setExpandedSubjects((prev) => new Set([...prev, subjectId]));
+    // Wait for the subject to render before scrolling to it
+    setTimeout(() => {
+      document.getElementById(`report-subject-${subjectId}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }, 300);
+  };
+
+  // The recovered content is unsaved, so autosave picks it up from here
+  const restoreDraft = (draft: ReportDraft) => {
+    const assessment = loadEditorContent(draft.report);
+    if (!draft.base) setExpandedSubjects(new Set(assessment?.subjects?.map((s) => s.id) || []));
+    setEditingReportId(draft.reportId);
+    setEditBase(draft.base);
+    setRecoveredDraft(null);
+  };
+
+  const discardDraft = (draft: ReportDraft) => {
+    removeDraft(draft.ownerId, draft.reportId);
+    setRecoveredDraft(null);
+  };
+
+  // The URL names the report; moving to another student goes through the same
+  // route, so the editor reloads whenever the report changes
+  useEffect(() => {
+    if (!hasLoaded) return;
+    if (!reportId) {
+      const studentId = searchParams.get('student');
+      const assessmentTemplateId = searchParams.get('assessment');
+      startNewReport();
+      if (studentId) handleStudentChange(studentId);
+      if (studentId && assessmentTemplateId) handleAssessmentChange(assessmentTemplateId);
+      if (focusSubjectId) setExpandedSubjects(new Set([focusSubjectId]));
+      return;
+    }
+    // A new report moves to its own URL once created; the editor already holds it
+    if (reportId === editingReportId) {
+      if (focusSubjectId) focusSubject(focusSubjectId);
+      return;
+    }
+    const report = reports.find((r) => r.id === reportId);
+    if (!report) return;
+    const student = students.find((s) => s.id === report.studentId);
+    if (!canEditGradeReports(profile, student && grades.find((g) => g.id === student.gradeId)) || isReportLocked(report)) {
+      navigate(getReportViewPath(report.id, focusSubjectId), { replace: true });
+      return;
+    }
+    openReport(report, focusSubjectId);
+    // Only react to a new URL; the editor helpers change on every render
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [hasLoaded, reportId, searchParams]);
+
+  // Rewrites every teacher note and comment of the report in the TISA style
+  const rewriteAllComments = () => {
+    if (!selectedStudent || !selectedAssessment) return;
+    const items: AIRewriteItem[] = [
+      ...Object.entries(entries)
+        .filter(([, entry]) => entry.teacherNotes?.trim())
+        .map(([key, entry]) => {
+          const [subjectId, pointId] = key.split(':');
+          return {
+            text: entry.teacherNotes,
+            apply: (rewritten: string) => updateEntry(subjectId, pointId, 'teacherNotes', rewritten),
+          };
+        }),
+      ...Object.entries(subjectComments)
+        .filter(([, comment]) => comment.teacherComment?.trim())
+        .map(([subjectId, comment]) => ({
+          text: comment.teacherComment,
+          apply: (rewritten: string) => updateSubjectComment(subjectId, 'teacherComment', rewritten),
+        })),
+      ...(generalComment?.trim() ? [{ text: generalComment, apply: setGeneralComment }] : []),
+    ];
+    rewriteAll(items, studentName);
+  };
+
+  // submitAs moves the report to a new status; plain saves keep the current one
+  // The report as it stands in the editor. Exam grades typed into a subject
+  // become exam results; a section save only takes those of its subjects and
+  // leaves the manually entered exam results as they were saved.
+  const buildEditorReport = (data: ReportFormValues, status: ReportStatus, sectionSubjectIds?: string[]): StudentReport => {
+    const generatedExamResults = toGeneratedExamResults(
+      Object.fromEntries(
+        Object.entries(subjectComments).filter(([subjectId]) => !sectionSubjectIds || sectionSubjectIds.includes(subjectId))
+      ),
+      selectedAssessment?.subjects ?? [],
+      () => crypto.randomUUID()
+    );
+
+    // Use editingReportId for both new and existing reports
+    const reportId = editingReportId || crypto.randomUUID();
+    const existingReport = reports.find(r => r.id === reportId);
+    const manualExamResults = sectionSubjectIds && editBase ? editBase.examResults || [] : examResults;
+
+    return {
+      id: reportId,
+      studentId: data.studentId,
+      assessmentTemplateId: data.assessmentTemplateId,
+      schoolYearId: activeSchoolYearId!,
+      term: data.term,
+      entries: toReportEntries(entries),
+      subjectComments: toSubjectComments(subjectComments),
+      generalComment: generalCommentAI || generalComment,
+      examResults: [...manualExamResults, ...generatedExamResults],
+      signatures: signatures,
+      status,
+      createdAt: existingReport?.createdAt || new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+  };
+
+  const closeEditor = (leaveTo: string) => {
+    if (editingReportId) removeDraft(draftOwnerId, editingReportId);
+    cleanContentRef.current = editorRef.current.content;
+    setRecoveredDraft(null);
+    setAutosave({ status: 'idle' });
+    setEditingReportId(null);
+    setEditBase(null);
+    form.reset();
+    setEntries({});
+    setSubjectComments({});
+    setGeneralComment('');
+    setGeneralCommentAI('');
+    setExamResults([]);
+    setSignatures({});
+    navigate(leaveTo);
+  };
+
+  // After a section save the editor picks up the saved sections, plus whatever
+  // others saved in sections this user has not touched
+  const refreshEditor = (saved: StudentReport, mine: StudentReport, savedSectionIds: string[]) => {
+    if (!editBase) return;
+    const subjectIds = selectedAssessment?.subjects?.map((s) => s.id) || [];
+    const pending = [...subjectIds, SUMMARY_SECTION].filter(
+      (id) => !savedSectionIds.includes(id) && hasSectionChanged(editBase, mine, id)
+    );
+    const reload = subjectIds.filter((id) => !pending.includes(id));
+
+    setEntries((prev) => ({
+      ...Object.fromEntries(Object.entries(prev).filter(([key]) => !reload.includes(key.split(':')[0]))),
+      ...toEntryState(saved.entries.filter((e) => reload.includes(e.subjectId))),
+    }));
+    setSubjectComments((prev) => ({
+      ...prev,
+      ...Object.fromEntries(
+        reload.map((id) => [
+          id,
+          {
+            ...toSubjectCommentState(saved.subjectComments?.find((c) => c.subjectId === id)),
+            // Exam grades typed into a subject that was not saved stay in the editor
+            ...(savedSectionIds.includes(id) ? {} : { examGrade: prev[id]?.examGrade || '', examDate: prev[id]?.examDate || '' }),
+          },
+        ])
+      ),
+    }));
+    setExamResults((prev) => mergeExamResults(editBase.examResults || [], prev, saved.examResults || []));
+    if (!pending.includes(SUMMARY_SECTION)) {
+      setGeneralComment(saved.generalComment || '');
+      setGeneralCommentAI('');
+      form.setValue('term', saved.term);
+    }
+    setSignatures(saved.signatures || {});
+    setEditBase(rebaseReport(editBase, saved, pending));
+    if (pending.length === 0) resetCleanContentRef.current = true;
+  };
+
+  // Offline saves wait on this device until the connection returns
+  const queueOfflineSave = (report: StudentReport, leaveTo: string) => {
+    closeEditor(leaveTo);
+    writeDraft({
+      ownerId: draftOwnerId,
+      reportId: report.id,
+      base: editBase,
+      report,
+      sectionIds: getAllSections(selectedAssessment),
+      queued: true,
+      savedAt: new Date().toISOString(),
+    });
+    toast.info("You're offline", {
+      description: 'The report is kept on this device and saved as soon as the connection returns.',
+    });
+  };
+
+  // Saves sections of the report being edited on top of whatever others saved
+  // in the meantime; conflicting sections open the conflict dialog
+  const saveSections = async (
+    mine: StudentReport,
+    sectionIds: string[],
+    leaveTo: string | undefined,
+    resolutions?: Record<string, ConflictChoice>
+  ) => {
+    if (!editBase) return;
+    setSavingSectionIds(sectionIds);
+    try {
+      const { saved, conflicts, latest } = await saveReportChanges(editBase, mine, sectionIds, resolutions);
+      if (!saved) {
+        setPendingConflict({ mine, latest, conflicts, sectionIds, leaveTo });
+        return;
+      }
+      setPendingConflict(null);
+
+      if (latest.signatures && !saved.signatures) {
+        toast.warning('Signatures removed', {
+          description: 'The report changed after it was signed, so it needs to be signed again.',
+        });
+      }
+      if (leaveTo) {
+        toast.success(
+          saved.status === 'completed' && latest.status !== 'completed'
+            ? 'Report submitted as completed'
+            : 'Report updated successfully'
+        );
+        closeEditor(leaveTo);
+      } else {
+        const subject = sectionIds.length === 1 && selectedAssessment?.subjects?.find((s) => s.id === sectionIds[0]);
+        toast.success(subject ? `${subject.name} saved` : 'Report saved');
+        refreshEditor(saved, mine, sectionIds);
+      }
+    } catch (error) {
+      if (isOfflineError(error)) {
+        if (leaveTo) {
+          queueOfflineSave(mine, leaveTo);
+        } else {
+          storeEditorDraft(true);
+          setAutosave({ status: 'offline' });
+          toast.info("You're offline", { description: 'Your changes are saved as soon as the connection returns.' });
+        }
+        return;
+      }
+      console.error('Report save error:', error);
+      toast.error('Failed to save report');
+    } finally {
+      setSavingSectionIds([]);
+    }
+  };
+
+  const handleSaveSection = (subjectId: string) => {
+    saveSections(buildEditorReport(form.getValues(), editBase?.status ?? 'draft', [subjectId]), [subjectId], undefined);
+  };
+
+  // Saving leaves the editor for the report list unless another page is given
+  const onSubmit = async (data: ReportFormValues, submitAs?: ReportStatus, leaveTo = '/reports') => {
+    const existingReport = reports.find(r => r.id === editingReportId);
+    const status = submitAs || existingReport?.status || 'draft';
+    const newReport = buildEditorReport(data, status);
+
+    // A completed report needs every assessment point rated or marked N/A
+    if (status === 'completed') {
+      const unrated = getUnratedPoints(selectedAssessment, newReport.entries);
+      if (unrated.length > 0) {
+        setExpandedSubjects(new Set(unrated.map((p) => p.subjectId)));
+        toast.error(`${unrated.length} assessment point${unrated.length > 1 ? 's are' : ' is'} not rated yet`, {
+          description: unrated
+            .slice(0, 3)
+            .map((p) => `${p.subjectName}: ${p.pointName}`)
+            .join(', ') + (unrated.length > 3 ? '…' : ''),
+        });
+        return;
+      }
+      const unconfirmed = countUnconfirmedPrefills(newReport);
+      if (unconfirmed > 0) {
+        toast.error(`${unconfirmed} copied value${unconfirmed > 1 ? 's need' : ' needs'} confirming`, {
+          description: 'Check the values copied from the previous report and confirm them.',
+        });
+        return;
+      }
+    }
+
+    if (!navigator.onLine) {
+      queueOfflineSave(newReport, leaveTo);
+      return;
+    }
+
+    if (existingReport && editBase) {
+      const subjectIds = selectedAssessment?.subjects?.map((s) => s.id) || [];
+      await saveSections(newReport, [...subjectIds, SUMMARY_SECTION], leaveTo);
+      return;
+    }
+
+    addReport(newReport);
+    toast.success(submitAs === 'completed' ? 'Report submitted as completed' : 'Report saved successfully');
+    closeEditor(leaveTo);
+  };
+
+  // Moving to another page saves the report first; nothing unsaved means nothing to wait for
+  const leaveEditor = (path: string) => {
+    if (editorContent === cleanContentRef.current || !selectedAssessment) {
+      navigate(path);
+      return;
+    }
+    form.handleSubmit((data) => onSubmit(data, undefined, path))();
+  };
+
+  const getGradeInfo = (gradeId: string) => grades.find((g) => g.id === gradeId);
+
+  // Teachers only write reports for the grades they teach
+  const editableStudents = activeStudents.filter((s) => canEditGradeReports(profile, getGradeInfo(s.gradeId)));
+  const selectedGrade = selectedStudent ? getGradeInfo(selectedStudent.gradeId) : undefined;
+  const canEditSummary = canEditReportSummary(profile, selectedGrade);
+
+  const availableAssessments = selectedStudent
+    ? activeAssessments.filter((a) => a.gradeId === selectedStudent.gradeId)
+    : [];
+
+  const hasEntries = Object.keys(entries).length > 0;
+  const term = form.watch('term');
+  // Only offered while the report is new
+  const previousReport =
+    !editBase && selectedStudentId && selectedAssessment
+      ? findPreviousReport(reports, schoolYears, getEnrolmentIds(students, selectedStudentId), {
+          id: editingReportId,
+          assessmentTemplateId: selectedAssessment.id,
+          schoolYearId: activeSchoolYearId,
+          term,
+        })
+      : undefined;
+  const unconfirmedPrefills =
+    Object.values(entries).filter((e) => e.isPrefilled).length +
+    Object.values(subjectComments).filter((c) => c.isPrefilled).length;
+  const editingStatus = reports.find((r) => r.id === editingReportId)?.status ?? 'draft';
+
+  const editorContent = useMemo(
+    () => stableStringify({ entries, subjectComments, generalComment, generalCommentAI, examResults, term }),
+    [entries, subjectComments, generalComment, generalCommentAI, examResults, term]
+  );
+  const isEditorBusy =
+    savingSectionIds.length > 0 || !!pendingConflict || !!recoveredDraft || autosave.status === 'saving';
+
+  // A draft that failed to save offline stays queued until it is saved
+  const storeEditorDraft = (queued?: boolean) => {
+    if (!editingReportId || !selectedAssessment || !selectedStudentId || !draftOwnerId) return;
+    writeDraft({
+      ownerId: draftOwnerId,
+      reportId: editingReportId,
+      base: editBase,
+      report: buildEditorReport(form.getValues(), editBase?.status ?? 'draft'),
+      sectionIds: getAllSections(selectedAssessment),
+      queued: queued ?? !!readDraft(draftOwnerId, editingReportId)?.queued,
+      savedAt: new Date().toISOString(),
+    });
+  };
+
+  // Saves the whole editor in the background; a new report is created by its first autosave
+  const autosaveEditor = async () => {
+    if (!editingReportId || !selectedAssessment || !selectedStudentId || isEditorBusy) return;
+    if (!navigator.onLine) {
+      storeEditorDraft(true);
+      setAutosave({ status: 'offline' });
+      return;
+    }
+
+    const content = editorContent;
+    const sentComments = subjectComments;
+    const mine = buildEditorReport(form.getValues(), editBase?.status ?? 'draft');
+    const sectionIds = getAllSections(selectedAssessment);
+    setAutosave({ status: 'saving' });
+    try {
+      let saved = mine;
+      if (editBase) {
+        const result = await saveReportChanges(editBase, mine, sectionIds);
+        if (!result.saved) {
+          conflictContentRef.current = content;
+          setPendingConflict({ mine, latest: result.latest, conflicts: result.conflicts, sectionIds });
+          setAutosave({ status: 'idle' });
+          return;
+        }
+        saved = result.saved;
+        // Sections left alone keep their old base, so others' changes to them are not overwritten later
+        setEditBase(rebaseReport(editBase, saved, sectionIds.filter((id) => !hasSectionChanged(editBase, mine, id))));
+        setSignatures(saved.signatures || {});
+      } else {
+        await createReport(mine);
+        setEditBase(mine);
+      }
+      if (editorRef.current.reportId !== mine.id) return;
+      if (!reportId) navigate(getReportEditPath(mine.id), { replace: true });
+
+      // Exam grades typed into subjects were saved as exam results
+      setExamResults((prev) => mergeExamResults(editBase?.examResults || [], prev, saved.examResults || []));
+      setSubjectComments((prev) =>
+        Object.fromEntries(
+          Object.entries(prev).map(([id, value]) => [
+            id,
+            value.examGrade && value.examGrade === sentComments[id]?.examGrade ? { ...value, examGrade: '' } : value,
+          ])
+        )
+      );
+      if (editorRef.current.content === content) {
+        resetCleanContentRef.current = true;
+        removeDraft(draftOwnerId, mine.id);
+      } else {
+        cleanContentRef.current = content;
+      }
+      setAutosave({ status: 'saved', savedAt: saved.updatedAt });
+    } catch (error) {
+      if (isOfflineError(error)) {
+        storeEditorDraft(true);
+        setAutosave({ status: 'offline' });
+      } else {
+        console.error('Autosave error:', error);
+        setAutosave({ status: 'error' });
+      }
+    }
+  };
+
+  // Timers and listeners set up by earlier renders call the latest versions
+  const editorRef = useRef({ content: '', reportId: null as string | null, storeDraft: () => {}, autosave: () => {} });
+  editorRef.current = {
+    content: editorContent,
+    reportId: editingReportId,
+    storeDraft: () => {
+      if (editorContent !== cleanContentRef.current) storeEditorDraft();
+    },
+    autosave: () => {
+      autosaveEditor();
+    },
+  };
+
+  useEffect(() => {
+    if (resetCleanContentRef.current) {
+      resetCleanContentRef.current = false;
+      cleanContentRef.current = editorContent;
+      return;
+    }
+    if (isEditorBusy || editorContent === cleanContentRef.current || editorContent === conflictContentRef.current) return;
+    const storeTimer = setTimeout(() => editorRef.current.storeDraft(), DRAFT_STORE_DELAY_MS);
+    const saveTimer = setTimeout(() => editorRef.current.autosave(), AUTOSAVE_DELAY_MS);
+    return () => {
+      clearTimeout(storeTimer);
+      clearTimeout(saveTimer);
+    };
+  }, [editorContent, isEditorBusy]);
+
+  // Leaving a report, through the browser's back button for example, keeps
+  // unsaved edits on this device; they are offered again when it is reopened
+  useEffect(() => () => editorRef.current.storeDraft(), [reportId]);
+
+  // Edits made offline are saved as soon as the connection returns; while the
+  // report is open the editor does that itself instead of the background sync
+  useEffect(() => {
+    setOpenDraftReport(editingReportId);
+    const handleOnline = () => {
+      if (editorRef.current.content !== cleanContentRef.current) editorRef.current.autosave();
+    };
+    window.addEventListener('online', handleOnline);
+    return () => {
+      setOpenDraftReport(null);
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [editingReportId]);
+
+  // Who else is editing this report, and whether they saved it since it was opened
+  const { getEditors } = useReportPresence({
+    reportId: editBase ? editBase.id : null,
+    studentName,
+  });
+  const coEditors = editBase ? getEditors(editBase.id) : [];
+  const latestEditingReport = editBase ? reports.find((r) => r.id === editBase.id) : undefined;
+  const hasRemoteChanges =
+    !!editBase && !!latestEditingReport && Date.parse(latestEditingReport.updatedAt) > Date.parse(editBase.updatedAt);
+
+  // Exam results as shown in the editor. Generated results are keyed by subject, so editing one changes the subject's grade
+  const computedExamResults = useMemo(
+    () => [
+      ...examResults,
+      ...toGeneratedExamResults(subjectComments, selectedAssessment?.subjects ?? [], (subjectId) => `gen-${subjectId}`),
+    ],
+    [subjectComments, selectedAssessment, examResults]
+  );
+
+  const introText = selectedAssessment?.introText;
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between">
+          <div>
+            <Button variant="ghost" size="sm" className="-ml-3 mb-2 gap-1 text-muted-foreground" onClick={() => navigate('/reports')}>
+              <ArrowLeft className="h-4 w-4" />
+              Reports
+            </Button>
+            <h1 className="font-display text-2xl font-bold">
+              {reportId ? 'Edit Report' : 'New Report'}
+              {selectedStudent && ` · ${selectedStudent.firstName} ${selectedStudent.lastName}`}
+            </h1>
+            <p className="text-muted-foreground">
+              Rate every point: the first click gives full stars, each further click one less. Use AI to polish comments.
+            </p>
+          </div>
+          {selectedStudentId && selectedAssessmentId && (
+            <StudentNavigator
+              studentId={selectedStudentId}
+              assessmentTemplateId={selectedAssessmentId}
+              mode="edit"
+              subjectId={focusSubjectId}
+              disabled={savingSectionIds.length > 0 || autosave.status === 'saving'}
+              onNavigate={leaveEditor}
+            />
+          )}
+        </div>
+
+        {reportId && reportId !== editingReportId && !reports.some((r) => r.id === reportId) ? (
+          <Card className="border-dashed">
+            <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+              <FileText className="mb-4 h-12 w-12 text-muted-foreground/50" />
+              <h3 className="mb-2 font-semibold">Report not found</h3>
+              <p className="mb-4 text-sm text-muted-foreground">It may have been deleted or belong to another school year.</p>
+              <Button size="sm" onClick={() => navigate('/reports')}>
+                Back to Reports
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent className="pt-6">
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit((data) => onSubmit(data))} className="space-y-6">
+                  {recoveredDraft && (
+                    <DraftRecoveryNotice
+                      draft={recoveredDraft}
+                      studentFirstName={students.find((s) => s.id === recoveredDraft.report.studentId)?.firstName}
+                      onDiscard={() => discardDraft(recoveredDraft)}
+                      onRestore={() => restoreDraft(recoveredDraft)}
+                    />
+                  )}
+                  {(coEditors.length > 0 || hasRemoteChanges) && (
+                    <CoEditorsNotice coEditors={coEditors} hasRemoteChanges={hasRemoteChanges} />
+                  )}
+
+                  {/* Student & Assessment Selection */}
+                  <ReportTargetFields
+                    control={form.control}
+                    students={editableStudents}
+                    hasActiveStudents={activeStudents.length > 0}
+                    grades={grades}
+                    assessments={activeAssessments}
+                    studentAssessments={availableAssessments}
+                    hasStudent={!!selectedStudentId}
+                    onStudentChange={handleStudentChange}
+                    onAssessmentChange={handleAssessmentChange}
+                  />
+
+                  {/* Intro Text Preview */}
+                  {introText && (
+                    <Card className="bg-primary/5 border-primary/20">
+                      <CardContent className="p-4">
+                        <p className="text-sm italic text-muted-foreground">{introText}</p>
+                      </CardContent>
+                    </Card>
+                  )}
+
+                  {/* Prefill from the student's previous report */}
+                  {previousReport && prefilledFromReportId !== previousReport.id && hasEntries && (
+                    <PrefillOffer
+                      studentFirstName={selectedStudent?.firstName}
+                      assessmentName={assessmentTemplates.find((a) => a.id === previousReport.assessmentTemplateId)?.name}
+                      term={previousReport.term}
+                      onPrefill={prefillFromPreviousReport}
+                    />
+                  )}
+                  {unconfirmedPrefills > 0 && (
+                    <UnconfirmedPrefillsNotice count={unconfirmedPrefills} onConfirmAll={() => confirmPrefills()} />
+                  )}
+
+                  {/* Assessment Subjects & Points */}
+                  {selectedAssessment && hasEntries && (
+                    <div className="space-y-4">
+                      <div className="flex items-center justify-between">
+                        <h3 className="font-display font-semibold">Assessment Subjects</h3>
+                        <div className="flex items-center gap-2">
+                          <ToggleGroup
+                            type="single"
+                            size="sm"
+                            variant="outline"
+                            value={entryMode}
+                            onValueChange={(value) => value && setEntryMode(value as EntryMode)}
+                          >
+                            <ToggleGroupItem value="list" className="gap-1.5 text-xs">
+                              <List className="h-3.5 w-3.5" />
+                              Detailed
+                            </ToggleGroupItem>
+                            <ToggleGroupItem value="grid" className="gap-1.5 text-xs">
+                              <Keyboard className="h-3.5 w-3.5" />
+                              Quick stars
+                            </ToggleGroupItem>
+                          </ToggleGroup>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            className="gap-2 border-tisa-purple/30 hover:bg-tisa-purple/10"
+                            onClick={rewriteAllComments}
+                            disabled={!!batchProgress}
+                          >
+                            {batchProgress ? (
+                              <>
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                                Rewriting {batchProgress.current}/{batchProgress.total}...
+                              </>
+                            ) : (
+                              <>
+                                <Wand2 className="h-4 w-4 text-tisa-purple" />
+                                Rewrite All (TISA)
+                              </>
+                            )}
+                          </Button>
+                        </div>
+                      </div>
+                      {entryMode === 'grid' && (
+                        <StarEntryGrid
+                          subjects={selectedAssessment.subjects ?? []}
+                          values={entries}
+                          canEditSubject={(subject) => canEditSubject(profile, selectedGrade, subject.name)}
+                          onChange={(subjectId, pointId, { stars, isNA }) => {
+                            updateEntry(subjectId, pointId, 'stars', stars);
+                            updateEntry(subjectId, pointId, 'isNA', isNA);
+                          }}
+                        />
+                      )}
+                      {entryMode === 'list' &&
+                        selectedAssessment.subjects?.map((subject) => (
+                          <ReportSubjectSection
+                            key={subject.id}
+                            subject={subject}
+                            entries={entries}
+                            comment={subjectComments[subject.id]}
+                            open={expandedSubjects.has(subject.id)}
+                            onOpenChange={() => toggleSubject(subject.id)}
+                            canEdit={canEditSubject(profile, selectedGrade, subject.name)}
+                            studentName={studentName || 'the student'}
+                            onEntryChange={(pointId, field, value) => updateEntry(subject.id, pointId, field, value)}
+                            onCommentChange={(field, value) => updateSubjectComment(subject.id, field, value)}
+                            onRewrite={rewrite}
+                            aiLoading={aiLoading}
+                            // Saves just this subject, so teachers of other subjects can work on the report at the same time
+                            onSave={editBase ? () => handleSaveSection(subject.id) : undefined}
+                            isSaving={savingSectionIds.includes(subject.id)}
+                            saveDisabled={savingSectionIds.length > 0 || autosave.status === 'saving'}
+                          />
+                        ))}
+
+                      {/* Exam Results Summary Section */}
+                      <fieldset disabled={!canEditSummary}>
+                        <ExamResultsSection
+                          examResults={computedExamResults}
+                          onUpdate={(id, updates) => {
+                            if (id.startsWith('gen-')) {
+                              // Update in subjectComments for generated results
+                              const subjectId = id.replace('gen-', '');
+                              if (updates.grade !== undefined) {
+                                updateSubjectComment(subjectId, 'examGrade', updates.grade);
+                              }
+                            } else {
+                              // Update manually added results
+                              setExamResults(examResults.map(e => e.id === id ? { ...e, ...updates } : e));
+                            }
+                          }}
+                          onDelete={(id) => {
+                            if (id.startsWith('gen-')) {
+                              // Clear grade in subjectComments for generated results
+                              const subjectId = id.replace('gen-', '');
+                              updateSubjectComment(subjectId, 'examGrade', '');
+                            } else {
+                              // Delete manually added results
+                              setExamResults(examResults.filter(e => e.id !== id));
+                            }
+                          }}
+                        />
+
+                      </fieldset>
+
+                      {/* Signature Section (signing happens on the saved report in the report view) */}
+                      {(signatures.classroomTeacher || signatures.headOfSchool) && (
+                        <p className="text-sm text-muted-foreground">
+                          This report has been signed. Saving changes to it removes the signatures so it can be signed again.
+                        </p>
+                      )}
+                      <SignatureSection
+                        signatures={signatures}
+                        classroomTeacherName={selectedGrade?.classroomTeacher}
+                        headOfSchoolName={headOfSchoolName}
+                        readOnly
+                      />
+
+                      {/* Work Samples Section */}
+                      {editingReportId && (
+                        <Card className="mt-6">
+                          <CardHeader>
+                            <CardTitle className="text-base flex items-center gap-2">
+                              <Image className="h-5 w-5" />
+                              Work Samples
+                            </CardTitle>
+                            <CardDescription>
+                              Upload photos of student work (max 200KB per file)
+                            </CardDescription>
+                          </CardHeader>
+                          <CardContent>
+                            <WorkSamplesSection
+                              reportId={editingReportId}
+                              studentId={selectedStudentId}
+                              documents={documents}
+                              onAddDocument={addDocument}
+                              onUpdateDocument={updateDocument}
+                              onDeleteDocument={deleteDocument}
+                            />
+                          </CardContent>
+                        </Card>
+                      )}
+
+                      <GeneralCommentSection
+                        comment={generalComment}
+                        aiComment={generalCommentAI}
+                        onCommentChange={setGeneralComment}
+                        onAICommentChange={setGeneralCommentAI}
+                        disabled={!canEditSummary}
+                        studentName={studentName || 'the student'}
+                        onRewrite={rewrite}
+                        aiLoading={aiLoading}
+                      />
+                    </div>
+                  )}
+
+                  {!selectedAssessment && selectedStudentId && (
+                    <Card className="border-dashed">
+                      <CardContent className="py-8 text-center text-muted-foreground">
+                        Select an assessment to fill out the report
+                      </CardContent>
+                    </Card>
+                  )}
+
+                  {activeStudents.length === 0 && (
+                    <Card className="border-dashed border-destructive/50">
+                      <CardContent className="py-8 text-center text-muted-foreground">
+                        No students found. Add students in the Students page first.
+                      </CardContent>
+                    </Card>
+                  )}
+
+                  <div className="flex flex-col-reverse gap-2 border-t border-border pt-4 sm:flex-row sm:justify-end">
+                    <AutosaveIndicator status={autosave.status} savedAt={autosave.savedAt} />
+                    <Button type="button" variant="outline" onClick={() => navigate('/reports')}>
+                      Cancel
+                    </Button>
+                    <Button
+                      type="submit"
+                      variant={editingStatus === 'draft' ? 'outline' : 'default'}
+                      disabled={!hasEntries || savingSectionIds.length > 0 || autosave.status === 'saving'}
+                      className="gap-2"
+                    >
+                      <Save className="h-4 w-4" />
+                      {editingStatus === 'draft' ? 'Save Draft' : 'Save Report'}
+                    </Button>
+                    {editingStatus === 'draft' && (
+                      <Button
+                        type="button"
+                        disabled={!hasEntries || savingSectionIds.length > 0 || autosave.status === 'saving'}
+                        className="gap-2"
+                        onClick={form.handleSubmit((data) => onSubmit(data, 'completed'))}
+                      >
+                        <CheckCircle className="h-4 w-4" />
+                        Submit as Completed
+                      </Button>
+                    )}
+                  </div>
+                </form>
+              </Form>
+            </CardContent>
+          </Card>
+        )}
+
+        <ReportConflictDialog
+          open={!!pendingConflict}
+          conflicts={pendingConflict?.conflicts ?? []}
+          subjects={selectedAssessment?.subjects ?? []}
+          mine={pendingConflict?.mine ?? null}
+          latest={pendingConflict?.latest ?? null}
+          isSaving={savingSectionIds.length > 0}
+          onResolve={(resolutions) =>
+            pendingConflict &&
+            saveSections(pendingConflict.mine, pendingConflict.sectionIds, pendingConflict.leaveTo, resolutions)
+          }
+          onCancel={() => setPendingConflict(null)}
+        />
+      </div>
+    </AppLayout>
+  );
+}
@@ -0,0 +1,618 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, FileText, MessageSquare, Star, Link, Check, Copy, Pencil, Filter, UserCircle, GraduationCap, Calendar, Users, Briefcase, Target, Heart, Loader2, Download, Sparkles, BookOpen, Eye } from 'lucide-react';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { useAppStore } from '@/store/useAppStore';
+import { useAuthStore } from '@/store/useAuthStore';
+import { canEditGradeReports } from '@/lib/permissions';
+import { isReportLocked } from '@/lib/reportWorkflow';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { StarRating } from '@/components/ui/StarRating';
+import { SignatureSection } from '@/components/reports/SignatureSection';
+import { ExamResultsDisplay } from '@/components/reports/ExamResultsDisplay';
+import { ShareLinkDialog } from '@/components/reports/ShareLinkDialog';
+import { ReportWorkflowPanel } from '@/components/reports/ReportWorkflowPanel';
+import { ReportAuditLog } from '@/components/reports/ReportAuditLog';
+import { ReportVersionHistory } from '@/components/reports/ReportVersionHistory';
+import { StudentNavigator } from '@/components/reports/StudentNavigator';
+import { getShareUrl } from '@/lib/shareLinks';
+import { downloadBlob, fetchReportPdf, getReportPdfFileName } from '@/lib/data/reportPdf';
+import { canSignReport } from '@/lib/reportSignatures';
+import { getReportEditPath } from '@/lib/reportRoutes';
+import { useReportHash } from '@/hooks/use-report-hash';
+import { toast } from 'sonner';
+import type { Student, StudentReport, SignatureRole } from '@/types';
+import tisaLogo from '@/assets/tisa_logo.png';
+
+export default function ReportViewPage() {
+  const [starFilters, setStarFilters] = useState({ oneStar: false, twoStars: false, threeStars: false, comments: false });
+  const [copiedLink, setCopiedLink] = useState(false);
+  const [shareDialogOpen, setShareDialogOpen] = useState(false);
+  const [isExportingPdf, setIsExportingPdf] = useState(false);
+  const { reports, students, assessmentTemplates, grades, appSettings, signReport, staffProfiles } = useAppStore();
+  const profile = useAuthStore((state) => state.profile);
+  const navigate = useNavigate();
+  const { reportId } = useParams<{ reportId: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const focusSubjectId = searchParams.get('subject') ?? undefined;
+  const tab = searchParams.get('tab') ?? 'report';
+
+  // Looked up from the store so status changes show up right away
+  const viewingReport = reports.find((r) => r.id === reportId) ?? null;
+  const viewingReportHash = useReportHash(viewingReport);
+  const headOfSchoolName = staffProfiles.find((p) => p.role === 'head_of_school')?.fullName;
+  const viewingReportId = viewingReport?.id;
+
+  // Opened at a subject: scroll to it once the report has rendered
+  useEffect(() => {
+    if (!focusSubjectId || !viewingReportId) return;
+    const timer = setTimeout(() => {
+      document.getElementById(`report-view-subject-${focusSubjectId}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [focusSubjectId, viewingReportId]);
+
+  // The open tab is part of the URL so back and forward move between tabs too
+  const changeTab = (value: string) => {
+    const params = new URLSearchParams(searchParams);
+    if (value === 'report') {
+      params.delete('tab');
+    } else {
+      params.set('tab', value);
+    }
+    setSearchParams(params);
+  };
+
+  const handleDownloadPdf = async (report: StudentReport, student?: Student) => {
+    setIsExportingPdf(true);
+    try {
+      downloadBlob(await fetchReportPdf(report.id), getReportPdfFileName(student));
+    } catch (error) {
+      console.error('PDF export error:', error);
+      toast.error('Failed to create the PDF');
+    } finally {
+      setIsExportingPdf(false);
+    }
+  };
+
+  const getGradeInfo = (gradeId: string) => grades.find((g) => g.id === gradeId);
+
+  if (!viewingReport) {
+    return (
+      <AppLayout>
+        <Card className="border-dashed">
+          <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+            <FileText className="mb-4 h-12 w-12 text-muted-foreground/50" />
+            <h3 className="mb-2 font-semibold">Report not found</h3>
+            <p className="mb-4 text-sm text-muted-foreground">It may have been deleted or belong to another school year.</p>
+            <Button size="sm" onClick={() => navigate('/reports')}>
+              Back to Reports
+            </Button>
+          </CardContent>
+        </Card>
+      </AppLayout>
+    );
+  }
+
+  const reportStudent = students.find((s) => s.id === viewingReport.studentId);
+  const reportAssessment = assessmentTemplates.find((a) => a.id === viewingReport.assessmentTemplateId);
+  const reportGrade = reportStudent ? getGradeInfo(reportStudent.gradeId) : null;
+  const canEdit = canEditGradeReports(profile, reportGrade ?? undefined) && !isReportLocked(viewingReport);
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="mx-auto flex max-w-4xl flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <Button variant="ghost" size="sm" className="-ml-3 w-fit gap-1 text-muted-foreground" onClick={() => navigate('/reports')}>
+            <ArrowLeft className="h-4 w-4" />
+            Reports
+          </Button>
+          <div className="flex flex-wrap items-center gap-2">
+            <StudentNavigator
+              studentId={viewingReport.studentId}
+              assessmentTemplateId={viewingReport.assessmentTemplateId}
+              mode="view"
+              subjectId={focusSubjectId}
+              onNavigate={navigate}
+            />
+            {canEdit && (
+              <Button size="sm" className="gap-2" onClick={() => navigate(getReportEditPath(viewingReport.id, focusSubjectId))}>
+                <Pencil className="h-3.5 w-3.5" />
+                Edit
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="mx-auto max-w-4xl bg-card rounded-2xl overflow-hidden shadow-xl">
+          {/* Premium Hero Header - Netflix/Apple Style */}
+          <div className="relative bg-gradient-to-r from-tisa-purple via-tisa-purple/80 to-tisa-blue p-8 overflow-hidden">
+            {/* Background glow effects */}
+            <div className="absolute inset-0 bg-gradient-to-b from-white/5 to-transparent" />
+            <div className="absolute -top-20 -right-20 w-60 h-60 bg-white/10 rounded-full blur-3xl" />
+            <div className="absolute -bottom-10 -left-10 w-40 h-40 bg-tisa-purple/30 rounded-full blur-2xl" />
+            
+            <div className="relative flex items-center gap-6">
+              {/* Student Photo - Larger with glow */}
+              <div className="flex-shrink-0">
+                {reportStudent?.avatarUrl ? (
+                  <div className="h-24 w-24 rounded-full overflow-hidden border-4 border-white/90 shadow-2xl ring-4 ring-white/20">
+                    <img 
+                      src={reportStudent.avatarUrl} 
+                      alt={`${reportStudent.firstName} ${reportStudent.lastName}`}
+                      className="h-full w-full object-cover"
+                    />
+                  </div>
+                ) : (
+                  <div className="h-24 w-24 rounded-full bg-white/20 border-4 border-white/90 flex items-center justify-center shadow-2xl ring-4 ring-white/20 backdrop-blur-sm">
+                    <span className="text-2xl font-bold text-white">
+                      {reportStudent?.firstName?.[0]}{reportStudent?.lastName?.[0]}
+                    </span>
+                  </div>
+                )}
+              </div>
+              
+              {/* Title Section with enhanced typography */}
+              <div className="text-left flex-1 space-y-2">
+                <h1 className="font-display text-2xl md:text-3xl font-bold uppercase tracking-wider text-white drop-shadow-lg">
+                  {viewingReport.reportTitle || 'STUDENT PROGRESS REPORT'}
+                </h1>
+                <div className="flex items-center gap-3">
+                  <span className="bg-white/20 backdrop-blur-sm px-4 py-1.5 rounded-full text-sm font-semibold shadow-lg">
+                    {viewingReport.term}
+                  </span>
+                  {(viewingReport.periodStart || viewingReport.periodEnd) && (
+                    <span className="text-white/80 text-sm">
+                      {viewingReport.periodStart} — {viewingReport.periodEnd}
+                    </span>
+                  )}
+                </div>
+              </div>
+              
+              {/* Actions - refined styling */}
+              <div className="flex items-center gap-4">
+                <Button 
+                  variant="secondary" 
+                  size="sm" 
+                  className="gap-2 bg-white/20 hover:bg-white/30 text-white border border-white/20 backdrop-blur-sm shadow-lg transition-all duration-300 hover:scale-105"
+                  onClick={() => {
+                    // Copy the working link if there is one, otherwise set one up
+                    const activeLink = useAppStore.getState().getActiveShareLink(viewingReport.id);
+                    if (!activeLink) {
+                      setShareDialogOpen(true);
+                      return;
+                    }
+
+                    navigator.clipboard.writeText(getShareUrl(activeLink.token));
+                    setCopiedLink(true);
+                    setTimeout(() => setCopiedLink(false), 2000);
+                    toast.success('Link copied!');
+                  }}
+                >
+                  {copiedLink ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
+                  {copiedLink ? 'Copied!' : 'Copy Link'}
+                </Button>
+                <Button 
+                  variant="secondary" 
+                  size="sm" 
+                  className="gap-2 bg-white/20 hover:bg-white/30 text-white border border-white/20 backdrop-blur-sm shadow-lg transition-all duration-300 hover:scale-105"
+                  disabled={isExportingPdf}
+                  onClick={() => handleDownloadPdf(viewingReport, reportStudent)}
+                >
+                  {isExportingPdf ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Download className="h-3.5 w-3.5" />}
+                  PDF
+                </Button>
+                <div className="bg-white/10 backdrop-blur-sm rounded-xl p-2 shadow-lg">
+                  <img src={tisaLogo} alt="TISA Logo" className="h-16 w-auto" />
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <Tabs value={tab} onValueChange={changeTab}>
+            <div className="border-b border-border px-8 pt-4">
+              <TabsList>
+                <TabsTrigger value="report">Report</TabsTrigger>
+                <TabsTrigger value="versions">Versions</TabsTrigger>
+                <TabsTrigger value="audit">Audit Log</TabsTrigger>
+              </TabsList>
+            </div>
+            <TabsContent value="report" className="mt-0">
+              <div className="p-8 space-y-8">
+                {/* Student & Teacher Info - Side by Side Cards */}
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  {/* Student Information Card - Full Width, No Header */}
+                  <div className="lg:col-span-2 bg-gradient-to-br from-background to-muted/30 rounded-2xl shadow-lg p-5 border border-border/50 transition-all duration-300 hover:shadow-xl">
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+                      <div className="flex items-center gap-3">
+                        <div className="p-2 bg-tisa-blue/10 rounded-xl">
+                          <UserCircle className="h-5 w-5 text-tisa-blue" />
+                        </div>
+                        <div className="min-w-0">
+                          <p className="text-[10px] text-muted-foreground uppercase tracking-wide">Full Name</p>
+                          <p className="font-semibold text-sm">{reportStudent?.firstName} {reportStudent?.lastName}</p>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <div className="p-2 bg-tisa-purple/10 rounded-xl">
+                          <Sparkles className="h-5 w-5 text-tisa-purple" />
+                        </div>
+                        <div className="min-w-0">
+                          <p className="text-[10px] text-muted-foreground uppercase tracking-wide">Name Used</p>
+                          <p className="font-medium text-sm">{reportStudent?.nameUsed || '-'}</p>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <div className="p-2 bg-tisa-blue/10 rounded-xl">
+                          <GraduationCap className="h-5 w-5 text-tisa-blue" />
+                        </div>
+                        <div className="min-w-0">
+                          <p className="text-[10px] text-muted-foreground uppercase tracking-wide">Grade Level</p>
+                          <p className="font-medium text-sm">{reportGrade?.name}</p>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <div className="p-2 bg-tisa-purple/10 rounded-xl">
+                          <Calendar className="h-5 w-5 text-tisa-purple" />
+                        </div>
+                        <div className="min-w-0">
+                          <p className="text-[10px] text-muted-foreground uppercase tracking-wide">Date of Birth</p>
+                          <p className="font-medium text-sm">
+                            {reportStudent?.dateOfBirth 
+                              ? new Date(reportStudent.dateOfBirth).toLocaleDateString('en-GB', { day: '2-digit', month: '2-digit', year: 'numeric' })
+                              : '-'}
+                          </p>
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+
+                  {/* Teacher Information Card */}
+                  {(reportGrade?.classroomTeacher || (reportGrade?.teacherAssignments && reportGrade.teacherAssignments.length > 0)) && (
+                    <div className="bg-gradient-to-br from-background to-muted/30 rounded-2xl shadow-lg p-6 border border-border/50 transition-all duration-300 hover:shadow-xl">
+                      <div className="flex items-center gap-3 mb-5">
+                        <div className="p-2.5 bg-tisa-purple/10 rounded-xl">
+                          <Users className="h-5 w-5 text-tisa-purple" />
+                        </div>
+                        <h3 className="font-semibold text-lg">Teacher Information</h3>
+                      </div>
+                      <div className="space-y-4">
+                        {/* Core Programme */}
+                        {((reportGrade.classroomTeacher) || (reportGrade.teacherAssignments && reportGrade.teacherAssignments.filter(a => a.category === 'core').length > 0)) && (
+                          <div>
+                            <p className="text-xs font-semibold text-tisa-purple uppercase tracking-wide mb-2 flex items-center gap-2">
+                              <BookOpen className="h-3.5 w-3.5" />
+                              Core Programme
+                            </p>
+                            <div className="space-y-2 pl-5">
+                              {reportGrade.classroomTeacher && (
+                                <div className="flex justify-between items-center py-1.5 border-b border-border/50">
+                                  <span className="text-sm text-muted-foreground">Classroom Teacher</span>
+                                  <span className="text-sm font-medium">{reportGrade.classroomTeacher}</span>
+                                </div>
+                              )}
+                              {reportGrade.teacherAssignments?.filter(a => a.category === 'core').map((a) => (
+                                <div key={a.id} className="flex justify-between items-center py-1.5 border-b border-border/50 last:border-0">
+                                  <span className="text-sm text-muted-foreground">{a.subject}</span>
+                                  <span className="text-sm font-medium">{a.teacher}</span>
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+                        {/* Professional Tracks */}
+                        {reportGrade?.teacherAssignments && reportGrade.teacherAssignments.filter(a => a.category === 'professional').length > 0 && (
+                          <div>
+                            <p className="text-xs font-semibold text-tisa-blue uppercase tracking-wide mb-2 flex items-center gap-2">
+                              <Briefcase className="h-3.5 w-3.5" />
+                              Professional Tracks
+                            </p>
+                            <div className="space-y-2 pl-5">
+                              {reportGrade.teacherAssignments.filter(a => a.category === 'professional').map((a) => (
+                                <div key={a.id} className="flex justify-between items-center py-1.5 border-b border-border/50 last:border-0">
+                                  <span className="text-sm text-muted-foreground">{a.subject}</span>
+                                  <span className="text-sm font-medium">{a.teacher}</span>
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                {/* School Mission, Vision & Values - 2x2 Grid */}
+                {(appSettings.missionStatement || appSettings.vision || appSettings.statement || appSettings.values.length > 0) && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {appSettings.missionStatement && (
+                      <div className="bg-gradient-to-br from-tisa-purple/5 to-background rounded-2xl shadow-lg p-5 border border-tisa-purple/20 transition-all duration-300 hover:shadow-xl">
+                        <div className="flex items-center gap-2 mb-3">
+                          <div className="p-2 bg-tisa-purple/10 rounded-lg">
+                            <Target className="h-4 w-4 text-tisa-purple" />
+                          </div>
+                          <h4 className="font-semibold text-tisa-purple text-sm uppercase tracking-wide">Our Mission</h4>
+                        </div>
+                        <p className="text-sm text-foreground/80 italic leading-relaxed">{appSettings.missionStatement}</p>
+                      </div>
+                    )}
+                    {appSettings.vision && (
+                      <div className="bg-gradient-to-br from-tisa-blue/5 to-background rounded-2xl shadow-lg p-5 border border-tisa-blue/20 transition-all duration-300 hover:shadow-xl">
+                        <div className="flex items-center gap-2 mb-3">
+                          <div className="p-2 bg-tisa-blue/10 rounded-lg">
+                            <Eye className="h-4 w-4 text-tisa-blue" />
+                          </div>
+                          <h4 className="font-semibold text-tisa-blue text-sm uppercase tracking-wide">Our Vision</h4>
+                        </div>
+                        <ul className="text-sm text-foreground/80 leading-relaxed space-y-1.5">
+                          {appSettings.vision.split(/[•;]/).filter(v => v.trim()).map((point, i) => (
+                            <li key={i} className="flex items-start gap-2">
+                              <span className="text-tisa-blue mt-0.5">•</span>
+                              <span>{point.trim()}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                    {appSettings.statement && (
+                      <div className="bg-gradient-to-br from-muted/30 to-background rounded-2xl shadow-lg p-5 border border-border/50 transition-all duration-300 hover:shadow-xl">
+                        <div className="flex items-center gap-2 mb-3">
+                          <div className="p-2 bg-muted rounded-lg">
+                            <FileText className="h-4 w-4 text-muted-foreground" />
+                          </div>
+                          <h4 className="font-semibold text-sm uppercase tracking-wide">Statement</h4>
+                        </div>
+                        <p className="text-sm text-foreground/80 whitespace-pre-line">{appSettings.statement}</p>
+                      </div>
+                    )}
+                    {appSettings.values.length > 0 && (
+                      <div className="bg-gradient-to-br from-tisa-purple/5 via-background to-tisa-blue/5 rounded-2xl shadow-lg p-5 border border-tisa-purple/20 transition-all duration-300 hover:shadow-xl">
+                        <div className="flex items-center gap-2 mb-3">
+                          <div className="p-2 bg-gradient-to-r from-tisa-purple/10 to-tisa-blue/10 rounded-lg">
+                            <Heart className="h-4 w-4 text-tisa-purple" />
+                          </div>
+                          <h4 className="font-semibold text-tisa-purple text-sm uppercase tracking-wide">Our Values</h4>
+                        </div>
+                        <div className="flex flex-wrap justify-center gap-4">
+                          {appSettings.values.map((value, i) => (
+                            <span 
+                              key={i} 
+                              className="inline-flex items-center px-4 py-1.5 rounded-full text-xs font-medium bg-gradient-to-r from-tisa-purple to-tisa-blue text-white shadow-sm transition-transform duration-200 hover:scale-105"
+                            >
+                              {value}
+                            </span>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {/* Grading Key - Compact Elegant Card */}
+                {appSettings.gradingKey && (
+                  <div className="bg-gradient-to-r from-star-filled/5 via-background to-star-filled/10 rounded-2xl shadow-lg p-5 border border-star-filled/20">
+                    <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                      <div className="flex items-center gap-3">
+                        <div className="p-2 bg-star-filled/10 rounded-xl">
+                          <Star className="h-5 w-5 text-star-filled fill-star-filled" />
+                        </div>
+                        <h4 className="font-semibold">Learner Profile - Grading Key</h4>
+                      </div>
+                      <div className="flex flex-wrap gap-6 text-sm">
+                        <div className="flex items-center gap-2 bg-background/80 px-3 py-1.5 rounded-full shadow-sm">
+                          <span className="text-star-filled">⭐⭐⭐</span>
+                          <span className="text-muted-foreground font-medium">Mostly</span>
+                        </div>
+                        <div className="flex items-center gap-2 bg-background/80 px-3 py-1.5 rounded-full shadow-sm">
+                          <span className="text-star-filled">⭐⭐</span>
+                          <span className="text-muted-foreground font-medium">Usually</span>
+                        </div>
+                        <div className="flex items-center gap-2 bg-background/80 px-3 py-1.5 rounded-full shadow-sm">
+                          <span className="text-star-filled">⭐</span>
+                          <span className="text-muted-foreground font-medium">Rarely</span>
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                {/* Subjects Filter Buttons */}
+                <div className="flex items-center justify-between flex-wrap gap-2">
+                  <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">Subject Assessments</h3>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant={starFilters.oneStar ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => setStarFilters(prev => ({ ...prev, oneStar: !prev.oneStar }))}
+                      className="h-8 px-3 gap-1"
+                    >
+                      <Star className="h-3.5 w-3.5 fill-star-filled text-star-filled" />
+                      <span className="text-xs">1</span>
+                    </Button>
+                    <Button
+                      variant={starFilters.twoStars ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => setStarFilters(prev => ({ ...prev, twoStars: !prev.twoStars }))}
+                      className="h-8 px-3 gap-1"
+                    >
+                      <Star className="h-3.5 w-3.5 fill-star-filled text-star-filled" />
+                      <span className="text-xs">2</span>
+                    </Button>
+                    <Button
+                      variant={starFilters.threeStars ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => setStarFilters(prev => ({ ...prev, threeStars: !prev.threeStars }))}
+                      className="h-8 px-3 gap-1"
+                    >
+                      <Star className="h-3.5 w-3.5 fill-star-filled text-star-filled" />
+                      <span className="text-xs">3</span>
+                    </Button>
+                    <Button
+                      variant={starFilters.comments ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => setStarFilters(prev => ({ ...prev, comments: !prev.comments }))}
+                      className="h-8 px-3 gap-1.5"
+                    >
+                      <Filter className="h-3.5 w-3.5" />
+                      <span className="text-xs">Comments</span>
+                    </Button>
+                  </div>
+                </div>
+
+                {/* Subjects and Assessment Points */}
+                {reportAssessment?.subjects
+                  .filter((subject) => {
+                    const noFiltersActive = !starFilters.oneStar && !starFilters.twoStars && !starFilters.threeStars && !starFilters.comments;
+                    if (noFiltersActive) return true;
+                
+                    const subjectEntries = viewingReport.entries.filter((e) => e.subjectId === subject.id);
+                
+                    const hasOneStar = starFilters.oneStar && subjectEntries.some(e => e.stars === 1);
+                    const hasTwoStars = starFilters.twoStars && subjectEntries.some(e => e.stars === 2);
+                    const hasThreeStars = starFilters.threeStars && subjectEntries.some(e => e.stars === 3);
+                
+                    const subjectComment = viewingReport.subjectComments?.find((c) => c.subjectId === subject.id);
+                    const hasComment = starFilters.comments && (subjectComment?.teacherComment || subjectComment?.aiRewrittenComment || subjectEntries.some((e) => e.teacherNotes || e.aiRewrittenText));
+                
+                    return hasOneStar || hasTwoStars || hasThreeStars || hasComment;
+                  })
+                  .map((subject) => {
+                    const subjectEntries = viewingReport.entries.filter((e) => e.subjectId === subject.id);
+                    const subjectComment = viewingReport.subjectComments?.find((c) => c.subjectId === subject.id);
+
+                    return (
+                      <div
+                        key={subject.id}
+                        id={`report-view-subject-${subject.id}`}
+                        className="scroll-mt-24 overflow-hidden rounded-lg border border-border"
+                      >
+                        <div className="bg-tisa-blue text-white px-4 py-2 font-semibold text-sm uppercase tracking-wide flex items-center justify-between">
+                          <span>{subject.name}</span>
+                          {subjectComment?.attitudeTowardsLearning && (
+                            <span className="text-xs bg-white/20 px-2 py-0.5 rounded">
+                              {subjectComment.attitudeTowardsLearning}
+                            </span>
+                          )}
+                        </div>
+                        <div className="divide-y divide-border">
+                          {subject.assessmentPoints.map((point, idx) => {
+                            const entry = subjectEntries.find((e) => e.assessmentPointId === point.id);
+                            return (
+                              <div 
+                                key={point.id} 
+                                className={`flex items-center justify-between px-4 py-2 ${idx % 2 === 0 ? 'bg-card' : 'bg-muted/20'}`}
+                              >
+                                <span className="text-sm text-foreground">{point.name}</span>
+                                <StarRating value={entry?.stars || 0} max={point.maxStars} readonly size="sm" isNA={entry?.isNA} />
+                              </div>
+                            );
+                          })}
+                        </div>
+                        {(subjectComment?.teacherComment || subjectComment?.aiRewrittenComment) && (
+                          <div className="border-t border-border bg-muted/30 px-4 py-3">
+                            <div className="flex items-center gap-2 mb-1 text-xs font-medium text-muted-foreground uppercase tracking-wide">
+                              <MessageSquare className="h-3 w-3" />
+                              Teacher Comment
+                            </div>
+                            <p className="text-sm text-foreground">{subjectComment.aiRewrittenComment || subjectComment.teacherComment}</p>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+
+                {/* Tests and Exams Results */}
+                {viewingReport.examResults && viewingReport.examResults.length > 0 && (
+                  <ExamResultsDisplay examResults={viewingReport.examResults} />
+                )}
+
+                {/* General Comment */}
+                {viewingReport.generalComment && (
+                  <div className="overflow-hidden rounded-lg border border-border">
+                    <div className="bg-tisa-purple text-white px-4 py-2 font-semibold text-sm uppercase tracking-wide">
+                      General Comment
+                    </div>
+                    <div className="p-4 bg-card">
+                      <p className="text-sm text-foreground leading-relaxed">{viewingReport.generalComment}</p>
+                    </div>
+                  </div>
+                )}
+
+                {/* Signatures */}
+                <SignatureSection
+                  signatures={viewingReport.signatures}
+                  classroomTeacherName={reportGrade?.classroomTeacher}
+                  headOfSchoolName={headOfSchoolName}
+                  signerName={profile?.fullName}
+                  signableRoles={(['classroomTeacher', 'headOfSchool'] as SignatureRole[]).filter((role) =>
+                    canSignReport(profile, reportGrade ?? undefined, viewingReport, role)
+                  )}
+                  currentHash={viewingReportHash}
+                  onSign={async (role) => {
+                    try {
+                      if (!(await signReport(viewingReport.id, role))) {
+                        toast.error('Someone else changed this report', {
+                          description: 'Read the updated report before signing it.',
+                        });
+                        return;
+                      }
+                    } catch (error) {
+                      console.error('Failed to sign report:', error);
+                      toast.error('Failed to sign report');
+                      return;
+                    }
+                    toast.success(role === 'headOfSchool' ? 'Report signed and marked as reviewed' : 'Report signed');
+                  }}
+                />
+
+                {/* Workflow status and history */}
+                <ReportWorkflowPanel
+                  report={viewingReport}
+                  template={reportAssessment}
+                  grade={reportGrade ?? undefined}
+                />
+
+                {/* Footer */}
+                <div className="border-t border-border pt-4 text-xs text-muted-foreground flex items-center justify-between">
+                  <span>Report created: {new Date(viewingReport.createdAt).toLocaleDateString('en-GB', { day: '2-digit', month: 'long', year: 'numeric' })}</span>
+                  <span>Last updated: {new Date(viewingReport.updatedAt).toLocaleDateString('en-GB', { day: '2-digit', month: 'long', year: 'numeric' })}</span>
+                </div>
+              </div>
+            </TabsContent>
+            <TabsContent value="versions" className="mt-0 p-8">
+              <ReportVersionHistory
+                report={viewingReport}
+                template={reportAssessment}
+                grade={reportGrade ?? undefined}
+              />
+            </TabsContent>
+            <TabsContent value="audit" className="mt-0 p-8">
+              <ReportAuditLog report={viewingReport} template={reportAssessment} />
+            </TabsContent>
+          </Tabs>
+
+          <div className="border-t border-border p-4 bg-muted/30 flex justify-between items-center">
+            <Button 
+              variant="outline" 
+              className="gap-2"
+              onClick={() => setShareDialogOpen(true)}
+            >
+              <Link className="h-4 w-4" />
+              Share with Parents
+            </Button>
+            <Button variant="outline" onClick={() => navigate('/reports')}>Close</Button>
+          </div>
+        </div>
+
+        <ShareLinkDialog
+          open={shareDialogOpen}
+          onOpenChange={setShareDialogOpen}
+          report={viewingReport}
+        />
+      </div>
+    </AppLayout>
+  );
+}
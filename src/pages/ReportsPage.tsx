@@ -1,715 +1,50 @@
-import { useState, useMemo } from 'react';
-import { motion, AnimatePresence } from 'framer-motion';
-import { Plus, FileText, ChevronRight, ChevronDown, Sparkles, Save, Eye, BookOpen, MessageSquare, Star, Link, Check, Copy, Pencil, Filter, User, UserCircle, GraduationCap, Calendar, Users, Briefcase, Target, Heart, Loader2, Image, Wand2, CheckCircle } from 'lucide-react';
-import { useForm } from 'react-hook-form';
-import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Plus, FileText, Eye, Pencil, Lock, Archive, Rows3 } from 'lucide-react';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { useAppStore } from '@/store/useAppStore';
+import { useAuthStore } from '@/store/useAuthStore';
+import { canEditGradeReports } from '@/lib/permissions';
+import {
+  REPORT_STATUS_BADGE_VARIANTS,
+  REPORT_STATUS_LABELS,
+  isReportLocked,
+} from '@/lib/reportWorkflow';
+import { CLASS_ENTRY_PATH, getNewReportPath, getReportEditPath, getReportViewPath } from '@/lib/reportRoutes';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { supabase } from '@/integrations/supabase/client';
-import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
-import {
-  Dialog,
-  DialogContent,
-  DialogDescription,
-  DialogHeader,
-  DialogTitle,
-  DialogTrigger,
-  DialogFooter,
-} from '@/components/ui/dialog';
-import {
-  Form,
-  FormControl,
-  FormField,
-  FormItem,
-  FormLabel,
-  FormMessage,
-} from '@/components/ui/form';
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from '@/components/ui/select';
-import {
-  Collapsible,
-  CollapsibleContent,
-  CollapsibleTrigger,
-} from '@/components/ui/collapsible';
-import { StarRating } from '@/components/ui/StarRating';
-import { ExamResultsSection } from '@/components/reports/ExamResultsSection';
-import { SignatureSection } from '@/components/reports/SignatureSection';
-import { ExamResultsDisplay } from '@/components/reports/ExamResultsDisplay';
-import { SignatureDisplay } from '@/components/reports/SignatureDisplay';
-import { AIRewriteButtons } from '@/components/reports/AIRewriteButtons';
-import { WorkSamplesSection } from '@/components/reports/WorkSamplesSection';
-import { toast } from 'sonner';
-import type { StudentReport, ReportEntry, SubjectComment, ExamResult, ReportSignature, StudentDocument } from '@/types';
-import tisaLogo from '@/assets/tisa_logo.png';
-
-const reportFormSchema = z.object({
-  studentId: z.string().min(1, 'Please select a student'),
-  assessmentTemplateId: z.string().min(1, 'Please select an assessment'),
-  term: z.string().default('Term 1 & 2'),
-});
-
-type ReportFormValues = z.infer<typeof reportFormSchema>;
-
-// State for entries
-interface EntryState {
-  [key: string]: {
-    stars: number;
-    isNA: boolean;
-    teacherNotes: string;
-    aiRewrittenText: string;
-  };
-}
-
-// State for subject comments
-interface SubjectCommentState {
-  [subjectId: string]: {
-    teacherComment: string;
-    aiRewrittenComment: string;
-    attitudeTowardsLearning: 'Emerging' | 'Developing' | 'Applying' | 'Independent' | '';
-    examGrade: string;  // "A+", "A", "B+", etc.
-    examDate: string;   // "12/2025" format
-  };
-}
-
-const GRADE_OPTIONS = ['A+', 'A', 'B+', 'B', 'C+', 'C', 'D', 'F'];
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { BatchExportDialog } from '@/components/reports/BatchExportDialog';
+import { ReportCompletenessMatrix } from '@/components/reports/ReportCompletenessMatrix';
+import { useReportPresence } from '@/hooks/use-report-presence';
+import type { StudentReport } from '@/types';
 
+// The report list; reports open in their own pages at /reports/:id and /reports/:id/edit
 export default function ReportsPage() {
-  const [isDialogOpen, setIsDialogOpen] = useState(false);
-  const [selectedStudentId, setSelectedStudentId] = useState<string>('');
-  const [selectedAssessmentId, setSelectedAssessmentId] = useState<string>('');
-  const [expandedSubjects, setExpandedSubjects] = useState<Set<string>>(new Set());
-  const [entries, setEntries] = useState<EntryState>({});
-  const [subjectComments, setSubjectComments] = useState<SubjectCommentState>({});
-  const [generalComment, setGeneralComment] = useState('');
-  const [viewingReport, setViewingReport] = useState<StudentReport | null>(null);
-  const [editingReportId, setEditingReportId] = useState<string | null>(null);
-  const [generalCommentAI, setGeneralCommentAI] = useState('');
-  const [examResults, setExamResults] = useState<ExamResult[]>([]);
-  const [signatures, setSignatures] = useState<ReportSignature>({});
-  const [starFilters, setStarFilters] = useState({ oneStar: false, twoStars: false, threeStars: false, comments: false });
-  const [copiedLink, setCopiedLink] = useState(false);
-  const [isAILoading, setIsAILoading] = useState<{ [key: string]: boolean }>({});
-  const [isRewritingAll, setIsRewritingAll] = useState(false);
-  const [rewriteAllProgress, setRewriteAllProgress] = useState({ current: 0, total: 0 });
-  const {
-    reports,
-    addReport,
-    updateReport,
-    students,
-    assessmentTemplates,
-    grades,
-    activeSchoolYearId,
-    appSettings,
-    documents,
-    addDocument,
-    updateDocument,
-    deleteDocument,
-  } = useAppStore();
+  const [batchExportOpen, setBatchExportOpen] = useState(false);
+  const { reports, students, assessmentTemplates, grades, activeSchoolYearId } = useAppStore();
+  const profile = useAuthStore((state) => state.profile);
+  const navigate = useNavigate();
 
-  const activeStudents = students.filter((s) => s.schoolYearId === activeSchoolYearId);
-  const activeAssessments = assessmentTemplates.filter(
-    (a) => a.schoolYearId === activeSchoolYearId && !(a as any).isArchived
-  );
   const activeReports = reports.filter((r) => r.schoolYearId === activeSchoolYearId);
 
-  const selectedStudent = activeStudents.find((s) => s.id === selectedStudentId);
-  const selectedAssessment = activeAssessments.find((a) => a.id === selectedAssessmentId);
-
-  const form = useForm<ReportFormValues>({
-    resolver: zodResolver(reportFormSchema),
-    defaultValues: {
-      studentId: '',
-      assessmentTemplateId: '',
-      term: 'Term 1 & 2',
-    },
-  });
-
-  const toggleSubject = (subjectId: string) => {
-    setExpandedSubjects((prev) => {
-      const next = new Set(prev);
-      if (next.has(subjectId)) {
-        next.delete(subjectId);
-      } else {
-        next.add(subjectId);
-      }
-      return next;
-    });
-  };
-
-  const handleStudentChange = (studentId: string) => {
-    setSelectedStudentId(studentId);
-    form.setValue('studentId', studentId);
-    // Reset assessment when student changes
-    setSelectedAssessmentId('');
-    form.setValue('assessmentTemplateId', '');
-    setEntries({});
-    setSubjectComments({});
-  };
-
-  const handleAssessmentChange = (assessmentId: string) => {
-    setSelectedAssessmentId(assessmentId);
-    form.setValue('assessmentTemplateId', assessmentId);
-    
-    const assessment = activeAssessments.find((a) => a.id === assessmentId);
-    if (assessment) {
-      // Initialize entries for each assessment point - START WITH MAX STARS!
-      const newEntries: EntryState = {};
-      const newSubjectComments: SubjectCommentState = {};
-      const expandedIds = new Set<string>();
-      
-      assessment.subjects?.forEach((subject) => {
-        // Initialize subject comments with today's date
-        const today = new Date();
-        const todayFormatted = `${String(today.getMonth() + 1).padStart(2, '0')}/${today.getFullYear()}`;
-        
-        newSubjectComments[subject.id] = {
-          teacherComment: '',
-          aiRewrittenComment: '',
-          attitudeTowardsLearning: '',
-          examGrade: '',
-          examDate: todayFormatted,
-        };
-        
-        subject.assessmentPoints?.forEach((point) => {
-          const key = `${subject.id}:${point.id}`;
-          newEntries[key] = {
-            stars: point.maxStars, // START FULL!
-            isNA: false,
-            teacherNotes: '',
-            aiRewrittenText: '',
-          };
-        });
-        // Expand first subject by default
-        if (expandedIds.size === 0) {
-          expandedIds.add(subject.id);
-        }
-      });
-      
-      setEntries(newEntries);
-      setSubjectComments(newSubjectComments);
-      setExpandedSubjects(expandedIds);
-    }
-  };
-
-  const updateEntry = (subjectId: string, pointId: string, field: keyof EntryState[string], value: string | number | boolean) => {
-    const key = `${subjectId}:${pointId}`;
-    setEntries((prev) => ({
-      ...prev,
-      [key]: {
-        ...prev[key],
-        [field]: value,
-      },
-    }));
-  };
-
-  const updateSubjectComment = (
-    subjectId: string,
-    field: keyof SubjectCommentState[string],
-    value: string
-  ) => {
-    setSubjectComments((prev) => ({
-      ...prev,
-      [subjectId]: {
-        ...prev[subjectId],
-        [field]: value,
-      },
-    }));
-  };
-
-  const openCreateDialog = () => {
-    const newDraftReportId = crypto.randomUUID(); // Generate ID for work samples
-    setSelectedStudentId('');
-    setSelectedAssessmentId('');
-    setEntries({});
-    setSubjectComments({});
-    setGeneralComment('');
-    setGeneralCommentAI('');
-    setExamResults([]);
-    setSignatures({});
-    setExpandedSubjects(new Set());
-    setEditingReportId(newDraftReportId); // Use draft ID for new reports too
-    form.reset({
-      studentId: '',
-      assessmentTemplateId: '',
-      term: 'Term 1 & 2',
-    });
-    setIsDialogOpen(true);
-  };
-
-  const openEditDialog = (report: StudentReport) => {
-    const assessment = assessmentTemplates.find(a => a.id === report.assessmentTemplateId);
-    
-    // Restore entries
-    const restoredEntries: EntryState = {};
-    report.entries.forEach((entry) => {
-      const key = `${entry.subjectId}:${entry.assessmentPointId}`;
-      restoredEntries[key] = {
-        stars: entry.stars,
-        isNA: entry.isNA || false,
-        teacherNotes: entry.teacherNotes || '',
-        aiRewrittenText: entry.aiRewrittenText || '',
-      };
-    });
-
-    // Restore subject comments
-    const restoredSubjectComments: SubjectCommentState = {};
-    assessment?.subjects?.forEach((subject) => {
-      const existingComment = report.subjectComments?.find(c => c.subjectId === subject.id);
-      restoredSubjectComments[subject.id] = {
-        teacherComment: existingComment?.teacherComment || '',
-        aiRewrittenComment: existingComment?.aiRewrittenComment || '',
-        attitudeTowardsLearning: existingComment?.attitudeTowardsLearning || '',
-        examGrade: '',
-        examDate: '',
-      };
-    });
-
-    setSelectedStudentId(report.studentId);
-    setSelectedAssessmentId(report.assessmentTemplateId);
-    setEntries(restoredEntries);
-    setSubjectComments(restoredSubjectComments);
-    setGeneralComment(report.generalComment || '');
-    setGeneralCommentAI('');
-    setExamResults(report.examResults || []);
-    setSignatures(report.signatures || {});
-    setExpandedSubjects(new Set(assessment?.subjects?.map(s => s.id) || []));
-    setEditingReportId(report.id);
-    
-    form.reset({
-      studentId: report.studentId,
-      assessmentTemplateId: report.assessmentTemplateId,
-      term: report.term,
-    });
-    setIsDialogOpen(true);
-  };
-
-
-  // TISA Style Guide for extended rewrite mode
-  const TISA_STYLE_GUIDE = `⚡ TISA REPORT CARD AI STYLE GUIDE
-
-🎯 Purpose
-Turn raw teacher notes into clear, human, confidence-building insights that reflect how TISA actually sees children:
-Not as grades. Not as checkboxes. But as becoming humans.
-
-🧠 The Core Rule (Read This Twice)
-Do not polish children into perfection. Do not hide growth edges. Do not invent excellence.
-Your job is to translate truth into momentum.
-
-🧬 The TISA Lens (Non‑Negotiable)
-Every comment must answer at least one of these:
-- What strength is already alive in this child?
-- What is forming right now?
-- What is the next step — not the flaw?
-We don't judge snapshots. We describe trajectories.
-
-🗣 Tone (This Is Where Most Systems Fail)
-Write like a calm, intelligent human speaking to another intelligent human.
-Warm, grounded, precise. Never fluffy. Never cold. Never corporate.
-If it sounds like HR — rewrite it. If it sounds like marketing — delete it.
-
-🧱 Structure (2–3 Sentences. No More.)
-- Anchor — a real strength (specific if provided)
-- Edge — a growth point, framed as direction
-- Forward pull — confidence + expectation
-That's it. No essays. No padding.
-
-🧠 Language Rules (Hard Lines)
-✅ Use: is developing, is learning to, shows growing confidence in, is beginning to, brings curiosity / care / initiative / structure
-❌ Never use: struggles, fails, can't / won't, weak / poor, always / never
-We don't label identity. We describe movement.
-
-🧭 Preserve the Teacher's Truth
-- Keep specific examples the teacher mentioned
-- Do not erase concerns
-- Do not exaggerate positives
-- If a teacher writes something sharp — you soften the frame, not the fact.
-
-💥 Reframing Examples
-Teacher: "Emma struggles with math."
-TISA AI: "Emma is building her mathematical foundations and shows determination when working through challenging problems."
-
-Teacher: "He talked too much during group work but had good ideas."
-TISA AI: "He brings strong ideas into group work and is learning to balance sharing his thoughts with listening to others."
-
-🌍 TISA Values (Woven, Not Announced)
-You may subtly reflect these when relevant: Curiosity, Courage, Care, Systemic thinking, Character, Communication, Dream → Action
-Never list them. Let them show through behavior.
-
-📏 Length Discipline
-Standard comment: 2–3 sentences. If it needs more → something is wrong upstream. Concise = respectful.
-
-🧠 Final Check Before Output
-Ask yourself: Would this make a parent feel seen, informed, and calmly confident?
-If yes — ship it. If not — rewrite.
-
-📛 Using the Student's Name
-- Use the student's actual name naturally — not in every sentence
-- First mention: Use the name (often works well mid-sentence)
-- Subsequent sentences: Use pronouns or omit if clear from context
-- Never use [Student's Name] or similar placeholders
-- Goal: It should read like a human wrote it for THIS child
-
-🔥 One Last Thing (Very Important)
-TISA report cards are not documents. They are mirrors.
-When a child reads this in five years, they should recognize themselves — and feel pulled forward.
-That's the bar.`;
-
-  const QUICK_STYLE_GUIDE = `Rewrite this text professionally:
-- Fix any grammar or spelling errors
-- Make it clear and concise
-- Keep a warm, professional tone suitable for a school report
-- Preserve the original meaning and any specific observations
-- Keep it brief (2-3 sentences maximum)
-- Use the student's name naturally but not repetitively
-- The name works well mid-sentence or at the start of a comment
-- Don't force the name into every sentence — use when it feels right
-- Never use placeholders like [Student Name] or [Student's Name]`;
-
-  const callAIRewrite = async (text: string, loadingKey: string, callback: (rewritten: string) => void, mode: 'quick' | 'tisa' = 'quick', studentName?: string) => {
-    if (!text.trim()) {
-      toast.error('Please enter some text first');
-      return;
-    }
-
-    setIsAILoading(prev => ({ ...prev, [loadingKey]: true }));
-
-    try {
-      // Default to lovable if not set
-      const provider = appSettings.aiProvider || 'lovable';
-      
-      // Determine which API key to use based on provider
-      let customApiKey = '';
-      if (provider === 'openai') {
-        customApiKey = appSettings.openaiApiKey || '';
-      } else if (provider === 'google') {
-        customApiKey = appSettings.googleApiKey || '';
-      } else if (provider === 'anthropic') {
-        customApiKey = appSettings.anthropicApiKey || '';
-      }
-
-      // Check if custom provider is selected but no API key provided
-      if (provider !== 'lovable' && !customApiKey) {
-        toast.error(`Please add your ${provider} API key in Settings`);
-        setIsAILoading(prev => ({ ...prev, [loadingKey]: false }));
-        return;
-      }
-
-      // Select style guide based on mode
-      const styleGuide = mode === 'tisa' ? TISA_STYLE_GUIDE : QUICK_STYLE_GUIDE;
-
-      const { data, error } = await supabase.functions.invoke('ai-rewrite', {
-        body: {
-          text,
-          styleGuide,
-          studentName,
-          provider,
-          customApiKey: customApiKey || undefined,
-        },
-      });
-
-      if (error) {
-        console.error('AI rewrite error:', error);
-        toast.error('Failed to rewrite text. Please try again.');
-        return;
-      }
-
-      if (data?.error) {
-        toast.error(data.error);
-        return;
-      }
-
-      if (data?.rewrittenText) {
-        callback(data.rewrittenText);
-        toast.success(mode === 'tisa' ? 'TISA-style rewrite complete!' : 'Quick rewrite complete!');
-      }
-    } catch (err) {
-      console.error('AI rewrite error:', err);
-      toast.error('Failed to connect to AI. Please try again.');
-    } finally {
-      setIsAILoading(prev => ({ ...prev, [loadingKey]: false }));
-    }
-  };
-
-  const acceptAIRewrite = (key: string, aiText: string) => {
-    // Replace the teacher notes with the AI rewritten version
-    const [subjectId, pointId] = key.split(':');
-    updateEntry(subjectId, pointId, 'teacherNotes', aiText);
-    updateEntry(subjectId, pointId, 'aiRewrittenText', ''); // Clear AI field after accepting
-    toast.success('AI text accepted!');
-  };
-
-  const acceptSubjectAIComment = (subjectId: string, aiText: string) => {
-    updateSubjectComment(subjectId, 'teacherComment', aiText);
-    updateSubjectComment(subjectId, 'aiRewrittenComment', ''); // Clear AI field after accepting
-    toast.success('AI comment accepted!');
-  };
-
-  const acceptGeneralAIComment = () => {
-    setGeneralComment(generalCommentAI);
-    setGeneralCommentAI(''); // Clear AI field after accepting
-    toast.success('AI comment accepted!');
-  };
-
-  // Get student name for AI rewrite
-  const getStudentNameForAI = () => {
-    if (!selectedStudent) return '';
-    return selectedStudent.nameUsed || selectedStudent.firstName;
-  };
-
-  // Get pronouns based on gender
-  const getPronouns = () => {
-    if (!selectedStudent?.gender) return { subject: 'they', object: 'them', possessive: 'their' };
-    if (selectedStudent.gender === 'male') return { subject: 'he', object: 'him', possessive: 'his' };
-    return { subject: 'she', object: 'her', possessive: 'her' };
-  };
-
-  // Rewrite All function
-  const rewriteAll = async () => {
-    if (!selectedStudent || !selectedAssessment) return;
-
-    // Collect all items that need rewriting
-    const itemsToRewrite: Array<{
-      type: 'entry' | 'subjectComment' | 'generalComment';
-      key: string;
-      text: string;
-    }> = [];
-
-    // Collect entries with teacher notes
-    Object.entries(entries).forEach(([key, entry]) => {
-      if (entry.teacherNotes?.trim()) {
-        itemsToRewrite.push({ type: 'entry', key, text: entry.teacherNotes });
-      }
-    });
-
-    // Collect subject comments
-    Object.entries(subjectComments).forEach(([subjectId, comment]) => {
-      if (comment.teacherComment?.trim()) {
-        itemsToRewrite.push({ type: 'subjectComment', key: subjectId, text: comment.teacherComment });
-      }
-    });
-
-    // Collect general comment
-    if (generalComment?.trim()) {
-      itemsToRewrite.push({ type: 'generalComment', key: 'general', text: generalComment });
-    }
-
-    if (itemsToRewrite.length === 0) {
-      toast.error('No comments to rewrite. Add some teacher notes first.');
-      return;
-    }
+  const getGradeInfo = (gradeId: string) => grades.find((g) => g.id === gradeId);
 
-    const confirmed = window.confirm(
-      `Rewrite ${itemsToRewrite.length} comment${itemsToRewrite.length > 1 ? 's' : ''} with TISA style?\n\nThis will process all teacher notes using the TISA style guide.`
+  // Click-through from the completeness matrix; reports the user cannot edit open read-only
+  const openReportAtSubject = (report: StudentReport, subjectId: string) => {
+    const student = students.find((s) => s.id === report.studentId);
+    const grade = student ? getGradeInfo(student.gradeId) : undefined;
+    navigate(
+      canEditGradeReports(profile, grade) && !isReportLocked(report)
+        ? getReportEditPath(report.id, subjectId)
+        : getReportViewPath(report.id, subjectId)
     );
-
-    if (!confirmed) return;
-
-    setIsRewritingAll(true);
-    setRewriteAllProgress({ current: 0, total: itemsToRewrite.length });
-
-    const studentName = getStudentNameForAI();
-    let successCount = 0;
-    let errorCount = 0;
-
-    for (let i = 0; i < itemsToRewrite.length; i++) {
-      const item = itemsToRewrite[i];
-      setRewriteAllProgress({ current: i + 1, total: itemsToRewrite.length });
-
-      try {
-        const provider = appSettings.aiProvider || 'lovable';
-        let customApiKey = '';
-        if (provider === 'openai') customApiKey = appSettings.openaiApiKey || '';
-        else if (provider === 'google') customApiKey = appSettings.googleApiKey || '';
-        else if (provider === 'anthropic') customApiKey = appSettings.anthropicApiKey || '';
-
-        if (provider !== 'lovable' && !customApiKey) {
-          toast.error(`Please add your ${provider} API key in Settings`);
-          break;
-        }
-
-        const { data, error } = await supabase.functions.invoke('ai-rewrite', {
-          body: {
-            text: item.text,
-            styleGuide: TISA_STYLE_GUIDE,
-            studentName,
-            provider,
-            customApiKey: customApiKey || undefined,
-          },
-        });
-
-        if (error || data?.error) {
-          errorCount++;
-          continue;
-        }
-
-        if (data?.rewrittenText) {
-          // Apply the rewritten text based on type
-          if (item.type === 'entry') {
-            const [subjectId, pointId] = item.key.split(':');
-            updateEntry(subjectId, pointId, 'teacherNotes', data.rewrittenText);
-          } else if (item.type === 'subjectComment') {
-            updateSubjectComment(item.key, 'teacherComment', data.rewrittenText);
-          } else if (item.type === 'generalComment') {
-            setGeneralComment(data.rewrittenText);
-          }
-          successCount++;
-        }
-
-        // Small delay between requests to avoid rate limits
-        if (i < itemsToRewrite.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, 500));
-        }
-      } catch (err) {
-        console.error('Rewrite error:', err);
-        errorCount++;
-      }
-    }
-
-    setIsRewritingAll(false);
-    setRewriteAllProgress({ current: 0, total: 0 });
-
-    if (successCount > 0) {
-      toast.success(`Rewrote ${successCount} comment${successCount > 1 ? 's' : ''} with TISA style!`);
-    }
-    if (errorCount > 0) {
-      toast.error(`Failed to rewrite ${errorCount} comment${errorCount > 1 ? 's' : ''}`);
-    }
   };
 
-  const onSubmit = (data: ReportFormValues) => {
-    // Convert entries to array format
-    const entryArray: ReportEntry[] = Object.entries(entries).map(([key, value]) => {
-      const [subjectId, pointId] = key.split(':');
-      return {
-        assessmentPointId: pointId,
-        subjectId,
-        stars: value.stars,
-        isNA: value.isNA || undefined,
-        teacherNotes: value.teacherNotes,
-        aiRewrittenText: value.aiRewrittenText,
-      };
-    });
-
-    // Convert subject comments to array
-    const subjectCommentArray: SubjectComment[] = Object.entries(subjectComments)
-      .filter(([_, value]) => value.teacherComment || value.attitudeTowardsLearning)
-      .map(([subjectId, value]) => ({
-        subjectId,
-        teacherComment: value.teacherComment,
-        aiRewrittenComment: value.aiRewrittenComment,
-        attitudeTowardsLearning: value.attitudeTowardsLearning || undefined,
-      }));
-
-    // Auto-generate exam results from subject grades
-    const generatedExamResults: ExamResult[] = Object.entries(subjectComments)
-      .filter(([_, value]) => value.examGrade)
-      .map(([subjectId, value]) => {
-        const subject = selectedAssessment?.subjects?.find(s => s.id === subjectId);
-        const subjectName = subject?.name || '';
-        // Extract term from subject name (e.g., "English - Term 1" -> "Term 1")
-        const termMatch = subjectName.match(/Term\s*\d/i);
-        const term = termMatch ? termMatch[0] : 'Term 1';
-        // Clean subject name (remove term)
-        const cleanSubjectName = subjectName.replace(/\s*-\s*Term\s*\d/i, '').trim();
-        
-        return {
-          id: crypto.randomUUID(),
-          term,
-          date: value.examDate,
-          title: 'Assessment of term skills',
-          subject: cleanSubjectName,
-          grade: value.examGrade,
-        };
-      });
-
-    // Use editingReportId for both new and existing reports
-    const reportId = editingReportId || crypto.randomUUID();
-    const existingReport = reports.find(r => r.id === reportId);
-
-    const newReport: StudentReport = {
-      id: reportId,
-      studentId: data.studentId,
-      assessmentTemplateId: data.assessmentTemplateId,
-      schoolYearId: activeSchoolYearId!,
-      term: data.term,
-      entries: entryArray,
-      subjectComments: subjectCommentArray,
-      generalComment: generalCommentAI || generalComment,
-      examResults: [...examResults, ...generatedExamResults],
-      signatures: signatures,
-      status: 'draft',
-      createdAt: existingReport?.createdAt || new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
-
-    if (existingReport) {
-      // Update existing report
-      updateReport(reportId, {
-        ...newReport,
-        updatedAt: new Date().toISOString(),
-      });
-      toast.success('Report updated successfully');
-    } else {
-      addReport(newReport);
-      toast.success('Report saved successfully');
-    }
-    
-    setIsDialogOpen(false);
-    setEditingReportId(null);
-    form.reset();
-    setEntries({});
-    setSubjectComments({});
-    setGeneralComment('');
-    setGeneralCommentAI('');
-    setExamResults([]);
-    setSignatures({});
-  };
-
-  const getGradeInfo = (gradeId: string) => grades.find((g) => g.id === gradeId);
-
-  const availableAssessments = selectedStudent
-    ? activeAssessments.filter((a) => a.gradeId === selectedStudent.gradeId)
-    : [];
-
-  const hasEntries = Object.keys(entries).length > 0;
-
-  // Compute exam results in real-time from subject comments
-  const computedExamResults = useMemo(() => {
-    // Generate exam results from current subjectComments
-    const generated: ExamResult[] = Object.entries(subjectComments)
-      .filter(([_, value]) => value.examGrade)
-      .map(([subjectId, value]) => {
-        const subject = selectedAssessment?.subjects?.find(s => s.id === subjectId);
-        const subjectName = subject?.name || '';
-        const termMatch = subjectName.match(/Term\s*\d/i);
-        const term = termMatch ? termMatch[0] : 'Term 1';
-        const cleanSubjectName = subjectName.replace(/\s*-\s*Term\s*\d/i, '').trim();
-        
-        return {
-          id: `gen-${subjectId}`,
-          term,
-          date: value.examDate,
-          title: 'Assessment of term skills',
-          subject: cleanSubjectName,
-          grade: value.examGrade,
-        };
-      });
-    
-    // Combine with manually added results
-    return [...examResults, ...generated];
-  }, [subjectComments, selectedAssessment, examResults]);
-
-  // Get intro text from template
-  const introText = selectedAssessment ? (selectedAssessment as any).introText : '';
+  // Who else is on the report pages and which reports they are editing
+  const { others: onlineStaff, getEditors } = useReportPresence({ reportId: null });
 
   return (
     <AppLayout>
@@ -721,1086 +56,149 @@ That's the bar.`;
             <p className="text-muted-foreground">
               Fill out progress reports with star ratings and AI-enhanced feedback
             </p>
+            {onlineStaff.length > 0 && (
+              <p className="mt-1 flex flex-wrap items-center gap-1.5 text-xs text-muted-foreground">
+                <span className="h-2 w-2 rounded-full bg-green-500" />
+                {onlineStaff
+                  .map((p) => (p.reportId && p.studentName ? `${p.staffName} is editing ${p.studentName}'s report` : `${p.staffName} is online`))
+                  .join(' · ')}
+              </p>
+            )}
           </div>
-          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-            <DialogTrigger asChild>
-              <Button onClick={openCreateDialog} className="gap-2">
-                <Plus className="h-4 w-4" />
-                New Report
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
-              <DialogHeader>
-                <DialogTitle>Create Student Report</DialogTitle>
-                <DialogDescription>
-                  All stars start at maximum. Click to reduce rating. Use AI to polish comments.
-                </DialogDescription>
-              </DialogHeader>
-              <Form {...form}>
-                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-                  {/* Student & Assessment Selection */}
-                  <div className="grid gap-4 sm:grid-cols-3">
-                    <FormField
-                      control={form.control}
-                      name="studentId"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Student</FormLabel>
-                          <Select
-                            value={field.value}
-                            onValueChange={(val) => {
-                              field.onChange(val);
-                              handleStudentChange(val);
-                            }}
-                          >
-                            <FormControl>
-                              <SelectTrigger>
-                                <SelectValue placeholder="Select student" />
-                              </SelectTrigger>
-                            </FormControl>
-                            <SelectContent>
-                              {activeStudents.length === 0 ? (
-                                <div className="p-2 text-sm text-muted-foreground text-center">
-                                  No students found. Add students first.
-                                </div>
-                              ) : (
-                                activeStudents.map((student) => {
-                                  const grade = getGradeInfo(student.gradeId);
-                                  const hasTemplate = activeAssessments.some(a => a.gradeId === student.gradeId);
-                                  return (
-                                    <SelectItem key={student.id} value={student.id}>
-                                      <div className="flex items-center gap-2">
-                                        <div
-                                          className="h-2 w-2 rounded-full"
-                                          style={{ backgroundColor: grade ? `hsl(var(--grade-${grade.colorIndex}))` : undefined }}
-                                        />
-                                        {student.firstName} {student.lastName}
-                                        {!hasTemplate && (
-                                          <span className="text-xs text-muted-foreground">(no template)</span>
-                                        )}
-                                      </div>
-                                    </SelectItem>
-                                  );
-                                })
-                              )}
-                            </SelectContent>
-                          </Select>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+          <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => setBatchExportOpen(true)} className="gap-2">
+            <Archive className="h-4 w-4" />
+            Export All
+          </Button>
+            <Button variant="outline" onClick={() => navigate(CLASS_ENTRY_PATH)} className="gap-2">
+              <Rows3 className="h-4 w-4" />
+              Class Entry
+            </Button>
+            <Button onClick={() => navigate(getNewReportPath())} className="gap-2">
+              <Plus className="h-4 w-4" />
+              New Report
+            </Button>
+          </div>
+        </div>
 
-                    <FormField
-                      control={form.control}
-                      name="assessmentTemplateId"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Assessment</FormLabel>
-                          <Select
-                            value={field.value}
-                            onValueChange={(val) => {
-                              field.onChange(val);
-                              handleAssessmentChange(val);
+        <Tabs defaultValue="reports" className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="reports">Reports</TabsTrigger>
+            <TabsTrigger value="completeness">Completeness</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="reports">
+            {/* Reports List */}
+            <div className="space-y-4">
+              {activeReports.length > 0 ? (
+                <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                  {activeReports.map((report, index) => {
+                    const student = students.find((s) => s.id === report.studentId);
+                    const assessment = assessmentTemplates.find(
+                      (a) => a.id === report.assessmentTemplateId
+                    );
+                    const grade = student ? getGradeInfo(student.gradeId) : null;
+                    const editors = getEditors(report.id);
+
+                    return (
+                      <motion.div
+                        key={report.id}
+                        initial={{ opacity: 0, scale: 0.95 }}
+                        animate={{ opacity: 1, scale: 1 }}
+                        transition={{ delay: index * 0.05 }}
+                      >
+                        <Card className="group cursor-pointer transition-all hover:shadow-lg">
+                          <div
+                            className="h-1.5 rounded-t-lg"
+                            style={{
+                              backgroundColor: grade
+                                ? `hsl(var(--grade-${grade.colorIndex}))`
+                                : 'hsl(var(--muted))',
                             }}
-                            disabled={!selectedStudentId}
-                          >
-                            <FormControl>
-                              <SelectTrigger>
-                                <SelectValue placeholder="Select assessment" />
-                              </SelectTrigger>
-                            </FormControl>
-                            <SelectContent>
-                              {availableAssessments.map((assessment) => (
-                                <SelectItem key={assessment.id} value={assessment.id}>
-                                  {assessment.name}
-                                </SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-
-                    <FormField
-                      control={form.control}
-                      name="term"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Term</FormLabel>
-                          <Select value={field.value} onValueChange={field.onChange}>
-                            <FormControl>
-                              <SelectTrigger>
-                                <SelectValue />
-                              </SelectTrigger>
-                            </FormControl>
-                            <SelectContent>
-                              <SelectItem value="Term 1">Term 1</SelectItem>
-                              <SelectItem value="Term 2">Term 2</SelectItem>
-                              <SelectItem value="Term 1 & 2">Term 1 & 2</SelectItem>
-                              <SelectItem value="Term 3">Term 3</SelectItem>
-                              <SelectItem value="Term 4">Term 4</SelectItem>
-                              <SelectItem value="Term 3 & 4">Term 3 & 4</SelectItem>
-                            </SelectContent>
-                          </Select>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </div>
-
-                  {/* Intro Text Preview */}
-                  {introText && (
-                    <Card className="bg-primary/5 border-primary/20">
-                      <CardContent className="p-4">
-                        <p className="text-sm italic text-muted-foreground">{introText}</p>
-                      </CardContent>
-                    </Card>
-                  )}
-
-                  {/* Assessment Subjects & Points */}
-                  {selectedAssessment && hasEntries && (
-                    <div className="space-y-4">
-                      <div className="flex items-center justify-between">
-                        <h3 className="font-display font-semibold">Assessment Subjects</h3>
-                        <Button
-                          type="button"
-                          variant="outline"
-                          size="sm"
-                          className="gap-2 border-tisa-purple/30 hover:bg-tisa-purple/10"
-                          onClick={rewriteAll}
-                          disabled={isRewritingAll}
-                        >
-                          {isRewritingAll ? (
-                            <>
-                              <Loader2 className="h-4 w-4 animate-spin" />
-                              Rewriting {rewriteAllProgress.current}/{rewriteAllProgress.total}...
-                            </>
-                          ) : (
-                            <>
-                              <Wand2 className="h-4 w-4 text-tisa-purple" />
-                              Rewrite All (TISA)
-                            </>
-                          )}
-                        </Button>
-                      </div>
-                      {selectedAssessment.subjects?.map((subject) => {
-                        const subjectPoints = subject.assessmentPoints || [];
-                        const completedNotes = subjectPoints.filter(p => {
-                          const key = `${subject.id}:${p.id}`;
-                          return entries[key]?.teacherNotes?.trim();
-                        }).length;
-                        
-                        return (
-                          <Collapsible
-                            key={subject.id}
-                            open={expandedSubjects.has(subject.id)}
-                            onOpenChange={() => toggleSubject(subject.id)}
-                          >
-                            {/* Subject Header Banner - Purple (needs work) or Green (complete) */}
-                            {(() => {
-                              const subjectData = subjectComments[subject.id];
-                              const isComplete = subjectData?.examGrade && subjectData.examGrade !== '';
-                              const headerBg = isComplete ? 'bg-green-100' : 'bg-tisa-purple/15';
-                              const headerText = isComplete ? 'text-green-700' : 'text-tisa-purple';
-                              const iconColor = isComplete ? 'text-green-600' : 'text-tisa-purple/80';
-                              const badgeBg = isComplete ? 'bg-green-200/60 text-green-700' : 'bg-tisa-purple/20 text-tisa-purple';
-                              
-                              return (
-                                <CollapsibleTrigger asChild>
-                                  <div className="cursor-pointer rounded-lg overflow-hidden shadow-sm hover:shadow-md transition-all">
-                                    <div className={`${headerBg} px-4 py-3 flex items-center justify-between transition-colors`}>
-                                      <div className="flex items-center gap-3">
-                                        {isComplete ? (
-                                          <CheckCircle className={`h-5 w-5 ${iconColor}`} />
-                                        ) : (
-                                          <BookOpen className={`h-5 w-5 ${iconColor}`} />
-                                        )}
-                                        <div>
-                                          <h4 className={`font-display font-semibold ${headerText} uppercase tracking-wide text-sm`}>
-                                            {subject.name}
-                                          </h4>
-                                          {subject.description && (
-                                            <p className={`${isComplete ? 'text-green-600/70' : 'text-tisa-purple/60'} text-xs mt-0.5`}>{subject.description}</p>
-                                          )}
-                                        </div>
-                                      </div>
-                                      <div className="flex items-center gap-3">
-                                        <div className="flex items-center gap-2">
-                                          <Badge className={`${badgeBg} border-0 text-xs`}>
-                                            {subjectPoints.length} points
-                                          </Badge>
-                                          {completedNotes > 0 && (
-                                            <Badge className={`${isComplete ? 'bg-green-200/80 text-green-700' : 'bg-tisa-purple/25 text-tisa-purple'} border-0 text-xs`}>
-                                              {completedNotes} notes
-                                            </Badge>
-                                          )}
-                                          {isComplete && (
-                                            <Badge className="bg-green-500 text-white border-0 text-xs">
-                                              {subjectData.examGrade}
-                                            </Badge>
-                                          )}
-                                        </div>
-                                        {expandedSubjects.has(subject.id) ? (
-                                          <ChevronDown className={`h-5 w-5 ${isComplete ? 'text-green-600' : 'text-tisa-purple/70'}`} />
-                                        ) : (
-                                          <ChevronRight className={`h-5 w-5 ${isComplete ? 'text-green-600' : 'text-tisa-purple/70'}`} />
-                                        )}
-                                      </div>
-                                    </div>
-                                  </div>
-                                </CollapsibleTrigger>
-                              );
-                            })()}
-
-                            <CollapsibleContent>
-                              <div className="border border-t-0 border-border rounded-b-lg bg-card overflow-hidden">
-                                {/* Compact Assessment Points Table */}
-                                <div className="divide-y divide-border">
-                                  {subjectPoints.map((point, idx) => {
-                                    const key = `${subject.id}:${point.id}`;
-                                    const entry = entries[key];
-                                    const hasNotes = entry?.teacherNotes?.trim();
-                                    
-                                    return (
-                                      <motion.div
-                                        key={point.id}
-                                        initial={{ opacity: 0 }}
-                                        animate={{ opacity: 1 }}
-                                        transition={{ delay: idx * 0.02 }}
-                                        className="group"
-                                      >
-                                        {/* Main Row - Point Name + Stars */}
-                                        <div className={`px-4 py-3 flex items-center justify-between gap-4 ${hasNotes ? 'bg-primary/5' : 'hover:bg-muted/50'} transition-colors`}>
-                                          <div className="flex items-center gap-3 min-w-0 flex-1">
-                                            <div className={`w-1.5 h-1.5 rounded-full shrink-0 ${hasNotes ? 'bg-primary' : 'bg-muted-foreground/30'}`} />
-                                            <span className="text-sm font-medium truncate">{point.name}</span>
-                                          </div>
-                                          <div className="shrink-0">
-                                            <StarRating
-                                              value={entry?.stars || point.maxStars}
-                                              max={point.maxStars}
-                                              onChange={(val) => updateEntry(subject.id, point.id, 'stars', val)}
-                                              size="sm"
-                                              isNA={entry?.isNA || false}
-                                              onNAChange={(val) => updateEntry(subject.id, point.id, 'isNA', val)}
-                                            />
-                                          </div>
-                                        </div>
-                                        
-                                        {/* Notes Row - Compact inline */}
-                                        <div className="px-4 pb-3 pt-1 bg-muted/20">
-                                          <div className="flex items-start gap-2">
-                                            <Textarea
-                                              placeholder="Add notes..."
-                                              className="min-h-[36px] text-sm py-2 resize-none bg-background/80 border-muted"
-                                              value={entry?.teacherNotes || ''}
-                                              onChange={(e) => updateEntry(subject.id, point.id, 'teacherNotes', e.target.value)}
-                                              rows={1}
-                                            />
-                                            <div className="shrink-0 flex items-center gap-1">
-                                              <AIRewriteButtons
-                                                sourceText={entry?.teacherNotes || ''}
-                                                aiRewrittenText={entry?.aiRewrittenText || ''}
-                                                loadingKey={key}
-                                                studentName={selectedStudent?.nameUsed || selectedStudent?.firstName || 'the student'}
-                                                onRewrite={callAIRewrite}
-                                                onRewriteComplete={(result) => updateEntry(subject.id, point.id, 'aiRewrittenText', result)}
-                                                onAccept={() => acceptAIRewrite(key, entry?.aiRewrittenText || '')}
-                                                isLoading={isAILoading}
-                                                onAITextChange={(text) => updateEntry(subject.id, point.id, 'aiRewrittenText', text)}
-                                                compact
-                                              />
-                                            </div>
-                                          </div>
-                                          
-                                          {/* AI Rewrite Preview - Only show when there's AI text */}
-                                          {entry?.aiRewrittenText && (
-                                            <motion.div
-                                              initial={{ opacity: 0, height: 0 }}
-                                              animate={{ opacity: 1, height: 'auto' }}
-                                              className="mt-2 p-2 bg-tisa-purple/5 border border-tisa-purple/20 rounded text-sm"
-                                            >
-                                              <div className="flex items-start justify-between gap-2">
-                                                <p className="text-muted-foreground flex-1">{entry.aiRewrittenText}</p>
-                                                <Button
-                                                  size="sm"
-                                                  variant="ghost"
-                                                  className="shrink-0 h-7 text-xs text-tisa-purple hover:bg-tisa-purple/10"
-                                                  onClick={() => acceptAIRewrite(key, entry.aiRewrittenText)}
-                                                >
-                                                  <Check className="h-3 w-3 mr-1" />
-                                                  Accept
-                                                </Button>
-                                              </div>
-                                            </motion.div>
-                                          )}
-                                        </div>
-                                      </motion.div>
-                                    );
-                                  })}
-                                </div>
-
-                                {/* Subject Comment Section - Cleaner styling */}
-                                <div className="border-t-2 border-tisa-purple/20 bg-tisa-purple/5 p-4">
-                                  <div className="flex items-center gap-2 mb-3">
-                                    <MessageSquare className="h-4 w-4 text-tisa-purple" />
-                                    <h5 className="font-medium text-sm text-tisa-purple">Subject Comment</h5>
-                                  </div>
-                                  
-                                  {/* Inline Dropdowns Row */}
-                                  <div className="flex flex-wrap items-center gap-3 mb-3">
-                                    <div className="flex items-center gap-1.5 bg-background rounded-md px-2 py-1 border">
-                                      <span className="text-xs text-muted-foreground">Attitude:</span>
-                                      <Select
-                                        value={subjectComments[subject.id]?.attitudeTowardsLearning || ''}
-                                        onValueChange={(val) => updateSubjectComment(subject.id, 'attitudeTowardsLearning', val)}
-                                      >
-                                        <SelectTrigger className="h-7 w-[110px] border-0 bg-transparent px-1 text-xs focus:ring-0">
-                                          <SelectValue placeholder="Select" />
-                                        </SelectTrigger>
-                                        <SelectContent>
-                                          <SelectItem value="Emerging">Emerging</SelectItem>
-                                          <SelectItem value="Developing">Developing</SelectItem>
-                                          <SelectItem value="Applying">Applying</SelectItem>
-                                          <SelectItem value="Independent">Independent</SelectItem>
-                                        </SelectContent>
-                                      </Select>
-                                    </div>
-                                    
-                                    <div className="flex items-center gap-1.5 bg-background rounded-md px-2 py-1 border">
-                                      <span className="text-xs text-muted-foreground">Grade:</span>
-                                      <Select
-                                        value={subjectComments[subject.id]?.examGrade || ''}
-                                        onValueChange={(val) => updateSubjectComment(subject.id, 'examGrade', val)}
-                                      >
-                                        <SelectTrigger className="h-7 w-[70px] border-0 bg-transparent px-1 text-xs focus:ring-0">
-                                          <SelectValue placeholder="—" />
-                                        </SelectTrigger>
-                                        <SelectContent>
-                                          {GRADE_OPTIONS.map((grade) => (
-                                            <SelectItem key={grade} value={grade}>
-                                              {grade}
-                                            </SelectItem>
-                                          ))}
-                                        </SelectContent>
-                                      </Select>
-                                    </div>
-                                    
-                                    <div className="flex items-center gap-1.5 bg-background rounded-md px-2 py-1 border">
-                                      <span className="text-xs text-muted-foreground">Date:</span>
-                                      <input
-                                        type="text"
-                                        className="h-7 w-[70px] text-xs bg-transparent border-0 focus:outline-none"
-                                        placeholder="MM/YYYY"
-                                        value={subjectComments[subject.id]?.examDate || ''}
-                                        onChange={(e) => updateSubjectComment(subject.id, 'examDate', e.target.value)}
-                                      />
-                                    </div>
-                                  </div>
-                                  
-                                  <Textarea
-                                    placeholder="Overall comment for this subject..."
-                                    className="min-h-[70px] bg-background/80 text-sm"
-                                    value={subjectComments[subject.id]?.teacherComment || ''}
-                                    onChange={(e) => updateSubjectComment(subject.id, 'teacherComment', e.target.value)}
-                                  />
-
-                                  <div className="mt-2">
-                                    <AIRewriteButtons
-                                      sourceText={subjectComments[subject.id]?.teacherComment || ''}
-                                      aiRewrittenText={subjectComments[subject.id]?.aiRewrittenComment || ''}
-                                      loadingKey={`subject-${subject.id}`}
-                                      studentName={selectedStudent?.nameUsed || selectedStudent?.firstName || 'the student'}
-                                      onRewrite={callAIRewrite}
-                                      onRewriteComplete={(result) => updateSubjectComment(subject.id, 'aiRewrittenComment', result)}
-                                      onAccept={() => acceptSubjectAIComment(subject.id, subjectComments[subject.id]?.aiRewrittenComment || '')}
-                                      isLoading={isAILoading}
-                                      aiTextareaClassName="min-h-[70px]"
-                                      onAITextChange={(text) => updateSubjectComment(subject.id, 'aiRewrittenComment', text)}
-                                    />
-                                  </div>
-                                </div>
+                          />
+                          <CardHeader className="pb-3">
+                            <div className="flex items-start justify-between">
+                              <div>
+                                <CardTitle className="text-base">
+                                  {student
+                                    ? `${student.firstName} ${student.lastName}`
+                                    : 'Unknown Student'}
+                                </CardTitle>
+                                <CardDescription>
+                                  {assessment?.name || 'Unknown Assessment'}
+                                </CardDescription>
                               </div>
-                            </CollapsibleContent>
-                          </Collapsible>
-                        );
-                      })}
-
-                      {/* Exam Results Summary Section */}
-                      <ExamResultsSection
-                        examResults={computedExamResults}
-                        onUpdate={(id, updates) => {
-                          if (id.startsWith('gen-')) {
-                            // Update in subjectComments for generated results
-                            const subjectId = id.replace('gen-', '');
-                            if (updates.grade !== undefined) {
-                              updateSubjectComment(subjectId, 'examGrade', updates.grade);
-                            }
-                          } else {
-                            // Update manually added results
-                            setExamResults(examResults.map(e => e.id === id ? { ...e, ...updates } : e));
-                          }
-                        }}
-                        onDelete={(id) => {
-                          if (id.startsWith('gen-')) {
-                            // Clear grade in subjectComments for generated results
-                            const subjectId = id.replace('gen-', '');
-                            updateSubjectComment(subjectId, 'examGrade', '');
-                          } else {
-                            // Delete manually added results
-                            setExamResults(examResults.filter(e => e.id !== id));
-                          }
-                        }}
-                      />
-
-                      {/* Signature Section */}
-                      <SignatureSection
-                        signatures={signatures}
-                        classroomTeacherName={selectedStudent ? grades.find(g => g.id === selectedStudent.gradeId)?.classroomTeacher : ''}
-                        onSign={(role, name) => setSignatures({ ...signatures, [role]: { name, signedAt: new Date().toISOString() } })}
-                      />
-
-                      {/* Work Samples Section */}
-                      {editingReportId && (
-                        <Card className="mt-6">
-                          <CardHeader>
-                            <CardTitle className="text-base flex items-center gap-2">
-                              <Image className="h-5 w-5" />
-                              Work Samples
-                            </CardTitle>
-                            <CardDescription>
-                              Upload photos of student work (max 200KB per file)
-                            </CardDescription>
+                              <Badge variant={REPORT_STATUS_BADGE_VARIANTS[report.status]} className="gap-1">
+                                {isReportLocked(report) && <Lock className="h-3 w-3" />}
+                                {REPORT_STATUS_LABELS[report.status]}
+                              </Badge>
+                            </div>
                           </CardHeader>
                           <CardContent>
-                            <WorkSamplesSection
-                              reportId={editingReportId}
-                              studentId={selectedStudentId}
-                              documents={documents}
-                              onAddDocument={addDocument}
-                              onUpdateDocument={updateDocument}
-                              onDeleteDocument={deleteDocument}
-                            />
-                          </CardContent>
-                        </Card>
-                      )}
-
-                      {/* General Comment */}
-                      <Card className="mt-6">
-                        <CardHeader>
-                          <CardTitle className="text-base flex items-center gap-2">
-                            <MessageSquare className="h-5 w-5" />
-                            General Comment
-                          </CardTitle>
-                          <CardDescription>
-                            Overall feedback for the student's report
-                          </CardDescription>
-                        </CardHeader>
-                        <CardContent className="space-y-3">
-                          <Textarea
-                            placeholder="Write your overall feedback for the student..."
-                            className="min-h-[100px]"
-                            value={generalComment}
-                            onChange={(e) => setGeneralComment(e.target.value)}
-                          />
-
-                          <AIRewriteButtons
-                            sourceText={generalComment}
-                            aiRewrittenText={generalCommentAI}
-                            loadingKey="general"
-                            studentName={selectedStudent?.nameUsed || selectedStudent?.firstName || 'the student'}
-                            onRewrite={callAIRewrite}
-                            onRewriteComplete={setGeneralCommentAI}
-                            onAccept={acceptGeneralAIComment}
-                            isLoading={isAILoading}
-                            aiTextareaClassName="min-h-[100px]"
-                            onAITextChange={setGeneralCommentAI}
-                          />
-                        </CardContent>
-                      </Card>
-                    </div>
-                  )}
-
-                  {!selectedAssessment && selectedStudentId && (
-                    <Card className="border-dashed">
-                      <CardContent className="py-8 text-center text-muted-foreground">
-                        Select an assessment to fill out the report
-                      </CardContent>
-                    </Card>
-                  )}
-
-                  {activeStudents.length === 0 && (
-                    <Card className="border-dashed border-destructive/50">
-                      <CardContent className="py-8 text-center text-muted-foreground">
-                        No students found. Add students in the Students page first.
-                      </CardContent>
-                    </Card>
-                  )}
-
-                  <DialogFooter>
-                    <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
-                      Cancel
-                    </Button>
-                    <Button type="submit" disabled={!hasEntries} className="gap-2">
-                      <Save className="h-4 w-4" />
-                      Save Report
-                    </Button>
-                  </DialogFooter>
-                </form>
-              </Form>
-            </DialogContent>
-          </Dialog>
-        </div>
-
-        {/* Reports List */}
-        <div className="space-y-4">
-          {activeReports.length > 0 ? (
-            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
-              {activeReports.map((report, index) => {
-                const student = students.find((s) => s.id === report.studentId);
-                const assessment = assessmentTemplates.find(
-                  (a) => a.id === report.assessmentTemplateId
-                );
-                const grade = student ? getGradeInfo(student.gradeId) : null;
-
-                return (
-                  <motion.div
-                    key={report.id}
-                    initial={{ opacity: 0, scale: 0.95 }}
-                    animate={{ opacity: 1, scale: 1 }}
-                    transition={{ delay: index * 0.05 }}
-                  >
-                    <Card className="group cursor-pointer transition-all hover:shadow-lg">
-                      <div
-                        className="h-1.5 rounded-t-lg"
-                        style={{
-                          backgroundColor: grade
-                            ? `hsl(var(--grade-${grade.colorIndex}))`
-                            : 'hsl(var(--muted))',
-                        }}
-                      />
-                      <CardHeader className="pb-3">
-                        <div className="flex items-start justify-between">
-                          <div>
-                            <CardTitle className="text-base">
-                              {student
-                                ? `${student.firstName} ${student.lastName}`
-                                : 'Unknown Student'}
-                            </CardTitle>
-                            <CardDescription>
-                              {assessment?.name || 'Unknown Assessment'}
-                            </CardDescription>
-                          </div>
-                          <Badge
-                            variant={report.status === 'completed' ? 'default' : 'secondary'}
-                          >
-                            {report.status}
-                          </Badge>
-                        </div>
-                      </CardHeader>
-                      <CardContent>
-                        <div className="flex items-center justify-between text-sm text-muted-foreground">
-                          <span>{report.term}</span>
-                          <span>{report.entries.length} entries</span>
-                        </div>
-                        <div className="mt-3 flex items-center gap-2">
-                          <Button 
-                            variant="outline" 
-                            size="sm" 
-                            className="flex-1 gap-2"
-                            onClick={() => setViewingReport(report)}
-                          >
-                            <Eye className="h-3.5 w-3.5" />
-                            View
-                          </Button>
-                          <Button 
-                            variant="outline" 
-                            size="sm" 
-                            className="flex-1 gap-2"
-                            onClick={() => openEditDialog(report)}
-                          >
-                            <Pencil className="h-3.5 w-3.5" />
-                            Edit
-                          </Button>
-                        </div>
-                      </CardContent>
-                    </Card>
-                  </motion.div>
-                );
-              })}
-            </div>
-          ) : (
-            <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }}>
-              <Card className="border-dashed">
-                <CardContent className="flex flex-col items-center justify-center py-12 text-center">
-                  <FileText className="mb-4 h-12 w-12 text-muted-foreground/50" />
-                  <h3 className="mb-2 font-semibold">No reports yet</h3>
-                  <p className="mb-4 text-sm text-muted-foreground">
-                    Create your first student report to get started
-                  </p>
-                  <Button onClick={openCreateDialog} size="sm">
-                    <Plus className="mr-2 h-4 w-4" />
-                    New Report
-                  </Button>
-                </CardContent>
-              </Card>
-            </motion.div>
-          )}
-        </div>
-
-        {/* View Report Dialog - TISA Style */}
-        <Dialog open={!!viewingReport} onOpenChange={(open) => !open && setViewingReport(null)}>
-          <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto p-0 gap-0">
-            {viewingReport && (() => {
-              const reportStudent = students.find((s) => s.id === viewingReport.studentId);
-              const reportAssessment = assessmentTemplates.find((a) => a.id === viewingReport.assessmentTemplateId);
-              const reportGrade = reportStudent ? getGradeInfo(reportStudent.gradeId) : null;
-              const { appSettings } = useAppStore.getState();
-
-              return (
-                <div className="bg-card rounded-2xl overflow-hidden shadow-xl">
-                  {/* Premium Hero Header - Netflix/Apple Style */}
-                  <div className="relative bg-gradient-to-r from-tisa-purple via-tisa-purple/80 to-tisa-blue p-8 overflow-hidden">
-                    {/* Background glow effects */}
-                    <div className="absolute inset-0 bg-gradient-to-b from-white/5 to-transparent" />
-                    <div className="absolute -top-20 -right-20 w-60 h-60 bg-white/10 rounded-full blur-3xl" />
-                    <div className="absolute -bottom-10 -left-10 w-40 h-40 bg-tisa-purple/30 rounded-full blur-2xl" />
-                    
-                    <div className="relative flex items-center gap-6">
-                      {/* Student Photo - Larger with glow */}
-                      <div className="flex-shrink-0">
-                        {reportStudent?.avatarUrl ? (
-                          <div className="h-24 w-24 rounded-full overflow-hidden border-4 border-white/90 shadow-2xl ring-4 ring-white/20">
-                            <img 
-                              src={reportStudent.avatarUrl} 
-                              alt={`${reportStudent.firstName} ${reportStudent.lastName}`}
-                              className="h-full w-full object-cover"
-                            />
-                          </div>
-                        ) : (
-                          <div className="h-24 w-24 rounded-full bg-white/20 border-4 border-white/90 flex items-center justify-center shadow-2xl ring-4 ring-white/20 backdrop-blur-sm">
-                            <span className="text-2xl font-bold text-white">
-                              {reportStudent?.firstName?.[0]}{reportStudent?.lastName?.[0]}
-                            </span>
-                          </div>
-                        )}
-                      </div>
-                      
-                      {/* Title Section with enhanced typography */}
-                      <div className="text-left flex-1 space-y-2">
-                        <h1 className="font-display text-2xl md:text-3xl font-bold uppercase tracking-wider text-white drop-shadow-lg">
-                          {viewingReport.reportTitle || 'STUDENT PROGRESS REPORT'}
-                        </h1>
-                        <div className="flex items-center gap-3">
-                          <span className="bg-white/20 backdrop-blur-sm px-4 py-1.5 rounded-full text-sm font-semibold shadow-lg">
-                            {viewingReport.term}
-                          </span>
-                          {(viewingReport.periodStart || viewingReport.periodEnd) && (
-                            <span className="text-white/80 text-sm">
-                              {viewingReport.periodStart} — {viewingReport.periodEnd}
-                            </span>
-                          )}
-                        </div>
-                      </div>
-                      
-                      {/* Actions - refined styling */}
-                      <div className="flex items-center gap-4">
-                        <Button 
-                          variant="secondary" 
-                          size="sm" 
-                          className="gap-2 bg-white/20 hover:bg-white/30 text-white border border-white/20 backdrop-blur-sm shadow-lg transition-all duration-300 hover:scale-105"
-                          onClick={() => {
-                            const { updateReportShareToken } = useAppStore.getState();
-                            let token = viewingReport.shareToken;
-                            
-                            if (!token) {
-                              token = crypto.randomUUID();
-                              updateReportShareToken(viewingReport.id, token);
-                            }
-                            
-                            const shareUrl = `${window.location.origin}/report/${token}`;
-                            navigator.clipboard.writeText(shareUrl);
-                            setCopiedLink(true);
-                            setTimeout(() => setCopiedLink(false), 2000);
-                            toast.success('Link copied!');
-                          }}
-                        >
-                          {copiedLink ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
-                          {copiedLink ? 'Copied!' : 'Copy Link'}
-                        </Button>
-                        <div className="bg-white/10 backdrop-blur-sm rounded-xl p-2 shadow-lg">
-                          <img src={tisaLogo} alt="TISA Logo" className="h-16 w-auto" />
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-
-                  <div className="p-8 space-y-8">
-                    {/* Student & Teacher Info - Side by Side Cards */}
-                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-                      {/* Student Information Card - Full Width, No Header */}
-                      <div className="lg:col-span-2 bg-gradient-to-br from-background to-muted/30 rounded-2xl shadow-lg p-5 border border-border/50 transition-all duration-300 hover:shadow-xl">
-                        <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
-                          <div className="flex items-center gap-3">
-                            <div className="p-2 bg-tisa-blue/10 rounded-xl">
-                              <UserCircle className="h-5 w-5 text-tisa-blue" />
-                            </div>
-                            <div className="min-w-0">
-                              <p className="text-[10px] text-muted-foreground uppercase tracking-wide">Full Name</p>
-                              <p className="font-semibold text-sm">{reportStudent?.firstName} {reportStudent?.lastName}</p>
-                            </div>
-                          </div>
-                          <div className="flex items-center gap-3">
-                            <div className="p-2 bg-tisa-purple/10 rounded-xl">
-                              <Sparkles className="h-5 w-5 text-tisa-purple" />
-                            </div>
-                            <div className="min-w-0">
-                              <p className="text-[10px] text-muted-foreground uppercase tracking-wide">Name Used</p>
-                              <p className="font-medium text-sm">{reportStudent?.nameUsed || '-'}</p>
-                            </div>
-                          </div>
-                          <div className="flex items-center gap-3">
-                            <div className="p-2 bg-tisa-blue/10 rounded-xl">
-                              <GraduationCap className="h-5 w-5 text-tisa-blue" />
-                            </div>
-                            <div className="min-w-0">
-                              <p className="text-[10px] text-muted-foreground uppercase tracking-wide">Grade Level</p>
-                              <p className="font-medium text-sm">{reportGrade?.name}</p>
-                            </div>
-                          </div>
-                          <div className="flex items-center gap-3">
-                            <div className="p-2 bg-tisa-purple/10 rounded-xl">
-                              <Calendar className="h-5 w-5 text-tisa-purple" />
-                            </div>
-                            <div className="min-w-0">
-                              <p className="text-[10px] text-muted-foreground uppercase tracking-wide">Date of Birth</p>
-                              <p className="font-medium text-sm">
-                                {reportStudent?.dateOfBirth 
-                                  ? new Date(reportStudent.dateOfBirth).toLocaleDateString('en-GB', { day: '2-digit', month: '2-digit', year: 'numeric' })
-                                  : '-'}
+                            <div className="flex items-center justify-between text-sm text-muted-foreground">
+                              <span>{report.term}</span>
+                              <span>{report.entries.length} entries</span>
+                            </div>
+                            {editors.length > 0 && (
+                              <p className="mt-2 flex items-center gap-1.5 text-xs font-medium text-tisa-blue">
+                                <Pencil className="h-3 w-3" />
+                                {editors.join(', ')} {editors.length > 1 ? 'are' : 'is'} editing
                               </p>
-                            </div>
-                          </div>
-                        </div>
-                      </div>
-
-                      {/* Teacher Information Card */}
-                      {(reportGrade?.classroomTeacher || (reportGrade?.teacherAssignments && reportGrade.teacherAssignments.length > 0)) && (
-                        <div className="bg-gradient-to-br from-background to-muted/30 rounded-2xl shadow-lg p-6 border border-border/50 transition-all duration-300 hover:shadow-xl">
-                          <div className="flex items-center gap-3 mb-5">
-                            <div className="p-2.5 bg-tisa-purple/10 rounded-xl">
-                              <Users className="h-5 w-5 text-tisa-purple" />
-                            </div>
-                            <h3 className="font-semibold text-lg">Teacher Information</h3>
-                          </div>
-                          <div className="space-y-4">
-                            {/* Core Programme */}
-                            {((reportGrade.classroomTeacher) || (reportGrade.teacherAssignments && reportGrade.teacherAssignments.filter(a => a.category === 'core').length > 0)) && (
-                              <div>
-                                <p className="text-xs font-semibold text-tisa-purple uppercase tracking-wide mb-2 flex items-center gap-2">
-                                  <BookOpen className="h-3.5 w-3.5" />
-                                  Core Programme
-                                </p>
-                                <div className="space-y-2 pl-5">
-                                  {reportGrade.classroomTeacher && (
-                                    <div className="flex justify-between items-center py-1.5 border-b border-border/50">
-                                      <span className="text-sm text-muted-foreground">Classroom Teacher</span>
-                                      <span className="text-sm font-medium">{reportGrade.classroomTeacher}</span>
-                                    </div>
-                                  )}
-                                  {reportGrade.teacherAssignments?.filter(a => a.category === 'core').map((a) => (
-                                    <div key={a.id} className="flex justify-between items-center py-1.5 border-b border-border/50 last:border-0">
-                                      <span className="text-sm text-muted-foreground">{a.subject}</span>
-                                      <span className="text-sm font-medium">{a.teacher}</span>
-                                    </div>
-                                  ))}
-                                </div>
-                              </div>
-                            )}
-                            {/* Professional Tracks */}
-                            {reportGrade?.teacherAssignments && reportGrade.teacherAssignments.filter(a => a.category === 'professional').length > 0 && (
-                              <div>
-                                <p className="text-xs font-semibold text-tisa-blue uppercase tracking-wide mb-2 flex items-center gap-2">
-                                  <Briefcase className="h-3.5 w-3.5" />
-                                  Professional Tracks
-                                </p>
-                                <div className="space-y-2 pl-5">
-                                  {reportGrade.teacherAssignments.filter(a => a.category === 'professional').map((a) => (
-                                    <div key={a.id} className="flex justify-between items-center py-1.5 border-b border-border/50 last:border-0">
-                                      <span className="text-sm text-muted-foreground">{a.subject}</span>
-                                      <span className="text-sm font-medium">{a.teacher}</span>
-                                    </div>
-                                  ))}
-                                </div>
-                              </div>
                             )}
-                          </div>
-                        </div>
-                      )}
-                    </div>
-
-                    {/* School Mission, Vision & Values - 2x2 Grid */}
-                    {(appSettings.missionStatement || appSettings.vision || appSettings.statement || appSettings.values.length > 0) && (
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                        {appSettings.missionStatement && (
-                          <div className="bg-gradient-to-br from-tisa-purple/5 to-background rounded-2xl shadow-lg p-5 border border-tisa-purple/20 transition-all duration-300 hover:shadow-xl">
-                            <div className="flex items-center gap-2 mb-3">
-                              <div className="p-2 bg-tisa-purple/10 rounded-lg">
-                                <Target className="h-4 w-4 text-tisa-purple" />
-                              </div>
-                              <h4 className="font-semibold text-tisa-purple text-sm uppercase tracking-wide">Our Mission</h4>
-                            </div>
-                            <p className="text-sm text-foreground/80 italic leading-relaxed">{appSettings.missionStatement}</p>
-                          </div>
-                        )}
-                        {appSettings.vision && (
-                          <div className="bg-gradient-to-br from-tisa-blue/5 to-background rounded-2xl shadow-lg p-5 border border-tisa-blue/20 transition-all duration-300 hover:shadow-xl">
-                            <div className="flex items-center gap-2 mb-3">
-                              <div className="p-2 bg-tisa-blue/10 rounded-lg">
-                                <Eye className="h-4 w-4 text-tisa-blue" />
-                              </div>
-                              <h4 className="font-semibold text-tisa-blue text-sm uppercase tracking-wide">Our Vision</h4>
-                            </div>
-                            <ul className="text-sm text-foreground/80 leading-relaxed space-y-1.5">
-                              {appSettings.vision.split(/[•;]/).filter(v => v.trim()).map((point, i) => (
-                                <li key={i} className="flex items-start gap-2">
-                                  <span className="text-tisa-blue mt-0.5">•</span>
-                                  <span>{point.trim()}</span>
-                                </li>
-                              ))}
-                            </ul>
-                          </div>
-                        )}
-                        {appSettings.statement && (
-                          <div className="bg-gradient-to-br from-muted/30 to-background rounded-2xl shadow-lg p-5 border border-border/50 transition-all duration-300 hover:shadow-xl">
-                            <div className="flex items-center gap-2 mb-3">
-                              <div className="p-2 bg-muted rounded-lg">
-                                <FileText className="h-4 w-4 text-muted-foreground" />
-                              </div>
-                              <h4 className="font-semibold text-sm uppercase tracking-wide">Statement</h4>
-                            </div>
-                            <p className="text-sm text-foreground/80 whitespace-pre-line">{appSettings.statement}</p>
-                          </div>
-                        )}
-                        {appSettings.values.length > 0 && (
-                          <div className="bg-gradient-to-br from-tisa-purple/5 via-background to-tisa-blue/5 rounded-2xl shadow-lg p-5 border border-tisa-purple/20 transition-all duration-300 hover:shadow-xl">
-                            <div className="flex items-center gap-2 mb-3">
-                              <div className="p-2 bg-gradient-to-r from-tisa-purple/10 to-tisa-blue/10 rounded-lg">
-                                <Heart className="h-4 w-4 text-tisa-purple" />
-                              </div>
-                              <h4 className="font-semibold text-tisa-purple text-sm uppercase tracking-wide">Our Values</h4>
-                            </div>
-                            <div className="flex flex-wrap justify-center gap-4">
-                              {appSettings.values.map((value, i) => (
-                                <span 
-                                  key={i} 
-                                  className="inline-flex items-center px-4 py-1.5 rounded-full text-xs font-medium bg-gradient-to-r from-tisa-purple to-tisa-blue text-white shadow-sm transition-transform duration-200 hover:scale-105"
+                            <div className="mt-3 flex items-center gap-2">
+                              <Button 
+                                variant="outline" 
+                                size="sm" 
+                                className="flex-1 gap-2"
+                                onClick={() => navigate(getReportViewPath(report.id))}
+                              >
+                                <Eye className="h-3.5 w-3.5" />
+                                View
+                              </Button>
+                              {canEditGradeReports(profile, grade) && !isReportLocked(report) && (
+                                <Button 
+                                  variant="outline" 
+                                  size="sm" 
+                                  className="flex-1 gap-2"
+                                  onClick={() => navigate(getReportEditPath(report.id))}
                                 >
-                                  {value}
-                                </span>
-                              ))}
-                            </div>
-                          </div>
-                        )}
-                      </div>
-                    )}
-
-                    {/* Grading Key - Compact Elegant Card */}
-                    {appSettings.gradingKey && (
-                      <div className="bg-gradient-to-r from-star-filled/5 via-background to-star-filled/10 rounded-2xl shadow-lg p-5 border border-star-filled/20">
-                        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
-                          <div className="flex items-center gap-3">
-                            <div className="p-2 bg-star-filled/10 rounded-xl">
-                              <Star className="h-5 w-5 text-star-filled fill-star-filled" />
-                            </div>
-                            <h4 className="font-semibold">Learner Profile - Grading Key</h4>
-                          </div>
-                          <div className="flex flex-wrap gap-6 text-sm">
-                            <div className="flex items-center gap-2 bg-background/80 px-3 py-1.5 rounded-full shadow-sm">
-                              <span className="text-star-filled">⭐⭐⭐</span>
-                              <span className="text-muted-foreground font-medium">Mostly</span>
-                            </div>
-                            <div className="flex items-center gap-2 bg-background/80 px-3 py-1.5 rounded-full shadow-sm">
-                              <span className="text-star-filled">⭐⭐</span>
-                              <span className="text-muted-foreground font-medium">Usually</span>
-                            </div>
-                            <div className="flex items-center gap-2 bg-background/80 px-3 py-1.5 rounded-full shadow-sm">
-                              <span className="text-star-filled">⭐</span>
-                              <span className="text-muted-foreground font-medium">Rarely</span>
-                            </div>
-                          </div>
-                        </div>
-                      </div>
-                    )}
-
-                    {/* Subjects Filter Buttons */}
-                    <div className="flex items-center justify-between flex-wrap gap-2">
-                      <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wide">Subject Assessments</h3>
-                      <div className="flex items-center gap-2">
-                        <Button
-                          variant={starFilters.oneStar ? "default" : "outline"}
-                          size="sm"
-                          onClick={() => setStarFilters(prev => ({ ...prev, oneStar: !prev.oneStar }))}
-                          className="h-8 px-3 gap-1"
-                        >
-                          <Star className="h-3.5 w-3.5 fill-star-filled text-star-filled" />
-                          <span className="text-xs">1</span>
-                        </Button>
-                        <Button
-                          variant={starFilters.twoStars ? "default" : "outline"}
-                          size="sm"
-                          onClick={() => setStarFilters(prev => ({ ...prev, twoStars: !prev.twoStars }))}
-                          className="h-8 px-3 gap-1"
-                        >
-                          <Star className="h-3.5 w-3.5 fill-star-filled text-star-filled" />
-                          <span className="text-xs">2</span>
-                        </Button>
-                        <Button
-                          variant={starFilters.threeStars ? "default" : "outline"}
-                          size="sm"
-                          onClick={() => setStarFilters(prev => ({ ...prev, threeStars: !prev.threeStars }))}
-                          className="h-8 px-3 gap-1"
-                        >
-                          <Star className="h-3.5 w-3.5 fill-star-filled text-star-filled" />
-                          <span className="text-xs">3</span>
-                        </Button>
-                        <Button
-                          variant={starFilters.comments ? "default" : "outline"}
-                          size="sm"
-                          onClick={() => setStarFilters(prev => ({ ...prev, comments: !prev.comments }))}
-                          className="h-8 px-3 gap-1.5"
-                        >
-                          <Filter className="h-3.5 w-3.5" />
-                          <span className="text-xs">Comments</span>
-                        </Button>
-                      </div>
-                    </div>
-
-                    {/* Subjects and Assessment Points */}
-                    {reportAssessment?.subjects
-                      .filter((subject) => {
-                        const noFiltersActive = !starFilters.oneStar && !starFilters.twoStars && !starFilters.threeStars && !starFilters.comments;
-                        if (noFiltersActive) return true;
-                        
-                        const subjectEntries = viewingReport.entries.filter((e) => e.subjectId === subject.id);
-                        
-                        const hasOneStar = starFilters.oneStar && subjectEntries.some(e => e.stars === 1);
-                        const hasTwoStars = starFilters.twoStars && subjectEntries.some(e => e.stars === 2);
-                        const hasThreeStars = starFilters.threeStars && subjectEntries.some(e => e.stars === 3);
-                        
-                        const subjectComment = viewingReport.subjectComments?.find((c) => c.subjectId === subject.id);
-                        const hasComment = starFilters.comments && (subjectComment?.teacherComment || subjectComment?.aiRewrittenComment || subjectEntries.some((e) => e.teacherNotes || e.aiRewrittenText));
-                        
-                        return hasOneStar || hasTwoStars || hasThreeStars || hasComment;
-                      })
-                      .map((subject) => {
-                        const subjectEntries = viewingReport.entries.filter((e) => e.subjectId === subject.id);
-                        const subjectComment = viewingReport.subjectComments?.find((c) => c.subjectId === subject.id);
-
-                        return (
-                          <div key={subject.id} className="overflow-hidden rounded-lg border border-border">
-                            <div className="bg-tisa-blue text-white px-4 py-2 font-semibold text-sm uppercase tracking-wide flex items-center justify-between">
-                              <span>{subject.name}</span>
-                              {subjectComment?.attitudeTowardsLearning && (
-                                <span className="text-xs bg-white/20 px-2 py-0.5 rounded">
-                                  {subjectComment.attitudeTowardsLearning}
-                                </span>
+                                  <Pencil className="h-3.5 w-3.5" />
+                                  Edit
+                                </Button>
                               )}
                             </div>
-                            <div className="divide-y divide-border">
-                              {subject.assessmentPoints.map((point, idx) => {
-                                const entry = subjectEntries.find((e) => e.assessmentPointId === point.id);
-                                return (
-                                  <div 
-                                    key={point.id} 
-                                    className={`flex items-center justify-between px-4 py-2 ${idx % 2 === 0 ? 'bg-card' : 'bg-muted/20'}`}
-                                  >
-                                    <span className="text-sm text-foreground">{point.name}</span>
-                                    <StarRating value={entry?.stars || 0} max={point.maxStars} readonly size="sm" isNA={entry?.isNA} />
-                                  </div>
-                                );
-                              })}
-                            </div>
-                            {(subjectComment?.teacherComment || subjectComment?.aiRewrittenComment) && (
-                              <div className="border-t border-border bg-muted/30 px-4 py-3">
-                                <div className="flex items-center gap-2 mb-1 text-xs font-medium text-muted-foreground uppercase tracking-wide">
-                                  <MessageSquare className="h-3 w-3" />
-                                  Teacher Comment
-                                </div>
-                                <p className="text-sm text-foreground">{subjectComment.aiRewrittenComment || subjectComment.teacherComment}</p>
-                              </div>
-                            )}
-                          </div>
-                        );
-                      })}
-
-                    {/* Tests and Exams Results */}
-                    {viewingReport.examResults && viewingReport.examResults.length > 0 && (
-                      <ExamResultsDisplay examResults={viewingReport.examResults} />
-                    )}
-
-                    {/* General Comment */}
-                    {viewingReport.generalComment && (
-                      <div className="overflow-hidden rounded-lg border border-border">
-                        <div className="bg-tisa-purple text-white px-4 py-2 font-semibold text-sm uppercase tracking-wide">
-                          General Comment
-                        </div>
-                        <div className="p-4 bg-card">
-                          <p className="text-sm text-foreground leading-relaxed">{viewingReport.generalComment}</p>
-                        </div>
-                      </div>
-                    )}
-
-                    {/* Signatures */}
-                    <SignatureDisplay
-                      signatures={viewingReport.signatures}
-                      classroomTeacherName={(() => {
-                        const { grades, students } = useAppStore.getState();
-                        const student = students.find(s => s.id === viewingReport.studentId);
-                        const grade = grades.find(g => g.id === student?.gradeId);
-                        return grade?.classroomTeacher || '';
-                      })()}
-                      headOfSchoolName="Karina Medvedeva"
-                    />
+                          </CardContent>
+                        </Card>
+                      </motion.div>
+                    );
+                  })}
+                </div>
+              ) : (
+                <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }}>
+                  <Card className="border-dashed">
+                    <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+                      <FileText className="mb-4 h-12 w-12 text-muted-foreground/50" />
+                      <h3 className="mb-2 font-semibold">No reports yet</h3>
+                      <p className="mb-4 text-sm text-muted-foreground">
+                        Create your first student report to get started
+                      </p>
+                      <Button onClick={() => navigate(getNewReportPath())} size="sm">
+                        <Plus className="mr-2 h-4 w-4" />
+                        New Report
+                      </Button>
+                    </CardContent>
+                  </Card>
+                </motion.div>
+              )}
+            </div>
+          </TabsContent>
 
-                    {/* Footer */}
-                    <div className="border-t border-border pt-4 text-xs text-muted-foreground flex items-center justify-between">
-                      <span>Report created: {new Date(viewingReport.createdAt).toLocaleDateString('en-GB', { day: '2-digit', month: 'long', year: 'numeric' })}</span>
-                      <span>Last updated: {new Date(viewingReport.updatedAt).toLocaleDateString('en-GB', { day: '2-digit', month: 'long', year: 'numeric' })}</span>
-                    </div>
-                  </div>
+          <TabsContent value="completeness">
+            <ReportCompletenessMatrix onOpenReport={openReportAtSubject} />
+          </TabsContent>
+        </Tabs>
 
-                  <div className="border-t border-border p-4 bg-muted/30 flex justify-between items-center">
-                    <Button 
-                      variant="outline" 
-                      className="gap-2"
-                      onClick={() => {
-                        const { updateReportShareToken } = useAppStore.getState();
-                        let token = viewingReport.shareToken;
-                        
-                        if (!token) {
-                          token = crypto.randomUUID();
-                          updateReportShareToken(viewingReport.id, token);
-                        }
-                        
-                        const shareUrl = `${window.location.origin}/report/${token}`;
-                        navigator.clipboard.writeText(shareUrl);
-                        toast.success('Link copied! Share this with parents', {
-                          description: shareUrl,
-                        });
-                      }}
-                    >
-                      <Link className="h-4 w-4" />
-                      {viewingReport.shareToken ? 'Copy Share Link' : 'Share with Parents'}
-                    </Button>
-                    <Button variant="outline" onClick={() => setViewingReport(null)}>Close</Button>
-                  </div>
-                </div>
-              );
-            })()}
-          </DialogContent>
-        </Dialog>
+        <BatchExportDialog open={batchExportOpen} onOpenChange={setBatchExportOpen} />
       </div>
     </AppLayout>
   );
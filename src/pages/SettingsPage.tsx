@@ -1,16 +1,19 @@
 import { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Plus, Trash2, Calendar, Check, Building2, Target, Eye, Heart, X, Bot, Key, Sparkles } from 'lucide-react';
+import { Plus, Trash2, Calendar, Check, Building2, Target, Eye, Heart, X, Bot, Key, Sparkles, AlertTriangle, ArrowUpRight } from 'lucide-react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { AppLayout } from '@/components/layout/AppLayout';
+import { StaffCard } from '@/components/settings/StaffCard';
+import { RolloverWizard } from '@/components/settings/RolloverWizard';
 import { useAppStore } from '@/store/useAppStore';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
 import {
   Dialog,
   DialogContent,
@@ -36,6 +39,8 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { toast } from 'sonner';
+import { ATTITUDES, EXAM_GRADES, type Attitude } from '@/lib/gradeAnalytics';
+import type { EarlyWarningRuleId, EarlyWarningRules } from '@/types';
 
 const schoolYearFormSchema = z.object({
   name: z.string().min(1, 'Name is required'),
@@ -48,6 +53,7 @@ type SchoolYearFormValues = z.infer<typeof schoolYearFormSchema>;
 export default function SettingsPage() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [newValue, setNewValue] = useState('');
+  const [isRolloverOpen, setIsRolloverOpen] = useState(false);
   const { schoolYears, addSchoolYear, setActiveSchoolYear, activeSchoolYearId, appSettings, updateAppSettings } = useAppStore();
 
   const form = useForm<SchoolYearFormValues>({
@@ -85,6 +91,18 @@ export default function SettingsPage() {
     updateAppSettings({ values: newValues });
   };
 
+  const rules = appSettings.earlyWarningRules;
+  const updateRule = <K extends EarlyWarningRuleId>(rule: K, updates: Partial<EarlyWarningRules[K]>) => {
+    updateAppSettings({ earlyWarningRules: { ...rules, [rule]: { ...rules[rule], ...updates } } });
+  };
+
+  const toggleExamGrade = (grade: string) => {
+    const grades = rules.examGrade.grades.includes(grade)
+      ? rules.examGrade.grades.filter((g) => g !== grade)
+      : [...rules.examGrade.grades, grade];
+    updateRule('examGrade', { grades });
+  };
+
   return (
     <AppLayout>
       <div className="space-y-6 max-w-3xl">
@@ -315,6 +333,99 @@ export default function SettingsPage() {
           </CardContent>
         </Card>
 
+        {/* Early Warnings */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5" />
+              Early Warnings
+            </CardTitle>
+            <CardDescription>
+              Reports that meet a rule flag the student on the dashboard and their profile until a teacher acknowledges it.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-center gap-3 rounded-lg border border-border p-3">
+              <Switch
+                checked={rules.oneStarShare.enabled}
+                onCheckedChange={(enabled) => updateRule('oneStarShare', { enabled })}
+              />
+              <span className="text-sm">More than</span>
+              <Input
+                type="number"
+                min={1}
+                max={100}
+                className="h-8 w-20"
+                value={rules.oneStarShare.percent}
+                disabled={!rules.oneStarShare.enabled}
+                onChange={(e) =>
+                  updateRule('oneStarShare', { percent: Math.min(100, Math.max(1, Number(e.target.value) || 1)) })
+                }
+              />
+              <span className="text-sm">% of the rated points in a subject at one star</span>
+            </div>
+
+            <div className="space-y-2 rounded-lg border border-border p-3">
+              <div className="flex items-center gap-3">
+                <Switch
+                  checked={rules.examGrade.enabled}
+                  onCheckedChange={(enabled) => updateRule('examGrade', { enabled })}
+                />
+                <span className="text-sm">An exam graded</span>
+              </div>
+              <div className="flex flex-wrap gap-1.5 pl-12">
+                {EXAM_GRADES.map((grade) => (
+                  <Button
+                    key={grade}
+                    type="button"
+                    size="sm"
+                    variant={rules.examGrade.grades.includes(grade) ? 'default' : 'outline'}
+                    className="h-7 px-2.5"
+                    disabled={!rules.examGrade.enabled}
+                    onClick={() => toggleExamGrade(grade)}
+                  >
+                    {grade}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3 rounded-lg border border-border p-3">
+              <Switch
+                checked={rules.attitude.enabled}
+                onCheckedChange={(enabled) => updateRule('attitude', { enabled })}
+              />
+              <span className="text-sm">Attitude</span>
+              <Select
+                value={rules.attitude.attitude}
+                disabled={!rules.attitude.enabled}
+                onValueChange={(attitude: Attitude) => updateRule('attitude', { attitude })}
+              >
+                <SelectTrigger className="h-8 w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ATTITUDES.map((attitude) => (
+                    <SelectItem key={attitude} value={attitude}>
+                      {attitude}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="text-sm">in at least</span>
+              <Input
+                type="number"
+                min={1}
+                className="h-8 w-20"
+                value={rules.attitude.minSubjects}
+                disabled={!rules.attitude.enabled}
+                onChange={(e) => updateRule('attitude', { minSubjects: Math.max(1, Number(e.target.value) || 1) })}
+              />
+              <span className="text-sm">subjects</span>
+            </div>
+          </CardContent>
+        </Card>
+
         {/* School Years */}
         <Card>
           <CardHeader>
@@ -328,81 +439,87 @@ export default function SettingsPage() {
                   Manage school years. Assessments and students are organized by year.
                 </CardDescription>
               </div>
-              <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-                <DialogTrigger asChild>
-                  <Button size="sm" className="gap-2">
-                    <Plus className="h-4 w-4" />
-                    Add Year
-                  </Button>
-                </DialogTrigger>
-                <DialogContent>
-                  <DialogHeader>
-                    <DialogTitle>Add School Year</DialogTitle>
-                    <DialogDescription>
-                      Create a new school year for organizing assessments
-                    </DialogDescription>
-                  </DialogHeader>
-                  <Form {...form}>
-                    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                      <FormField
-                        control={form.control}
-                        name="name"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Display Name</FormLabel>
-                            <FormControl>
-                              <Input placeholder="e.g., 2025-2026" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      <div className="grid grid-cols-2 gap-4">
-                        <FormField
-                          control={form.control}
-                          name="startYear"
-                          render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>Start Year</FormLabel>
-                              <FormControl>
-                                <Input
-                                  type="number"
-                                  {...field}
-                                  onChange={(e) => field.onChange(Number(e.target.value))}
-                                />
-                              </FormControl>
-                              <FormMessage />
-                            </FormItem>
-                          )}
-                        />
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" className="gap-2" onClick={() => setIsRolloverOpen(true)}>
+                  <ArrowUpRight className="h-4 w-4" />
+                  Roll Over Students
+                </Button>
+                <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+                  <DialogTrigger asChild>
+                    <Button size="sm" className="gap-2">
+                      <Plus className="h-4 w-4" />
+                      Add Year
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent>
+                    <DialogHeader>
+                      <DialogTitle>Add School Year</DialogTitle>
+                      <DialogDescription>
+                        Create a new school year for organizing assessments
+                      </DialogDescription>
+                    </DialogHeader>
+                    <Form {...form}>
+                      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
                         <FormField
                           control={form.control}
-                          name="endYear"
+                          name="name"
                           render={({ field }) => (
                             <FormItem>
-                              <FormLabel>End Year</FormLabel>
+                              <FormLabel>Display Name</FormLabel>
                               <FormControl>
-                                <Input
-                                  type="number"
-                                  {...field}
-                                  onChange={(e) => field.onChange(Number(e.target.value))}
-                                />
+                                <Input placeholder="e.g., 2025-2026" {...field} />
                               </FormControl>
                               <FormMessage />
                             </FormItem>
                           )}
                         />
-                      </div>
-                      <DialogFooter>
-                        <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
-                          Cancel
-                        </Button>
-                        <Button type="submit">Add School Year</Button>
-                      </DialogFooter>
-                    </form>
-                  </Form>
-                </DialogContent>
-              </Dialog>
+                        <div className="grid grid-cols-2 gap-4">
+                          <FormField
+                            control={form.control}
+                            name="startYear"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Start Year</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    type="number"
+                                    {...field}
+                                    onChange={(e) => field.onChange(Number(e.target.value))}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={form.control}
+                            name="endYear"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>End Year</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    type="number"
+                                    {...field}
+                                    onChange={(e) => field.onChange(Number(e.target.value))}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </div>
+                        <DialogFooter>
+                          <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                            Cancel
+                          </Button>
+                          <Button type="submit">Add School Year</Button>
+                        </DialogFooter>
+                      </form>
+                    </Form>
+                  </DialogContent>
+                </Dialog>
+              </div>
             </div>
           </CardHeader>
           <CardContent className="space-y-2">
@@ -447,6 +564,11 @@ export default function SettingsPage() {
           </CardContent>
         </Card>
 
+        {isRolloverOpen && <RolloverWizard open onOpenChange={setIsRolloverOpen} />}
+
+        {/* Staff & Roles */}
+        <StaffCard />
+
         {/* Info Card */}
         <Card className="border-primary/20 bg-primary/5">
           <CardContent className="pt-6">
@@ -457,7 +579,7 @@ export default function SettingsPage() {
               using AI assistance.
             </p>
             <div className="mt-4 text-xs text-muted-foreground">
-              <p>Data is stored locally in your browser.</p>
+              <p>Data is stored in the shared school database.</p>
               <p className="mt-1">AI voice rewrite feature coming soon.</p>
             </div>
           </CardContent>
@@ -1,30 +1,110 @@
+import { useEffect, useState } from 'react';
 import { useParams } from 'react-router-dom';
-import { useAppStore } from '@/store/useAppStore';
+import { toast } from 'sonner';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
-import { Star, FileText } from 'lucide-react';
+import { Star, FileText, Loader2, Clock, Ban, WifiOff, RefreshCw } from 'lucide-react';
 import { ExamResultsDisplay } from '@/components/reports/ExamResultsDisplay';
 import { SignatureDisplay } from '@/components/reports/SignatureDisplay';
 import { ReflectionsSection } from '@/components/reports/ReflectionsSection';
 import { WorkSamplesDisplay } from '@/components/reports/WorkSamplesDisplay';
+import { useReportHash } from '@/hooks/use-report-hash';
+import { fetchSharedReport, saveSharedReflection, type SharedReportResult, type SharedReportSnapshot } from '@/lib/data/sharedReports';
+import type { ReportReflection } from '@/types';
 import tisaLogo from '@/assets/tisa_logo.png';
 
 export default function SharedReportPage() {
   const { shareToken } = useParams<{ shareToken: string }>();
-  const { reports, students, assessmentTemplates, grades, appSettings, updateReportReflection, documents } = useAppStore();
+  const [snapshot, setSnapshot] = useState<SharedReportSnapshot | null>(null);
+  // 'error' when the report could not be fetched at all, as opposed to a link the server does not know
+  const [linkStatus, setLinkStatus] = useState<SharedReportResult['status'] | 'error'>('not_found');
+  const [isLoading, setIsLoading] = useState(true);
+  // Bumped to fetch the report again after an error
+  const [loadAttempt, setLoadAttempt] = useState(0);
+  const reportHash = useReportHash(snapshot?.report);
 
-  // Find the report by share token
-  const report = reports.find((r) => r.shareToken === shareToken);
+  // The report is fetched from the server so the link works on any device
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    fetchSharedReport(shareToken || '')
+      .then((result) => {
+        if (cancelled) return;
+        setLinkStatus(result.status);
+        setSnapshot(result.status === 'ok' ? result.snapshot : null);
+      })
+      .catch((error) => {
+        console.error('Failed to load shared report:', error);
+        if (cancelled) return;
+        setLinkStatus('error');
+        setSnapshot(null);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [shareToken, loadAttempt]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center text-muted-foreground">
+        <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+        Loading report...
+      </div>
+    );
+  }
+
+  if (linkStatus === 'error') {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Card className="max-w-md">
+          <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+            <WifiOff className="mb-4 h-12 w-12 text-muted-foreground/50" />
+            <h3 className="mb-2 font-semibold text-xl">Report Could Not Be Loaded</h3>
+            <p className="mb-4 text-sm text-muted-foreground">
+              Something went wrong while loading this report. Check your connection and try again.
+            </p>
+            <Button size="sm" className="gap-2" onClick={() => setLoadAttempt((n) => n + 1)}>
+              <RefreshCw className="h-4 w-4" />
+              Try Again
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!snapshot) {
+    const unavailable = {
+      expired: {
+        icon: Clock,
+        title: 'Link Expired',
+        message: 'This report link has expired. Please ask the school for a new link.',
+      },
+      revoked: {
+        icon: Ban,
+        title: 'Link No Longer Active',
+        message: 'This report link has been withdrawn by the school. Please ask the school for a new link.',
+      },
+      not_found: {
+        icon: FileText,
+        title: 'Report Not Found',
+        message: 'This report link is not valid or the report is no longer available.',
+      },
+    }[linkStatus === 'ok' ? 'not_found' : linkStatus];
+    const Icon = unavailable.icon;
 
-  if (!report) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
         <Card className="max-w-md">
           <CardContent className="flex flex-col items-center justify-center py-12 text-center">
-            <FileText className="mb-4 h-12 w-12 text-muted-foreground/50" />
-            <h3 className="mb-2 font-semibold text-xl">Report Not Found</h3>
+            <Icon className="mb-4 h-12 w-12 text-muted-foreground/50" />
+            <h3 className="mb-2 font-semibold text-xl">{unavailable.title}</h3>
             <p className="text-sm text-muted-foreground">
-              This report link may have expired or is no longer available.
+              {unavailable.message}
             </p>
           </CardContent>
         </Card>
@@ -32,9 +112,9 @@ export default function SharedReportPage() {
     );
   }
 
-  const student = students.find((s) => s.id === report.studentId);
-  const assessment = assessmentTemplates.find((a) => a.id === report.assessmentTemplateId);
-  const grade = student ? grades.find((g) => g.id === student.gradeId) : null;
+  const { report, student, grade, documents, link } = snapshot;
+  const assessment = snapshot.template;
+  const appSettings = snapshot.settings;
 
   const renderStars = (count: number, max: number = 3, isNA?: boolean) => {
     if (isNA) {
@@ -56,8 +136,14 @@ export default function SharedReportPage() {
     );
   };
 
-  const handleUpdateReflection = (reflection: Parameters<typeof updateReportReflection>[1]) => {
-    updateReportReflection(report.id, reflection);
+  const handleUpdateReflection = async (reflection: Partial<ReportReflection>) => {
+    try {
+      const reflections = await saveSharedReflection(shareToken || '', reflection);
+      setSnapshot((prev) => (prev ? { ...prev, report: { ...prev.report, reflections } } : prev));
+    } catch (error) {
+      console.error('Failed to save reflection:', error);
+      toast.error('Failed to save your reflection. Please try again.');
+    }
   };
 
   return (
@@ -66,7 +152,8 @@ export default function SharedReportPage() {
         {/* View Only Badge */}
         <div className="flex justify-center py-3">
           <Badge variant="secondary" className="text-xs">
-            View Only — Shared Report
+            {link.scope === 'reflect' ? 'Shared Report' : 'View Only — Shared Report'}
+            {link.expiresAt && ` · Available until ${new Date(link.expiresAt).toLocaleDateString('en-GB')}`}
           </Badge>
         </div>
 
@@ -288,7 +375,7 @@ export default function SharedReportPage() {
 
             {/* Work Samples */}
             <WorkSamplesDisplay 
-              documents={documents.filter(d => d.type === 'report' && d.reportId === report.id)} 
+              documents={documents} 
             />
 
             {/* Reflections (Editable by parents/students) */}
@@ -296,6 +383,7 @@ export default function SharedReportPage() {
               reflections={report.reflections}
               onUpdate={handleUpdateReflection}
               isSharedView={true}
+              readOnly={link.scope !== 'reflect'}
             />
 
             {/* Signatures */}
@@ -303,6 +391,7 @@ export default function SharedReportPage() {
               signatures={report.signatures}
               classroomTeacherName={grade?.classroomTeacher}
               headOfSchoolName="Karina Medvedeva"
+              currentHash={reportHash}
             />
 
             {/* Footer */}
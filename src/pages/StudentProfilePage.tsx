@@ -0,0 +1,321 @@
+import { useMemo } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { AlertTriangle, ArrowLeft, ArrowRight, FileText, TrendingDown } from 'lucide-react';
+import { AppLayout } from '@/components/layout/AppLayout';
+import { useAppStore } from '@/store/useAppStore';
+import { buildStudentProgress } from '@/lib/studentProgress';
+import { findEarlyWarnings } from '@/lib/earlyWarnings';
+import { getEnrolments } from '@/lib/learners';
+import { REPORT_STATUS_BADGE_VARIANTS, REPORT_STATUS_LABELS } from '@/lib/reportWorkflow';
+import { getReportViewPath } from '@/lib/reportRoutes';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { StudentProgressChart } from '@/components/students/StudentProgressChart';
+import { WarningFlagItem } from '@/components/students/WarningFlagItem';
+
+// A student's reports over the years: early warnings, progress per subject and
+// learner profile attribute, exam results and the points that went down
+export default function StudentProfilePage() {
+  const { studentId } = useParams();
+  const { students, learners, reports, grades, assessmentTemplates, schoolYears, appSettings, warningFlagNotes } =
+    useAppStore();
+  const navigate = useNavigate();
+
+  const student = students.find((s) => s.id === studentId);
+  const grade = grades.find((g) => g.id === student?.gradeId);
+  const learner = learners.find((l) => l.id === student?.learnerId);
+  // The child's record in each school year; reports from all of them make up the profile
+  const enrolments = useMemo(() => getEnrolments(students, schoolYears, studentId), [students, schoolYears, studentId]);
+  const studentReports = useMemo(() => {
+    const enrolmentIds = new Set(enrolments.map((s) => s.id));
+    return reports.filter((r) => enrolmentIds.has(r.studentId));
+  }, [reports, enrolments]);
+  const progress = useMemo(
+    () => buildStudentProgress(studentReports, assessmentTemplates, schoolYears),
+    [studentReports, assessmentTemplates, schoolYears]
+  );
+  // Open flags first
+  const flags = useMemo(
+    () =>
+      findEarlyWarnings(studentReports, assessmentTemplates, appSettings.earlyWarningRules, warningFlagNotes).sort(
+        (a, b) => Number(a.acknowledged) - Number(b.acknowledged)
+      ),
+    [studentReports, assessmentTemplates, appSettings.earlyWarningRules, warningFlagNotes]
+  );
+
+  const backButton = (
+    <Button variant="ghost" size="sm" className="-ml-3 w-fit gap-1 text-muted-foreground" onClick={() => navigate('/students')}>
+      <ArrowLeft className="h-4 w-4" />
+      Students
+    </Button>
+  );
+
+  if (!student) {
+    return (
+      <AppLayout>
+        <div className="space-y-6">
+          {backButton}
+          <Card className="border-dashed">
+            <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+              <FileText className="mb-4 h-12 w-12 text-muted-foreground/50" />
+              <h3 className="mb-2 font-semibold">Student not found</h3>
+              <p className="text-sm text-muted-foreground">They may have been removed.</p>
+            </CardContent>
+          </Card>
+        </div>
+      </AppLayout>
+    );
+  }
+
+  const sortedReports = [...studentReports].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  const openFlagCount = flags.filter((f) => !f.acknowledged).length;
+
+  const reportLabel = (reportId: string) => {
+    const report = studentReports.find((r) => r.id === reportId);
+    const template = assessmentTemplates.find((a) => a.id === report?.assessmentTemplateId);
+    return [template?.name ?? 'Report', schoolYears.find((y) => y.id === report?.schoolYearId)?.name, report?.term]
+      .filter(Boolean)
+      .join(' · ');
+  };
+
+  return (
+    <AppLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="space-y-2">
+          {backButton}
+          <div className="flex items-center gap-4">
+            {student.avatarUrl ? (
+              <img
+                src={student.avatarUrl}
+                alt={`${student.firstName} ${student.lastName}`}
+                className="h-14 w-14 rounded-full object-cover"
+              />
+            ) : (
+              <div
+                className="flex h-14 w-14 items-center justify-center rounded-full text-lg font-medium text-primary-foreground"
+                style={{ backgroundColor: grade ? `hsl(var(--grade-${grade.colorIndex}))` : 'hsl(var(--muted-foreground))' }}
+              >
+                {student.firstName[0]}
+                {student.lastName[0]}
+              </div>
+            )}
+            <div>
+              <h1 className="font-display text-2xl font-bold">
+                {student.firstName} {student.lastName}
+              </h1>
+              <p className="text-muted-foreground">
+                {[
+                  learner?.studentNumber && `No. ${learner.studentNumber}`,
+                  student.nameUsed && `"${student.nameUsed}"`,
+                  grade?.name,
+                  schoolYears.find((y) => y.id === student.schoolYearId)?.name,
+                ]
+                  .filter(Boolean)
+                  .join(' · ')}
+              </p>
+              {enrolments.length > 1 && (
+                <div className="mt-2 flex flex-wrap gap-1.5">
+                  {enrolments.map((enrolment) => (
+                    <Button
+                      key={enrolment.id}
+                      variant={enrolment.id === student.id ? 'secondary' : 'outline'}
+                      size="sm"
+                      className="h-6 px-2 text-xs"
+                      onClick={() => navigate(`/students/${enrolment.id}`)}
+                    >
+                      {[
+                        schoolYears.find((y) => y.id === enrolment.schoolYearId)?.name,
+                        grades.find((g) => g.id === enrolment.gradeId)?.name,
+                      ]
+                        .filter(Boolean)
+                        .join(' · ')}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {flags.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <AlertTriangle className="h-5 w-5 text-destructive" />
+                Early Warnings
+                {openFlagCount > 0 && <Badge variant="destructive">{openFlagCount} open</Badge>}
+              </CardTitle>
+              <CardDescription>
+                Raised by the early-warning rules in Settings. Add follow-up notes and acknowledge a flag once it is being
+                dealt with.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {flags.map((flag) => (
+                <WarningFlagItem
+                  key={flag.key}
+                  flag={flag}
+                  reportLabel={reportLabel(flag.reportId)}
+                  onOpenReport={() => navigate(getReportViewPath(flag.reportId))}
+                />
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {progress.periods.length === 0 ? (
+          <Card className="border-dashed">
+            <CardContent className="flex flex-col items-center justify-center py-12 text-center">
+              <FileText className="mb-4 h-12 w-12 text-muted-foreground/50" />
+              <h3 className="mb-2 font-semibold">No ratings yet</h3>
+              <p className="text-sm text-muted-foreground">Progress appears here once a report has star ratings.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle>Subjects</CardTitle>
+                <CardDescription>Average stars per subject in each term. N/A and unrated points are left out.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <StudentProgressChart periods={progress.periods} series={progress.subjects} maxStars={progress.maxStars} />
+              </CardContent>
+            </Card>
+
+            {progress.learnerProfile.length > 0 && (
+              <Card className="lg:col-span-2">
+                <CardHeader>
+                  <CardTitle>Learner Profile</CardTitle>
+                  <CardDescription>Stars for each learner profile attribute over time.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <StudentProgressChart
+                    periods={progress.periods}
+                    series={progress.learnerProfile}
+                    maxStars={progress.maxStars}
+                  />
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <TrendingDown className="h-5 w-5 text-destructive" />
+                  Points That Went Down
+                </CardTitle>
+                <CardDescription>Points rated lower in their latest term than in the term before.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {progress.regressions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No point has gone down.</p>
+                ) : (
+                  <ul className="space-y-3">
+                    {progress.regressions.map((regression) => (
+                      <li
+                        key={`${regression.subjectName}:${regression.pointName}`}
+                        className="rounded-lg border border-destructive/20 bg-destructive/5 p-3"
+                      >
+                        <p className="text-sm font-medium">{regression.pointName}</p>
+                        <p className="text-xs text-muted-foreground">{regression.subjectName}</p>
+                        <p className="mt-1 flex flex-wrap items-center gap-1.5 text-xs">
+                          <span>
+                            {regression.before.stars}/{regression.maxStars} in {regression.before.period.label}
+                          </span>
+                          <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                          <span className="font-semibold text-destructive">
+                            {regression.after.stars}/{regression.maxStars} in {regression.after.period.label}
+                          </span>
+                        </p>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Exam Results</CardTitle>
+                <CardDescription>Graded exams from every report, oldest first.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {progress.examResults.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No exam grades yet.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Year</TableHead>
+                        <TableHead>Term</TableHead>
+                        <TableHead>Subject</TableHead>
+                        <TableHead className="text-right">Grade</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {progress.examResults.map((result) => (
+                        <TableRow key={result.id}>
+                          <TableCell className="text-xs text-muted-foreground">{result.schoolYearName}</TableCell>
+                          <TableCell className="text-xs">{result.term}</TableCell>
+                          <TableCell>
+                            <p className="text-sm">{result.subject}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {result.title}
+                              {result.date && ` · ${result.date}`}
+                            </p>
+                          </TableCell>
+                          <TableCell className="text-right font-semibold">{result.grade}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {sortedReports.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Reports</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {sortedReports.map((report) => (
+                <button
+                  key={report.id}
+                  type="button"
+                  onClick={() => navigate(getReportViewPath(report.id))}
+                  className="flex w-full items-center justify-between gap-4 rounded-lg border border-border px-3 py-2 text-left text-sm transition-colors hover:bg-muted/50"
+                >
+                  <span>
+                    <span className="font-medium">
+                      {assessmentTemplates.find((a) => a.id === report.assessmentTemplateId)?.name ?? 'Report'}
+                    </span>
+                    <span className="block text-xs text-muted-foreground">
+                      {schoolYears.find((y) => y.id === report.schoolYearId)?.name} · {report.term} · updated{' '}
+                      {format(new Date(report.updatedAt), 'd MMM yyyy')}
+                    </span>
+                  </span>
+                  <Badge variant={REPORT_STATUS_BADGE_VARIANTS[report.status]}>{REPORT_STATUS_LABELS[report.status]}</Badge>
+                </button>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </AppLayout>
+  );
+}
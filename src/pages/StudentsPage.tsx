@@ -1,12 +1,16 @@
 import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Plus, Pencil, Trash2, Users, Search, Camera, FolderOpen } from 'lucide-react';
+import { Plus, Pencil, Trash2, Users, Search, Camera, FolderOpen, LineChart, FileSpreadsheet } from 'lucide-react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { format } from 'date-fns';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { useAppStore } from '@/store/useAppStore';
+import { useAuthStore } from '@/store/useAuthStore';
+import { canManageStudents } from '@/lib/permissions';
+import { createLearner, findLearnerByNumber, getEnrolmentIds } from '@/lib/learners';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -23,6 +27,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -35,7 +40,9 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import type { Student } from '@/types';
 import { GeneralDocumentsSection } from '@/components/students/GeneralDocumentsSection';
+import { StudentImportDialog } from '@/components/students/StudentImportDialog';
 import { toast } from 'sonner';
 
 const studentFormSchema = z.object({
@@ -46,6 +53,7 @@ const studentFormSchema = z.object({
   gradeId: z.string().min(1, 'Please select a grade'),
   avatarUrl: z.string().optional(),
   gender: z.enum(['male', 'female']).optional(),
+  studentNumber: z.string().optional(),
 });
 
 type StudentFormValues = z.infer<typeof studentFormSchema>;
@@ -56,8 +64,11 @@ export default function StudentsPage() {
   const [searchQuery, setSearchQuery] = useState('');
   const [filterGrade, setFilterGrade] = useState<string>('all');
   const [documentsStudentId, setDocumentsStudentId] = useState<string | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
 
-  const { students, addStudent, updateStudent, deleteStudent, grades, activeSchoolYearId, documents, addDocument, deleteDocument, reports } = useAppStore();
+  const { students, learners, addStudent, updateStudent, updateLearner, deleteStudent, grades, activeSchoolYearId, documents, addDocument, deleteDocument, reports } = useAppStore();
+  const canManage = canManageStudents(useAuthStore((state) => state.profile));
+  const navigate = useNavigate();
 
   const form = useForm<StudentFormValues>({
     resolver: zodResolver(studentFormSchema),
@@ -69,6 +80,7 @@ export default function StudentsPage() {
       gradeId: '',
       avatarUrl: '',
       gender: undefined,
+      studentNumber: '',
     },
   });
 
@@ -95,7 +107,7 @@ export default function StudentsPage() {
   });
 
   const openCreateDialog = () => {
-    form.reset({ firstName: '', lastName: '', nameUsed: '', dateOfBirth: undefined, gradeId: '', avatarUrl: '', gender: undefined });
+    form.reset({ firstName: '', lastName: '', nameUsed: '', dateOfBirth: undefined, gradeId: '', avatarUrl: '', gender: undefined, studentNumber: '' });
     setEditingStudent(null);
     setIsDialogOpen(true);
   };
@@ -109,6 +121,7 @@ export default function StudentsPage() {
       gradeId: student.gradeId,
       avatarUrl: student.avatarUrl || '',
       gender: student.gender,
+      studentNumber: learners.find((l) => l.id === student.learnerId)?.studentNumber ?? '',
     });
     setEditingStudent(student.id);
     setIsDialogOpen(true);
@@ -125,15 +138,45 @@ export default function StudentsPage() {
       gender: data.gender,
     };
 
+    const studentNumber = data.studentNumber?.trim() ?? '';
+    const numberOwner = findLearnerByNumber(learners, studentNumber);
+
     if (editingStudent) {
+      const learnerId = students.find((s) => s.id === editingStudent)?.learnerId;
+      if (numberOwner && numberOwner.id !== learnerId) {
+        form.setError('studentNumber', { message: 'This number belongs to another student' });
+        return;
+      }
       updateStudent(editingStudent, studentData);
+      const learner = learners.find((l) => l.id === learnerId);
+      if (learner && (learner.studentNumber ?? '') !== studentNumber) {
+        updateLearner(learner.id, { studentNumber: studentNumber || undefined });
+      }
       toast.success('Student updated successfully');
-    } else {
+    } else if (numberOwner) {
+      // A returning child: the new enrolment joins their earlier years
+      if (students.some((s) => s.learnerId === numberOwner.id && s.schoolYearId === activeSchoolYearId)) {
+        form.setError('studentNumber', { message: 'A student with this number is already enrolled this year' });
+        return;
+      }
       addStudent({
         id: crypto.randomUUID(),
+        learnerId: numberOwner.id,
         ...studentData,
         schoolYearId: activeSchoolYearId!,
       });
+      toast.success('Student added and linked to their earlier school years');
+    } else {
+      const learner = createLearner(studentNumber);
+      addStudent(
+        {
+          id: crypto.randomUUID(),
+          learnerId: learner.id,
+          ...studentData,
+          schoolYearId: activeSchoolYearId!,
+        },
+        learner
+      );
       toast.success('Student added successfully');
     }
     setIsDialogOpen(false);
@@ -145,6 +188,8 @@ export default function StudentsPage() {
     toast.success('Student removed');
   };
 
+  const getStudentNumber = (student: Student) => learners.find((l) => l.id === student.learnerId)?.studentNumber;
+
   const getGradeInfo = (gradeId: string) => {
     return grades.find((g) => g.id === gradeId);
   };
@@ -166,203 +211,231 @@ export default function StudentsPage() {
               Manage students for the current school year
             </p>
           </div>
-          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-            <DialogTrigger asChild>
-              <Button onClick={openCreateDialog} className="gap-2">
-                <Plus className="h-4 w-4" />
-                Add Student
+          <div className="flex gap-2">
+            {canManage && (
+              <Button variant="outline" onClick={() => setIsImportOpen(true)} className="gap-2">
+                <FileSpreadsheet className="h-4 w-4" />
+                Import
               </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>{editingStudent ? 'Edit Student' : 'Add New Student'}</DialogTitle>
-                <DialogDescription>
-                  {editingStudent ? 'Update student information' : 'Register a new student'}
-                </DialogDescription>
-              </DialogHeader>
-              <Form {...form}>
-                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                  <div className="grid grid-cols-2 gap-4">
-                    <FormField
-                      control={form.control}
-                      name="firstName"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>First Name</FormLabel>
-                          <FormControl>
-                            <Input placeholder="Enter first name" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={form.control}
-                      name="lastName"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Last Name</FormLabel>
-                          <FormControl>
-                            <Input placeholder="Enter last name" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </div>
-                  {/* Nickname + Gender Row */}
-                  <div className="grid grid-cols-2 gap-4">
+            )}
+            <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+              {canManage && (
+                <DialogTrigger asChild>
+                  <Button onClick={openCreateDialog} className="gap-2">
+                    <Plus className="h-4 w-4" />
+                    Add Student
+                  </Button>
+                </DialogTrigger>
+              )}
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>{editingStudent ? 'Edit Student' : 'Add New Student'}</DialogTitle>
+                  <DialogDescription>
+                    {editingStudent ? 'Update student information' : 'Register a new student'}
+                  </DialogDescription>
+                </DialogHeader>
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="firstName"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>First Name</FormLabel>
+                            <FormControl>
+                              <Input placeholder="Enter first name" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="lastName"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Last Name</FormLabel>
+                            <FormControl>
+                              <Input placeholder="Enter last name" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    {/* Nickname + Gender Row */}
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="nameUsed"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Nickname</FormLabel>
+                            <FormControl>
+                              <Input placeholder="e.g., Adriana" {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="gender"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Gender</FormLabel>
+                            <Select value={field.value || ''} onValueChange={(val) => field.onChange(val || undefined)}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="male">Male</SelectItem>
+                                <SelectItem value="female">Female</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+
                     <FormField
                       control={form.control}
-                      name="nameUsed"
+                      name="studentNumber"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Nickname</FormLabel>
+                          <FormLabel>Student Number</FormLabel>
                           <FormControl>
-                            <Input placeholder="e.g., Adriana" {...field} />
+                            <Input placeholder="e.g., 2019-042" {...field} />
                           </FormControl>
+                          <FormDescription>
+                            Stays the same across school years. Entering the number of a former student links them to
+                            their earlier years.
+                          </FormDescription>
                           <FormMessage />
                         </FormItem>
                       )}
                     />
-                    <FormField
-                      control={form.control}
-                      name="gender"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Gender</FormLabel>
-                          <Select value={field.value || ''} onValueChange={(val) => field.onChange(val || undefined)}>
+
+                    {/* DOB + Grade Row */}
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="dateOfBirth"
+                        render={({ field }) => (
+                          <FormItem className="flex flex-col">
+                            <FormLabel>Date of Birth</FormLabel>
                             <FormControl>
-                              <SelectTrigger>
-                                <SelectValue placeholder="Select" />
-                              </SelectTrigger>
+                              <DatePicker
+                                value={field.value}
+                                onChange={field.onChange}
+                                placeholder="Select date"
+                                maxDate={new Date()}
+                                minDate={new Date("2005-01-01")}
+                              />
                             </FormControl>
-                            <SelectContent>
-                              <SelectItem value="male">Male</SelectItem>
-                              <SelectItem value="female">Female</SelectItem>
-                            </SelectContent>
-                          </Select>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </div>
-
-                  {/* DOB + Grade Row */}
-                  <div className="grid grid-cols-2 gap-4">
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="gradeId"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Grade</FormLabel>
+                            <Select value={field.value} onValueChange={field.onChange}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select grade" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {grades.map((grade) => (
+                                  <SelectItem key={grade.id} value={grade.id}>
+                                    <div className="flex items-center gap-2">
+                                      <div
+                                        className="h-3 w-3 rounded"
+                                        style={{ backgroundColor: `hsl(var(--grade-${grade.colorIndex}))` }}
+                                      />
+                                      {grade.name}
+                                    </div>
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    
+                    {/* Photo Upload */}
                     <FormField
                       control={form.control}
-                      name="dateOfBirth"
+                      name="avatarUrl"
                       render={({ field }) => (
-                        <FormItem className="flex flex-col">
-                          <FormLabel>Date of Birth</FormLabel>
+                        <FormItem>
+                          <FormLabel>Student Photo</FormLabel>
                           <FormControl>
-                            <DatePicker
-                              value={field.value}
-                              onChange={field.onChange}
-                              placeholder="Select date"
-                              maxDate={new Date()}
-                              minDate={new Date("2005-01-01")}
-                            />
+                            <div className="flex items-center gap-4">
+                              {field.value ? (
+                                <div className="relative h-16 w-16 rounded-full overflow-hidden border-2 border-border">
+                                  <img 
+                                    src={field.value} 
+                                    alt="Student" 
+                                    className="h-full w-full object-cover"
+                                  />
+                                </div>
+                              ) : (
+                                <div className="flex h-16 w-16 items-center justify-center rounded-full bg-muted border-2 border-dashed border-border">
+                                  <Camera className="h-6 w-6 text-muted-foreground" />
+                                </div>
+                              )}
+                              <div className="flex-1">
+                                <Input
+                                  type="file"
+                                  accept="image/*"
+                                  onChange={handlePhotoUpload}
+                                  className="cursor-pointer"
+                                />
+                                <p className="text-xs text-muted-foreground mt-1">
+                                  Upload a photo (optional)
+                                </p>
+                              </div>
+                              {field.value && (
+                                <Button
+                                  type="button"
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => form.setValue('avatarUrl', '')}
+                                  className="text-destructive hover:text-destructive"
+                                >
+                                  Remove
+                                </Button>
+                              )}
+                            </div>
                           </FormControl>
                           <FormMessage />
                         </FormItem>
                       )}
                     />
-                    <FormField
-                      control={form.control}
-                      name="gradeId"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Grade</FormLabel>
-                          <Select value={field.value} onValueChange={field.onChange}>
-                            <FormControl>
-                              <SelectTrigger>
-                                <SelectValue placeholder="Select grade" />
-                              </SelectTrigger>
-                            </FormControl>
-                            <SelectContent>
-                              {grades.map((grade) => (
-                                <SelectItem key={grade.id} value={grade.id}>
-                                  <div className="flex items-center gap-2">
-                                    <div
-                                      className="h-3 w-3 rounded"
-                                      style={{ backgroundColor: `hsl(var(--grade-${grade.colorIndex}))` }}
-                                    />
-                                    {grade.name}
-                                  </div>
-                                </SelectItem>
-                              ))}
-                            </SelectContent>
-                          </Select>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </div>
-                  
-                  {/* Photo Upload */}
-                  <FormField
-                    control={form.control}
-                    name="avatarUrl"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Student Photo</FormLabel>
-                        <FormControl>
-                          <div className="flex items-center gap-4">
-                            {field.value ? (
-                              <div className="relative h-16 w-16 rounded-full overflow-hidden border-2 border-border">
-                                <img 
-                                  src={field.value} 
-                                  alt="Student" 
-                                  className="h-full w-full object-cover"
-                                />
-                              </div>
-                            ) : (
-                              <div className="flex h-16 w-16 items-center justify-center rounded-full bg-muted border-2 border-dashed border-border">
-                                <Camera className="h-6 w-6 text-muted-foreground" />
-                              </div>
-                            )}
-                            <div className="flex-1">
-                              <Input
-                                type="file"
-                                accept="image/*"
-                                onChange={handlePhotoUpload}
-                                className="cursor-pointer"
-                              />
-                              <p className="text-xs text-muted-foreground mt-1">
-                                Upload a photo (optional)
-                              </p>
-                            </div>
-                            {field.value && (
-                              <Button
-                                type="button"
-                                variant="ghost"
-                                size="sm"
-                                onClick={() => form.setValue('avatarUrl', '')}
-                                className="text-destructive hover:text-destructive"
-                              >
-                                Remove
-                              </Button>
-                            )}
-                          </div>
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <DialogFooter>
-                    <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
-                      Cancel
-                    </Button>
-                    <Button type="submit">
-                      {editingStudent ? 'Save Changes' : 'Add Student'}
-                    </Button>
-                  </DialogFooter>
-                </form>
-              </Form>
-            </DialogContent>
-          </Dialog>
+                    <DialogFooter>
+                      <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                        Cancel
+                      </Button>
+                      <Button type="submit">
+                        {editingStudent ? 'Save Changes' : 'Add Student'}
+                      </Button>
+                    </DialogFooter>
+                  </form>
+                </Form>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
 
         {/* Filters */}
@@ -442,9 +515,13 @@ export default function StudentsPage() {
                                 </div>
                               )}
                               <div className="flex-1 min-w-0">
-                                <p className="font-medium truncate">
+                                <button
+                                  type="button"
+                                  className="block max-w-full truncate text-left font-medium hover:underline"
+                                  onClick={() => navigate(`/students/${student.id}`)}
+                                >
                                   {student.firstName} {student.lastName}
-                                </p>
+                                </button>
                                 {student.nameUsed && (
                                   <p className="text-xs text-muted-foreground truncate">
                                     "{student.nameUsed}"
@@ -452,6 +529,7 @@ export default function StudentsPage() {
                                 )}
                                 <p className="text-xs text-muted-foreground">
                                   {grade.name}
+                                  {getStudentNumber(student) && <> • No. {getStudentNumber(student)}</>}
                                   {student.dateOfBirth && (
                                     <> • {format(new Date(student.dateOfBirth), 'dd-MM-yyyy')}</>
                                   )}
@@ -462,27 +540,40 @@ export default function StudentsPage() {
                                   variant="ghost"
                                   size="icon"
                                   className="h-8 w-8"
-                                  onClick={() => setDocumentsStudentId(student.id)}
-                                  title="Documents"
+                                  onClick={() => navigate(`/students/${student.id}`)}
+                                  title="Progress"
                                 >
-                                  <FolderOpen className="h-3.5 w-3.5" />
+                                  <LineChart className="h-3.5 w-3.5" />
                                 </Button>
                                 <Button
                                   variant="ghost"
                                   size="icon"
                                   className="h-8 w-8"
-                                  onClick={() => openEditDialog(student)}
-                                >
-                                  <Pencil className="h-3.5 w-3.5" />
-                                </Button>
-                                <Button
-                                  variant="ghost"
-                                  size="icon"
-                                  className="h-8 w-8 text-destructive hover:bg-destructive/10"
-                                  onClick={() => handleDelete(student.id)}
+                                  onClick={() => setDocumentsStudentId(student.id)}
+                                  title="Documents"
                                 >
-                                  <Trash2 className="h-3.5 w-3.5" />
+                                  <FolderOpen className="h-3.5 w-3.5" />
                                 </Button>
+                                {canManage && (
+                                  <>
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      className="h-8 w-8"
+                                      onClick={() => openEditDialog(student)}
+                                    >
+                                      <Pencil className="h-3.5 w-3.5" />
+                                    </Button>
+                                    <Button
+                                      variant="ghost"
+                                      size="icon"
+                                      className="h-8 w-8 text-destructive hover:bg-destructive/10"
+                                      onClick={() => handleDelete(student.id)}
+                                    >
+                                      <Trash2 className="h-3.5 w-3.5" />
+                                    </Button>
+                                  </>
+                                )}
                               </div>
                             </div>
                           </CardContent>
@@ -508,12 +599,14 @@ export default function StudentsPage() {
                   <Users className="mb-4 h-12 w-12 text-muted-foreground/50" />
                   <h3 className="mb-2 font-semibold">No students yet</h3>
                   <p className="mb-4 text-sm text-muted-foreground">
-                    Add your first student to get started
+                    {canManage ? 'Add your first student to get started' : 'Students are added by the school office'}
                   </p>
-                  <Button onClick={openCreateDialog} size="sm">
-                    <Plus className="mr-2 h-4 w-4" />
-                    Add Student
-                  </Button>
+                  {canManage && (
+                    <Button onClick={openCreateDialog} size="sm">
+                      <Plus className="mr-2 h-4 w-4" />
+                      Add Student
+                    </Button>
+                  )}
                 </CardContent>
               </Card>
             </motion.div>
@@ -524,18 +617,21 @@ export default function StudentsPage() {
         {documentsStudentId && (
           <GeneralDocumentsSection
             studentId={documentsStudentId}
+            enrolmentIds={getEnrolmentIds(students, documentsStudentId)}
             studentName={(() => {
               const s = students.find(st => st.id === documentsStudentId);
               return s ? `${s.firstName} ${s.lastName}` : '';
             })()}
             documents={documents}
-            reports={reports.filter(r => r.studentId === documentsStudentId)}
+            reports={reports.filter(r => getEnrolmentIds(students, documentsStudentId).includes(r.studentId))}
             onAddDocument={(doc) => addDocument({ id: crypto.randomUUID(), ...doc })}
             onDeleteDocument={deleteDocument}
             isOpen={!!documentsStudentId}
             onOpenChange={(open) => !open && setDocumentsStudentId(null)}
           />
         )}
+
+        <StudentImportDialog open={isImportOpen} onOpenChange={setIsImportOpen} />
       </div>
     </AppLayout>
   );
@@ -1,46 +1,81 @@
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
-import type { SchoolYear, Grade, AssessmentTemplate, Student, StudentReport, AssessmentPoint, AppSettings, TeacherAssignment, ExamResult, ReportReflection, ReportSignature, StudentDocument } from '@/types';
+import { toast } from 'sonner';
+import type { SchoolYear, Grade, AssessmentTemplate, Learner, Student, StudentReport, AppSettings, ReportSignature, SignatureRole, StudentDocument, ReportShareLink, ShareLinkScope, StaffProfile, ReportStatus, ReportStatusEvent, WarningFlagNote } from '@/types';
+import { getShareLinkState } from '@/lib/shareLinks';
+import { computeReportHash } from '@/lib/reportSignatures';
+import { mergeReports, type ConflictChoice, type ReportSaveResult } from '@/lib/reportMerge';
+import { canManageSchool } from '@/lib/permissions';
+import { useAuthStore } from './useAuthStore';
+import { repository, type AppData } from '@/lib/data/repository';
+import type { ReportChange } from '@/lib/data/realtime';
+import { createSeedData, defaultAppSettings } from './seedData';
 
 interface AppState {
+  // Loading from the shared database
+  hasLoaded: boolean;
+  isLoading: boolean;
+  loadError: string | null;
+  loadData: () => Promise<void>;
+  clearData: () => void;
+
   // School Years
   schoolYears: SchoolYear[];
   activeSchoolYearId: string | null;
   addSchoolYear: (year: SchoolYear) => void;
   setActiveSchoolYear: (id: string) => void;
-  
+
   // Grades
   grades: Grade[];
   addGrade: (grade: Grade) => void;
   updateGrade: (id: string, grade: Partial<Grade>) => void;
   deleteGrade: (id: string) => void;
-  
+
   // Assessment Templates
   assessmentTemplates: AssessmentTemplate[];
   addAssessmentTemplate: (template: AssessmentTemplate) => void;
   updateAssessmentTemplate: (id: string, template: Partial<AssessmentTemplate>) => void;
   deleteAssessmentTemplate: (id: string) => void;
-  
-  // Students
+
+  // Students (one school year's enrolment of a learner)
+  learners: Learner[];
+  updateLearner: (id: string, updates: Partial<Pick<Learner, 'studentNumber'>>) => void;
   students: Student[];
-  addStudent: (student: Student) => void;
+  addStudent: (student: Student, newLearner?: Learner) => void;
+  addStudents: (students: Student[], newLearners?: Learner[]) => void;
   updateStudent: (id: string, student: Partial<Student>) => void;
   deleteStudent: (id: string) => void;
-  
+
   // Reports
   reports: StudentReport[];
   addReport: (report: StudentReport) => void;
-  updateReport: (id: string, report: Partial<StudentReport>) => void;
+  createReport: (report: StudentReport) => Promise<void>;
+  saveReportChanges: (
+    base: StudentReport,
+    mine: StudentReport,
+    sectionIds: string[],
+    resolutions?: Record<string, ConflictChoice>
+  ) => Promise<ReportSaveResult>;
   deleteReport: (id: string) => void;
-  updateReportShareToken: (id: string, token: string) => void;
-  getReportByShareToken: (token: string) => StudentReport | undefined;
-  
-  // Exam Results, Reflections, Signatures
-  addExamResult: (reportId: string, examResult: ExamResult) => void;
-  updateExamResult: (reportId: string, examResultId: string, updates: Partial<ExamResult>) => void;
-  deleteExamResult: (reportId: string, examResultId: string) => void;
-  updateReportReflection: (reportId: string, reflection: Partial<ReportReflection>) => void;
-  signReport: (reportId: string, role: 'classroomTeacher' | 'headOfSchool', name: string) => void;
+  receiveReportChange: (change: ReportChange) => void;
+
+  // Report workflow
+  statusEvents: ReportStatusEvent[];
+  // False when someone else changed the status first; the report is then reloaded
+  changeReportStatus: (reportId: string, status: ReportStatus, note?: string) => Promise<boolean>;
+
+  // Early warnings
+  warningFlagNotes: WarningFlagNote[];
+  addWarningFlagNote: (studentId: string, flagKey: string, note: string, acknowledged: boolean) => void;
+
+  // Share Links
+  shareLinks: ReportShareLink[];
+  createShareLink: (reportId: string, options: { scope: ShareLinkScope; expiresAt?: string }) => ReportShareLink;
+  revokeShareLink: (id: string) => void;
+  getActiveShareLink: (reportId: string) => ReportShareLink | undefined;
+
+  // Signatures
+  // False when the report changed since it was read; it is then reloaded to be read again
+  signReport: (reportId: string, role: SignatureRole) => Promise<boolean>;
 
   // Documents (Work Samples)
   documents: StudentDocument[];
@@ -50,688 +85,624 @@ interface AppState {
   getReportDocuments: (reportId: string) => StudentDocument[];
   getStudentGeneralDocuments: (studentId: string) => StudentDocument[];
 
+  // Staff
+  staffProfiles: StaffProfile[];
+  updateStaffProfile: (id: string, updates: Partial<Pick<StaffProfile, 'fullName' | 'role'>>) => void;
+
   // App Settings
   appSettings: AppSettings;
   updateAppSettings: (settings: Partial<AppSettings>) => void;
 }
 
-const generateId = () => crypto.randomUUID();
-
-// Default school year
-const defaultSchoolYear: SchoolYear = {
-  id: generateId(),
-  name: '2025-2026',
-  startYear: 2025,
-  endYear: 2026,
-  isActive: true,
-};
-
-// Grade 0-1 ID for reference
-const grade01Id = generateId();
-
-// Default grades with teacher assignments
-const defaultGrades: Grade[] = [
-  { 
-    id: grade01Id, 
-    name: 'Grade 0-1', 
-    description: 'Early Years', 
-    colorIndex: 0, 
-    order: 0,
-    classroomTeacher: 'Ms Carin',
-    teacherAssignments: [
-      { id: generateId(), subject: 'English', teacher: 'Ms Carin', category: 'core' },
-      { id: generateId(), subject: 'Math', teacher: 'Ms Carin', category: 'core' },
-      { id: generateId(), subject: 'Science', teacher: 'Ms Carin', category: 'core' },
-      { id: generateId(), subject: 'Social Studies', teacher: 'Ms Carin/Ms Natalia', category: 'core' },
-      { id: generateId(), subject: 'Dutch', teacher: 'Ms Carin', category: 'core' },
-      { id: generateId(), subject: 'Literature', teacher: 'Ms Carin/Ms Natalia', category: 'core' },
-      { id: generateId(), subject: 'Mental Math', teacher: 'Ms Carin', category: 'core' },
-      { id: generateId(), subject: 'Art', teacher: 'Ms Tetiana', category: 'core' },
-      { id: generateId(), subject: 'Drama', teacher: 'Ms Natalia', category: 'core' },
-      { id: generateId(), subject: 'Jiu Jitsu', teacher: 'Mr Sam', category: 'core' },
-      { id: generateId(), subject: 'STEAM, Robotics', teacher: 'Mr Roman', category: 'professional' },
-      { id: generateId(), subject: 'CAD, Music (Choir)', teacher: 'Ms Arina', category: 'professional' },
-      { id: generateId(), subject: 'CAD, Music (Piano)', teacher: 'Ms Arina', category: 'professional' },
-    ],
-  },
-  { id: generateId(), name: 'Grade 2-3', description: 'Lower Primary', colorIndex: 1, order: 1 },
-  { id: generateId(), name: 'Grade 4-5', description: 'Upper Primary', colorIndex: 2, order: 2 },
-];
-
-// Default app settings
-const defaultAppSettings: AppSettings = {
-  schoolName: 'TISA School',
-  missionStatement: 'At TISA School, we empower each student to achieve academic and holistic excellence, develop their natural talents, and become globally-minded citizens who are socially responsible and successful.',
-  statement: 'Tisa empowers each student to:\n• Respect themselves and others;\n• Develop a lifelong love of learning;\n• Contribute as a globally-minded citizen to achieve individual academic and holistic excellence.',
-  vision: 'We inspire student learning:\n• Through a dynamic and caring environment;\n• With innovative and effective instructional strategies;\n• In collaborative relationships.',
-  values: ['Respect', 'Integrity', 'Courage', 'Curiosity', 'Care'],
-  gradingKey: '⭐⭐⭐ - Mostly\n⭐⭐ - Usually\n⭐ - Rarely',
-  companyWritingStyle: '',
-  aiProvider: 'lovable',
-  openaiApiKey: '',
-  googleApiKey: '',
-  anthropicApiKey: '',
-};
-
-// Helper to create assessment points
-const createPoint = (name: string, maxStars: number = 3): AssessmentPoint => ({
-  id: generateId(),
-  name,
-  maxStars,
-});
+// Key used by the previous localStorage-only version of the app
+const LEGACY_STORAGE_KEY = 'tisa-assessment-storage';
 
-// Complete Grade 0-1 Assessment Template from TISA Report
-const grade01Template: AssessmentTemplate = {
-  id: generateId(),
-  gradeId: grade01Id,
-  schoolYearId: defaultSchoolYear.id,
-  name: 'Student Progress Report - Semester 1 (Terms 1 & 2)',
-  description: 'Complete assessment for Grade 0-1 covering all subjects and tracks',
-  subjects: [
-    // LEARNER PROFILE
-    {
-      id: generateId(),
-      name: 'Learner Profile (PYP Criteria)',
-      description: 'IB Primary Years Programme learner attributes',
-      assessmentPoints: [
-        createPoint('Communicator'),
-        createPoint('Thinker'),
-        createPoint('Inquirers'),
-        createPoint('Courageous'),
-        createPoint('Knowledgeable'),
-        createPoint('Principled'),
-        createPoint('Caring'),
-        createPoint('Open-minded'),
-        createPoint('Balanced'),
-        createPoint('Reflective'),
-      ],
-    },
-    // WORK HABITS
-    {
-      id: generateId(),
-      name: 'Work Habits',
-      description: 'Classroom behavior and learning habits',
-      assessmentPoints: [
-        createPoint('Displays enthusiasm in the classroom'),
-        createPoint('Exhibits self-discipline'),
-        createPoint('Participates in class discussions'),
-        createPoint('Follows class procedures and instructions'),
-        createPoint('Interacts well with peers'),
-        createPoint('Is attentive during classes'),
-        createPoint('Follows directions'),
-        createPoint('Is polite and courteous'),
-        createPoint('Is neatly dressed and follows dress code'),
-        createPoint('Independently works during self-study sessions'),
-        createPoint('Follows academic integrity'),
-      ],
-    },
-    // ENGLISH - TERM 1
-    {
-      id: generateId(),
-      name: 'English - Term 1',
-      description: 'English language skills for Term 1',
-      assessmentPoints: [
-        // Writing
-        createPoint('Writing: Trace letters'),
-        createPoint('Writing: Match letters to pictures'),
-        createPoint('Writing: Write missing parts of letters'),
-        createPoint('Writing: Listen and write sounds they hear'),
-        createPoint('Writing: Correct pencil grip'),
-        // Reading
-        createPoint('Reading: Listen to and recognise sounds'),
-        createPoint('Reading: Say the first sound they hear in a word'),
-        createPoint('Reading: Blend sounds together to make a full word'),
-        createPoint('Reading: Read simple words by themselves'),
-        createPoint('Reading: Match what they read to what it means'),
-        createPoint('Reading: Understands simple written text'),
-        // Speaking and listening
-        createPoint('Speaking: Listen carefully to instructions'),
-        createPoint('Speaking: Responds to questions clearly'),
-        createPoint('Speaking: Shares ideas or retell stories'),
-        createPoint('Speaking: Uses new vocabulary in conversation'),
-        // Viewing and presenting
-        createPoint('Viewing: Talks about what they see in pictures'),
-        createPoint('Viewing: Connects pictures to words or ideas'),
-        createPoint('Viewing: Draws or uses pictures to share ideas'),
-      ],
-    },
-    // ENGLISH - TERM 2
-    {
-      id: generateId(),
-      name: 'English - Term 2',
-      description: 'English language skills for Term 2',
-      assessmentPoints: [
-        // Writing
-        createPoint('Writing: Trace letters'),
-        createPoint('Writing: Listen to and write the sounds I hear'),
-        createPoint('Writing: Correct pencil grip'),
-        createPoint('Writing: Use sentence COPS (Capital letters, Organisation, Punctuation, Spacing) rules'),
-        // Reading
-        createPoint('Reading: Segment simple words into sounds'),
-        createPoint('Reading: Read and understand a sentence'),
-        createPoint('Reading: Match what they read to what it means'),
-        createPoint('Reading: Blend sounds together to make words'),
-        // Speaking and listening
-        createPoint('Speaking: Share ideas with peers'),
-        createPoint('Speaking: Listen to and add to stories'),
-        createPoint('Speaking: Talk clearly when telling a story to the class'),
-        // Viewing and presenting
-        createPoint('Viewing: Look carefully at pictures to understand ideas'),
-        createPoint('Viewing: Talk about what they see in pictures'),
-        createPoint('Viewing: Connect what they see to what they hear or read'),
-      ],
-    },
-    // MATH - TERM 1
-    {
-      id: generateId(),
-      name: 'Math - Term 1',
-      description: 'Mathematics skills for Term 1',
-      assessmentPoints: [
-        // Numbers and Counting
-        createPoint('Numbers: Recognise and trace numbers up to 50'),
-        createPoint('Numbers: Count objects or verbally from 1-10 and beyond'),
-        createPoint('Numbers: Match objects to numerals'),
-        // Shapes and Patterns
-        createPoint('Shapes: Recognize and name basic shapes'),
-        createPoint('Shapes: Identify and extend simple patterns'),
-        createPoint('Shapes: Sort objects by shape and color and understand simple spatial relationships'),
-      ],
-    },
-    // MATH - TERM 2
-    {
-      id: generateId(),
-      name: 'Math - Term 2',
-      description: 'Mathematics skills for Term 2',
-      assessmentPoints: [
-        // Measurement, Comparison and Comparing Quantities
-        createPoint('Measurement: Compare and describe objects as big or small'),
-        createPoint('Measurement: Identify and compare objects as long or short'),
-        createPoint('Measurement: Arrange objects or pictures from shortest to tallest'),
-        createPoint('Measurement: Compare groups to show which has more, less, or if they are equal'),
-        // Spatial Awareness and Positional Language
-        createPoint('Spatial: Understands and uses words like above, below, next to, behind, in front'),
-        createPoint('Spatial: Draw or place objects correctly to show spatial understanding'),
-      ],
-    },
-    // SCIENCE - TERM 1
-    {
-      id: generateId(),
-      name: 'Science - Term 1',
-      description: 'Light and Shadow, Sound',
-      assessmentPoints: [
-        createPoint('Understand that a shadow is formed when light hits an opaque object'),
-        createPoint('Understand that the shadow changes with the light source direction'),
-        createPoint('Explore how shadows change with object position'),
-        createPoint('Understand that sound is made by vibrations'),
-        createPoint('Test that sound is made by vibrations'),
-        createPoint('Show interest in the idea of visualizing vibrations'),
-      ],
-    },
-    // SCIENCE - TERM 2
-    {
-      id: generateId(),
-      name: 'Science - Term 2',
-      description: 'Animals and Plants',
-      assessmentPoints: [
-        createPoint('Understand the basic needs of animals'),
-        createPoint('Distinguish between animals that eat plants, meat, or both'),
-        createPoint('Recognize animals that live nearby and their habitats'),
-        createPoint('Understand that plants need sunlight, water, and soil'),
-        createPoint('Understand how environmental changes affect plants'),
-        createPoint('Understand that plants can look different to survive in different places'),
-      ],
-    },
-    // SOCIAL STUDIES - TERM 1
-    {
-      id: generateId(),
-      name: 'Social Studies - Term 1',
-      description: 'Who we are: Our characteristics and interests make us who we are',
-      assessmentPoints: [
-        createPoint('Talk about their identity'),
-        createPoint('Choose between their favorite ways to play'),
-        createPoint('Can build relationships with classmates'),
-        createPoint('Can reflect on themselves'),
-      ],
-    },
-    // SOCIAL STUDIES - TERM 2
-    {
-      id: generateId(),
-      name: 'Social Studies - Term 2',
-      description: 'Where we are in place and time: Previous generations help us understand the past',
-      assessmentPoints: [
-        createPoint('Identify and name family members'),
-        createPoint('Understand relationships between family members'),
-        createPoint('Express what is unique about their family'),
-        createPoint('Participate in group discussions about families'),
-        createPoint('Recognize that families can be similar or different'),
-      ],
-    },
-    // DUTCH - TERM 1
-    {
-      id: generateId(),
-      name: 'Dutch - Term 1',
-      description: 'Introduction to Dutch - Oral',
-      assessmentPoints: [
-        createPoint('Listen to and recognise sounds'),
-        createPoint('Say the first sound they hear in a word'),
-        createPoint('Blend sounds together to say a whole word'),
-        createPoint('Read simple words by themselves'),
-        createPoint('Match what they read to what it means'),
-      ],
-    },
-    // DUTCH - TERM 2
-    {
-      id: generateId(),
-      name: 'Dutch - Term 2',
-      description: 'Introduction to Dutch - Written',
-      assessmentPoints: [
-        createPoint('Trace letters'),
-        createPoint('Use sentence COPS (Capital letters, Organisation, Punctuation, Spacing) rules'),
-        createPoint('Read and understand the sentence'),
-        createPoint('Listen and write sounds they hear'),
-        createPoint('Hold their pencil carefully'),
-        createPoint('Read simple words by themselves'),
-        createPoint('Segment simple words'),
-        createPoint('Share their ideas with their friends'),
-        createPoint('Listen to their friends and add to ideas'),
-        createPoint('Talk clearly when they tell the story to the class'),
-      ],
-    },
-    // LITERATURE - TERM 1
-    {
-      id: generateId(),
-      name: 'Literature - Term 1',
-      description: 'Listening & Speaking',
-      assessmentPoints: [
-        createPoint('Listen and recall story events'),
-        createPoint('Show understanding of story order'),
-        createPoint('Connect emotions and friendship to the poem'),
-        createPoint('Recognise key story and poem words'),
-        createPoint('Express understanding of the texts'),
-      ],
-    },
-    // LITERATURE - TERM 2
-    {
-      id: generateId(),
-      name: 'Literature - Term 2',
-      description: 'Listening, Comprehension & Speaking Skills',
-      assessmentPoints: [
-        createPoint('Recall details from the story'),
-        createPoint('Arrange story events in the correct order'),
-        createPoint('Recall and recite a familiar rhyme'),
-        createPoint('Demonstrate understanding through drawing and verbal expression'),
-      ],
-    },
-    // MENTAL MATH - TERM 1
-    {
-      id: generateId(),
-      name: 'Mental Math - Term 1',
-      description: 'Abacus fundamentals',
-      assessmentPoints: [
-        createPoint('Abacus Knowledge'),
-        createPoint('Number Recognition'),
-        createPoint('Counting Objects'),
-        createPoint('Simple Addition/Subtraction'),
-        createPoint('Mental Visualization with Abacus'),
-      ],
-    },
-    // MENTAL MATH - TERM 2
-    {
-      id: generateId(),
-      name: 'Mental Math - Term 2',
-      description: 'Abacus skills development',
-      assessmentPoints: [
-        createPoint('Name parts of the abacus and what it is used for'),
-        createPoint('Recognise numbers up to 9 on the abacus'),
-        createPoint('Count objects and show it on the abacus using correct finger placement'),
-        createPoint('Add and subtract numbers up to 4 on the abacus using correct finger placement'),
-        createPoint('Use mental abacus skills with numbers up to four'),
-      ],
-    },
-    // VISUAL ARTS - TERM 1
-    {
-      id: generateId(),
-      name: 'Visual Arts - Term 1',
-      description: 'Lines, shapes, and observation',
-      assessmentPoints: [
-        createPoint('Can copy, recognise, and name different types of lines (straight, wavy, zigzag, curly)'),
-        createPoint('Can combine lines to create and identify basic shapes'),
-        createPoint('Understands the difference between geometric and organic shapes and uses them in artwork'),
-        createPoint('Can observe real objects and represent basic form, size, and simple details'),
-      ],
-    },
-    // VISUAL ARTS - TERM 2
-    {
-      id: generateId(),
-      name: 'Visual Arts - Term 2',
-      description: 'Drawing and colors',
-      assessmentPoints: [
-        createPoint('Can draw simple objects such as a tree, lantern, or animal'),
-        createPoint('Knows the main colours of the rainbow and can recognise them in artworks'),
-        createPoint('Can name and use warm and cold colours in painting'),
-        createPoint('Can mix primary colours to create simple secondary colours with guidance'),
-        createPoint('Knows how to use different art materials such as watercolours, gouache, soft pastels, and oil pastels'),
-      ],
-    },
-    // DRAMA - TERM 1
-    {
-      id: generateId(),
-      name: 'Drama - Term 1',
-      description: 'Expression and imagination',
-      assessmentPoints: [
-        createPoint('Body expression: Act given animals using body expression'),
-        createPoint('Reciting poetry: Recite nursery rhymes loudly and clearly'),
-        createPoint('Imagination: Turn a pencil into something else'),
-      ],
-    },
-    // DRAMA - TERM 2
-    {
-      id: generateId(),
-      name: 'Drama - Term 2',
-      description: 'Performance skills',
-      assessmentPoints: [
-        createPoint('Rehearsal and staging'),
-        createPoint('Performing on the stage'),
-        createPoint('Reciting poetry (Hug or War - S. Silverstein)'),
-      ],
-    },
-    // JIU JITSU - TERM 1 & 2
-    {
-      id: generateId(),
-      name: 'Jiu Jitsu',
-      description: 'Martial arts training',
-      assessmentPoints: [
-        createPoint('Term 1: Technical skills'),
-        createPoint('Term 1: Discipline and focus'),
-        createPoint('Term 1: Sportsmanship'),
-        createPoint('Term 2: Technical skills'),
-        createPoint('Term 2: Discipline and focus'),
-        createPoint('Term 2: Sportsmanship'),
-      ],
-    },
-    // ROBOTICS - TERM 1
-    {
-      id: generateId(),
-      name: 'Robotics - Term 1 (STEAM Track)',
-      description: 'Introduction to robotics',
-      assessmentPoints: [
-        createPoint('Knowledge of parts: Knows the names of parts very well'),
-        createPoint('Ability to assemble: Excellent assembly, with no teacher help'),
-        createPoint('Teamwork: Gets along well with a teammate, helps if necessary'),
-      ],
-    },
-    // ROBOTICS - TERM 2
-    {
-      id: generateId(),
-      name: 'Robotics - Term 2 (STEAM Track)',
-      description: 'Building and teamwork',
-      assessmentPoints: [
-        createPoint('Can assemble according to instructions with teacher help'),
-        createPoint('Ability to assemble: Excellent assembly, with no teacher help'),
-        createPoint('Teamwork: Gets along well with a teammate, helps if necessary'),
-      ],
-    },
-    // MUSIC / CHOIR - TERM 1
-    {
-      id: generateId(),
-      name: 'Music (Choir) - Term 1 (CAD Track)',
-      description: 'Vocal skills development',
-      assessmentPoints: [
-        createPoint('Creation and exploring of sound: Ability to hear sound and reproduce it clearly'),
-        createPoint('Simple vocal exercises: Legato and staccato performance'),
-        createPoint('Breathing technique: Ability to perform basic breathing exercises'),
-        createPoint('Diction and articulation: Clearly reproduce all consonant sounds'),
-        createPoint('Performance and stage attitude: High concentration and focus on stage'),
-      ],
-    },
-    // MUSIC / CHOIR - TERM 2
-    {
-      id: generateId(),
-      name: 'Music (Choir) - Term 2 (CAD Track)',
-      description: 'Advanced vocal skills',
-      assessmentPoints: [
-        createPoint('Creation and exploration of sound: Distinguish between high and low pitches'),
-        createPoint('Simple vocal exercises: Legato and staccato in simple melodies'),
-        createPoint('Breathing technique: Practice calm nasal inhalation and gentle exhalation'),
-        createPoint('Diction and articulation: Clear pronunciation of vowels and consonants'),
-        createPoint('Performance and stage attitude: Stand in formation, walk on stage, face the audience'),
-      ],
-    },
-    // UNITS OF INQUIRY
-    {
-      id: generateId(),
-      name: 'Units of Inquiry',
-      description: 'Transdisciplinary learning themes',
-      assessmentPoints: [
-        createPoint('Unit 1 (Who we are): Understanding self through play'),
-        createPoint('Unit 1: Build relationships through play'),
-        createPoint('Unit 2 (Where we are in place and time): Understand how previous generations help us learn about the past'),
-        createPoint('Unit 2: Shows curiosity about topics'),
-        createPoint('Unit 2: Participates in cross-subject exploration'),
-      ],
-    },
-  ],
-};
-
-export const useAppStore = create<AppState>()(
-  persist(
-    (set, get) => ({
-      // School Years
-      schoolYears: [defaultSchoolYear],
-      activeSchoolYearId: defaultSchoolYear.id,
-      
-      addSchoolYear: (year) =>
-        set((state) => ({
-          schoolYears: [...state.schoolYears, year],
-        })),
-      
-      setActiveSchoolYear: (id) =>
-        set((state) => ({
-          activeSchoolYearId: id,
-          schoolYears: state.schoolYears.map((y) => ({
-            ...y,
-            isActive: y.id === id,
-          })),
-        })),
-      
-      // Grades
-      grades: defaultGrades,
-      
-      addGrade: (grade) =>
-        set((state) => ({
-          grades: [...state.grades, grade],
-        })),
-      
-      updateGrade: (id, updates) =>
-        set((state) => ({
-          grades: state.grades.map((g) =>
-            g.id === id ? { ...g, ...updates } : g
-          ),
-        })),
-      
-      deleteGrade: (id) =>
-        set((state) => ({
-          grades: state.grades.filter((g) => g.id !== id),
-        })),
-      
-      // Assessment Templates
-      assessmentTemplates: [grade01Template],
-      
-      addAssessmentTemplate: (template) =>
-        set((state) => ({
-          assessmentTemplates: [...state.assessmentTemplates, template],
-        })),
-      
-      updateAssessmentTemplate: (id, updates) =>
-        set((state) => ({
-          assessmentTemplates: state.assessmentTemplates.map((t) =>
-            t.id === id ? { ...t, ...updates } : t
-          ),
-        })),
-      
-      deleteAssessmentTemplate: (id) =>
-        set((state) => ({
-          assessmentTemplates: state.assessmentTemplates.filter((t) => t.id !== id),
-        })),
-      
-      // Students
-      students: [],
-      
-      addStudent: (student) =>
-        set((state) => ({
-          students: [...state.students, student],
-        })),
-      
-      updateStudent: (id, updates) =>
-        set((state) => ({
-          students: state.students.map((s) =>
-            s.id === id ? { ...s, ...updates } : s
-          ),
-        })),
-      
-      deleteStudent: (id) =>
-        set((state) => ({
-          students: state.students.filter((s) => s.id !== id),
-        })),
-      
-      // Reports
-      reports: [],
-      
-      addReport: (report) =>
-        set((state) => ({
-          reports: [...state.reports, report],
-        })),
-      
-      updateReport: (id, updates) =>
-        set((state) => ({
-          reports: state.reports.map((r) =>
-            r.id === id ? { ...r, ...updates } : r
-          ),
-        })),
-      
-      deleteReport: (id) =>
-        set((state) => ({
-          reports: state.reports.filter((r) => r.id !== id),
-        })),
+// Settings are edited keystroke by keystroke, so their writes are debounced
+const SETTINGS_SAVE_DELAY_MS = 600;
+let settingsSaveTimer: ReturnType<typeof setTimeout> | undefined;
 
-      updateReportShareToken: (id, token) =>
-        set((state) => ({
-          reports: state.reports.map((r) =>
-            r.id === id ? { ...r, shareToken: token, sharedAt: new Date().toISOString() } : r
-          ),
-        })),
+// A merged report is written only if nobody saved in between; after this many
+// tries in a row the save gives up
+const REPORT_SAVE_ATTEMPTS = 3;
 
-      getReportByShareToken: (token) => {
-        return get().reports.find((r) => r.shareToken === token);
-      },
+/**
+ * Reads a dataset left in localStorage by the previous version of the app so
+ * it can be imported into an empty database. Records pointing at missing
+ * grades, years, students or templates are dropped to satisfy foreign keys.
+ */
+function readLegacyData(): Partial<AppData> | null {
+  try {
+    const raw = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!raw) return null;
+    const state = JSON.parse(raw)?.state;
+    if (!state?.schoolYears?.length) return null;
 
-      // Exam Results
-      addExamResult: (reportId, examResult) =>
-        set((state) => ({
-          reports: state.reports.map((r) =>
-            r.id === reportId
-              ? { ...r, examResults: [...(r.examResults || []), examResult], updatedAt: new Date().toISOString() }
-              : r
-          ),
-        })),
+    const schoolYears: SchoolYear[] = state.schoolYears;
+    const grades: Grade[] = state.grades || [];
+    const yearIds = new Set(schoolYears.map((y) => y.id));
+    const gradeIds = new Set(grades.map((g) => g.id));
+    const assessmentTemplates: AssessmentTemplate[] = (state.assessmentTemplates || []).filter(
+      (t: AssessmentTemplate) => yearIds.has(t.schoolYearId) && gradeIds.has(t.gradeId)
+    );
+    // Old records had no learners, so each one starts its own
+    const students: Student[] = (state.students || [])
+      .filter((s: Student) => yearIds.has(s.schoolYearId) && gradeIds.has(s.gradeId))
+      .map((s: Student) => ({ ...s, learnerId: s.learnerId ?? s.id }));
+    const learners: Learner[] = students.map((s) => ({ id: s.learnerId, createdAt: new Date().toISOString() }));
+    const templateIds = new Set(assessmentTemplates.map((t) => t.id));
+    const studentIds = new Set(students.map((s) => s.id));
+    const reports: StudentReport[] = (state.reports || []).filter(
+      (r: StudentReport) => studentIds.has(r.studentId) && templateIds.has(r.assessmentTemplateId) && yearIds.has(r.schoolYearId)
+    );
+    const documents: StudentDocument[] = (state.documents || []).filter(
+      (d: StudentDocument) => studentIds.has(d.studentId)
+    );
+    // Old reports carried a single never-expiring share token
+    const shareLinks: ReportShareLink[] = (reports as (StudentReport & { shareToken?: string; sharedAt?: string })[])
+      .filter((r) => r.shareToken)
+      .map((r) => ({
+        id: crypto.randomUUID(),
+        reportId: r.id,
+        token: r.shareToken,
+        scope: 'reflect',
+        createdAt: r.sharedAt || new Date().toISOString(),
+      }));
 
-      updateExamResult: (reportId, examResultId, updates) =>
-        set((state) => ({
-          reports: state.reports.map((r) =>
-            r.id === reportId
-              ? {
-                  ...r,
-                  examResults: (r.examResults || []).map((e) =>
-                    e.id === examResultId ? { ...e, ...updates } : e
-                  ),
-                  updatedAt: new Date().toISOString(),
-                }
-              : r
-          ),
-        })),
+    return {
+      schoolYears,
+      grades,
+      assessmentTemplates,
+      learners,
+      students,
+      reports,
+      documents,
+      shareLinks,
+      appSettings: { ...defaultAppSettings, ...(state.appSettings || {}) },
+    };
+  } catch (error) {
+    console.error('Failed to read legacy local data:', error);
+    return null;
+  }
+}
 
-      deleteExamResult: (reportId, examResultId) =>
-        set((state) => ({
-          reports: state.reports.map((r) =>
-            r.id === reportId
-              ? {
-                  ...r,
-                  examResults: (r.examResults || []).filter((e) => e.id !== examResultId),
-                  updatedAt: new Date().toISOString(),
-                }
-              : r
-          ),
-        })),
+export const useAppStore = create<AppState>()((set, get) => {
+  // Writes go to the database after the optimistic local update. If a write
+  // fails, the user is told and the local state is reloaded from the server.
+  const sync = (operation: Promise<void>, errorMessage: string) => {
+    operation.catch((error) => {
+      console.error(errorMessage, error);
+      toast.error(errorMessage);
+      get().loadData();
+    });
+  };
 
-      // Reflections
-      updateReportReflection: (reportId, reflection) =>
-        set((state) => ({
-          reports: state.reports.map((r) =>
-            r.id === reportId
-              ? {
-                  ...r,
-                  reflections: { ...(r.reflections || {}), ...reflection },
-                  updatedAt: new Date().toISOString(),
-                }
-              : r
-          ),
-        })),
+  // A new child's learner is written before their first enrolment, which references it
+  const saveWithLearners = (learners: Learner[], operation: () => Promise<void>) =>
+    learners.length ? repository.saveLearners(learners).then(operation) : operation();
 
-      // Signatures
-      signReport: (reportId, role, name) =>
-        set((state) => ({
-          reports: state.reports.map((r) =>
-            r.id === reportId
-              ? {
-                  ...r,
-                  signatures: {
-                    ...(r.signatures || {}),
-                    [role]: { name, signedAt: new Date().toISOString() },
-                  },
-                  updatedAt: new Date().toISOString(),
-                }
-              : r
-          ),
-        })),
 
-      // Documents (Work Samples)
-      documents: [],
+  // Status events reference the report, so they are written once the report is saved
+  const saveReport = (reportId: string, statusEvent?: ReportStatusEvent | null) => {
+    const report = get().reports.find((r) => r.id === reportId);
+    if (!report) return;
+    const operation = repository.saveReport(report);
+    sync(
+      statusEvent ? operation.then(() => repository.addStatusEvent(statusEvent)) : operation,
+      'Failed to save report'
+    );
+  };
 
-      addDocument: (doc) =>
-        set((state) => ({
-          documents: [...state.documents, doc],
-        })),
+  // Records who moved a report to a new status; null when nobody is signed in
+  const recordStatusEvent = (
+    reportId: string,
+    fromStatus: ReportStatus | undefined,
+    toStatus: ReportStatus,
+    note?: string
+  ): ReportStatusEvent | null => {
+    const profile = useAuthStore.getState().profile;
+    if (!profile) return null;
+    const event: ReportStatusEvent = {
+      id: crypto.randomUUID(),
+      reportId,
+      fromStatus,
+      toStatus,
+      changedBy: profile.id,
+      changedByName: profile.fullName,
+      note: note || undefined,
+      createdAt: new Date().toISOString(),
+    };
+    set((state) => ({ statusEvents: [...state.statusEvents, event] }));
+    return event;
+  };
+
+  // Applies a change to the latest copy of a report in the database and writes
+  // it only if nobody saved in between, reading it again when someone did.
+  // `change` returns null to leave the report as it is.
+  const updateLatestReport = async (
+    reportId: string,
+    change: (latest: StudentReport) => StudentReport | null | Promise<StudentReport | null>,
+    options: {
+      statusNote?: string;
+      write?: (report: StudentReport, expectedUpdatedAt: string) => Promise<boolean>;
+    } = {}
+  ) => {
+    const write = options.write ?? repository.saveReportIfUnchanged;
+    for (let attempt = 0; attempt < REPORT_SAVE_ATTEMPTS; attempt++) {
+      const latest = await repository.fetchReport(reportId);
+      if (!latest) throw new Error('The report no longer exists');
+      set((state) => ({
+        reports: state.reports.map((r) => (r.id === latest.id ? latest : r)),
+      }));
 
-      updateDocument: (id, updates) =>
+      const updated = await change(latest);
+      if (!updated) return null;
+      if (await write(updated, latest.updatedAt)) {
         set((state) => ({
-          documents: state.documents.map((d) =>
-            d.id === id ? { ...d, ...updates } : d
-          ),
+          reports: state.reports.map((r) => (r.id === updated.id ? updated : r)),
+        }));
+        if (updated.status !== latest.status) {
+          const event = recordStatusEvent(updated.id, latest.status, updated.status, options.statusNote);
+          if (event) sync(repository.addStatusEvent(event), 'Failed to record the status change');
+        }
+        return updated;
+      }
+    }
+    throw new Error('The report kept changing while saving');
+  };
+
+  return {
+    hasLoaded: false,
+    isLoading: false,
+    loadError: null,
+
+    loadData: async () => {
+      set({ isLoading: true, loadError: null });
+      try {
+        let data = await repository.fetchAll();
+
+        // First run against an empty database: import the old local data or seed defaults.
+        // Only an admin may write the school setup, so other staff just see an empty school.
+        if (data.schoolYears.length === 0 && canManageSchool(useAuthStore.getState().profile)) {
+          await repository.importData(readLegacyData() ?? createSeedData());
+          data = await repository.fetchAll();
+        }
+
+        const activeYear = data.schoolYears.find((y) => y.isActive) ?? data.schoolYears[0];
+        set({
+          ...data,
+          appSettings: data.appSettings ?? defaultAppSettings,
+          activeSchoolYearId: activeYear?.id ?? null,
+          hasLoaded: true,
+          isLoading: false,
+        });
+      } catch (error) {
+        console.error('Failed to load data:', error);
+        set({ isLoading: false, loadError: 'Could not load data from the server.' });
+      }
+    },
+
+    // Drops the loaded dataset (on sign-out) so the next user starts from a fresh load
+    clearData: () => {
+      clearTimeout(settingsSaveTimer);
+      set({
+        hasLoaded: false,
+        loadError: null,
+        schoolYears: [],
+        activeSchoolYearId: null,
+        grades: [],
+        assessmentTemplates: [],
+        learners: [],
+        students: [],
+        reports: [],
+        documents: [],
+        shareLinks: [],
+        statusEvents: [],
+        warningFlagNotes: [],
+        staffProfiles: [],
+        appSettings: defaultAppSettings,
+      });
+    },
+
+    // School Years
+    schoolYears: [],
+    activeSchoolYearId: null,
+
+    addSchoolYear: (year) => {
+      set((state) => ({
+        schoolYears: [...state.schoolYears, year],
+      }));
+      sync(repository.saveSchoolYears([year]), 'Failed to save school year');
+    },
+
+    setActiveSchoolYear: (id) => {
+      // Only admins change the school's current year; other staff just switch what they are viewing
+      if (!canManageSchool(useAuthStore.getState().profile)) {
+        set({ activeSchoolYearId: id });
+        return;
+      }
+      set((state) => ({
+        activeSchoolYearId: id,
+        schoolYears: state.schoolYears.map((y) => ({
+          ...y,
+          isActive: y.id === id,
         })),
+      }));
+      sync(repository.saveSchoolYears(get().schoolYears), 'Failed to change the active school year');
+    },
+
+    // Grades
+    grades: [],
+
+    addGrade: (grade) => {
+      set((state) => ({
+        grades: [...state.grades, grade],
+      }));
+      sync(repository.saveGrade(grade), 'Failed to save grade');
+    },
+
+    updateGrade: (id, updates) => {
+      set((state) => ({
+        grades: state.grades.map((g) =>
+          g.id === id ? { ...g, ...updates } : g
+        ),
+      }));
+      const grade = get().grades.find((g) => g.id === id);
+      if (grade) sync(repository.saveGrade(grade), 'Failed to save grade');
+    },
+
+    deleteGrade: (id) => {
+      set((state) => ({
+        grades: state.grades.filter((g) => g.id !== id),
+      }));
+      sync(repository.deleteGrade(id), 'Failed to delete grade. Remove its students and assessments first.');
+    },
+
+    // Assessment Templates
+    assessmentTemplates: [],
+
+    addAssessmentTemplate: (template) => {
+      set((state) => ({
+        assessmentTemplates: [...state.assessmentTemplates, template],
+      }));
+      sync(repository.saveAssessmentTemplate(template), 'Failed to save assessment');
+    },
+
+    updateAssessmentTemplate: (id, updates) => {
+      set((state) => ({
+        assessmentTemplates: state.assessmentTemplates.map((t) =>
+          t.id === id ? { ...t, ...updates } : t
+        ),
+      }));
+      const template = get().assessmentTemplates.find((t) => t.id === id);
+      if (template) sync(repository.saveAssessmentTemplate(template), 'Failed to save assessment');
+    },
+
+    deleteAssessmentTemplate: (id) => {
+      set((state) => ({
+        assessmentTemplates: state.assessmentTemplates.filter((t) => t.id !== id),
+      }));
+      sync(repository.deleteAssessmentTemplate(id), 'Failed to delete assessment. It is still used by reports.');
+    },
+
+    // Students
+    learners: [],
+
+    updateLearner: (id, updates) => {
+      set((state) => ({
+        learners: state.learners.map((l) => (l.id === id ? { ...l, ...updates } : l)),
+      }));
+      const learner = get().learners.find((l) => l.id === id);
+      if (learner) sync(repository.saveLearners([learner]), 'Failed to save the student number');
+    },
+
+    students: [],
+
+    addStudent: (student, newLearner) => {
+      set((state) => ({
+        learners: newLearner ? [...state.learners, newLearner] : state.learners,
+        students: [...state.students, student],
+      }));
+      sync(
+        saveWithLearners(newLearner ? [newLearner] : [], () => repository.saveStudent(student)),
+        'Failed to save student'
+      );
+    },
 
-      deleteDocument: (id) =>
+    // Bulk import writes all students in one request
+    addStudents: (newStudents, newLearners = []) => {
+      set((state) => ({
+        learners: [...state.learners, ...newLearners],
+        students: [...state.students, ...newStudents],
+      }));
+      sync(saveWithLearners(newLearners, () => repository.saveStudents(newStudents)), 'Failed to import students');
+    },
+
+    updateStudent: (id, updates) => {
+      set((state) => ({
+        students: state.students.map((s) =>
+          s.id === id ? { ...s, ...updates } : s
+        ),
+      }));
+      const student = get().students.find((s) => s.id === id);
+      if (student) sync(repository.saveStudent(student), 'Failed to save student');
+    },
+
+    deleteStudent: (id) => {
+      // Reports, documents and warning notes are removed by the database (on delete cascade)
+      set((state) => ({
+        students: state.students.filter((s) => s.id !== id),
+        reports: state.reports.filter((r) => r.studentId !== id),
+        documents: state.documents.filter((d) => d.studentId !== id),
+        warningFlagNotes: state.warningFlagNotes.filter((n) => n.studentId !== id),
+      }));
+      sync(repository.deleteStudent(id), 'Failed to delete student');
+    },
+
+    // Reports
+    reports: [],
+
+    addReport: (report) => {
+      set((state) => ({
+        reports: [...state.reports, report],
+      }));
+      saveReport(report.id, recordStatusEvent(report.id, undefined, report.status));
+    },
+
+    // Awaited insert for autosave and offline sync, which need to know the
+    // report exists before saving changes on top of it
+    createReport: async (report) => {
+      set((state) => ({
+        reports: [...state.reports.filter((r) => r.id !== report.id), report],
+      }));
+      try {
+        await repository.saveReport(report);
+      } catch (error) {
+        set((state) => ({ reports: state.reports.filter((r) => r.id !== report.id) }));
+        throw error;
+      }
+      const event = recordStatusEvent(report.id, undefined, report.status);
+      if (event) sync(repository.addStatusEvent(event), 'Failed to record the status change');
+    },
+
+    // Section saves from the report editor: merge into the latest copy in the
+    // database and write it back unless someone saved in the meantime
+    saveReportChanges: async (base, mine, sectionIds, resolutions) => {
+      for (let attempt = 0; attempt < REPORT_SAVE_ATTEMPTS; attempt++) {
+        const latest = await repository.fetchReport(base.id);
+        if (!latest) throw new Error('The report no longer exists');
         set((state) => ({
-          documents: state.documents.filter((d) => d.id !== id),
-        })),
+          reports: state.reports.map((r) => (r.id === latest.id ? latest : r)),
+        }));
+
+        const { merged, conflicts } = mergeReports(base, mine, latest, sectionIds, resolutions);
+        if (conflicts.length > 0) return { conflicts, latest };
 
-      getReportDocuments: (reportId) => {
-        return get().documents.filter((d) => d.type === 'report' && d.reportId === reportId);
-      },
+        // Signatures only hold for the content that was signed
+        if (merged.signatures && (await computeReportHash(merged)) !== (await computeReportHash(latest))) {
+          merged.signatures = undefined;
+        }
+        merged.updatedAt = new Date().toISOString();
 
-      getStudentGeneralDocuments: (studentId) => {
-        return get().documents.filter((d) => d.type === 'general' && d.studentId === studentId);
-      },
+        if (await repository.saveReportIfUnchanged(merged, latest.updatedAt)) {
+          set((state) => ({
+            reports: state.reports.map((r) => (r.id === merged.id ? merged : r)),
+          }));
+          if (merged.status !== latest.status) {
+            const event = recordStatusEvent(merged.id, latest.status, merged.status);
+            if (event) sync(repository.addStatusEvent(event), 'Failed to record the status change');
+          }
+          return { saved: merged, conflicts: [], latest };
+        }
+      }
+      throw new Error('The report kept changing while saving');
+    },
+
+    deleteReport: (id) => {
+      set((state) => ({
+        reports: state.reports.filter((r) => r.id !== id),
+        shareLinks: state.shareLinks.filter((l) => l.reportId !== id),
+        statusEvents: state.statusEvents.filter((e) => e.reportId !== id),
+      }));
+      sync(repository.deleteReport(id), 'Failed to delete report');
+    },
 
-      // App Settings
-      appSettings: defaultAppSettings,
-      
-      updateAppSettings: (settings) =>
+    // Saves and deletions by other staff, pushed over the realtime channel.
+    // Only applied locally; an older copy never replaces a newer one.
+    receiveReportChange: (change) => {
+      if (change.type === 'deleted') {
         set((state) => ({
-          appSettings: { ...state.appSettings, ...settings },
-        })),
-    }),
-    {
-      name: 'tisa-assessment-storage',
-    }
-  )
-);
+          reports: state.reports.filter((r) => r.id !== change.reportId),
+          shareLinks: state.shareLinks.filter((l) => l.reportId !== change.reportId),
+          statusEvents: state.statusEvents.filter((e) => e.reportId !== change.reportId),
+        }));
+        return;
+      }
+      const { report } = change;
+      set((state) => {
+        const existing = state.reports.find((r) => r.id === report.id);
+        if (!existing) return { reports: [...state.reports, report] };
+        if (Date.parse(existing.updatedAt) > Date.parse(report.updatedAt)) return {};
+        return { reports: state.reports.map((r) => (r.id === report.id ? report : r)) };
+      });
+    },
+
+    // Report workflow
+    statusEvents: [],
+
+    changeReportStatus: async (reportId, status, note) => {
+      const previous = get().reports.find((r) => r.id === reportId);
+      if (!previous || previous.status === status) return true;
+      const saved = await updateLatestReport(
+        reportId,
+        (latest) => {
+          // Someone else moved the report on, so the chosen transition may no longer apply
+          if (latest.status !== previous.status) return null;
+          // Reopening withdraws the head of school's sign-off; returning a report
+          // to draft withdraws both signatures since its content will change
+          const signatures: ReportSignature | undefined =
+            status === 'draft'
+              ? undefined
+              : latest.status === 'reviewed'
+                ? { classroomTeacher: latest.signatures?.classroomTeacher }
+                : latest.signatures;
+          return { ...latest, status, signatures, updatedAt: new Date().toISOString() };
+        },
+        { statusNote: note, write: repository.saveReportStatusIfUnchanged }
+      );
+      return !!saved;
+    },
+
+    // Early warnings
+    warningFlagNotes: [],
+
+    addWarningFlagNote: (studentId, flagKey, note, acknowledged) => {
+      const profile = useAuthStore.getState().profile;
+      if (!profile) return;
+      const flagNote: WarningFlagNote = {
+        id: crypto.randomUUID(),
+        studentId,
+        flagKey,
+        note: note.trim() || undefined,
+        acknowledged,
+        createdBy: profile.id,
+        createdByName: profile.fullName,
+        createdAt: new Date().toISOString(),
+      };
+      set((state) => ({ warningFlagNotes: [...state.warningFlagNotes, flagNote] }));
+      sync(repository.addWarningFlagNote(flagNote), 'Failed to save the note');
+    },
+
+    // Share Links
+    shareLinks: [],
+
+    createShareLink: (reportId, { scope, expiresAt }) => {
+      const now = new Date().toISOString();
+      const link: ReportShareLink = {
+        id: crypto.randomUUID(),
+        reportId,
+        token: crypto.randomUUID(),
+        scope,
+        expiresAt,
+        createdAt: now,
+      };
+      // A report has at most one working link, so creating a new one
+      // (regenerating) revokes whatever link was handed out before.
+      const revoked = get().shareLinks
+        .filter((l) => l.reportId === reportId && !l.revokedAt)
+        .map((l) => ({ ...l, revokedAt: now }));
+      set((state) => ({
+        shareLinks: [
+          ...state.shareLinks.map((l) => revoked.find((r) => r.id === l.id) ?? l),
+          link,
+        ],
+      }));
+      sync(repository.saveShareLinks([...revoked, link]), 'Failed to save share link');
+      return link;
+    },
+
+    revokeShareLink: (id) => {
+      set((state) => ({
+        shareLinks: state.shareLinks.map((l) =>
+          l.id === id ? { ...l, revokedAt: new Date().toISOString() } : l
+        ),
+      }));
+      const link = get().shareLinks.find((l) => l.id === id);
+      if (link) sync(repository.saveShareLinks([link]), 'Failed to revoke share link');
+    },
+
+    getActiveShareLink: (reportId) => {
+      return get().shareLinks.find((l) => l.reportId === reportId && getShareLinkState(l) === 'active');
+    },
+
+    // Signatures
+    signReport: async (reportId, role) => {
+      const profile = useAuthStore.getState().profile;
+      const report = get().reports.find((r) => r.id === reportId);
+      if (!profile || !report) return false;
+      const readHash = await computeReportHash(report);
+      const saved = await updateLatestReport(
+        reportId,
+        async (latest) => {
+          // The signature vouches for what the signer read, so a report changed
+          // by someone else in the meantime is shown again instead of signed
+          const contentHash = await computeReportHash(latest);
+          if (contentHash !== readHash) return null;
+          const signedAt = new Date().toISOString();
+          return {
+            ...latest,
+            // The head of school's signature is the review, which locks the report
+            status: role === 'headOfSchool' ? 'reviewed' : latest.status,
+            signatures: {
+              ...(latest.signatures || {}),
+              [role]: { name: profile.fullName, signedAt, signedBy: profile.id, contentHash },
+            },
+            updatedAt: signedAt,
+          };
+        },
+        { statusNote: 'Signed by the head of school' }
+      );
+      return !!saved;
+    },
+
+    // Documents (Work Samples)
+    documents: [],
+
+    addDocument: (doc) => {
+      set((state) => ({
+        documents: [...state.documents, doc],
+      }));
+      sync(repository.saveDocument(doc), 'Failed to save document');
+    },
+
+    updateDocument: (id, updates) => {
+      set((state) => ({
+        documents: state.documents.map((d) =>
+          d.id === id ? { ...d, ...updates } : d
+        ),
+      }));
+      const doc = get().documents.find((d) => d.id === id);
+      if (doc) sync(repository.saveDocument(doc), 'Failed to save document');
+    },
+
+    deleteDocument: (id) => {
+      set((state) => ({
+        documents: state.documents.filter((d) => d.id !== id),
+      }));
+      sync(repository.deleteDocument(id), 'Failed to delete document');
+    },
+
+    getReportDocuments: (reportId) => {
+      return get().documents.filter((d) => d.type === 'report' && d.reportId === reportId);
+    },
+
+    getStudentGeneralDocuments: (studentId) => {
+      return get().documents.filter((d) => d.type === 'general' && d.studentId === studentId);
+    },
+
+    // Staff
+    staffProfiles: [],
+
+    updateStaffProfile: (id, updates) => {
+      set((state) => ({
+        staffProfiles: state.staffProfiles.map((p) =>
+          p.id === id ? { ...p, ...updates } : p
+        ),
+      }));
+      const profile = get().staffProfiles.find((p) => p.id === id);
+      if (profile) sync(repository.saveStaffProfile(profile), 'Failed to save staff member');
+    },
+
+    // App Settings
+    appSettings: defaultAppSettings,
+
+    updateAppSettings: (settings) => {
+      set((state) => ({
+        appSettings: { ...state.appSettings, ...settings },
+      }));
+      clearTimeout(settingsSaveTimer);
+      settingsSaveTimer = setTimeout(() => {
+        sync(repository.saveAppSettings(get().appSettings), 'Failed to save settings');
+      }, SETTINGS_SAVE_DELAY_MS);
+    },
+  };
+});
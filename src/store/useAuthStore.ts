@@ -0,0 +1,63 @@
+import { create } from 'zustand';
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { repository } from '@/lib/data/repository';
+import type { StaffProfile } from '@/types';
+
+interface AuthState {
+  session: Session | null;
+  profile: StaffProfile | null;
+  isInitialized: boolean;
+  initialize: () => () => void;
+  signIn: (email: string, password: string) => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+export const useAuthStore = create<AuthState>()((set, get) => {
+  const loadProfile = async (session: Session | null) => {
+    if (!session) {
+      set({ session: null, profile: null, isInitialized: true });
+      return;
+    }
+    // Token refreshes keep the same user, so the profile does not need reloading
+    if (get().profile?.id === session.user.id) {
+      set({ session });
+      return;
+    }
+    try {
+      const profile = await repository.fetchStaffProfile(session.user.id);
+      set({ session, profile, isInitialized: true });
+    } catch (error) {
+      console.error('Failed to load staff profile:', error);
+      set({ session, profile: null, isInitialized: true });
+    }
+  };
+
+  return {
+    session: null,
+    profile: null,
+    isInitialized: false,
+
+    // Restores the stored session and follows sign-in/sign-out; returns the unsubscribe function
+    initialize: () => {
+      supabase.auth.getSession().then(({ data }) => loadProfile(data.session));
+      const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+        // Supabase warns against awaiting other client calls inside this callback
+        setTimeout(() => loadProfile(session), 0);
+      });
+      return () => data.subscription.unsubscribe();
+    },
+
+    signIn: async (email, password) => {
+      const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+      if (error) throw error;
+      await loadProfile(data.session);
+    },
+
+    signOut: async () => {
+      const { error } = await supabase.auth.signOut();
+      if (error) throw error;
+      set({ session: null, profile: null });
+    },
+  };
+});
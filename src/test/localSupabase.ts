@@ -0,0 +1,184 @@
+import { PGlite } from '@electric-sql/pglite';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/integrations/supabase/types';
+import type { StaffRole } from '@/types';
+
+/**
+ * A local stand-in for the Supabase project the tests can run without
+ * network: the migrations applied to an in-process Postgres, and a Supabase
+ * client whose REST requests are answered from it the way PostgREST would,
+ * as the signed-in staff member. Row-level security and triggers run as they
+ * do on the server. Only the parts of the REST API the repository uses are
+ * understood: select, insert, upsert, update and delete with eq filters and
+ * ordering.
+ */
+
+// The migrations in the order the Supabase CLI applies them
+const migrations = import.meta.glob<string>('/supabase/migrations/*.sql', {
+  query: '?raw',
+  import: 'default',
+  eager: true,
+});
+
+// What a Supabase project has before the first migration: the API roles, the
+// auth schema with auth.uid() and auth.role() read from the request's JWT
+// claims, and the realtime publication
+const SUPABASE_BOOTSTRAP = `
+  set timezone to 'UTC';
+  create role anon nologin;
+  create role authenticated nologin;
+  create role service_role nologin bypassrls;
+
+  create schema auth;
+  create table auth.users (
+    id uuid primary key,
+    email text,
+    raw_user_meta_data jsonb
+  );
+  create function auth.uid() returns uuid language sql stable as $$
+    select nullif(current_setting('request.jwt.claims', true)::jsonb ->> 'sub', '')::uuid
+  $$;
+  create function auth.role() returns text language sql stable as $$
+    select current_setting('request.jwt.claims', true)::jsonb ->> 'role'
+  $$;
+
+  grant usage on schema auth to anon, authenticated, service_role;
+  grant usage on schema public to anon, authenticated, service_role;
+  alter default privileges in schema public grant all on tables to anon, authenticated, service_role;
+  alter default privileges in schema public grant all on sequences to anon, authenticated, service_role;
+  alter default privileges in schema public grant all on functions to anon, authenticated, service_role;
+
+  create publication supabase_realtime;
+`;
+
+// Who the requests are made as
+export type LocalSession = { role: 'authenticated'; userId: string } | { role: 'anon' } | { role: 'service_role' };
+
+export async function createLocalDatabase() {
+  const db = new PGlite();
+  await db.exec(SUPABASE_BOOTSTRAP);
+  for (const path of Object.keys(migrations).sort()) {
+    await db.exec(migrations[path]);
+  }
+  return db;
+}
+
+// Adds a sign-in account. A trigger gives it a staff profile, whose name and
+// role are then set the way an admin sets them in Settings → Staff.
+export async function createLocalUser(db: PGlite, fullName: string, role: StaffRole) {
+  const id = crypto.randomUUID();
+  await db.query('insert into auth.users (id, email) values ($1, $2)', [id, `${id}@example.test`]);
+  await db.query('update public.staff_profiles set full_name = $2, role = $3 where id = $1', [id, fullName, role]);
+  return id;
+}
+
+export function createLocalClient(db: PGlite, session: LocalSession): SupabaseClient<Database> {
+  return createClient<Database>('http://localhost:54321', 'local-anon-key', {
+    auth: { persistSession: false, autoRefreshToken: false, detectSessionInUrl: false },
+    global: { fetch: (input, init) => handleRestRequest(db, session, new Request(input, init)) },
+  });
+}
+
+const RESERVED_PARAMS = ['select', 'order', 'columns', 'on_conflict'];
+
+const ident = (name: string) => {
+  if (!/^[a-z_][a-z0-9_]*$/.test(name)) throw new Error(`Unsupported identifier: ${name}`);
+  return `"${name}"`;
+};
+
+const columnList = (select: string | null, alias?: string) =>
+  !select || select === '*'
+    ? alias ? `${alias}.*` : '*'
+    : select.split(',').map((c) => (alias ? `${alias}.${ident(c)}` : ident(c))).join(', ');
+
+// "created_at.desc.nullslast" -> created_at desc nulls last
+const orderBy = (order: string | null) =>
+  order
+    ? ` order by ${order
+        .split(',')
+        .map((part) => {
+          const [column, direction = 'asc', nulls] = part.split('.');
+          return `${ident(column)} ${direction === 'desc' ? 'desc' : 'asc'}${nulls ? ` nulls ${nulls.slice(5)}` : ''}`;
+        })
+        .join(', ')}`
+    : '';
+
+// Only eq filters are used by the repository
+const whereClause = (params: URLSearchParams, values: unknown[], alias?: string) => {
+  const conditions = [...params.entries()]
+    .filter(([key]) => !RESERVED_PARAMS.includes(key))
+    .map(([column, filter]) => {
+      if (!filter.startsWith('eq.')) throw new Error(`Unsupported filter: ${column}=${filter}`);
+      values.push(filter.slice(3));
+      return `${alias ? `${alias}.` : ''}${ident(column)} = $${values.length}`;
+    });
+  return conditions.length > 0 ? ` where ${conditions.join(' and ')}` : '';
+};
+
+const asJson = (statement: string) => `with r as (${statement}) select coalesce(json_agg(r), '[]')::text as body from r`;
+
+async function handleRestRequest(db: PGlite, session: LocalSession, request: Request): Promise<Response> {
+  const url = new URL(request.url);
+  const table = `public.${ident(url.pathname.replace(/^\/rest\/v1\//, ''))}`;
+  const params = url.searchParams;
+  const prefer = request.headers.get('Prefer') ?? '';
+  const payload = ['POST', 'PATCH'].includes(request.method) ? JSON.parse(await request.text()) : undefined;
+
+  try {
+    const body = await db.transaction(async (tx) => {
+      const values: unknown[] = [];
+      let statement: string;
+
+      if (request.method === 'GET') {
+        statement = `select ${columnList(params.get('select'))} from ${table}${whereClause(params, values)}${orderBy(params.get('order'))}`;
+      } else if (request.method === 'POST') {
+        const rows: Record<string, unknown>[] = Array.isArray(payload) ? payload : [payload];
+        const columns = params.get('columns')?.replace(/"/g, '').split(',') ?? Object.keys(rows[0] ?? {});
+        values.push(JSON.stringify(rows));
+        statement = `insert into ${table} (${columns.map(ident).join(', ')}) select ${columns.map(ident).join(', ')} from json_populate_recordset(null::${table}, $1::json)`;
+        if (prefer.includes('resolution=')) {
+          const { rows: keyRows } = await tx.query<{ name: string }>(
+            `select a.attname::text as name from pg_index i
+             join pg_attribute a on a.attrelid = i.indrelid and a.attnum = any(i.indkey)
+             where i.indrelid = $1::regclass and i.indisprimary`,
+            [table]
+          );
+          const conflict = params.get('on_conflict')?.split(',') ?? keyRows.map((k) => k.name);
+          const updates = columns.filter((c) => !conflict.includes(c));
+          statement +=
+            prefer.includes('resolution=merge-duplicates') && updates.length > 0
+              ? ` on conflict (${conflict.map(ident).join(', ')}) do update set ${updates.map((c) => `${ident(c)} = excluded.${ident(c)}`).join(', ')}`
+              : ` on conflict (${conflict.map(ident).join(', ')}) do nothing`;
+        }
+        statement += ` returning ${columnList(params.get('select'))}`;
+      } else if (request.method === 'PATCH') {
+        values.push(JSON.stringify(payload));
+        statement = `update ${table} as target set ${Object.keys(payload).map((c) => `${ident(c)} = p.${ident(c)}`).join(', ')}
+          from json_populate_record(null::${table}, $1::json) as p${whereClause(params, values, 'target')}
+          returning ${columnList(params.get('select'), 'target')}`;
+      } else if (request.method === 'DELETE') {
+        statement = `delete from ${table}${whereClause(params, values)} returning ${columnList(params.get('select'))}`;
+      } else {
+        throw new Error(`Unsupported method: ${request.method}`);
+      }
+
+      // As the signed-in user, so row-level security and the triggers see them
+      const claims = { role: session.role, sub: session.role === 'authenticated' ? session.userId : undefined };
+      await tx.query(`select set_config('request.jwt.claims', $1, true)`, [JSON.stringify(claims)]);
+      await tx.exec(`set local role ${session.role}`);
+      const result = await tx.query<{ body: string }>(asJson(statement), values);
+      return result.rows[0].body;
+    });
+
+    if (request.method === 'GET' || prefer.includes('return=representation')) {
+      return new Response(body, { status: 200, headers: { 'Content-Type': 'application/json' } });
+    }
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    const { code, message, detail, hint } = error as { code?: string; message: string; detail?: string; hint?: string };
+    return new Response(JSON.stringify({ code, message, details: detail ?? null, hint: hint ?? null }), {
+      status: code === '42501' ? 403 : 400,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
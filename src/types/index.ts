@@ -61,15 +61,32 @@ export const assessmentTemplateSchema = z.object({
   name: z.string().min(1, 'Assessment name is required'),
   description: z.string().optional(),
   subjects: z.array(subjectSchema),
+  introText: z.string().optional(),
+  staticTexts: z.array(z.object({
+    key: z.string(),
+    title: z.string(),
+    content: z.string(),
+  })).optional(),
+  isArchived: z.boolean().optional(),
   schoolYearId: z.string(),
   createdAt: z.string().optional(),
 });
 
 export type AssessmentTemplate = z.infer<typeof assessmentTemplateSchema>;
 
+// Learner Schema (one child across school years; each Student is a year's enrolment)
+export const learnerSchema = z.object({
+  id: z.string(),
+  studentNumber: z.string().optional(), // The school's own student number, unique when set
+  createdAt: z.string(),
+});
+
+export type Learner = z.infer<typeof learnerSchema>;
+
 // Student Schema
 export const studentSchema = z.object({
   id: z.string(),
+  learnerId: z.string(),                // Links the child's enrolments across school years
   firstName: z.string().min(1, 'First name is required'),
   lastName: z.string().min(1, 'Last name is required'),
   nameUsed: z.string().optional(),
@@ -78,6 +95,7 @@ export const studentSchema = z.object({
   schoolYearId: z.string(),
   avatarUrl: z.string().optional(),
   gender: z.enum(['male', 'female']).optional(),
+  previousStudentId: z.string().optional(), // The same child's record in the previous school year, set by the rollover
 });
 
 export type Student = z.infer<typeof studentSchema>;
@@ -90,6 +108,7 @@ export const reportEntrySchema = z.object({
   isNA: z.boolean().optional(),
   teacherNotes: z.string().optional(),
   aiRewrittenText: z.string().optional(),
+  isPrefilled: z.boolean().optional(), // Copied from an earlier report and not confirmed yet
 });
 
 export type ReportEntry = z.infer<typeof reportEntrySchema>;
@@ -100,6 +119,7 @@ export const subjectCommentSchema = z.object({
   teacherComment: z.string().optional(),
   aiRewrittenComment: z.string().optional(),
   attitudeTowardsLearning: z.enum(['Emerging', 'Developing', 'Applying', 'Independent']).optional(),
+  isPrefilled: z.boolean().optional(), // Copied from an earlier report and not confirmed yet
 });
 
 export type SubjectComment = z.infer<typeof subjectCommentSchema>;
@@ -127,18 +147,24 @@ export const reportReflectionSchema = z.object({
 export type ReportReflection = z.infer<typeof reportReflectionSchema>;
 
 // Report Signature Schema (digital signatures with cursive display)
+// signedBy is the staff account that signed; contentHash fingerprints the
+// report content at signing time so later changes can be detected.
+export const signatureSchema = z.object({
+  name: z.string(),
+  signedAt: z.string(),
+  signedBy: z.string().optional(),
+  contentHash: z.string().optional(),
+});
+
+export type Signature = z.infer<typeof signatureSchema>;
+
 export const reportSignatureSchema = z.object({
-  classroomTeacher: z.object({
-    name: z.string(),
-    signedAt: z.string(),
-  }).optional(),
-  headOfSchool: z.object({
-    name: z.string(),
-    signedAt: z.string(),
-  }).optional(),
+  classroomTeacher: signatureSchema.optional(),
+  headOfSchool: signatureSchema.optional(),
 });
 
 export type ReportSignature = z.infer<typeof reportSignatureSchema>;
+export type SignatureRole = keyof ReportSignature;
 
 // Student Report Schema
 export const studentReportSchema = z.object({
@@ -154,8 +180,6 @@ export const studentReportSchema = z.object({
   subjectComments: z.array(subjectCommentSchema).optional(),
   generalComment: z.string().optional(),
   status: z.enum(['draft', 'completed', 'reviewed']).default('draft'),
-  shareToken: z.string().optional(),
-  sharedAt: z.string().optional(),
   // Phase 1: New fields for exam results, reflections, and signatures
   examResults: z.array(examResultSchema).optional(),
   reflections: reportReflectionSchema.optional(),
@@ -165,6 +189,109 @@ export const studentReportSchema = z.object({
 });
 
 export type StudentReport = z.infer<typeof studentReportSchema>;
+export type ReportStatus = StudentReport['status'];
+
+// Report Status Event Schema (append-only history of workflow changes)
+export const reportStatusEventSchema = z.object({
+  id: z.string(),
+  reportId: z.string(),
+  fromStatus: z.enum(['draft', 'completed', 'reviewed']).optional(), // Unset when the report was created
+  toStatus: z.enum(['draft', 'completed', 'reviewed']),
+  changedBy: z.string().optional(),     // Staff profile id
+  changedByName: z.string(),
+  note: z.string().optional(),
+  createdAt: z.string(),
+});
+
+export type ReportStatusEvent = z.infer<typeof reportStatusEventSchema>;
+
+// Report Audit Entry Schema (one changed item, written by a database trigger on every save)
+export const reportAuditEntrySchema = z.object({
+  id: z.string(),
+  reportId: z.string(),
+  action: z.enum(['insert', 'update', 'delete']),
+  field: z.enum([
+    'report',
+    'details',
+    'entry',
+    'subject_comment',
+    'general_comment',
+    'exam_result',
+    'status',
+    'signatures',
+    'reflections',
+  ]),
+  itemKey: z.string().optional(),       // "subjectId:assessmentPointId", subject id or exam result id
+  oldValue: z.unknown().optional(),
+  newValue: z.unknown().optional(),
+  changedBy: z.string().optional(),     // Staff profile id
+  changedByName: z.string(),
+  changedAt: z.string(),
+});
+
+export type ReportAuditEntry = z.infer<typeof reportAuditEntrySchema>;
+export type ReportAuditField = ReportAuditEntry['field'];
+
+// Report Version Schema (snapshot of a report's content after a save, written by a database trigger)
+export const reportVersionSchema = z.object({
+  id: z.string(),
+  reportId: z.string(),
+  versionNumber: z.number(),
+  report: studentReportSchema,
+  savedBy: z.string().optional(),       // Staff profile id
+  savedByName: z.string(),
+  savedAt: z.string(),
+});
+
+export type ReportVersion = z.infer<typeof reportVersionSchema>;
+
+// Report Share Link Schema (parent-facing link to a single report)
+export const reportShareLinkSchema = z.object({
+  id: z.string(),
+  reportId: z.string(),
+  token: z.string(),
+  scope: z.enum(['view', 'reflect']).default('reflect'), // 'reflect' lets parents/students write reflections
+  expiresAt: z.string().optional(),     // ISO date; no expiry when unset
+  revokedAt: z.string().optional(),     // ISO date; set when a teacher revokes or regenerates the link
+  createdAt: z.string(),
+});
+
+export type ReportShareLink = z.infer<typeof reportShareLinkSchema>;
+export type ShareLinkScope = ReportShareLink['scope'];
+
+// Early Warning Rules Schema (school-wide thresholds for flagging students at risk)
+export const earlyWarningRulesSchema = z.object({
+  oneStarShare: z.object({
+    enabled: z.boolean(),
+    percent: z.number().min(1).max(100), // A subject is flagged when more of its rated points than this got one star
+  }),
+  examGrade: z.object({
+    enabled: z.boolean(),
+    grades: z.array(z.string()),         // Exam grades that raise a flag, e.g. D and F
+  }),
+  attitude: z.object({
+    enabled: z.boolean(),
+    attitude: z.enum(['Emerging', 'Developing', 'Applying', 'Independent']),
+    minSubjects: z.number().min(1),      // How many subjects must show that attitude
+  }),
+});
+
+export type EarlyWarningRules = z.infer<typeof earlyWarningRulesSchema>;
+export type EarlyWarningRuleId = keyof EarlyWarningRules;
+
+// Warning Flag Note Schema (append-only follow-up notes and acknowledgements on an early-warning flag)
+export const warningFlagNoteSchema = z.object({
+  id: z.string(),
+  studentId: z.string(),
+  flagKey: z.string(),                  // "ruleId:reportId" plus the subject or exam result id where there is one
+  note: z.string().optional(),
+  acknowledged: z.boolean().default(false),
+  createdBy: z.string().optional(),     // Staff profile id
+  createdByName: z.string(),
+  createdAt: z.string(),
+});
+
+export type WarningFlagNote = z.infer<typeof warningFlagNoteSchema>;
 
 // App Settings Schema
 export const appSettingsSchema = z.object({
@@ -175,15 +302,36 @@ export const appSettingsSchema = z.object({
   values: z.array(z.string()).default([]),
   gradingKey: z.string().default(''),
   companyWritingStyle: z.string().default(''),
-  // AI Provider Settings
+  // AI Provider Settings (API keys are only loaded for admins)
   aiProvider: z.enum(['lovable', 'openai', 'google', 'anthropic']).default('lovable'),
   openaiApiKey: z.string().default(''),
   googleApiKey: z.string().default(''),
   anthropicApiKey: z.string().default(''),
+  earlyWarningRules: earlyWarningRulesSchema,
 });
 
 export type AppSettings = z.infer<typeof appSettingsSchema>;
 
+// Staff Profile Schema (signed-in school staff)
+export const staffRoleSchema = z.enum(['teacher', 'head_of_school', 'admin']);
+
+export type StaffRole = z.infer<typeof staffRoleSchema>;
+
+export const staffProfileSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  fullName: z.string().min(1, 'Name is required'), // Matches Grade.classroomTeacher / teacherAssignments
+  role: staffRoleSchema.default('teacher'),
+});
+
+export type StaffProfile = z.infer<typeof staffProfileSchema>;
+
+export const STAFF_ROLE_LABELS: Record<StaffRole, string> = {
+  teacher: 'Teacher',
+  head_of_school: 'Head of School',
+  admin: 'Admin',
+};
+
 // Student Document Schema (for work samples in reports and general school documents)
 export const studentDocumentSchema = z.object({
   id: z.string(),
@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -12,7 +13,7 @@ serve(async (req) => {
   }
 
   try {
-    const { text, styleGuide, studentName, provider, customApiKey } = await req.json();
+    const { text, styleGuide, studentName } = await req.json();
 
     if (!text) {
       return new Response(JSON.stringify({ error: "Text is required" }), {
@@ -21,6 +22,47 @@ serve(async (req) => {
       });
     }
 
+    // Only signed-in staff may use the school's AI keys. The provider and key
+    // are read here with the service role so they never reach the browser.
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    );
+    const jwt = (req.headers.get('Authorization') ?? '').replace('Bearer ', '');
+    const { data: { user } } = await supabase.auth.getUser(jwt);
+    const { data: staff } = user
+      ? await supabase.from('staff_profiles').select('id').eq('id', user.id).maybeSingle()
+      : { data: null };
+
+    if (!staff) {
+      return new Response(JSON.stringify({ error: "Sign in to use AI rewriting" }), {
+        status: 401,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const [settingsResult, keysResult] = await Promise.all([
+      supabase.from('app_settings').select('ai_provider').maybeSingle(),
+      supabase.from('ai_provider_keys').select('*').maybeSingle(),
+    ]);
+    if (settingsResult.error) throw settingsResult.error;
+    if (keysResult.error) throw keysResult.error;
+
+    const provider = settingsResult.data?.ai_provider ?? 'lovable';
+    const providerKeys: Record<string, string | undefined> = {
+      openai: keysResult.data?.openai_api_key,
+      google: keysResult.data?.google_api_key,
+      anthropic: keysResult.data?.anthropic_api_key,
+    };
+    const customApiKey = providerKeys[provider] || '';
+
+    if (provider !== 'lovable' && !customApiKey) {
+      return new Response(JSON.stringify({ error: `No ${provider} API key is configured. Ask an admin to add it in Settings.` }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     // Build student name instruction if provided
     const studentNameInstruction = studentName 
       ? `\n\nThe student's name is: ${studentName}. Use their name naturally in your rewrite — typically once at the start or mid-sentence, then use pronouns (he/she/they) or implicit subjects for subsequent sentences. NEVER use placeholders like [Student Name] or [Student's Name].`
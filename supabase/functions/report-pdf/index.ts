@@ -0,0 +1,721 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from "https://esm.sh/pdf-lib@1.17.1";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Expose-Headers': 'content-disposition',
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// A4 in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+// TISA colours, matching --tisa-purple and --tisa-blue in the app
+const PURPLE = rgb(0.58, 0.22, 0.58);
+const BLUE = rgb(0.105, 0.268, 0.595);
+const TEXT = rgb(0.1, 0.1, 0.12);
+const MUTED = rgb(0.42, 0.42, 0.47);
+const BORDER = rgb(0.86, 0.86, 0.89);
+const SHADE = rgb(0.96, 0.96, 0.97);
+const STAR = rgb(0.98, 0.8, 0.08);
+const STAR_EMPTY = rgb(0.88, 0.88, 0.9);
+const AMBER_FILL = rgb(1, 0.98, 0.92);
+const AMBER_TEXT = rgb(0.47, 0.21, 0.06);
+
+const STAR_PATH = 'M5 0 L6.18 3.82 L10 3.82 L6.9 6.18 L8.09 10 L5 7.64 L1.91 10 L3.1 6.18 L0 3.82 L3.82 3.82 Z';
+
+const formatDate = (value?: string | null) =>
+  value
+    ? new Date(value).toLocaleDateString('en-GB', { day: '2-digit', month: 'long', year: 'numeric' })
+    : '';
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+  italic: PDFFont;
+  signature: PDFFont;
+}
+
+interface TextOptions {
+  font?: PDFFont;
+  size?: number;
+  color?: ReturnType<typeof rgb>;
+  x?: number;
+  width?: number;
+  align?: 'left' | 'center';
+  lineGap?: number;
+}
+
+// Top-to-bottom page layout with automatic page breaks
+class ReportLayout {
+  page!: PDFPage;
+  y = 0;
+  private characterSets = new Map<PDFFont, Set<number>>();
+
+  constructor(private doc: PDFDocument, readonly fonts: Fonts) {
+    this.addPage();
+  }
+
+  addPage() {
+    this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  ensureSpace(height: number) {
+    if (this.y - height < MARGIN + 20) this.addPage();
+  }
+
+  gap(height: number) {
+    this.y -= height;
+  }
+
+  // The standard PDF fonts only cover Latin-1, so anything else is replaced
+  clean(text: string, font: PDFFont) {
+    let charset = this.characterSets.get(font);
+    if (!charset) {
+      charset = new Set(font.getCharacterSet());
+      this.characterSets.set(font, charset);
+    }
+    return Array.from(text.replace(/\t/g, ' '))
+      .map((char) => (char === '\n' || charset!.has(char.codePointAt(0)!) ? char : '?'))
+      .join('');
+  }
+
+  wrap(text: string, font: PDFFont, size: number, width: number) {
+    const lines: string[] = [];
+    for (const paragraph of this.clean(text, font).split('\n')) {
+      let line = '';
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && font.widthOfTextAtSize(candidate, size) > width) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      }
+      lines.push(line);
+    }
+    return lines;
+  }
+
+  text(value: string, options: TextOptions = {}) {
+    const {
+      font = this.fonts.regular,
+      size = 10,
+      color = TEXT,
+      x = MARGIN,
+      width = CONTENT_WIDTH,
+      align = 'left',
+      lineGap = 3,
+    } = options;
+    const lineHeight = size + lineGap;
+    for (const line of this.wrap(value, font, size, width)) {
+      this.ensureSpace(lineHeight);
+      const offset = align === 'center' ? (width - font.widthOfTextAtSize(line, size)) / 2 : 0;
+      this.page.drawText(line, { x: x + offset, y: this.y - size, size, font, color });
+      this.y -= lineHeight;
+    }
+  }
+
+  // Coloured section heading, like the bars above each block on the shared report
+  banner(title: string, color = BLUE, right?: string) {
+    this.ensureSpace(48);
+    this.page.drawRectangle({ x: MARGIN, y: this.y - 20, width: CONTENT_WIDTH, height: 20, color });
+    this.page.drawText(this.clean(title.toUpperCase(), this.fonts.bold), {
+      x: MARGIN + 8,
+      y: this.y - 14,
+      size: 9.5,
+      font: this.fonts.bold,
+      color: rgb(1, 1, 1),
+    });
+    if (right) {
+      const label = this.clean(right, this.fonts.regular);
+      this.page.drawText(label, {
+        x: MARGIN + CONTENT_WIDTH - 8 - this.fonts.regular.widthOfTextAtSize(label, 9),
+        y: this.y - 14,
+        size: 9,
+        font: this.fonts.regular,
+        color: rgb(1, 1, 1),
+      });
+    }
+    this.y -= 20;
+  }
+
+  // Two-column row with a shaded label cell
+  labelRow(label: string, value: string, labelWidth = 140) {
+    const valueLines = this.wrap(value || '-', this.fonts.regular, 9.5, CONTENT_WIDTH - labelWidth - 16);
+    const height = Math.max(1, valueLines.length) * 12.5 + 8;
+    this.ensureSpace(height);
+    this.page.drawRectangle({ x: MARGIN, y: this.y - height, width: labelWidth, height, color: SHADE });
+    this.page.drawRectangle({
+      x: MARGIN,
+      y: this.y - height,
+      width: CONTENT_WIDTH,
+      height,
+      borderColor: BORDER,
+      borderWidth: 0.5,
+    });
+    this.page.drawText(this.clean(label, this.fonts.bold), {
+      x: MARGIN + 8,
+      y: this.y - 14,
+      size: 9,
+      font: this.fonts.bold,
+      color: MUTED,
+    });
+    valueLines.forEach((line, i) => {
+      this.page.drawText(line, {
+        x: MARGIN + labelWidth + 8,
+        y: this.y - 14 - i * 12.5,
+        size: 9.5,
+        font: this.fonts.regular,
+        color: TEXT,
+      });
+    });
+    this.y -= height;
+  }
+
+  stars(x: number, y: number, count: number, max: number, size = 9) {
+    for (let i = 0; i < max; i++) {
+      this.page.drawSvgPath(STAR_PATH, {
+        x: x + i * (size + 2),
+        y,
+        scale: size / 10,
+        color: i < count ? STAR : STAR_EMPTY,
+      });
+    }
+  }
+}
+
+// Rows as stored in the database (jsonb columns keep the app's camelCase)
+interface ReportRow {
+  id: string;
+  student_id: string;
+  assessment_template_id: string;
+  term: string;
+  report_title: string | null;
+  period_start: string | null;
+  period_end: string | null;
+  entries: { subjectId: string; assessmentPointId: string; stars: number; isNA?: boolean }[];
+  subject_comments: { subjectId: string; teacherComment?: string; aiRewrittenComment?: string; attitudeTowardsLearning?: string }[] | null;
+  general_comment: string | null;
+  exam_results: ExamResultRow[] | null;
+  reflections: ReflectionsRow | null;
+  signatures: Record<string, { name: string; signedAt: string } | undefined> | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface ExamResultRow {
+  term: string;
+  date: string;
+  title: string;
+  subject: string;
+  grade?: string;
+}
+
+interface ReflectionsRow {
+  parentReflection?: string;
+  parentSignedAt?: string;
+  studentReflection?: string;
+  studentSignedAt?: string;
+}
+
+interface StudentRow {
+  first_name: string;
+  last_name: string;
+  name_used: string | null;
+  date_of_birth: string | null;
+  grade_id: string;
+}
+
+interface GradeRow {
+  name: string;
+  classroom_teacher: string | null;
+  teacher_assignments: { subject: string; teacher: string; category: 'core' | 'professional' }[] | null;
+}
+
+interface TemplateRow {
+  subjects: {
+    id: string;
+    name: string;
+    assessmentPoints: { id: string; name: string; maxStars?: number }[];
+  }[];
+}
+
+interface SettingsRow {
+  school_name: string;
+  mission_statement: string;
+  statement: string;
+  vision: string;
+  values: string[];
+  grading_key: string;
+}
+
+interface DocumentRow {
+  id: string;
+  label: string;
+  comment: string | null;
+  file_name: string;
+  file_type: string;
+  file_data: string;
+}
+
+function drawCover(
+  layout: ReportLayout,
+  report: ReportRow,
+  student: StudentRow | null,
+  grade: GradeRow | null,
+  settings: SettingsRow | null
+) {
+  const { page, fonts } = layout;
+
+  page.drawRectangle({ x: 0, y: PAGE_HEIGHT - 230, width: PAGE_WIDTH, height: 230, color: PURPLE });
+  layout.y = PAGE_HEIGHT - 90;
+  layout.text(settings?.school_name || 'TISA', { font: fonts.bold, size: 26, color: rgb(1, 1, 1), align: 'center' });
+  layout.gap(10);
+  layout.text(report.report_title || 'STUDENT PROGRESS REPORT', { font: fonts.bold, size: 14, color: rgb(1, 1, 1), align: 'center' });
+  layout.text(report.term || '', { size: 12, color: rgb(1, 1, 1), align: 'center' });
+  if (report.period_start || report.period_end) {
+    layout.text(`Period: ${report.period_start ?? ''} - ${report.period_end ?? ''}`, { size: 10, color: rgb(1, 1, 1), align: 'center' });
+  }
+
+  layout.y = PAGE_HEIGHT - 290;
+  layout.text(student ? `${student.first_name} ${student.last_name}` : 'Unknown student', { font: fonts.bold, size: 22, align: 'center' });
+  if (grade?.name) {
+    layout.text(grade.name, { size: 13, color: MUTED, align: 'center' });
+  }
+
+  const coverBlock = (title: string, value?: string | null, italic = false) => {
+    if (!value) return;
+    layout.gap(22);
+    layout.text(title.toUpperCase(), { font: fonts.bold, size: 10, color: PURPLE, align: 'center' });
+    layout.gap(4);
+    layout.text(value, { font: italic ? fonts.italic : fonts.regular, size: 10.5, align: 'center', x: MARGIN + 40, width: CONTENT_WIDTH - 80 });
+  };
+
+  layout.gap(20);
+  coverBlock('Mission', settings?.mission_statement, true);
+  coverBlock('Our Statement', settings?.statement);
+  coverBlock('Vision', settings?.vision);
+  if (settings?.values?.length) {
+    coverBlock('Values', settings.values.join('  ·  '));
+  }
+}
+
+function drawStudentInformation(layout: ReportLayout, student: StudentRow | null, grade: GradeRow | null) {
+  layout.banner('Student Information');
+  layout.labelRow('Full Name', student ? `${student.first_name} ${student.last_name}` : '');
+  layout.labelRow('Name Used', student?.name_used ?? '');
+  layout.labelRow('Grade Level', grade?.name ?? '');
+  layout.labelRow(
+    'Date of Birth',
+    student?.date_of_birth
+      ? new Date(student.date_of_birth).toLocaleDateString('en-GB', { day: '2-digit', month: '2-digit', year: 'numeric' })
+      : ''
+  );
+}
+
+function drawTeacherInformation(layout: ReportLayout, grade: GradeRow | null) {
+  const assignments = grade?.teacher_assignments ?? [];
+  if (!grade?.classroom_teacher && assignments.length === 0) return;
+
+  layout.gap(14);
+  layout.banner('Teacher Information');
+  if (grade?.classroom_teacher) {
+    layout.labelRow('Classroom Teacher', grade.classroom_teacher);
+  }
+  for (const [category, label] of [['core', 'Core Programme'], ['professional', 'Prof Tracks']]) {
+    for (const assignment of assignments.filter((a) => a.category === category)) {
+      layout.labelRow(`${label}: ${assignment.subject}`, assignment.teacher, 200);
+    }
+  }
+}
+
+function drawGradingKey(layout: ReportLayout, gradingKey?: string | null) {
+  const { fonts } = layout;
+  const legend: [number, string][] = [[3, 'Mostly'], [2, 'Usually'], [1, 'Rarely']];
+  const extraLines = gradingKey ? layout.wrap(gradingKey, fonts.regular, 9, CONTENT_WIDTH - 20) : [];
+  const height = 26 + extraLines.length * 12;
+
+  layout.gap(14);
+  layout.ensureSpace(height);
+  layout.page.drawRectangle({
+    x: MARGIN,
+    y: layout.y - height,
+    width: CONTENT_WIDTH,
+    height,
+    color: AMBER_FILL,
+    borderColor: rgb(0.99, 0.9, 0.54),
+    borderWidth: 0.75,
+  });
+  let x = MARGIN + 110;
+  layout.page.drawText('Grading Key:', { x: MARGIN + 30, y: layout.y - 17, size: 10, font: fonts.bold, color: AMBER_TEXT });
+  for (const [count, label] of legend) {
+    layout.stars(x, layout.y - 8, count, 3);
+    layout.page.drawText(label, { x: x + 36, y: layout.y - 17, size: 9.5, font: fonts.regular, color: AMBER_TEXT });
+    x += 110;
+  }
+  extraLines.forEach((line, i) => {
+    layout.page.drawText(line, { x: MARGIN + 10, y: layout.y - 34 - i * 12, size: 9, font: fonts.regular, color: AMBER_TEXT });
+  });
+  layout.y -= height;
+}
+
+function drawExamResults(layout: ReportLayout, examResults: ExamResultRow[]) {
+  if (examResults.length === 0) return;
+  const { fonts } = layout;
+  const columns: [string, number][] = [['Date', 70], ['Title', 230], ['Subject', 150], ['Grade', CONTENT_WIDTH - 450]];
+
+  const byTerm = new Map<string, ExamResultRow[]>();
+  for (const result of examResults) {
+    byTerm.set(result.term, [...(byTerm.get(result.term) ?? []), result]);
+  }
+
+  layout.gap(14);
+  layout.banner('Tests and Exams Results', PURPLE);
+  for (const [term, results] of [...byTerm.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+    layout.banner(term);
+    const drawRow = (cells: string[], font: PDFFont, shaded: boolean) => {
+      layout.ensureSpace(18);
+      if (shaded) {
+        layout.page.drawRectangle({ x: MARGIN, y: layout.y - 18, width: CONTENT_WIDTH, height: 18, color: SHADE });
+      }
+      let x = MARGIN;
+      cells.forEach((cell, i) => {
+        const [, width] = columns[i];
+        const [line] = layout.wrap(cell || '-', font, 9, width - 12);
+        layout.page.drawText(line ?? '', { x: x + 8, y: layout.y - 12.5, size: 9, font, color: TEXT });
+        x += width;
+      });
+      layout.y -= 18;
+    };
+    drawRow(columns.map(([label]) => label), fonts.bold, true);
+    results.forEach((result, i) => {
+      drawRow([result.date, result.title, result.subject, result.grade ?? ''], fonts.regular, i % 2 === 1);
+    });
+  }
+}
+
+function drawSubjects(layout: ReportLayout, report: ReportRow, template: TemplateRow | null) {
+  const { fonts } = layout;
+  const entries = report.entries ?? [];
+  const subjectComments = report.subject_comments ?? [];
+
+  for (const subject of template?.subjects ?? []) {
+    const subjectEntries = entries.filter((e) => e.subjectId === subject.id);
+    const comment = subjectComments.find((c) => c.subjectId === subject.id);
+    if (subjectEntries.length === 0 && !comment) continue;
+
+    layout.gap(14);
+    layout.banner(subject.name, BLUE, comment?.attitudeTowardsLearning);
+    for (const entry of subjectEntries) {
+      const point = subject.assessmentPoints.find((p) => p.id === entry.assessmentPointId);
+      if (!point) continue;
+      const nameLines = layout.wrap(point.name, fonts.regular, 9.5, CONTENT_WIDTH - 90);
+      const height = nameLines.length * 12.5 + 8;
+      layout.ensureSpace(height);
+      layout.page.drawRectangle({
+        x: MARGIN,
+        y: layout.y - height,
+        width: CONTENT_WIDTH,
+        height,
+        borderColor: BORDER,
+        borderWidth: 0.5,
+      });
+      nameLines.forEach((line, i) => {
+        layout.page.drawText(line, { x: MARGIN + 8, y: layout.y - 14 - i * 12.5, size: 9.5, font: fonts.regular, color: TEXT });
+      });
+      const maxStars = point.maxStars ?? 3;
+      if (entry.isNA) {
+        layout.page.drawText('N/A', { x: MARGIN + CONTENT_WIDTH - 36, y: layout.y - 14, size: 9.5, font: fonts.bold, color: MUTED });
+      } else {
+        layout.stars(MARGIN + CONTENT_WIDTH - 8 - maxStars * 11, layout.y - 5, entry.stars ?? 0, maxStars);
+      }
+      layout.y -= height;
+    }
+
+    const commentText = comment?.aiRewrittenComment || comment?.teacherComment;
+    if (commentText) {
+      layout.gap(6);
+      layout.text(commentText, { size: 9.5, color: MUTED, x: MARGIN + 8, width: CONTENT_WIDTH - 16 });
+    }
+  }
+}
+
+function decodeDataUrl(dataUrl: string) {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+async function drawWorkSamples(layout: ReportLayout, doc: PDFDocument, documents: DocumentRow[]) {
+  if (documents.length === 0) return;
+  const { fonts } = layout;
+  const cellWidth = (CONTENT_WIDTH - 12) / 2;
+  const maxImageHeight = 170;
+
+  layout.gap(14);
+  layout.banner('Student Work Samples');
+  layout.gap(8);
+
+  let column = 0;
+  let rowHeight = 0;
+  for (const sample of documents) {
+    // Only PNG and JPEG can be embedded; other files are listed by name
+    let image = null;
+    try {
+      if (sample.file_type === 'image/png') image = await doc.embedPng(decodeDataUrl(sample.file_data));
+      if (sample.file_type === 'image/jpeg' || sample.file_type === 'image/jpg') image = await doc.embedJpg(decodeDataUrl(sample.file_data));
+    } catch (error) {
+      console.error(`Could not embed work sample ${sample.id}:`, error);
+    }
+
+    const scaled = image ? image.scaleToFit(cellWidth, maxImageHeight) : null;
+    const captionLines = [
+      ...layout.wrap(image ? sample.label : `${sample.label} (${sample.file_name})`, fonts.bold, 9, cellWidth),
+      ...(sample.comment ? layout.wrap(sample.comment, fonts.regular, 8.5, cellWidth) : []),
+    ];
+    const height = (scaled?.height ?? 0) + captionLines.length * 11 + 10;
+
+    if (column === 0) {
+      layout.ensureSpace(height);
+    } else if (layout.y - height < MARGIN + 20) {
+      layout.y -= rowHeight;
+      column = 0;
+      rowHeight = 0;
+      layout.ensureSpace(height);
+    }
+
+    const x = MARGIN + column * (cellWidth + 12);
+    let y = layout.y;
+    if (image && scaled) {
+      layout.page.drawImage(image, { x, y: y - scaled.height, width: scaled.width, height: scaled.height });
+      y -= scaled.height + 4;
+    }
+    captionLines.forEach((line, i) => {
+      layout.page.drawText(line, {
+        x,
+        y: y - 9 - i * 11,
+        size: i === 0 ? 9 : 8.5,
+        font: i === 0 ? fonts.bold : fonts.regular,
+        color: i === 0 ? TEXT : MUTED,
+      });
+    });
+
+    rowHeight = Math.max(rowHeight, height);
+    column += 1;
+    if (column === 2) {
+      layout.y -= rowHeight;
+      column = 0;
+      rowHeight = 0;
+    }
+  }
+  layout.y -= rowHeight;
+}
+
+function drawReflections(layout: ReportLayout, reflections: ReflectionsRow | null) {
+  if (!reflections?.parentReflection && !reflections?.studentReflection) return;
+
+  layout.gap(14);
+  layout.banner('Reflections', PURPLE);
+  for (const [label, text, savedAt] of [
+    ["Parent's Reflection", reflections.parentReflection, reflections.parentSignedAt],
+    ["Student's Reflection", reflections.studentReflection, reflections.studentSignedAt],
+  ]) {
+    if (!text) continue;
+    layout.gap(8);
+    layout.text(savedAt ? `${label} (${formatDate(savedAt)})` : label, { font: layout.fonts.bold, size: 9.5 });
+    layout.gap(2);
+    layout.text(text, { size: 9.5 });
+  }
+}
+
+function drawSignatures(
+  layout: ReportLayout,
+  signatures: ReportRow['signatures'],
+  grade: GradeRow | null,
+  headOfSchoolName: string
+) {
+  const { fonts } = layout;
+  const columnWidth = CONTENT_WIDTH / 2;
+
+  layout.gap(14);
+  layout.ensureSpace(110);
+  layout.banner('Signatures', PURPLE);
+  const top = layout.y;
+
+  const roles: [string, string, string][] = [
+    ['classroomTeacher', 'Classroom Teacher', grade?.classroom_teacher ?? ''],
+    ['headOfSchool', 'Head of School', headOfSchoolName],
+  ];
+  roles.forEach(([role, title, defaultName], i) => {
+    const signature = signatures?.[role];
+    const x = MARGIN + i * columnWidth;
+    const centered = (text: string, font: PDFFont, size: number, y: number, color = TEXT) => {
+      const clean = layout.clean(text, font);
+      layout.page.drawText(clean, {
+        x: x + (columnWidth - font.widthOfTextAtSize(clean, size)) / 2,
+        y,
+        size,
+        font,
+        color,
+      });
+    };
+
+    if (signature) {
+      centered(signature.name, fonts.signature, 20, top - 38, PURPLE);
+    }
+    layout.page.drawLine({
+      start: { x: x + 30, y: top - 48 },
+      end: { x: x + columnWidth - 30, y: top - 48 },
+      thickness: 0.75,
+      color: MUTED,
+    });
+    centered(signature?.name || defaultName || '_______________', fonts.bold, 9.5, top - 62);
+    centered(title, fonts.regular, 8.5, top - 74, MUTED);
+    if (signature?.signedAt) {
+      centered(`Signed: ${new Date(signature.signedAt).toLocaleDateString('en-GB')}`, fonts.regular, 8.5, top - 86, MUTED);
+    }
+  });
+  layout.y = top - 96;
+}
+
+// School name and page numbers on every page after the cover
+function drawPageFooters(doc: PDFDocument, fonts: Fonts, schoolName: string) {
+  const pages = doc.getPages();
+  pages.forEach((page, i) => {
+    if (i === 0) return;
+    const label = `${schoolName ? `${schoolName}  ·  ` : ''}Page ${i + 1} of ${pages.length}`;
+    page.drawText(label, {
+      x: (PAGE_WIDTH - fonts.regular.widthOfTextAtSize(label, 8)) / 2,
+      y: MARGIN - 16,
+      size: 8,
+      font: fonts.regular,
+      color: PURPLE,
+    });
+  });
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { reportId } = await req.json();
+
+    if (!reportId || typeof reportId !== 'string') {
+      return jsonResponse({ error: "Report id is required" }, 400);
+    }
+
+    // Only signed-in staff may export reports. The data is read with the
+    // service role, so work samples and settings come from one place.
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    );
+    const jwt = (req.headers.get('Authorization') ?? '').replace('Bearer ', '');
+    const { data: { user } } = await supabase.auth.getUser(jwt);
+    const { data: staff } = user
+      ? await supabase.from('staff_profiles').select('id').eq('id', user.id).maybeSingle()
+      : { data: null };
+
+    if (!staff) {
+      return jsonResponse({ error: "Sign in to export reports" }, 401);
+    }
+
+    const { data: report, error: reportError } = await supabase
+      .from('student_reports')
+      .select('*')
+      .eq('id', reportId)
+      .maybeSingle();
+
+    if (reportError) throw reportError;
+    if (!report) {
+      return jsonResponse({ error: "Report not found" }, 404);
+    }
+
+    const [studentResult, templateResult, documentsResult, settingsResult, headResult] = await Promise.all([
+      supabase.from('students').select('*').eq('id', report.student_id).maybeSingle(),
+      supabase.from('assessment_templates').select('*').eq('id', report.assessment_template_id).maybeSingle(),
+      supabase.from('student_documents').select('*').eq('type', 'report').eq('report_id', report.id).order('uploaded_at'),
+      supabase
+        .from('app_settings')
+        .select('school_name, mission_statement, statement, vision, values, grading_key')
+        .maybeSingle(),
+      supabase.from('staff_profiles').select('full_name').eq('role', 'head_of_school').limit(1).maybeSingle(),
+    ]);
+
+    for (const result of [studentResult, templateResult, documentsResult, settingsResult, headResult]) {
+      if (result.error) throw result.error;
+    }
+
+    const student = studentResult.data;
+    const settings = settingsResult.data;
+    let grade = null;
+    if (student) {
+      const { data, error } = await supabase.from('grades').select('*').eq('id', student.grade_id).maybeSingle();
+      if (error) throw error;
+      grade = data;
+    }
+
+    const doc = await PDFDocument.create();
+    doc.setTitle(`${report.report_title || 'Student Progress Report'} - ${student ? `${student.first_name} ${student.last_name}` : ''}`);
+    doc.setAuthor(settings?.school_name || 'TISA');
+    const fonts: Fonts = {
+      regular: await doc.embedFont(StandardFonts.Helvetica),
+      bold: await doc.embedFont(StandardFonts.HelveticaBold),
+      italic: await doc.embedFont(StandardFonts.HelveticaOblique),
+      signature: await doc.embedFont(StandardFonts.TimesRomanItalic),
+    };
+
+    // Same order as the shared report page, after a cover page
+    const layout = new ReportLayout(doc, fonts);
+    drawCover(layout, report, student, grade, settings);
+    layout.addPage();
+    layout.banner(`${report.report_title || 'Student Progress Report'} · ${report.term}`, PURPLE);
+    layout.gap(14);
+    drawStudentInformation(layout, student, grade);
+    drawTeacherInformation(layout, grade);
+    drawGradingKey(layout, settings?.grading_key);
+    drawExamResults(layout, report.exam_results ?? []);
+    drawSubjects(layout, report, templateResult.data);
+    if (report.general_comment) {
+      layout.gap(14);
+      layout.banner('General Comment', PURPLE);
+      layout.gap(6);
+      layout.text(report.general_comment, { size: 9.5, x: MARGIN + 8, width: CONTENT_WIDTH - 16 });
+    }
+    await drawWorkSamples(layout, doc, documentsResult.data ?? []);
+    drawReflections(layout, report.reflections);
+    drawSignatures(layout, report.signatures, grade, headResult.data?.full_name ?? '');
+    layout.gap(10);
+    layout.text(`Report created: ${formatDate(report.created_at)}    Last updated: ${formatDate(report.updated_at)}`, { size: 8, color: MUTED });
+    drawPageFooters(doc, fonts, settings?.school_name ?? '');
+
+    const fileName = student ? `${student.last_name}_${student.first_name}.pdf` : 'report.pdf';
+    return new Response(await doc.save(), {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${fileName.replace(/[^\w.-]+/g, '_')}"`,
+      },
+    });
+
+  } catch (error) {
+    console.error('Error in report-pdf function:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
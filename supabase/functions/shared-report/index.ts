@@ -0,0 +1,140 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Reflection fields a parent or student may write through a share link
+const REFLECTION_FIELDS = ['parentReflection', 'studentReflection'] as const;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action = 'get', token, reflection } = await req.json();
+
+    if (!token || typeof token !== 'string') {
+      return jsonResponse({ error: "Share token is required" }, 400);
+    }
+
+    // Share links are opened by parents without an account, so the lookup
+    // runs with the service role and only ever returns the one report.
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    );
+
+    const { data: link, error: linkError } = await supabase
+      .from('report_share_links')
+      .select('*')
+      .eq('token', token)
+      .maybeSingle();
+
+    if (linkError) throw linkError;
+    if (!link) {
+      return jsonResponse({ status: 'not_found' });
+    }
+    if (link.revoked_at) {
+      return jsonResponse({ status: 'revoked' });
+    }
+    if (link.expires_at && new Date(link.expires_at) <= new Date()) {
+      return jsonResponse({ status: 'expired' });
+    }
+
+    const { data: report, error: reportError } = await supabase
+      .from('student_reports')
+      .select('*')
+      .eq('id', link.report_id)
+      .maybeSingle();
+
+    if (reportError) throw reportError;
+    if (!report) {
+      return jsonResponse({ status: 'not_found' });
+    }
+
+    if (action === 'reflect') {
+      if (link.scope !== 'reflect') {
+        return jsonResponse({ error: "This link is view-only" }, 403);
+      }
+
+      const updates: Record<string, string> = {};
+      const now = new Date().toISOString();
+      for (const field of REFLECTION_FIELDS) {
+        const value = reflection?.[field];
+        if (typeof value === 'string') {
+          updates[field] = value;
+          updates[field === 'parentReflection' ? 'parentSignedAt' : 'studentSignedAt'] = now;
+        }
+      }
+
+      if (Object.keys(updates).length === 0) {
+        return jsonResponse({ error: "No reflection to save" }, 400);
+      }
+
+      const reflections = { ...(report.reflections ?? {}), ...updates };
+      const { error: updateError } = await supabase
+        .from('student_reports')
+        .update({ reflections, updated_at: now })
+        .eq('id', report.id);
+
+      if (updateError) throw updateError;
+      return jsonResponse({ status: 'ok', reflections });
+    }
+
+    if (action !== 'get') {
+      return jsonResponse({ error: `Invalid action: ${action}` }, 400);
+    }
+
+    const [studentResult, templateResult, documentsResult, settingsResult] = await Promise.all([
+      supabase.from('students').select('*').eq('id', report.student_id).maybeSingle(),
+      supabase.from('assessment_templates').select('*').eq('id', report.assessment_template_id).maybeSingle(),
+      supabase.from('student_documents').select('*').eq('type', 'report').eq('report_id', report.id).order('uploaded_at'),
+      // API keys are deliberately left out of the public snapshot
+      supabase
+        .from('app_settings')
+        .select('school_name, mission_statement, statement, vision, values, grading_key')
+        .maybeSingle(),
+    ]);
+
+    for (const result of [studentResult, templateResult, documentsResult, settingsResult]) {
+      if (result.error) throw result.error;
+    }
+
+    const student = studentResult.data;
+    let grade = null;
+    if (student) {
+      const { data, error } = await supabase.from('grades').select('*').eq('id', student.grade_id).maybeSingle();
+      if (error) throw error;
+      grade = data;
+    }
+
+    return jsonResponse({
+      status: 'ok',
+      snapshot: {
+        report,
+        student,
+        template: templateResult.data,
+        grade,
+        settings: settingsResult.data,
+        documents: documentsResult.data ?? [],
+        link: { scope: link.scope, expires_at: link.expires_at },
+      },
+    });
+
+  } catch (error) {
+    console.error('Error in shared-report function:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
@@ -0,0 +1,128 @@
+-- Shared dataset for the assessment app (previously kept per-browser in localStorage)
+
+create table public.school_years (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  start_year integer not null,
+  end_year integer not null,
+  is_active boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create table public.grades (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  description text,
+  color_index smallint not null default 0 check (color_index between 0 and 5),
+  sort_order integer not null default 0,
+  classroom_teacher text,
+  teacher_assignments jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create table public.assessment_templates (
+  id uuid primary key default gen_random_uuid(),
+  grade_id uuid not null references public.grades (id) on delete restrict,
+  school_year_id uuid not null references public.school_years (id) on delete restrict,
+  name text not null,
+  description text,
+  subjects jsonb not null default '[]'::jsonb,
+  intro_text text,
+  static_texts jsonb not null default '[]'::jsonb,
+  is_archived boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create index assessment_templates_school_year_idx on public.assessment_templates (school_year_id);
+
+create table public.students (
+  id uuid primary key default gen_random_uuid(),
+  first_name text not null,
+  last_name text not null,
+  name_used text,
+  date_of_birth timestamptz,
+  grade_id uuid not null references public.grades (id) on delete restrict,
+  school_year_id uuid not null references public.school_years (id) on delete restrict,
+  avatar_url text,
+  gender text check (gender in ('male', 'female')),
+  created_at timestamptz not null default now()
+);
+
+create index students_school_year_idx on public.students (school_year_id);
+
+create table public.student_reports (
+  id uuid primary key default gen_random_uuid(),
+  student_id uuid not null references public.students (id) on delete cascade,
+  assessment_template_id uuid not null references public.assessment_templates (id) on delete restrict,
+  school_year_id uuid not null references public.school_years (id) on delete restrict,
+  term text not null default 'Term 1 & 2',
+  report_title text,
+  period_start text,
+  period_end text,
+  entries jsonb not null default '[]'::jsonb,
+  subject_comments jsonb not null default '[]'::jsonb,
+  general_comment text,
+  status text not null default 'draft' check (status in ('draft', 'completed', 'reviewed')),
+  share_token text unique,
+  shared_at timestamptz,
+  exam_results jsonb not null default '[]'::jsonb,
+  reflections jsonb,
+  signatures jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index student_reports_school_year_idx on public.student_reports (school_year_id);
+create index student_reports_student_idx on public.student_reports (student_id);
+
+-- report_id is intentionally not a foreign key: work samples are uploaded
+-- against a draft report id before the report itself is first saved.
+create table public.student_documents (
+  id uuid primary key default gen_random_uuid(),
+  student_id uuid not null references public.students (id) on delete cascade,
+  type text not null check (type in ('report', 'general')),
+  report_id uuid,
+  label text not null,
+  comment text,
+  file_name text not null,
+  file_type text not null,
+  file_data text not null,
+  uploaded_at timestamptz not null default now()
+);
+
+create index student_documents_student_idx on public.student_documents (student_id);
+create index student_documents_report_idx on public.student_documents (report_id);
+
+-- Single-row table holding school-wide settings
+create table public.app_settings (
+  id smallint primary key default 1 check (id = 1),
+  school_name text not null default '',
+  mission_statement text not null default '',
+  statement text not null default '',
+  vision text not null default '',
+  "values" text[] not null default '{}',
+  grading_key text not null default '',
+  company_writing_style text not null default '',
+  ai_provider text not null default 'lovable' check (ai_provider in ('lovable', 'openai', 'google', 'anthropic')),
+  openai_api_key text not null default '',
+  google_api_key text not null default '',
+  anthropic_api_key text not null default '',
+  updated_at timestamptz not null default now()
+);
+
+-- There is no sign-in yet, so every table is open to the anon key.
+alter table public.school_years enable row level security;
+alter table public.grades enable row level security;
+alter table public.assessment_templates enable row level security;
+alter table public.students enable row level security;
+alter table public.student_reports enable row level security;
+alter table public.student_documents enable row level security;
+alter table public.app_settings enable row level security;
+
+create policy "Allow all access to school_years" on public.school_years for all using (true) with check (true);
+create policy "Allow all access to grades" on public.grades for all using (true) with check (true);
+create policy "Allow all access to assessment_templates" on public.assessment_templates for all using (true) with check (true);
+create policy "Allow all access to students" on public.students for all using (true) with check (true);
+create policy "Allow all access to student_reports" on public.student_reports for all using (true) with check (true);
+create policy "Allow all access to student_documents" on public.student_documents for all using (true) with check (true);
+create policy "Allow all access to app_settings" on public.app_settings for all using (true) with check (true);
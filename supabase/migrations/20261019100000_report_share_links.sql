@@ -0,0 +1,28 @@
+-- Parent-facing share links with expiry, revocation and scope.
+-- Replaces the single never-expiring share_token stored on each report.
+
+create table public.report_share_links (
+  id uuid primary key default gen_random_uuid(),
+  report_id uuid not null references public.student_reports (id) on delete cascade,
+  token text not null unique,
+  scope text not null default 'reflect' check (scope in ('view', 'reflect')),
+  expires_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index report_share_links_report_idx on public.report_share_links (report_id);
+
+-- Keep links that were already sent to families working
+insert into public.report_share_links (report_id, token, scope, created_at)
+select id, share_token, 'reflect', coalesce(shared_at, now())
+from public.student_reports
+where share_token is not null;
+
+alter table public.student_reports
+  drop column share_token,
+  drop column shared_at;
+
+alter table public.report_share_links enable row level security;
+
+create policy "Allow all access to report_share_links" on public.report_share_links for all using (true) with check (true);
@@ -0,0 +1,207 @@
+-- Staff sign-in with roles. Replaces the open "allow all" policies with
+-- role-based access:
+--   teacher        - reads everything, edits reports for the grades they teach
+--   head_of_school - reviews and signs every report, manages students
+--   admin          - manages settings, school years, grades and templates
+
+create table public.staff_profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  email text not null,
+  -- Must match the names used in grades.classroom_teacher / teacher_assignments
+  full_name text not null,
+  role text not null default 'teacher' check (role in ('teacher', 'head_of_school', 'admin')),
+  created_at timestamptz not null default now()
+);
+
+-- Creates a profile for every new auth user. The very first account becomes
+-- the admin so a fresh installation can be set up.
+create or replace function public.handle_new_staff_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.staff_profiles (id, email, full_name, role)
+  values (
+    new.id,
+    coalesce(new.email, ''),
+    coalesce(nullif(new.raw_user_meta_data ->> 'full_name', ''), coalesce(new.email, '')),
+    case when exists (select 1 from public.staff_profiles) then 'teacher' else 'admin' end
+  );
+  return new;
+end;
+$$;
+
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute function public.handle_new_staff_user();
+
+-- AI provider keys move out of app_settings so only admins can read them.
+-- The ai-rewrite edge function reads them with the service role.
+create table public.ai_provider_keys (
+  id smallint primary key default 1 check (id = 1),
+  openai_api_key text not null default '',
+  google_api_key text not null default '',
+  anthropic_api_key text not null default '',
+  updated_at timestamptz not null default now()
+);
+
+insert into public.ai_provider_keys (id, openai_api_key, google_api_key, anthropic_api_key)
+select 1, openai_api_key, google_api_key, anthropic_api_key
+from public.app_settings
+where id = 1;
+
+alter table public.app_settings
+  drop column openai_api_key,
+  drop column google_api_key,
+  drop column anthropic_api_key;
+
+-- Role checks used by the policies below (security definer so they can read
+-- staff_profiles regardless of the caller's own policies)
+create or replace function public.current_staff_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.staff_profiles where id = auth.uid()
+$$;
+
+create or replace function public.teaches_grade(_grade_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.grades g
+    join public.staff_profiles p on p.id = auth.uid()
+    where g.id = _grade_id
+      and (
+        lower(trim(g.classroom_teacher)) = lower(trim(p.full_name))
+        or exists (
+          select 1
+          from jsonb_array_elements(g.teacher_assignments) a
+          where lower(trim(a ->> 'teacher')) = lower(trim(p.full_name))
+        )
+      )
+  )
+$$;
+
+-- Subject-level restrictions are applied in the app; the database only checks
+-- that a teacher teaches in the student's grade.
+create or replace function public.can_edit_student_reports(_student_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(public.current_staff_role() in ('admin', 'head_of_school'), false)
+    or exists (
+      select 1 from public.students s
+      where s.id = _student_id and public.teaches_grade(s.grade_id)
+    )
+$$;
+
+alter table public.staff_profiles enable row level security;
+alter table public.ai_provider_keys enable row level security;
+
+drop policy "Allow all access to school_years" on public.school_years;
+drop policy "Allow all access to grades" on public.grades;
+drop policy "Allow all access to assessment_templates" on public.assessment_templates;
+drop policy "Allow all access to students" on public.students;
+drop policy "Allow all access to student_reports" on public.student_reports;
+drop policy "Allow all access to student_documents" on public.student_documents;
+drop policy "Allow all access to app_settings" on public.app_settings;
+drop policy "Allow all access to report_share_links" on public.report_share_links;
+
+-- Staff profiles
+create policy "Staff can read staff profiles" on public.staff_profiles
+  for select to authenticated using (public.current_staff_role() is not null);
+create policy "Admins can update staff profiles" on public.staff_profiles
+  for update to authenticated
+  using (public.current_staff_role() = 'admin')
+  with check (public.current_staff_role() = 'admin');
+
+-- School setup: readable by all staff, managed by admins
+create policy "Staff can read school_years" on public.school_years
+  for select to authenticated using (public.current_staff_role() is not null);
+create policy "Admins can manage school_years" on public.school_years
+  for all to authenticated
+  using (public.current_staff_role() = 'admin')
+  with check (public.current_staff_role() = 'admin');
+
+create policy "Staff can read grades" on public.grades
+  for select to authenticated using (public.current_staff_role() is not null);
+create policy "Admins can manage grades" on public.grades
+  for all to authenticated
+  using (public.current_staff_role() = 'admin')
+  with check (public.current_staff_role() = 'admin');
+
+create policy "Staff can read assessment_templates" on public.assessment_templates
+  for select to authenticated using (public.current_staff_role() is not null);
+create policy "Admins can manage assessment_templates" on public.assessment_templates
+  for all to authenticated
+  using (public.current_staff_role() = 'admin')
+  with check (public.current_staff_role() = 'admin');
+
+create policy "Staff can read app_settings" on public.app_settings
+  for select to authenticated using (public.current_staff_role() is not null);
+create policy "Admins can manage app_settings" on public.app_settings
+  for all to authenticated
+  using (public.current_staff_role() = 'admin')
+  with check (public.current_staff_role() = 'admin');
+
+create policy "Admins can manage ai_provider_keys" on public.ai_provider_keys
+  for all to authenticated
+  using (public.current_staff_role() = 'admin')
+  with check (public.current_staff_role() = 'admin');
+
+-- Students: managed by admins and the head of school
+create policy "Staff can read students" on public.students
+  for select to authenticated using (public.current_staff_role() is not null);
+create policy "Admins and head of school can manage students" on public.students
+  for all to authenticated
+  using (public.current_staff_role() in ('admin', 'head_of_school'))
+  with check (public.current_staff_role() in ('admin', 'head_of_school'));
+
+-- Reports, work samples and share links: edited by the student's teachers
+create policy "Staff can read student_reports" on public.student_reports
+  for select to authenticated using (public.current_staff_role() is not null);
+create policy "Teachers can insert student_reports" on public.student_reports
+  for insert to authenticated with check (public.can_edit_student_reports(student_id));
+create policy "Teachers can update student_reports" on public.student_reports
+  for update to authenticated
+  using (public.can_edit_student_reports(student_id))
+  with check (public.can_edit_student_reports(student_id));
+create policy "Teachers can delete student_reports" on public.student_reports
+  for delete to authenticated using (public.can_edit_student_reports(student_id));
+
+create policy "Staff can read student_documents" on public.student_documents
+  for select to authenticated using (public.current_staff_role() is not null);
+create policy "Teachers can manage student_documents" on public.student_documents
+  for all to authenticated
+  using (public.can_edit_student_reports(student_id))
+  with check (public.can_edit_student_reports(student_id));
+
+create policy "Staff can read report_share_links" on public.report_share_links
+  for select to authenticated using (public.current_staff_role() is not null);
+create policy "Teachers can manage report_share_links" on public.report_share_links
+  for all to authenticated
+  using (
+    exists (
+      select 1 from public.student_reports r
+      where r.id = report_id and public.can_edit_student_reports(r.student_id)
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.student_reports r
+      where r.id = report_id and public.can_edit_student_reports(r.student_id)
+    )
+  );
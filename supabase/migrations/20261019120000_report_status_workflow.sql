@@ -0,0 +1,74 @@
+-- Report workflow: draft -> completed -> reviewed, with a status history.
+--   draft     -> completed  teacher submits the finished report
+--   completed -> draft      returned for changes (teacher or head of school)
+--   completed -> reviewed   head of school signs off; the report is then locked
+--   reviewed  -> completed  head of school reopens a reviewed report
+
+create table public.report_status_events (
+  id uuid primary key default gen_random_uuid(),
+  report_id uuid not null references public.student_reports (id) on delete cascade,
+  from_status text check (from_status in ('draft', 'completed', 'reviewed')),
+  to_status text not null check (to_status in ('draft', 'completed', 'reviewed')),
+  changed_by uuid references public.staff_profiles (id) on delete set null,
+  -- Kept separately so the history still reads correctly if the account is removed
+  changed_by_name text not null,
+  note text,
+  created_at timestamptz not null default now()
+);
+
+create index report_status_events_report_idx on public.report_status_events (report_id);
+
+create or replace function public.enforce_report_workflow()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  is_reviewer boolean := coalesce(public.current_staff_role() in ('admin', 'head_of_school'), false);
+begin
+  -- Parent reflections are saved by the shared-report edge function with the service role
+  if auth.role() = 'service_role' then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    if new.status = 'reviewed' and not is_reviewer then
+      raise exception 'Only the head of school can mark a report as reviewed';
+    end if;
+    return new;
+  end if;
+
+  if old.status = 'reviewed' and new.status = 'reviewed' then
+    raise exception 'This report has been reviewed and is locked';
+  end if;
+
+  if new.status is distinct from old.status then
+    if (old.status, new.status) in (('draft', 'completed'), ('completed', 'draft')) then
+      -- Anyone allowed to edit the report (checked by row-level security)
+      null;
+    elsif (old.status, new.status) in (('completed', 'reviewed'), ('reviewed', 'completed')) then
+      if not is_reviewer then
+        raise exception 'Only the head of school can review or reopen a report';
+      end if;
+    else
+      raise exception 'A report cannot move from % to %', old.status, new.status;
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger enforce_report_workflow
+  before insert or update on public.student_reports
+  for each row execute function public.enforce_report_workflow();
+
+-- The history is append-only: there are no update or delete policies
+alter table public.report_status_events enable row level security;
+
+create policy "Staff can read report_status_events" on public.report_status_events
+  for select to authenticated using (public.current_staff_role() is not null);
+create policy "Staff can record their own status changes" on public.report_status_events
+  for insert to authenticated
+  with check (public.current_staff_role() is not null and changed_by = auth.uid());
@@ -0,0 +1,96 @@
+-- Signatures are tied to the signed-in staff member and the workflow:
+--   classroomTeacher  signed by the grade's classroom teacher on a completed report
+--   headOfSchool      signed by the head of school; this is what moves a
+--                     completed report to reviewed
+-- Each signature stores signedBy (the staff id) and a contentHash computed by
+-- the app, which is used to show whether the report changed after signing.
+
+create or replace function public.is_classroom_teacher_of(_student_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.students s
+    join public.grades g on g.id = s.grade_id
+    join public.staff_profiles p on p.id = auth.uid()
+    where s.id = _student_id
+      and lower(trim(g.classroom_teacher)) = lower(trim(p.full_name))
+  )
+$$;
+
+create or replace function public.enforce_report_workflow()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  is_reviewer boolean := coalesce(public.current_staff_role() in ('admin', 'head_of_school'), false);
+  old_signatures jsonb := case when tg_op = 'UPDATE' then old.signatures end;
+  teacher_signature jsonb := new.signatures -> 'classroomTeacher';
+  head_signature jsonb := new.signatures -> 'headOfSchool';
+begin
+  -- Parent reflections are saved by the shared-report edge function with the service role
+  if auth.role() = 'service_role' then
+    return new;
+  end if;
+
+  -- New signatures must be made by the signed-in user in the matching role.
+  -- Admins may insert already-signed reports when importing older data.
+  if not (tg_op = 'INSERT' and public.current_staff_role() = 'admin') then
+    if teacher_signature is not null and teacher_signature is distinct from old_signatures -> 'classroomTeacher' then
+      if teacher_signature ->> 'signedBy' is distinct from auth.uid()::text
+        or not public.is_classroom_teacher_of(new.student_id) then
+        raise exception 'Only the classroom teacher can sign as classroom teacher';
+      end if;
+      if new.status <> 'completed' then
+        raise exception 'Only completed reports can be signed';
+      end if;
+    end if;
+
+    if head_signature is not null and head_signature is distinct from old_signatures -> 'headOfSchool' then
+      if head_signature ->> 'signedBy' is distinct from auth.uid()::text
+        or public.current_staff_role() is distinct from 'head_of_school' then
+        raise exception 'Only the head of school can sign as head of school';
+      end if;
+      if teacher_signature is null then
+        raise exception 'The classroom teacher signs before the head of school';
+      end if;
+    end if;
+  end if;
+
+  if tg_op = 'INSERT' then
+    if new.status = 'reviewed' and not is_reviewer then
+      raise exception 'Only the head of school can mark a report as reviewed';
+    end if;
+    return new;
+  end if;
+
+  if old.status = 'reviewed' and new.status = 'reviewed' then
+    raise exception 'This report has been reviewed and is locked';
+  end if;
+
+  if new.status is distinct from old.status then
+    if (old.status, new.status) in (('draft', 'completed'), ('completed', 'draft')) then
+      -- Anyone allowed to edit the report (checked by row-level security)
+      null;
+    elsif (old.status, new.status) = ('completed', 'reviewed') then
+      if head_signature is null or head_signature is not distinct from old_signatures -> 'headOfSchool' then
+        raise exception 'A report is reviewed by the head of school signing it';
+      end if;
+    elsif (old.status, new.status) = ('reviewed', 'completed') then
+      if not is_reviewer then
+        raise exception 'Only the head of school can reopen a report';
+      end if;
+    else
+      raise exception 'A report cannot move from % to %', old.status, new.status;
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
@@ -0,0 +1,26 @@
+-- A teacher assignment can name several teachers ("Ms Carin/Ms Natalia").
+-- Each of them teaches the grade, matching getAssignmentTeachers in the app.
+
+create or replace function public.teaches_grade(_grade_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.grades g
+    join public.staff_profiles p on p.id = auth.uid()
+    where g.id = _grade_id
+      and (
+        lower(trim(g.classroom_teacher)) = lower(trim(p.full_name))
+        or exists (
+          select 1
+          from jsonb_array_elements(g.teacher_assignments) a,
+            regexp_split_to_table(a ->> 'teacher', '[/,&]') as teacher_name
+          where lower(trim(teacher_name)) = lower(trim(p.full_name))
+        )
+      )
+  )
+$$;
@@ -0,0 +1,4 @@
+-- Stream report saves to the Reports page of other signed-in staff.
+-- Row-level security still applies to what each subscriber receives.
+
+alter publication supabase_realtime add table public.student_reports;
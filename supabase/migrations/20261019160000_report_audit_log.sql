@@ -0,0 +1,140 @@
+-- Append-only audit trail of report changes, written by a trigger on
+-- student_reports so every save is recorded, whichever client made it.
+-- Each row is one changed item with its value before and after:
+--   report           report created or deleted
+--   details          term, title and reporting period
+--   entry            one assessment point (item_key "subjectId:assessmentPointId")
+--   subject_comment  one subject's comment and attitude (item_key subjectId)
+--   general_comment, status, signatures, reflections
+--   exam_result      one exam result (item_key its id)
+
+create table public.report_audit_log (
+  id uuid primary key default gen_random_uuid(),
+  -- No foreign key: the trail outlives a deleted report
+  report_id uuid not null,
+  action text not null check (action in ('insert', 'update', 'delete')),
+  field text not null check (
+    field in ('report', 'details', 'entry', 'subject_comment', 'general_comment', 'exam_result', 'status', 'signatures', 'reflections')
+  ),
+  item_key text,
+  old_value jsonb,
+  new_value jsonb,
+  changed_by uuid references public.staff_profiles (id) on delete set null,
+  changed_by_name text not null,
+  changed_at timestamptz not null default now()
+);
+
+create index report_audit_log_report_idx on public.report_audit_log (report_id, changed_at);
+
+-- Drops empty strings, nulls and false flags so a value re-saved by the editor
+-- in a slightly different shape does not count as a change
+create or replace function public.audit_compact(_value jsonb)
+returns jsonb
+language sql
+immutable
+as $$
+  select case
+    when jsonb_typeof(_value) <> 'object' then _value
+    else (
+      select coalesce(jsonb_object_agg(key, value), '{}'::jsonb)
+      from jsonb_each(_value)
+      where value not in ('null'::jsonb, '""'::jsonb, 'false'::jsonb)
+    )
+  end
+$$;
+
+-- Items of a jsonb array keyed for comparison between two versions of a report
+create or replace function public.audit_items(_items jsonb, _field text)
+returns table (item_key text, value jsonb)
+language sql
+immutable
+as $$
+  select
+    case _field
+      when 'entry' then (item ->> 'subjectId') || ':' || (item ->> 'assessmentPointId')
+      when 'subject_comment' then item ->> 'subjectId'
+      else item ->> 'id'
+    end,
+    public.audit_compact(item)
+  from jsonb_array_elements(coalesce(_items, '[]'::jsonb)) as item
+$$;
+
+create or replace function public.log_report_changes()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  actor_id uuid := auth.uid();
+  actor_name text;
+  item_field text;
+begin
+  select full_name into actor_name from public.staff_profiles where id = actor_id;
+  -- Parent reflections arrive through the shared-report edge function
+  actor_name := coalesce(
+    actor_name,
+    case when auth.role() = 'service_role' then 'Shared report link' else 'System' end
+  );
+
+  if tg_op = 'INSERT' then
+    insert into public.report_audit_log (report_id, action, field, new_value, changed_by, changed_by_name)
+    values (new.id, 'insert', 'report', jsonb_build_object('status', new.status, 'term', new.term), actor_id, actor_name);
+    return new;
+  end if;
+
+  if tg_op = 'DELETE' then
+    insert into public.report_audit_log (report_id, action, field, old_value, changed_by, changed_by_name)
+    values (old.id, 'delete', 'report', to_jsonb(old), actor_id, actor_name);
+    return old;
+  end if;
+
+  insert into public.report_audit_log (report_id, action, field, old_value, new_value, changed_by, changed_by_name)
+  select new.id, 'update', changes.field, changes.old_value, changes.new_value, actor_id, actor_name
+  from (
+    values
+      (
+        'details',
+        public.audit_compact(jsonb_build_object(
+          'term', old.term, 'reportTitle', old.report_title, 'periodStart', old.period_start, 'periodEnd', old.period_end
+        )),
+        public.audit_compact(jsonb_build_object(
+          'term', new.term, 'reportTitle', new.report_title, 'periodStart', new.period_start, 'periodEnd', new.period_end
+        ))
+      ),
+      ('general_comment', to_jsonb(nullif(old.general_comment, '')), to_jsonb(nullif(new.general_comment, ''))),
+      ('status', to_jsonb(old.status), to_jsonb(new.status)),
+      ('signatures', old.signatures, new.signatures),
+      ('reflections', old.reflections, new.reflections)
+  ) as changes (field, old_value, new_value)
+  where changes.old_value is distinct from changes.new_value;
+
+  foreach item_field in array array['entry', 'subject_comment', 'exam_result'] loop
+    insert into public.report_audit_log (report_id, action, field, item_key, old_value, new_value, changed_by, changed_by_name)
+    select new.id, 'update', item_field, coalesce(o.item_key, n.item_key), o.value, n.value, actor_id, actor_name
+    from public.audit_items(
+        case item_field when 'entry' then old.entries when 'subject_comment' then old.subject_comments else old.exam_results end,
+        item_field
+      ) as o
+      full join public.audit_items(
+        case item_field when 'entry' then new.entries when 'subject_comment' then new.subject_comments else new.exam_results end,
+        item_field
+      ) as n on o.item_key = n.item_key
+    where o.value is distinct from n.value;
+  end loop;
+
+  return new;
+end;
+$$;
+
+create trigger log_report_changes
+  after insert or update or delete on public.student_reports
+  for each row execute function public.log_report_changes();
+
+-- Only the trigger writes to the trail: no insert, update or delete policies
+alter table public.report_audit_log enable row level security;
+
+create policy "Staff can read report_audit_log" on public.report_audit_log
+  for select to authenticated using (public.current_staff_role() is not null);
+
+revoke insert, update, delete, truncate on public.report_audit_log from anon, authenticated;
@@ -0,0 +1,65 @@
+-- Snapshot of a report after every save that changed its content, so an
+-- accidental change can be compared with earlier versions and undone.
+-- Status, signature and reflection changes alone do not create a version.
+
+create table public.report_versions (
+  id uuid primary key default gen_random_uuid(),
+  report_id uuid not null references public.student_reports (id) on delete cascade,
+  version_number integer not null,
+  -- The whole student_reports row as saved
+  snapshot jsonb not null,
+  saved_by uuid references public.staff_profiles (id) on delete set null,
+  saved_by_name text not null,
+  saved_at timestamptz not null default now(),
+  unique (report_id, version_number)
+);
+
+create or replace function public.snapshot_report_version()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  actor_name text;
+begin
+  if tg_op = 'UPDATE' and (
+    new.term, new.report_title, new.period_start, new.period_end,
+    new.entries, new.subject_comments, new.general_comment, new.exam_results
+  ) is not distinct from (
+    old.term, old.report_title, old.period_start, old.period_end,
+    old.entries, old.subject_comments, old.general_comment, old.exam_results
+  ) then
+    return new;
+  end if;
+
+  select full_name into actor_name from public.staff_profiles where id = auth.uid();
+
+  insert into public.report_versions (report_id, version_number, snapshot, saved_by, saved_by_name)
+  values (
+    new.id,
+    coalesce((select max(version_number) from public.report_versions where report_id = new.id), 0) + 1,
+    to_jsonb(new),
+    auth.uid(),
+    coalesce(actor_name, 'System')
+  );
+  return new;
+end;
+$$;
+
+create trigger snapshot_report_version
+  after insert or update on public.student_reports
+  for each row execute function public.snapshot_report_version();
+
+-- Versions are only written by the trigger; restoring saves the report again
+alter table public.report_versions enable row level security;
+
+create policy "Staff can read report_versions" on public.report_versions
+  for select to authenticated using (public.current_staff_role() is not null);
+
+revoke insert, update, delete, truncate on public.report_versions from anon, authenticated;
+
+-- Reports saved before this migration start with their current content as version 1
+insert into public.report_versions (report_id, version_number, snapshot, saved_by_name, saved_at)
+select id, 1, to_jsonb(r), 'System', updated_at
+from public.student_reports r;
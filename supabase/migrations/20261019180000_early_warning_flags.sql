@@ -0,0 +1,34 @@
+-- Early warnings: school-wide rules that flag students at risk from their
+-- report data. Flags are worked out in the app from the rules and reports;
+-- only the acknowledgements and follow-up notes staff add are stored.
+
+alter table public.app_settings
+  add column early_warning_rules jsonb not null default '{
+    "oneStarShare": { "enabled": true, "percent": 30 },
+    "examGrade": { "enabled": true, "grades": ["D", "F"] },
+    "attitude": { "enabled": true, "attitude": "Emerging", "minSubjects": 2 }
+  }'::jsonb;
+
+create table public.warning_flag_notes (
+  id uuid primary key default gen_random_uuid(),
+  student_id uuid not null references public.students (id) on delete cascade,
+  -- "ruleId:reportId", plus the subject or exam result id for rules that flag one of them
+  flag_key text not null,
+  note text,
+  acknowledged boolean not null default false,
+  created_by uuid references public.staff_profiles (id) on delete set null,
+  -- Kept separately so the notes still read correctly if the account is removed
+  created_by_name text not null,
+  created_at timestamptz not null default now()
+);
+
+create index warning_flag_notes_student_idx on public.warning_flag_notes (student_id);
+
+-- Notes are append-only: there are no update or delete policies
+alter table public.warning_flag_notes enable row level security;
+
+create policy "Staff can read warning_flag_notes" on public.warning_flag_notes
+  for select to authenticated using (public.current_staff_role() is not null);
+create policy "Staff can add their own warning flag notes" on public.warning_flag_notes
+  for insert to authenticated
+  with check (public.current_staff_role() is not null and created_by = auth.uid());
@@ -0,0 +1,10 @@
+-- Year rollover: students are copied into the next school year as new
+-- records pointing back at the previous year's record, so last year's class
+-- lists and reports stay as they were.
+
+alter table public.students
+  add column previous_student_id uuid references public.students (id) on delete set null;
+
+-- A record can only be rolled over once
+create unique index students_previous_student_idx on public.students (previous_student_id)
+  where previous_student_id is not null;
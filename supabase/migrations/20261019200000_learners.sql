@@ -0,0 +1,47 @@
+-- Learners: one row per child, kept across school years. Each students row is
+-- now one year's enrolment of a learner, so reports, documents and progress
+-- can be brought together per child.
+
+create table public.learners (
+  id uuid primary key default gen_random_uuid(),
+  -- The school's own student number; optional until the office assigns one
+  student_number text,
+  created_at timestamptz not null default now()
+);
+
+create unique index learners_student_number_idx on public.learners (lower(trim(student_number)))
+  where student_number is not null;
+
+alter table public.students
+  add column learner_id uuid references public.learners (id);
+
+-- Existing records: students linked by the rollover belong to the same
+-- learner, keyed by the id of their first-year record
+insert into public.learners (id)
+select id from public.students where previous_student_id is null;
+
+with recursive chain as (
+  select id, id as learner_id from public.students where previous_student_id is null
+  union all
+  select s.id, chain.learner_id
+  from public.students s
+  join chain on s.previous_student_id = chain.id
+)
+update public.students s
+set learner_id = chain.learner_id
+from chain
+where s.id = chain.id;
+
+alter table public.students alter column learner_id set not null;
+
+create index students_learner_idx on public.students (learner_id);
+
+-- Learners are managed like students
+alter table public.learners enable row level security;
+
+create policy "Staff can read learners" on public.learners
+  for select to authenticated using (public.current_staff_role() is not null);
+create policy "Admins and head of school can manage learners" on public.learners
+  for all to authenticated
+  using (public.current_staff_role() in ('admin', 'head_of_school'))
+  with check (public.current_staff_role() in ('admin', 'head_of_school'));
@@ -0,0 +1,22 @@
+-- New staff profiles no longer take their name from the user metadata. The
+-- person signing up sets that metadata, and the name decides which grades a
+-- teacher may edit. Profiles start with the email, which matches no teacher,
+-- until an admin sets the name in Settings → Staff.
+
+create or replace function public.handle_new_staff_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.staff_profiles (id, email, full_name, role)
+  values (
+    new.id,
+    coalesce(new.email, ''),
+    coalesce(new.email, ''),
+    case when exists (select 1 from public.staff_profiles) then 'teacher' else 'admin' end
+  );
+  return new;
+end;
+$$;
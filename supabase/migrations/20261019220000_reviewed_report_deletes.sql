@@ -0,0 +1,9 @@
+-- Reviewed reports are locked, so they cannot be deleted either. The head of
+-- school reopens a report first. Deleting a student still removes all of
+-- their reports, since cascades are not subject to row-level security.
+
+drop policy "Teachers can delete student_reports" on public.student_reports;
+
+create policy "Teachers can delete unreviewed student_reports" on public.student_reports
+  for delete to authenticated
+  using (status <> 'reviewed' and public.can_edit_student_reports(student_id));
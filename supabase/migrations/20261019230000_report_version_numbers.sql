@@ -0,0 +1,41 @@
+-- Version numbers are counted per report as max(version_number) + 1. Two saves
+-- of the same report committing at once could both read the same maximum, so
+-- the trigger now locks the report row before counting: saves of one report
+-- take their numbers one after the other, and saves of different reports
+-- don't wait for each other. The unique (report_id, version_number)
+-- constraint from 20261019170000_report_versions still rejects any duplicate.
+
+create or replace function public.snapshot_report_version()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  actor_name text;
+begin
+  if tg_op = 'UPDATE' and (
+    new.term, new.report_title, new.period_start, new.period_end,
+    new.entries, new.subject_comments, new.general_comment, new.exam_results
+  ) is not distinct from (
+    old.term, old.report_title, old.period_start, old.period_end,
+    old.entries, old.subject_comments, old.general_comment, old.exam_results
+  ) then
+    return new;
+  end if;
+
+  perform 1 from public.student_reports where id = new.id for update;
+
+  select full_name into actor_name from public.staff_profiles where id = auth.uid();
+
+  insert into public.report_versions (report_id, version_number, snapshot, saved_by, saved_by_name)
+  values (
+    new.id,
+    coalesce((select max(version_number) from public.report_versions where report_id = new.id), 0) + 1,
+    to_jsonb(new),
+    auth.uid(),
+    coalesce(actor_name, 'System')
+  );
+  return new;
+end;
+$$;